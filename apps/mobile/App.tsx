@@ -10,12 +10,14 @@ import { SafeAreaProvider } from 'react-native-safe-area-context';
 import * as Updates from 'expo-updates';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { BetConfirmationSheet } from './src/components/BetConfirmationSheet';
+import { ParlaySlipSheet } from './src/components/ParlaySlipSheet';
 import { RootNavigator } from './src/navigation/RootNavigator';
 import { lightTheme, darkTheme } from './src/theme';
 import { queryClient } from './src/config/react-query';
 import { useUIStore } from './src/stores/ui.store';
 import { useAuthStore } from '@/stores/auth.store';
 import { databaseService } from './src/services/database.service';
+import { outboxService } from './src/services/outbox.service';
 import { notificationService } from './src/services/notification.service';
 import { analyticsService } from './src/services/analytics.service';
 import { errorTrackingService } from './src/services/error-tracking.service';
@@ -87,6 +89,9 @@ function AppContent() {
         notificationService.initialize(),
       ]);
 
+      // Resend messages left in the outbox by a previous session
+      outboxService.drain().catch((error) => logger.error('Initial outbox drain failed', error));
+
       // Initialize error tracking (synchronous)
       errorTrackingService.initialize();
 
@@ -160,6 +165,7 @@ function AppContent() {
           <ErrorBoundary>
             <RootNavigator />
             <BetConfirmationSheet />
+            <ParlaySlipSheet />
           </ErrorBoundary>
         </GestureHandlerRootView>
       </SafeAreaProvider>
@@ -58,6 +58,53 @@ describe('ChatMessage Component', () => {
     expect(getByText('🎯 Bet Recommendation')).toBeTruthy();
   });
 
+  it('should render every inline bet recommendation', () => {
+    const baseRecommendation = {
+      sport: 'NBA',
+      league: 'NBA',
+      eventDate: new Date().toISOString(),
+      betType: 'Moneyline',
+      oddsFormat: 'american' as const,
+      stake: 20,
+      potentialPayout: 38,
+      reasoning: '',
+      confidence: 0.6,
+      sportsbook: {
+        id: 'fd',
+        name: 'FanDuel',
+        deepLinkScheme: 'fanduel',
+      },
+    };
+
+    const messageWithBets: ChatMessageType = {
+      ...mockMessage,
+      role: 'assistant',
+      metadata: {
+        betRecommendations: [
+          {
+            ...baseRecommendation,
+            id: 'bet-1',
+            event: 'Lakers vs Celtics',
+            selection: 'Lakers',
+            odds: 120,
+          },
+          {
+            ...baseRecommendation,
+            id: 'bet-2',
+            event: 'Knicks vs Heat',
+            selection: 'Heat',
+            odds: -110,
+          },
+        ],
+      },
+    } as ChatMessageType;
+
+    const { getByText, getAllByText } = renderWithTheme(<ChatMessage message={messageWithBets} />);
+    expect(getAllByText('🎯 Bet Recommendation')).toHaveLength(2);
+    expect(getByText('Lakers vs Celtics')).toBeTruthy();
+    expect(getByText('Heat')).toBeTruthy();
+  });
+
   it('should be accessible', () => {
     const { getByLabelText } = renderWithTheme(<ChatMessage message={mockMessage} />);
     expect(getByLabelText(/You said:/)).toBeTruthy();
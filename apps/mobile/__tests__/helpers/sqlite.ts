@@ -0,0 +1,104 @@
+import { TextDecoder as NodeTextDecoder } from 'util';
+import initSqlJs, { type Database, type SqlValue } from 'sql.js';
+
+type BindParams = SqlValue[];
+
+/**
+ * In-memory SQLite exposing the subset of the expo-sqlite async API our services use.
+ * Backed by sql.js so migrations and queries run against a real SQLite engine in Jest.
+ */
+export class InMemorySQLiteDatabase {
+  constructor(private readonly db: Database) {}
+
+  async execAsync(source: string): Promise<void> {
+    this.db.exec(source);
+  }
+
+  async runAsync(
+    source: string,
+    params: BindParams = []
+  ): Promise<{ lastInsertRowId: number; changes: number }> {
+    this.db.run(source, params);
+
+    const lastInsertRowId = this.db.exec('SELECT last_insert_rowid()')[0]?.values[0][0];
+    return { lastInsertRowId: Number(lastInsertRowId ?? 0), changes: this.db.getRowsModified() };
+  }
+
+  async getAllAsync<T>(source: string, params: BindParams = []): Promise<T[]> {
+    const statement = this.db.prepare(source);
+    const rows: T[] = [];
+
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        rows.push(statement.getAsObject() as T);
+      }
+    } finally {
+      statement.free();
+    }
+
+    return rows;
+  }
+
+  async getFirstAsync<T>(source: string, params: BindParams = []): Promise<T | null> {
+    const rows = await this.getAllAsync<T>(source, params);
+    return rows[0] ?? null;
+  }
+
+  async withTransactionAsync(task: () => Promise<void>): Promise<void> {
+    this.db.exec('BEGIN;');
+    try {
+      await task();
+      this.db.exec('COMMIT;');
+    } catch (error) {
+      this.db.exec('ROLLBACK;');
+      throw error;
+    }
+  }
+
+  async closeAsync(): Promise<void> {
+    this.db.close();
+  }
+}
+
+let sqlJs: Awaited<ReturnType<typeof initSqlJs>> | null = null;
+
+const loadSqlJs = async () => {
+  // jest-expo installs a TextDecoder polyfill that can't decode views into wasm memory,
+  // which breaks Emscripten's string handling; give sql.js Node's decoder while it loads
+  const globals = globalThis as { TextDecoder?: unknown };
+  const { TextDecoder } = globals;
+  globals.TextDecoder = NodeTextDecoder;
+
+  try {
+    return await initSqlJs();
+  } finally {
+    globals.TextDecoder = TextDecoder;
+  }
+};
+
+export const createInMemoryDatabase = async (): Promise<InMemorySQLiteDatabase> => {
+  sqlJs = sqlJs ?? (await loadSqlJs());
+  return new InMemorySQLiteDatabase(new sqlJs.Database());
+};
+
+/**
+ * Column and index layout, for checking that an upgraded database matches a fresh install.
+ * Compares structure rather than the stored CREATE text, which differs in whitespace.
+ */
+export const getSchema = async (db: InMemorySQLiteDatabase) => {
+  const columns = await db.getAllAsync(
+    `SELECT m.name AS tableName, p.name, p.type, p."notnull", p.dflt_value, p.pk
+     FROM sqlite_master AS m
+     JOIN pragma_table_info(m.name) AS p
+     WHERE m.type = 'table' AND m.name NOT LIKE 'sqlite_%'
+     ORDER BY m.name, p.cid`
+  );
+  const indexes = await db.getAllAsync(
+    `SELECT name, tbl_name FROM sqlite_master
+     WHERE type = 'index' AND name NOT LIKE 'sqlite_%'
+     ORDER BY name`
+  );
+
+  return { columns, indexes };
+};
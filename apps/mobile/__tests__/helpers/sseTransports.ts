@@ -0,0 +1,318 @@
+import { TextEncoder } from 'util';
+import {
+  fetchTransport,
+  xhrTransport,
+  type SSERequest,
+  type SSETransport,
+  type SSETransportHandlers,
+} from '@/services/sse.transport';
+
+/**
+ * Drives the server side of a transport's requests, so one conformance suite can run
+ * against every transport. Every action settles pending async work before resolving.
+ */
+export interface TransportHarness {
+  transport: SSETransport;
+  /** Requests opened so far, oldest first */
+  requests: () => SSERequest[];
+  /** Whether the client aborted the latest request */
+  isAborted: () => boolean;
+  /** Answer the latest request with response headers */
+  respond: (status?: number) => Promise<void>;
+  /** Stream body text on the latest request */
+  send: (text: string) => Promise<void>;
+  /** End the latest response */
+  end: () => Promise<void>;
+  /** Fail the latest request at the network level */
+  fail: () => Promise<void>;
+  restore: () => void;
+}
+
+/** Let promise chains inside transports run to completion */
+export const settle = async () => {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+};
+
+const abortError = () => Object.assign(new Error('Aborted'), { name: 'AbortError' });
+
+interface TestRequest extends SSERequest {
+  handlers: SSETransportHandlers;
+  aborted: boolean;
+  finished: boolean;
+}
+
+/**
+ * A transport that talks to no network; tests play the server through the harness
+ */
+export const createTestTransport = (): TransportHarness => {
+  const requests: TestRequest[] = [];
+  const latest = () => requests[requests.length - 1];
+  const live = () => (latest() && !latest().aborted && !latest().finished ? latest() : null);
+
+  return {
+    transport: {
+      open: (request, handlers) => {
+        const entry: TestRequest = { ...request, handlers, aborted: false, finished: false };
+        requests.push(entry);
+        return () => {
+          entry.aborted = true;
+        };
+      },
+    },
+    requests: () => requests.map(({ url, headers }) => ({ url, headers })),
+    isAborted: () => latest()?.aborted ?? false,
+    respond: async (status = 200) => {
+      const request = live();
+      if (!request) return;
+      if (status >= 200 && status < 300) {
+        request.handlers.onOpen();
+      } else {
+        request.finished = true;
+        request.handlers.onError(new Error(`HTTP ${status}`), status);
+      }
+      await settle();
+    },
+    send: async (text) => {
+      live()?.handlers.onData(text);
+      await settle();
+    },
+    end: async () => {
+      const request = live();
+      if (!request) return;
+      request.finished = true;
+      request.handlers.onClose('ended');
+      await settle();
+    },
+    fail: async () => {
+      const request = live();
+      if (!request) return;
+      request.finished = true;
+      request.handlers.onError(new Error('Network request failed'));
+      await settle();
+    },
+    restore: () => {},
+  };
+};
+
+/**
+ * XMLHttpRequest as React Native implements it, including the DONE state change that
+ * `abort()` fires
+ */
+class FakeXMLHttpRequest {
+  static readonly UNSENT = 0;
+  static readonly OPENED = 1;
+  static readonly HEADERS_RECEIVED = 2;
+  static readonly LOADING = 3;
+  static readonly DONE = 4;
+  static instances: FakeXMLHttpRequest[] = [];
+
+  readyState = FakeXMLHttpRequest.UNSENT;
+  status = 0;
+  responseText = '';
+  url = '';
+  headers: Record<string, string> = {};
+  aborted = false;
+  onreadystatechange: (() => void) | null = null;
+  onerror: ((error: unknown) => void) | null = null;
+  ontimeout: (() => void) | null = null;
+
+  open(_method: string, url: string) {
+    this.url = url;
+    this.readyState = FakeXMLHttpRequest.OPENED;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.headers[name] = value;
+  }
+
+  send() {
+    FakeXMLHttpRequest.instances.push(this);
+  }
+
+  abort() {
+    this.aborted = true;
+    if (this.readyState > FakeXMLHttpRequest.UNSENT && this.readyState < FakeXMLHttpRequest.DONE) {
+      this.status = 0;
+      this.setReadyState(FakeXMLHttpRequest.DONE);
+    }
+  }
+
+  setReadyState(readyState: number) {
+    this.readyState = readyState;
+    this.onreadystatechange?.();
+  }
+}
+
+export const createXhrHarness = (): TransportHarness => {
+  const original = global.XMLHttpRequest;
+  FakeXMLHttpRequest.instances = [];
+  global.XMLHttpRequest = FakeXMLHttpRequest as unknown as typeof XMLHttpRequest;
+
+  const latest = () => FakeXMLHttpRequest.instances[FakeXMLHttpRequest.instances.length - 1];
+  const live = () => {
+    const xhr = latest();
+    return xhr && !xhr.aborted && xhr.readyState !== FakeXMLHttpRequest.DONE ? xhr : null;
+  };
+
+  return {
+    transport: xhrTransport,
+    requests: () =>
+      FakeXMLHttpRequest.instances.map(({ url, headers }) => ({ url, headers: { ...headers } })),
+    isAborted: () => latest()?.aborted ?? false,
+    respond: async (status = 200) => {
+      const xhr = live();
+      if (!xhr) return;
+      xhr.status = status;
+      xhr.setReadyState(FakeXMLHttpRequest.HEADERS_RECEIVED);
+      await settle();
+    },
+    send: async (text) => {
+      const xhr = live();
+      if (!xhr) return;
+      xhr.responseText += text;
+      xhr.setReadyState(FakeXMLHttpRequest.LOADING);
+      await settle();
+    },
+    end: async () => {
+      live()?.setReadyState(FakeXMLHttpRequest.DONE);
+      await settle();
+    },
+    fail: async () => {
+      const xhr = live();
+      if (!xhr) return;
+      xhr.onerror?.(new Error('Network request failed'));
+      xhr.status = 0;
+      xhr.setReadyState(FakeXMLHttpRequest.DONE);
+      await settle();
+    },
+    restore: () => {
+      global.XMLHttpRequest = original;
+    },
+  };
+};
+
+interface FakeFetchRequest extends SSERequest {
+  aborted: boolean;
+  finished: boolean;
+  resolve: (response: unknown) => void;
+  reject: (error: Error) => void;
+  /** Reads waiting for body data */
+  reads: Array<{ resolve: (result: unknown) => void; reject: (error: Error) => void }>;
+  /** Body data waiting for reads */
+  queued: Array<{ done: boolean; value?: Uint8Array }>;
+  responded: boolean;
+}
+
+/**
+ * `fetch` with a streaming response body, as in runtimes that support ReadableStream
+ */
+export const createFetchHarness = (): TransportHarness => {
+  const originalFetch = global.fetch;
+  const requests: FakeFetchRequest[] = [];
+  const encoder = new TextEncoder();
+
+  global.fetch = ((url: string, init: RequestInit) =>
+    new Promise((resolve, reject) => {
+      const request: FakeFetchRequest = {
+        url,
+        headers: { ...(init.headers as Record<string, string>) },
+        aborted: false,
+        finished: false,
+        resolve,
+        reject,
+        reads: [],
+        queued: [],
+        responded: false,
+      };
+      requests.push(request);
+
+      init.signal?.addEventListener('abort', () => {
+        request.aborted = true;
+        if (!request.responded) request.reject(abortError());
+        request.reads.splice(0).forEach((read) => read.reject(abortError()));
+      });
+    })) as unknown as typeof fetch;
+
+  const latest = () => requests[requests.length - 1];
+  const live = () => (latest() && !latest().aborted && !latest().finished ? latest() : null);
+
+  const push = (request: FakeFetchRequest, result: { done: boolean; value?: Uint8Array }) => {
+    const read = request.reads.shift();
+    if (read) {
+      read.resolve(result);
+    } else {
+      request.queued.push(result);
+    }
+  };
+
+  return {
+    transport: fetchTransport,
+    requests: () => requests.map(({ url, headers }) => ({ url, headers })),
+    isAborted: () => latest()?.aborted ?? false,
+    respond: async (status = 200) => {
+      const request = live();
+      if (!request) return;
+      request.responded = true;
+      request.resolve({
+        ok: status >= 200 && status < 300,
+        status,
+        body: {
+          getReader: () => ({
+            read: () =>
+              new Promise((resolve, reject) => {
+                if (request.aborted) {
+                  reject(abortError());
+                  return;
+                }
+                const queued = request.queued.shift();
+                if (queued) {
+                  resolve(queued);
+                } else {
+                  request.reads.push({ resolve, reject });
+                }
+              }),
+            releaseLock: () => {},
+          }),
+        },
+      });
+      await settle();
+    },
+    send: async (text) => {
+      const request = live();
+      if (!request) return;
+      push(request, { done: false, value: encoder.encode(text) });
+      await settle();
+    },
+    end: async () => {
+      const request = live();
+      if (!request) return;
+      request.finished = true;
+      push(request, { done: true });
+      await settle();
+    },
+    fail: async () => {
+      const request = live();
+      if (!request) return;
+      request.finished = true;
+      const error = new TypeError('Network request failed');
+      if (request.responded) {
+        request.reads.splice(0).forEach((read) => read.reject(error));
+      } else {
+        request.reject(error);
+      }
+      await settle();
+    },
+    restore: () => {
+      global.fetch = originalFetch;
+    },
+  };
+};
+
+/** Every transport the client ships with, plus the test double, by name */
+export const transportHarnesses: Array<[string, () => TransportHarness]> = [
+  ['test double', createTestTransport],
+  ['XMLHttpRequest', createXhrHarness],
+  ['fetch', createFetchHarness],
+];
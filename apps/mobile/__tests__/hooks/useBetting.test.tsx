@@ -0,0 +1,263 @@
+import { act, renderHook } from '@testing-library/react-native';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import React from 'react';
+import { Linking } from 'react-native';
+import { bettingApi } from '@/api/endpoints';
+import { SPORTSBOOKS, toSportsbook } from '@/config/sportsbooks';
+import { useConfirmBet, useConfirmParlay, useSyncBetHistory } from '@/hooks/useBetting';
+import { databaseService } from '@/services/database.service';
+import type { BetRecommendation } from '@/types/bet';
+
+// uuid resolves to its ESM build under jest-expo
+jest.mock('uuid', () => ({
+  v4: () => 'local-id',
+}));
+
+jest.mock('@/api/endpoints', () => ({
+  bettingApi: {
+    getBetRecommendation: jest.fn(),
+    confirmBet: jest.fn(),
+    confirmParlay: jest.fn(),
+    getBetHistory: jest.fn(),
+    getBetSettlements: jest.fn(async () => []),
+  },
+}));
+
+jest.mock('@/services/database.service', () => ({
+  databaseService: {
+    getBetStakesSince: jest.fn(async () => []),
+    saveBetConfirmations: jest.fn(),
+    saveParlayConfirmation: jest.fn(),
+    getLatestBetConfirmedAt: jest.fn(async () => null),
+    getLatestBetSettledAt: jest.fn(async () => null),
+    getBetLedgerEntry: jest.fn(async () => null),
+    saveBetSettlements: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/analytics.service', () => ({
+  analyticsService: {
+    trackBetConfirmed: jest.fn(),
+    trackBetBlocked: jest.fn(),
+    trackSportsbookRedirect: jest.fn(),
+  },
+}));
+
+jest.mock('@/services/location.service', () => ({
+  locationService: { getLastKnownLocation: () => null },
+}));
+
+jest.mock('@/stores/responsibleGambling.store', () => ({
+  loadResponsibleGamblingSettings: async () => ({
+    stakeLimits: { daily: null, weekly: null, monthly: null },
+    limitCurrency: 'USD',
+    pendingLimitChanges: {},
+    coolOffUntil: null,
+    selfExcludedUntil: null,
+  }),
+}));
+
+const recommendation = (overrides: Partial<BetRecommendation> = {}): BetRecommendation =>
+  ({
+    id: 'rec-1',
+    sport: 'NBA',
+    league: 'NBA',
+    event: 'Lakers @ Celtics',
+    eventDate: '2025-01-10T00:00:00.000Z',
+    betType: 'moneyline',
+    selection: 'Lakers ML',
+    odds: -110,
+    oddsFormat: 'american',
+    stake: 25,
+    potentialPayout: 47.73,
+    currency: 'USD',
+    sportsbook: toSportsbook(SPORTSBOOKS.draftkings),
+    reasoning: '',
+    confidence: 0.6,
+    ...overrides,
+  }) as BetRecommendation;
+
+// Cached mutations are never collected, so no garbage collection timer outlives the tests
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: { retry: false },
+    mutations: { retry: false, gcTime: Infinity },
+  },
+});
+
+const wrapper = ({ children }: { children: React.ReactNode }) => (
+  <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+);
+
+const confirmation = {
+  betRecommendationId: 'rec-1',
+  userId: 'user-1',
+  chatId: 'chat-1',
+  messageId: 'message-1',
+  redirectedToSportsbook: true,
+};
+
+describe('useBetting confirmations', () => {
+  let openURL: jest.SpyInstance;
+
+  beforeEach(() => {
+    openURL = jest.spyOn(Linking, 'openURL').mockResolvedValue(true);
+    (bettingApi.getBetRecommendation as jest.Mock).mockResolvedValue(recommendation());
+    (bettingApi.confirmBet as jest.Mock).mockImplementation(async (data: object) => ({
+      ...data,
+      confirmedAt: '2025-01-10T12:00:00.000Z',
+    }));
+    (bettingApi.confirmParlay as jest.Mock).mockImplementation(async (data: object) => ({
+      ...data,
+      id: 'parlay-1',
+      confirmedAt: '2025-01-10T12:00:00.000Z',
+    }));
+  });
+
+  afterEach(() => {
+    queryClient.clear();
+    jest.restoreAllMocks();
+    jest.clearAllMocks();
+  });
+
+  it('should open the first sportsbook link that works', async () => {
+    openURL.mockRejectedValueOnce(new Error('No app'));
+    const { result } = renderHook(() => useConfirmBet(), { wrapper });
+
+    let outcome: Awaited<ReturnType<typeof result.current.mutateAsync>> | undefined;
+    await act(async () => {
+      outcome = await result.current.mutateAsync(confirmation);
+    });
+
+    expect(outcome?.opened).toBe(true);
+    expect(openURL).toHaveBeenCalledTimes(2);
+    expect(openURL.mock.calls[0][0]).toMatch(/^draftkings:\/\//);
+    expect(openURL.mock.calls[1][0]).toMatch(/^https:\/\/sportsbook\.draftkings\.com\/betslip/);
+  });
+
+  it('should send and record the stake, sportsbook and price the user chose', async () => {
+    const fanduel = toSportsbook(SPORTSBOOKS.fanduel);
+    const { result } = renderHook(() => useConfirmBet(), { wrapper });
+
+    await act(async () => {
+      await result.current.mutateAsync({
+        ...confirmation,
+        stake: 40,
+        sportsbook: fanduel,
+        price: { odds: 2.1, oddsFormat: 'decimal' },
+      });
+    });
+
+    const placed = {
+      stake: 40,
+      sportsbook: fanduel,
+      odds: 2.1,
+      oddsFormat: 'decimal',
+      potentialPayout: 84,
+    };
+    expect(bettingApi.confirmBet).toHaveBeenCalledWith({ ...confirmation, ...placed });
+    expect(databaseService.saveBetConfirmations).toHaveBeenCalledWith([
+      expect.objectContaining({ recommendation: expect.objectContaining(placed) }),
+    ]);
+  });
+
+  it('should report a recorded bet whose sportsbook could not be opened', async () => {
+    openURL.mockRejectedValue(new Error('No app'));
+    const { result } = renderHook(() => useConfirmBet(), { wrapper });
+
+    let outcome: Awaited<ReturnType<typeof result.current.mutateAsync>> | undefined;
+    await act(async () => {
+      outcome = await result.current.mutateAsync(confirmation);
+    });
+
+    expect(openURL).toHaveBeenCalledTimes(3);
+    expect(openURL.mock.calls[2][0]).toMatch(/^https:\/\/apps\.apple\.com\//);
+    expect(outcome?.opened).toBe(false);
+    expect(result.current.isError).toBe(false);
+    expect(databaseService.saveBetConfirmations).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report a recorded parlay whose sportsbook could not be opened', async () => {
+    openURL.mockRejectedValue(new Error('No app'));
+    const { result } = renderHook(() => useConfirmParlay(), { wrapper });
+
+    let outcome: Awaited<ReturnType<typeof result.current.mutateAsync>> | undefined;
+    await act(async () => {
+      outcome = await result.current.mutateAsync({
+        legs: [recommendation(), recommendation({ id: 'rec-2', selection: 'Celtics -3.5' })],
+        stake: 10,
+        userId: 'user-1',
+      });
+    });
+
+    expect(openURL).toHaveBeenCalledTimes(3);
+    expect(outcome?.opened).toBe(false);
+    expect(databaseService.saveParlayConfirmation).toHaveBeenCalledTimes(1);
+  });
+
+  it("should send each parlay leg's price", async () => {
+    const { result } = renderHook(() => useConfirmParlay(), { wrapper });
+
+    await act(async () => {
+      await result.current.mutateAsync({
+        legs: [recommendation(), recommendation({ id: 'rec-2', odds: 2.5, oddsFormat: 'decimal' })],
+        stake: 10,
+        userId: 'user-1',
+      });
+    });
+
+    expect(bettingApi.confirmParlay).toHaveBeenCalledWith(
+      expect.objectContaining({
+        legRecommendationIds: ['rec-1', 'rec-2'],
+        legPrices: [
+          { odds: -110, oddsFormat: 'american' },
+          { odds: 2.5, oddsFormat: 'decimal' },
+        ],
+      })
+    );
+  });
+});
+
+describe('useSyncBetHistory', () => {
+  afterEach(() => {
+    queryClient.clear();
+    jest.clearAllMocks();
+  });
+
+  it('should record synced bets at the terms the API placed them at', async () => {
+    const fanduel = toSportsbook(SPORTSBOOKS.fanduel);
+    (bettingApi.getBetRecommendation as jest.Mock).mockResolvedValue(recommendation());
+    (bettingApi.getBetHistory as jest.Mock).mockResolvedValue([
+      {
+        ...confirmation,
+        confirmedAt: '2025-01-10T12:00:00.000Z',
+        stake: 40,
+        sportsbook: fanduel,
+        odds: 2.1,
+        oddsFormat: 'decimal',
+        potentialPayout: 84,
+      },
+      {
+        ...confirmation,
+        betRecommendationId: 'rec-2',
+        confirmedAt: '2025-01-09T12:00:00.000Z',
+      },
+    ]);
+    const { result } = renderHook(() => useSyncBetHistory(), { wrapper });
+
+    await act(async () => {
+      await result.current.mutateAsync('user-1');
+    });
+
+    const [entries] = (databaseService.saveBetConfirmations as jest.Mock).mock.calls[0];
+    expect(entries[0].recommendation).toMatchObject({
+      stake: 40,
+      sportsbook: fanduel,
+      odds: 2.1,
+      oddsFormat: 'decimal',
+      potentialPayout: 84,
+    });
+    // Bets confirmed before their terms were sent keep the recommendation's
+    expect(entries[1].recommendation).toEqual(recommendation());
+  });
+});
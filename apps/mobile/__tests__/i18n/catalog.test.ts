@@ -0,0 +1,225 @@
+import fs from 'fs';
+import path from 'path';
+import ts from 'typescript';
+import { CATALOGS, resolveLanguage, translate, type TranslationKey } from '@/i18n';
+
+const ROOT = path.resolve(__dirname, '../..');
+
+/** Directories whose copy must come from the catalogs */
+const SCREEN_DIRECTORIES = ['app', 'src/components', 'src/screens'];
+
+/** Files whose copy stays out of the catalogs, with the reason they are exempt */
+const EXEMPT_FILES: Record<string, string> = {
+  'src/screens/PrivacyPolicyScreen.tsx': 'legal text; translations need legal review',
+  'src/screens/TermsOfServiceScreen.tsx': 'legal text; translations need legal review',
+  'src/screens/AuthScreen.tsx': 'legacy React Navigation screen, not mounted by the router',
+  'src/screens/HomeScreen.tsx': 'legacy React Navigation screen, not mounted by the router',
+  'src/components/ChatSSEComponent.tsx': 'debug component, not rendered anywhere',
+};
+
+const listSourceFiles = (directory: string): string[] =>
+  fs
+    .readdirSync(path.join(ROOT, directory), { withFileTypes: true })
+    .flatMap((entry) => {
+      const file = `${directory}/${entry.name}`;
+      if (entry.isDirectory()) return listSourceFiles(file);
+      return /\.tsx?$/.test(entry.name) ? [file] : [];
+    })
+    .sort();
+
+const SCREEN_FILES = SCREEN_DIRECTORIES.flatMap(listSourceFiles).filter(
+  (file) => !(file in EXEMPT_FILES)
+);
+
+/** JSX props that end up on screen or in a screen reader */
+const USER_FACING_PROPS = new Set([
+  'title',
+  'description',
+  'label',
+  'text',
+  'placeholder',
+  'accessibilityLabel',
+  'accessibilityHint',
+]);
+
+/** Calls whose string arguments are shown to the user */
+const USER_FACING_CALLS = new Set(['Alert.alert', 'setError']);
+
+const hasWords = (text: string) => /[A-Za-z]{2,}/.test(text);
+
+const parse = (file: string) =>
+  ts.createSourceFile(
+    file,
+    fs.readFileSync(path.join(ROOT, file), 'utf8'),
+    ts.ScriptTarget.Latest,
+    true,
+    ts.ScriptKind.TSX
+  );
+
+const isStringLike = (node: ts.Node): node is ts.StringLiteral | ts.NoSubstitutionTemplateLiteral =>
+  ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node);
+
+const templateHasWords = (node: ts.TemplateExpression) =>
+  hasWords([node.head.text, ...node.templateSpans.map((span) => span.literal.text)].join(' '));
+
+/**
+ * Copy in an expression: string literals and template text, skipping `t(...)` calls and
+ * object properties that aren't user facing, like an Alert button's `style`
+ */
+const findLiterals = (node: ts.Node, found: ts.Node[] = []): ts.Node[] => {
+  if (ts.isCallExpression(node) && node.expression.getText() === 't') return found;
+  if (ts.isPropertyAssignment(node) && !USER_FACING_PROPS.has(node.name.getText())) return found;
+  if (ts.isTemplateExpression(node)) {
+    if (templateHasWords(node)) found.push(node);
+    return found;
+  }
+  if (isStringLike(node) && hasWords(node.text)) {
+    found.push(node);
+    return found;
+  }
+  node.forEachChild((child) => {
+    findLiterals(child, found);
+  });
+  return found;
+};
+
+const findHardCodedStrings = (file: string): string[] => {
+  const source = parse(file);
+  const problems: string[] = [];
+  const report = (node: ts.Node) => {
+    const { line } = source.getLineAndCharacterOfPosition(node.getStart());
+    problems.push(`${file}:${line + 1} ${node.getText().trim()}`);
+  };
+
+  const visit = (node: ts.Node) => {
+    if (ts.isCallExpression(node) && node.expression.getText() === 'StyleSheet.create') return;
+
+    if (ts.isJsxText(node) && hasWords(node.text)) {
+      report(node);
+    } else if (
+      ts.isJsxAttribute(node) &&
+      USER_FACING_PROPS.has(node.name.getText()) &&
+      node.initializer
+    ) {
+      findLiterals(node.initializer).forEach(report);
+    } else if (ts.isCallExpression(node) && USER_FACING_CALLS.has(node.expression.getText())) {
+      node.arguments.forEach((argument) => findLiterals(argument).forEach(report));
+    } else if (ts.isPropertyAssignment(node) && USER_FACING_PROPS.has(node.name.getText())) {
+      findLiterals(node.initializer).forEach(report);
+    }
+    node.forEachChild(visit);
+  };
+
+  visit(source);
+  return problems;
+};
+
+/** Keys passed to `t('...')`, `i18nKey="..."` or held in `...Key` properties */
+const findUsedKeys = (file: string): string[] => {
+  const keys: string[] = [];
+  const visit = (node: ts.Node) => {
+    if (
+      ts.isCallExpression(node) &&
+      node.expression.getText() === 't' &&
+      node.arguments[0] &&
+      isStringLike(node.arguments[0])
+    ) {
+      keys.push(node.arguments[0].text);
+    } else if (
+      ts.isJsxAttribute(node) &&
+      node.name.getText() === 'i18nKey' &&
+      node.initializer &&
+      ts.isStringLiteral(node.initializer)
+    ) {
+      keys.push(node.initializer.text);
+    } else if (
+      ts.isPropertyAssignment(node) &&
+      /Key$/.test(node.name.getText()) &&
+      isStringLike(node.initializer)
+    ) {
+      keys.push(node.initializer.text);
+    }
+    node.forEachChild(visit);
+  };
+  visit(parse(file));
+  return keys;
+};
+
+/** Every message in a catalog by dotted key */
+const flatten = (node: object, prefix = ''): Record<string, string> =>
+  Object.entries(node).reduce<Record<string, string>>((messages, [key, value]) => {
+    const dotted = `${prefix}${key}`;
+    if (typeof value === 'string') return { ...messages, [dotted]: value };
+    return { ...messages, ...flatten(value as object, `${dotted}.`) };
+  }, {});
+
+/** Placeholders and tags a translation must keep */
+const tokensOf = (message: string) =>
+  (message.match(/\{\{\s*\w+\s*\}\}|<\/?\w+>/g) ?? [])
+    .map((token) => token.replace(/\s/g, ''))
+    .sort();
+
+describe('i18n catalogs', () => {
+  it.each(SCREEN_FILES)('should not hard-code copy in %s', (file) => {
+    expect(findHardCodedStrings(file)).toEqual([]);
+  });
+
+  it('should only exempt files that exist', () => {
+    const files = SCREEN_DIRECTORIES.flatMap(listSourceFiles);
+
+    expect(Object.keys(EXEMPT_FILES).filter((file) => !files.includes(file))).toEqual([]);
+  });
+
+  it('should define every key the screens use', () => {
+    const messages = flatten(CATALOGS.en);
+    const missing = SCREEN_FILES.flatMap((file) =>
+      findUsedKeys(file)
+        .filter(
+          (key) =>
+            !Object.keys(messages).some((known) => known === key || known.startsWith(`${key}.`))
+        )
+        .map((key) => `${file}: ${key}`)
+    );
+
+    expect(missing).toEqual([]);
+  });
+
+  it('should translate every English message with the same placeholders', () => {
+    const english = flatten(CATALOGS.en);
+
+    Object.values(CATALOGS).forEach((catalog) => {
+      const messages = flatten(catalog);
+      expect(Object.keys(messages).sort()).toEqual(Object.keys(english).sort());
+      Object.entries(english).forEach(([key, message]) => {
+        expect([key, tokensOf(messages[key])]).toEqual([key, tokensOf(message)]);
+      });
+    });
+  });
+});
+
+describe('translate', () => {
+  it('should fill placeholders', () => {
+    expect(translate('en', 'signup.step', { step: 1, total: 2, title: 'Set up' })).toBe(
+      'Step 1 of 2: Set up'
+    );
+    expect(translate('es', 'settings.loggedInAs', { name: 'Sam' })).toBe(
+      'Sesión iniciada como Sam'
+    );
+  });
+
+  it('should pick the plural form for the count', () => {
+    expect(translate('en', 'chat.messages', { count: 1 })).toBe('1 chat message');
+    expect(translate('en', 'chat.messages', { count: 3 })).toBe('3 chat messages');
+    expect(translate('es', 'chat.messages', { count: 0 })).toBe('0 mensajes del chat');
+  });
+
+  it('should fall back to the key when a message is missing', () => {
+    expect(translate('es', 'missing.key' as TranslationKey)).toBe('missing.key');
+  });
+
+  it('should resolve device locales to a shipped language', () => {
+    expect(resolveLanguage('es-MX')).toBe('es');
+    expect(resolveLanguage('en_GB')).toBe('en');
+    expect(resolveLanguage('fr-FR')).toBe('en');
+  });
+});
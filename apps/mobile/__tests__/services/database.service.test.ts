@@ -0,0 +1,363 @@
+import * as SQLite from 'expo-sqlite';
+import { databaseService } from '@/services/database.service';
+import { checkBetAllowed } from '@/utils/responsibleGambling';
+import type { BetLedgerEntry, BetRecommendation } from '@/types/bet';
+import type { OrganizedChatThread } from '@/types/chat';
+import { createInMemoryDatabase } from '../helpers/sqlite';
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+const recommendation: BetRecommendation = {
+  id: 'rec-1',
+  sport: 'NBA',
+  league: 'NBA',
+  event: 'Lakers vs Celtics',
+  eventDate: '2025-01-10T00:00:00.000Z',
+  betType: 'Spread',
+  selection: 'Lakers -3.5',
+  odds: -110,
+  oddsFormat: 'american',
+  stake: 25,
+  potentialPayout: 47.73,
+  sportsbook: { id: 'dk', name: 'DraftKings', deepLinkScheme: 'draftkings' },
+  reasoning: '',
+  confidence: 0.6,
+};
+
+const createEntry = (overrides: Partial<BetLedgerEntry> = {}): BetLedgerEntry => ({
+  betRecommendationId: 'rec-1',
+  userId: 'user-1',
+  chatId: 'chat-1',
+  messageId: 'msg-1',
+  confirmedAt: '2025-01-09T12:00:00.000Z',
+  redirectedToSportsbook: true,
+  recommendation,
+  settlement: null,
+  ...overrides,
+});
+
+describe('DatabaseService bet ledger', () => {
+  beforeEach(async () => {
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(await createInMemoryDatabase());
+    await databaseService.initialize();
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should store confirmations with their recommendation snapshot', async () => {
+    await databaseService.saveBetConfirmations([createEntry()]);
+
+    const ledger = await databaseService.getBetLedger('user-1');
+
+    expect(ledger).toEqual([createEntry()]);
+  });
+
+  it('should keep the existing snapshot when a synced row has none', async () => {
+    await databaseService.saveBetConfirmations([createEntry()]);
+    await databaseService.saveBetConfirmations([
+      createEntry({ redirectedToSportsbook: false, recommendation: null }),
+    ]);
+
+    const entry = await databaseService.getBetLedgerEntry('rec-1');
+
+    expect(entry?.redirectedToSportsbook).toBe(false);
+    expect(entry?.recommendation).toEqual(recommendation);
+  });
+
+  it("should list a user's bets newest first and report the latest confirmation", async () => {
+    await databaseService.saveBetConfirmations([
+      createEntry({ betRecommendationId: 'rec-1', confirmedAt: '2025-01-01T00:00:00.000Z' }),
+      createEntry({ betRecommendationId: 'rec-2', confirmedAt: '2025-01-03T00:00:00.000Z' }),
+      createEntry({
+        betRecommendationId: 'rec-3',
+        userId: 'user-2',
+        confirmedAt: '2025-01-05T00:00:00.000Z',
+      }),
+    ]);
+
+    const ledger = await databaseService.getBetLedger('user-1');
+
+    expect(ledger.map((entry) => entry.betRecommendationId)).toEqual(['rec-2', 'rec-1']);
+    expect(await databaseService.getLatestBetConfirmedAt('user-1')).toBe(
+      '2025-01-03T00:00:00.000Z'
+    );
+    expect(await databaseService.getLatestBetConfirmedAt('user-3')).toBeNull();
+  });
+
+  it('should attach settlements to the ledger, including ones pushed before the bet synced', async () => {
+    const settlement = {
+      betRecommendationId: 'rec-1',
+      status: 'won' as const,
+      payout: 47.73,
+      settledAt: '2025-01-10T03:00:00.000Z',
+    };
+    await databaseService.saveBetSettlements([settlement], 'push');
+    await databaseService.saveBetConfirmations([createEntry()]);
+
+    expect(await databaseService.getBetLedgerEntry('rec-1')).toEqual(createEntry({ settlement }));
+    expect(await databaseService.getSettledBetLedger('user-1')).toHaveLength(1);
+  });
+
+  it('should only advance the settlement sync cursor for synced results', async () => {
+    await databaseService.saveBetConfirmations([
+      createEntry({ betRecommendationId: 'rec-1' }),
+      createEntry({ betRecommendationId: 'rec-2' }),
+    ]);
+    await databaseService.saveBetSettlements(
+      [
+        {
+          betRecommendationId: 'rec-1',
+          status: 'lost',
+          payout: 0,
+          settledAt: '2025-01-10T00:00:00.000Z',
+        },
+      ],
+      'sync'
+    );
+    await databaseService.saveBetSettlements(
+      [
+        {
+          betRecommendationId: 'rec-2',
+          status: 'push',
+          payout: 25,
+          settledAt: '2025-01-11T00:00:00.000Z',
+        },
+      ],
+      'push'
+    );
+
+    expect(await databaseService.getLatestBetSettledAt('user-1')).toBe('2025-01-10T00:00:00.000Z');
+  });
+
+  it('should count parlay stakes toward stake limits', async () => {
+    await databaseService.saveBetConfirmations([createEntry()]);
+    await databaseService.saveParlayConfirmation(
+      {
+        id: 'parlay-1',
+        userId: 'user-1',
+        chatId: 'chat-1',
+        legRecommendationIds: ['rec-2', 'rec-3'],
+        sportsbookId: 'dk',
+        stake: 60,
+        combinedOdds: 3.64,
+        potentialPayout: 218.4,
+        redirectedToSportsbook: true,
+        confirmedAt: '2025-01-09T18:00:00.000Z',
+      },
+      'USD'
+    );
+
+    const stakes = await databaseService.getBetStakesSince('user-1', '2025-01-09T00:00:00.000Z');
+    const settings = {
+      stakeLimits: { daily: 100, weekly: null, monthly: null },
+      limitCurrency: 'USD',
+      pendingLimitChanges: {},
+      coolOffUntil: null,
+      selfExcludedUntil: null,
+    };
+
+    expect(stakes.map((entry) => [entry.stake, entry.currency]).sort()).toEqual([
+      [25, 'USD'],
+      [60, 'USD'],
+    ]);
+    expect(
+      checkBetAllowed(20, 'USD', stakes, settings, new Date('2025-01-09T20:00:00.000Z'))
+    ).toMatchObject({ allowed: false, reason: 'stake-limit', period: 'daily' });
+  });
+});
+
+describe('DatabaseService message search', () => {
+  const saveMessage = (id: string, content: string, overrides: Record<string, unknown> = {}) =>
+    databaseService.saveMessage({
+      id,
+      localId: id,
+      chatId: 'chat-1',
+      role: 'user',
+      content,
+      timestamp: '2025-01-01T00:00:00.000Z',
+      synced: true,
+      ...overrides,
+    } as Parameters<typeof databaseService.saveMessage>[0]);
+
+  beforeEach(async () => {
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(await createInMemoryDatabase());
+    await databaseService.initialize();
+    await databaseService.saveThread({
+      id: 'chat-1',
+      userId: 'user-1',
+      title: 'Lakers tonight',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      messageCount: 0,
+    } as Parameters<typeof databaseService.saveThread>[0]);
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  // sql.js has no FTS5, so these cover the LIKE fallback
+  it('should find messages containing every term, with a highlighted snippet', async () => {
+    await saveMessage('msg-1', 'Should I take the Lakers spread?');
+    await saveMessage('msg-2', 'The Lakers moneyline is -150', {
+      role: 'assistant',
+      timestamp: '2025-01-02T00:00:00.000Z',
+    });
+
+    const results = await databaseService.searchMessages('lakers SPREAD');
+
+    expect(results).toEqual([
+      {
+        messageId: 'msg-1',
+        localId: 'msg-1',
+        chatId: 'chat-1',
+        threadTitle: 'Lakers tonight',
+        role: 'user',
+        timestamp: '2025-01-01T00:00:00.000Z',
+        snippet: 'Should I take the \u0002Lakers\u0003 \u0002spread\u0003?',
+      },
+    ]);
+    expect(
+      (await databaseService.searchMessages('lakers')).map((result) => result.messageId)
+    ).toEqual(['msg-2', 'msg-1']);
+  });
+
+  it('should apply filters and stop finding deleted messages', async () => {
+    await saveMessage('msg-1', 'Lakers spread');
+    await saveMessage('msg-2', 'Lakers total', { role: 'assistant' });
+    await saveMessage('msg-3', 'Lakers parlay', { chatId: 'chat-2' });
+
+    expect(
+      (await databaseService.searchMessages('lakers', { role: 'assistant' })).map(
+        (result) => result.messageId
+      )
+    ).toEqual(['msg-2']);
+    expect(
+      (await databaseService.searchMessages('lakers', { chatId: 'chat-2' }))[0].threadTitle
+    ).toBeNull();
+
+    await databaseService.deleteMessage('msg-1');
+
+    expect(await databaseService.searchMessages('spread')).toEqual([]);
+  });
+
+  it('should treat wildcards in the query literally', async () => {
+    await saveMessage('msg-1', 'Won 100% of my bets');
+    await saveMessage('msg-2', 'Won 100 dollars');
+
+    expect(
+      (await databaseService.searchMessages('100%')).map((result) => result.messageId)
+    ).toEqual(['msg-1']);
+    expect(await databaseService.searchMessages('   ')).toEqual([]);
+  });
+});
+
+describe('DatabaseService thread organization', () => {
+  const createThread = (overrides: Partial<OrganizedChatThread> = {}): OrganizedChatThread =>
+    ({
+      id: 'chat-1',
+      userId: 'user-1',
+      title: 'Lakers tonight',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+      messageCount: 2,
+      ...overrides,
+    }) as OrganizedChatThread;
+
+  const folder = {
+    id: 'folder-1',
+    userId: 'user-1',
+    name: 'NBA',
+    createdAt: '2025-01-01T00:00:00.000Z',
+  };
+
+  beforeEach(async () => {
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(await createInMemoryDatabase());
+    await databaseService.initialize();
+    await databaseService.saveFolder(folder);
+    await databaseService.saveThread(createThread());
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should apply partial updates and keep them when the server omits the fields', async () => {
+    await databaseService.updateThread('chat-1', { pinned: true, folderId: 'folder-1' });
+    await databaseService.updateThread('chat-1', { title: 'Lakers ATS' });
+
+    await databaseService.saveThread(
+      createThread({ messageCount: 3, updatedAt: '2025-01-02T00:00:00.000Z' })
+    );
+
+    expect(await databaseService.getThread('chat-1')).toMatchObject({
+      title: 'Lakers tonight',
+      messageCount: 3,
+      pinned: true,
+      archived: false,
+      folderId: 'folder-1',
+    });
+
+    await databaseService.saveThread(createThread({ pinned: false, folderId: null }));
+
+    expect(await databaseService.getThread('chat-1')).toMatchObject({
+      pinned: false,
+      folderId: null,
+    });
+  });
+
+  it('should move threads out of a deleted folder', async () => {
+    await databaseService.updateThread('chat-1', { folderId: 'folder-1' });
+
+    await databaseService.deleteFolder('folder-1');
+
+    expect(await databaseService.getFolders('user-1')).toEqual([]);
+    expect((await databaseService.getThreads('user-1'))[0].folderId).toBeNull();
+  });
+
+  it('should drop folders the server no longer has', async () => {
+    const golf = { ...folder, id: 'folder-2', name: 'golf' };
+    await databaseService.updateThread('chat-1', { folderId: 'folder-1' });
+
+    await databaseService.replaceFolders('user-1', [golf]);
+
+    expect(await databaseService.getFolders('user-1')).toEqual([golf]);
+    expect((await databaseService.getThread('chat-1'))?.folderId).toBeNull();
+  });
+});
+
+describe('DatabaseService message versions', () => {
+  beforeEach(async () => {
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(await createInMemoryDatabase());
+    await databaseService.initialize();
+  });
+
+  afterEach(async () => {
+    await databaseService.close();
+  });
+
+  it('should keep branch fields when the server resends a message without them', async () => {
+    const reply = {
+      id: 'msg-2',
+      localId: 'msg-2',
+      chatId: 'chat-1',
+      role: 'assistant',
+      content: 'Take the over',
+      timestamp: '2025-01-01T00:00:00.000Z',
+      synced: true,
+    } as Parameters<typeof databaseService.saveMessage>[0];
+
+    await databaseService.saveMessage({ ...reply, parentId: 'msg-1', versionOf: 'msg-0' });
+    await databaseService.saveMessage({ ...reply, content: 'Take the under' });
+
+    expect(await databaseService.getMessage('msg-2')).toMatchObject({
+      content: 'Take the under',
+      parentId: 'msg-1',
+      versionOf: 'msg-0',
+    });
+  });
+});
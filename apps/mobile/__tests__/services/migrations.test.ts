@@ -0,0 +1,112 @@
+import { migrations, runMigrations, getSchemaVersion, type Migration } from '@/services/migrations';
+import { createInMemoryDatabase, getSchema, type InMemorySQLiteDatabase } from '../helpers/sqlite';
+
+const LATEST_VERSION = migrations.length;
+
+const createFreshInstall = async (): Promise<InMemorySQLiteDatabase> => {
+  const db = await createInMemoryDatabase();
+  await runMigrations(db);
+  return db;
+};
+
+const seedThread = async (db: InMemorySQLiteDatabase) => {
+  await db.runAsync(
+    `INSERT INTO chat_threads (id, userId, title, createdAt, updatedAt, messageCount)
+     VALUES (?, ?, ?, ?, ?, ?)`,
+    ['thread-1', 'user-1', 'NBA picks', '2025-01-01T00:00:00.000Z', '2025-01-01T00:00:00.000Z', 1]
+  );
+};
+
+describe('Database migrations', () => {
+  it('should migrate a fresh database to the latest version', async () => {
+    const db = await createInMemoryDatabase();
+
+    const result = await runMigrations(db);
+
+    expect(result).toEqual({ from: 0, to: LATEST_VERSION });
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+  });
+
+  it('should be a no-op when already up to date', async () => {
+    const db = await createFreshInstall();
+
+    const result = await runMigrations(db);
+
+    expect(result).toEqual({ from: LATEST_VERSION, to: LATEST_VERSION });
+  });
+
+  it.each(Array.from({ length: LATEST_VERSION }, (_, version) => version))(
+    'should upgrade from version %i and match a fresh install',
+    async (version) => {
+      const db = await createInMemoryDatabase();
+      await runMigrations(db, migrations.slice(0, version));
+      if (version >= 1) await seedThread(db);
+
+      await runMigrations(db);
+
+      const fresh = await createFreshInstall();
+      expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+      expect(await getSchema(db)).toEqual(await getSchema(fresh));
+
+      if (version >= 1) {
+        const thread = await db.getFirstAsync<{ title: string }>(
+          'SELECT title FROM chat_threads WHERE id = ?',
+          ['thread-1']
+        );
+        expect(thread?.title).toBe('NBA picks');
+      }
+    }
+  );
+
+  it.each([1, 2])(
+    'should upgrade an unversioned install created with the first %i table set(s)',
+    async (tableSets) => {
+      // Before versioning, tables were created directly and user_version stayed 0
+      const db = await createInMemoryDatabase();
+      for (const migration of migrations.slice(0, tableSets)) {
+        await db.execAsync(migration.up);
+      }
+      await seedThread(db);
+
+      await runMigrations(db);
+
+      const fresh = await createFreshInstall();
+      expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+      expect(await getSchema(db)).toEqual(await getSchema(fresh));
+    }
+  );
+
+  it('should roll back a failing migration and keep the previous version', async () => {
+    const db = await createFreshInstall();
+    const failing: Migration = {
+      version: LATEST_VERSION + 1,
+      name: 'broken',
+      up: `
+        CREATE TABLE partial (id TEXT PRIMARY KEY);
+        INSERT INTO missing_table (id) VALUES ('x');
+      `,
+    };
+
+    await expect(runMigrations(db, [...migrations, failing])).rejects.toThrow();
+
+    expect(await getSchemaVersion(db)).toBe(LATEST_VERSION);
+    const partial = await db.getFirstAsync(
+      "SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'partial'"
+    );
+    expect(partial).toBeNull();
+  });
+
+  it('should refuse to run against a newer schema', async () => {
+    const db = await createFreshInstall();
+    await db.execAsync(`PRAGMA user_version = ${LATEST_VERSION + 1};`);
+
+    await expect(runMigrations(db)).rejects.toThrow('newer than supported');
+  });
+
+  it('should reject migrations that are not numbered consecutively', async () => {
+    const db = await createInMemoryDatabase();
+    const gapped = [migrations[0], { ...migrations[1], version: 3 }];
+
+    await expect(runMigrations(db, gapped)).rejects.toThrow('numbered consecutively');
+  });
+});
@@ -0,0 +1,208 @@
+import * as SQLite from 'expo-sqlite';
+import { chatApi } from '@/api/endpoints';
+import { databaseService } from '@/services/database.service';
+import { outboxService } from '@/services/outbox.service';
+import type { ChatMessage } from '@betthink/shared';
+import { createInMemoryDatabase } from '../helpers/sqlite';
+
+jest.mock('expo-sqlite', () => ({
+  openDatabaseAsync: jest.fn(),
+}));
+
+// uuid resolves to its ESM build under jest-expo; sequential ids also keep tests readable
+let mockIdCounter = 0;
+jest.mock('uuid', () => ({
+  v4: () => `local-${++mockIdCounter}`,
+}));
+
+jest.mock('@/api/endpoints', () => ({
+  chatApi: {
+    sendMessage: jest.fn(),
+  },
+}));
+
+const mockedSendMessage = chatApi.sendMessage as jest.Mock;
+
+const NOW = new Date('2025-01-10T12:00:00.000Z').getTime();
+
+const serverMessage = (chatId: string, content: string): ChatMessage => ({
+  id: `server-${content}`,
+  chatId,
+  role: 'user',
+  content,
+  timestamp: new Date(NOW).toISOString(),
+});
+
+const deliverAll = () =>
+  mockedSendMessage.mockImplementation(async (chatId: string, content: string) =>
+    serverMessage(chatId, content)
+  );
+
+const failWith = (statusCode?: number) =>
+  mockedSendMessage.mockRejectedValue({ message: `HTTP ${statusCode ?? 'network'}`, statusCode });
+
+const sentContents = () => mockedSendMessage.mock.calls.map(([, content]: string[]) => content);
+
+describe('OutboxService', () => {
+  beforeEach(async () => {
+    jest.useFakeTimers({ doNotFake: ['nextTick', 'queueMicrotask'] });
+    jest.setSystemTime(NOW);
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    (SQLite.openDatabaseAsync as jest.Mock).mockResolvedValue(await createInMemoryDatabase());
+    await databaseService.initialize();
+  });
+
+  afterEach(async () => {
+    jest.clearAllTimers();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+    mockedSendMessage.mockReset();
+    await databaseService.close();
+  });
+
+  it('should deliver each thread oldest first, sending thread heads side by side', async () => {
+    deliverAll();
+    const first = await outboxService.enqueue('chat-a', 'a1');
+    const second = await outboxService.enqueue('chat-a', 'a2');
+    const other = await outboxService.enqueue('chat-b', 'b1');
+
+    const result = await outboxService.drain();
+
+    expect(sentContents()).toEqual(['a1', 'b1', 'a2']);
+    expect([...result.delivered.keys()]).toEqual([first.localId, other.localId, second.localId]);
+    expect(await databaseService.getOutboxEntries()).toEqual([]);
+  });
+
+  it('should back off exponentially with jitter between attempts', async () => {
+    failWith(503);
+    const message = await outboxService.enqueue('chat-a', 'a1');
+
+    await outboxService.drain();
+    // 2s base delay scaled by the lowest jitter factor
+    expect(await databaseService.getOutboxEntry(message.localId)).toMatchObject({
+      attempts: 1,
+      status: 'pending',
+      nextAttemptAt: NOW + 1000,
+    });
+
+    // Not due yet, so nothing is sent
+    await outboxService.drain();
+    expect(mockedSendMessage).toHaveBeenCalledTimes(1);
+
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    jest.setSystemTime(NOW + 1000);
+    await outboxService.drain();
+    // Doubled for the second attempt, at the highest jitter factor
+    expect(await databaseService.getOutboxEntry(message.localId)).toMatchObject({
+      attempts: 2,
+      status: 'pending',
+      nextAttemptAt: NOW + 1000 + 4000,
+    });
+  });
+
+  it('should dead-letter an entry after the last attempt', async () => {
+    failWith();
+    const message = await outboxService.enqueue('chat-a', 'a1');
+
+    let failed: string[] = [];
+    for (let attempt = 1; attempt <= 5; attempt++) {
+      const next = await databaseService.getNextOutboxAttemptAt();
+      if (next !== null) jest.setSystemTime(next);
+      ({ failed } = await outboxService.drain());
+    }
+
+    expect(failed).toEqual([message.localId]);
+    expect(await databaseService.getOutboxEntry(message.localId)).toMatchObject({
+      attempts: 5,
+      status: 'failed',
+      lastError: 'HTTP network',
+    });
+    expect(await databaseService.getNextOutboxAttemptAt()).toBeNull();
+  });
+
+  it.each([
+    [400, 'failed'],
+    [422, 'failed'],
+    [408, 'pending'],
+    [429, 'pending'],
+    [500, 'pending'],
+  ])('should treat a %i response as %s', async (statusCode: number, status: string) => {
+    failWith(statusCode);
+    const message = await outboxService.enqueue('chat-a', 'a1');
+
+    await outboxService.drain();
+
+    expect(await databaseService.getOutboxEntry(message.localId)).toMatchObject({
+      attempts: 1,
+      status,
+    });
+  });
+
+  it('should run a second pass for a drain requested while one is running', async () => {
+    let release = () => {};
+    mockedSendMessage.mockImplementationOnce(
+      (chatId: string, content: string) =>
+        new Promise((resolve) => {
+          release = () => resolve(serverMessage(chatId, content));
+        })
+    );
+    const first = await outboxService.enqueue('chat-a', 'a1');
+
+    const running = outboxService.drain();
+    await Promise.resolve();
+    deliverAll();
+    const queued = await outboxService.enqueue('chat-b', 'b1');
+    const chained = outboxService.drain();
+    release();
+
+    const [runningResult, chainedResult] = await Promise.all([running, chained]);
+
+    expect(sentContents()).toEqual(['a1', 'b1']);
+    expect([...runningResult.delivered.keys()]).toContain(first.localId);
+    expect([...chainedResult.delivered.keys()].sort()).toEqual(
+      [first.localId, queued.localId].sort()
+    );
+  });
+
+  it('should hold later messages in a thread behind a dead-lettered one', async () => {
+    failWith(400);
+    const first = await outboxService.enqueue('chat-a', 'a1');
+    await outboxService.drain();
+
+    deliverAll();
+    const second = await outboxService.enqueue('chat-a', 'a2');
+    const other = await outboxService.enqueue('chat-b', 'b1');
+    const blocked = await outboxService.drain();
+
+    expect([...blocked.delivered.keys()]).toEqual([other.localId]);
+    expect(await databaseService.getOutboxEntry(second.localId)).toMatchObject({
+      attempts: 0,
+      status: 'pending',
+    });
+    expect(await databaseService.getNextOutboxAttemptAt()).toBeNull();
+
+    const retried = await outboxService.retry(first.localId);
+
+    expect([...retried.delivered.keys()]).toEqual([first.localId, second.localId]);
+    expect(sentContents()).toEqual(['a1', 'b1', 'a1', 'a2']);
+  });
+
+  it('should resend a dead-lettered entry on retry', async () => {
+    failWith(400);
+    const message = await outboxService.enqueue('chat-a', 'a1');
+    await outboxService.drain();
+
+    deliverAll();
+    const listener = jest.fn();
+    const unsubscribe = outboxService.subscribe(listener);
+    const result = await outboxService.retry(message.localId);
+    unsubscribe();
+
+    expect(result.delivered.get(message.localId)?.id).toBe('server-a1');
+    expect(listener).toHaveBeenCalledWith(
+      expect.objectContaining({ localId: message.localId }),
+      serverMessage('chat-a', 'a1')
+    );
+    expect(await databaseService.getOutboxEntry(message.localId)).toBeNull();
+  });
+});
@@ -0,0 +1,464 @@
+import { authService } from '@/services/auth.service';
+import {
+  sseService,
+  type SSEConnectionState,
+  type SSEOptions,
+  type SSEStreamChunk,
+} from '@/services/sse.service';
+import type { SSETransportHandlers } from '@/services/sse.transport';
+import {
+  createXhrHarness,
+  settle,
+  transportHarnesses,
+  type TransportHarness,
+} from '../helpers/sseTransports';
+
+jest.mock('@/services/auth.service', () => ({
+  authService: {
+    getValidAccessToken: jest.fn(),
+    refreshToken: jest.fn(),
+  },
+}));
+
+const mockedAuth = authService as jest.Mocked<typeof authService>;
+
+const event = (payload: object, id?: string) =>
+  `${id ? `id: ${id}\n` : ''}data: ${JSON.stringify(payload)}\n\n`;
+
+const contentOf = (chunk: SSEStreamChunk) => ('content' in chunk ? chunk.content : undefined);
+
+const recordHandlers = () => {
+  const calls: string[] = [];
+  const handlers: SSETransportHandlers = {
+    onOpen: () => calls.push('open'),
+    onData: (chunk) =>
+      calls.push(`data:${typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString()}`),
+    onClose: (reason) => calls.push(`close:${reason}`),
+    onError: (_error, status) => calls.push(`error:${status ?? 'network'}`),
+  };
+  return { calls, handlers };
+};
+
+describe.each(transportHarnesses)(
+  'SSE over %s',
+  (_name: string, create: () => TransportHarness) => {
+    let harness: TransportHarness;
+
+    beforeEach(() => {
+      harness = create();
+      mockedAuth.getValidAccessToken.mockResolvedValue('token-1');
+      mockedAuth.refreshToken.mockResolvedValue(undefined as never);
+    });
+
+    afterEach(() => {
+      sseService.closeAllConnections();
+      harness.restore();
+      jest.useRealTimers();
+      jest.clearAllMocks();
+    });
+
+    describe('transport', () => {
+      const request = { url: 'https://api.test/stream', headers: { Authorization: 'Bearer t' } };
+
+      it('sends the request url and headers', async () => {
+        harness.transport.open(request, recordHandlers().handlers);
+        await settle();
+
+        expect(harness.requests()).toEqual([request]);
+      });
+
+      it('opens, then delivers body text in order', async () => {
+        const { calls, handlers } = recordHandlers();
+        harness.transport.open(request, handlers);
+
+        await harness.respond(200);
+        await harness.send('data: a\n');
+        await harness.send('\n');
+
+        expect(calls).toEqual(['open', 'data:data: a\n', 'data:\n']);
+      });
+
+      it('reports an error status without opening', async () => {
+        const { calls, handlers } = recordHandlers();
+        harness.transport.open(request, handlers);
+
+        await harness.respond(503);
+
+        expect(calls).toEqual(['error:503']);
+      });
+
+      it('reports the end of the response once', async () => {
+        const { calls, handlers } = recordHandlers();
+        harness.transport.open(request, handlers);
+
+        await harness.respond(200);
+        await harness.end();
+
+        expect(calls).toEqual(['open', 'close:ended']);
+      });
+
+      it('reports network failures', async () => {
+        const { calls, handlers } = recordHandlers();
+        harness.transport.open(request, handlers);
+
+        await harness.respond(200);
+        await harness.fail();
+
+        expect(calls).toEqual(['open', 'error:network']);
+      });
+
+      it('stays silent after being aborted', async () => {
+        const { calls, handlers } = recordHandlers();
+        const abort = harness.transport.open(request, handlers);
+
+        await harness.respond(200);
+        abort();
+        await settle();
+        await harness.send('data: late\n\n');
+        await harness.end();
+
+        expect(harness.isAborted()).toBe(true);
+        expect(calls).toEqual(['open']);
+      });
+    });
+
+    describe('client', () => {
+      const connect = (options: Partial<SSEOptions> = {}) => {
+        const chunks: SSEStreamChunk[] = [];
+        const states: SSEConnectionState[] = [];
+        const connection = sseService.createConnection('conformance', {
+          url: 'https://api.test/chat/stream',
+          onMessage: (chunk) => chunks.push(chunk),
+          onStateChange: (state) => states.push(state),
+          transport: harness.transport,
+          ...options,
+        });
+        return { connection, chunks, states };
+      };
+
+      it('authenticates with the access token and normalizes events split across chunks', async () => {
+        const { connection, chunks } = connect();
+        await connection.connect();
+        await harness.respond(200);
+
+        const body =
+          event({ type: 'llm_chunk', content: 'Hel' }) +
+          event({ type: 'llm_chunk', content: 'lo' });
+        await harness.send(body.slice(0, 20));
+        await harness.send(body.slice(20));
+
+        expect(harness.requests()[0].headers).toMatchObject({
+          Authorization: 'Bearer token-1',
+          Accept: 'text/event-stream',
+        });
+        expect(chunks.map((chunk) => [chunk.type, contentOf(chunk)])).toEqual([
+          ['content', 'Hel'],
+          ['content', 'lo'],
+        ]);
+      });
+
+      it('parses CRLF line endings, comments and multi-line data', async () => {
+        const { connection, chunks } = connect();
+        await connection.connect();
+        await harness.respond(200);
+
+        const body = ': keep-alive\r\nevent: llm_chunk\r\ndata: {"content":\r\ndata: "Hi"}\r\n\r\n';
+        for (let i = 0; i < body.length; i += 7) {
+          await harness.send(body.slice(i, i + 7));
+        }
+
+        expect(chunks.map((chunk) => [chunk.type, contentOf(chunk)])).toEqual([['content', 'Hi']]);
+      });
+
+      it('normalizes system, odds and heartbeat events into their own chunk types', async () => {
+        const { connection, chunks } = connect();
+        await connection.connect();
+        await harness.respond(200);
+
+        await harness.send(
+          event({ type: 'system', message: 'Markets closed', metadata: { a: 1 } })
+        );
+        await harness.send(
+          event({
+            type: 'odds_update',
+            recommendationId: 'rec-1',
+            sportsbookId: 'draftkings',
+            odds: -120,
+            oddsFormat: 'american',
+            timestamp: '2025-03-15T12:00:00.000Z',
+          })
+        );
+        await harness.send(event({ type: 'odds_update', odds: 'evens' }));
+        await harness.send(event({ type: 'connected' }));
+
+        expect(chunks).toEqual([
+          { type: 'system', content: 'Markets closed', metadata: { a: 1 } },
+          {
+            type: 'odds_update',
+            oddsUpdate: expect.objectContaining({ recommendationId: 'rec-1', odds: -120 }),
+          },
+          { type: 'odds_update' },
+          { type: 'heartbeat' },
+        ]);
+      });
+
+      it('resumes from the last event id and skips replayed events', async () => {
+        jest.useFakeTimers();
+        const { connection, chunks } = connect({ retryDelay: 100 });
+        await connection.connect();
+        await harness.respond(200);
+        await harness.send(event({ type: 'llm_chunk', content: 'one' }, 'e1'));
+        await harness.fail();
+
+        jest.advanceTimersByTime(100);
+        await settle();
+        await harness.respond(200);
+        await harness.send(event({ type: 'llm_chunk', content: 'one' }, 'e1'));
+        await harness.send(event({ type: 'llm_chunk', content: 'two' }, 'e2'));
+
+        expect(harness.requests()).toHaveLength(2);
+        expect(harness.requests()[1].headers['Last-Event-ID']).toBe('e1');
+        expect(chunks.map(contentOf)).toEqual(['one', 'two']);
+      });
+
+      it('forgets the last event id when the server sends an empty one', async () => {
+        jest.useFakeTimers();
+        const { connection } = connect({ retryDelay: 100 });
+        await connection.connect();
+        await harness.respond(200);
+        await harness.send(event({ type: 'llm_chunk', content: 'one' }, 'e1'));
+        await harness.send('id:\n\n');
+        await harness.fail();
+
+        jest.advanceTimersByTime(100);
+        await settle();
+
+        expect(harness.requests()).toHaveLength(2);
+        expect(harness.requests()[1].headers).not.toHaveProperty('Last-Event-ID');
+      });
+
+      it("waits the server's retry delay, as given, before each reconnection", async () => {
+        jest.useFakeTimers();
+        const { connection } = connect({ retryDelay: 100 });
+        await connection.connect();
+        await harness.respond(200);
+        await harness.send('retry: 5000\n\n');
+        await harness.fail();
+
+        jest.advanceTimersByTime(4999);
+        await settle();
+        expect(harness.requests()).toHaveLength(1);
+
+        jest.advanceTimersByTime(1);
+        await settle();
+        expect(harness.requests()).toHaveLength(2);
+
+        await harness.fail();
+        jest.advanceTimersByTime(4999);
+        await settle();
+        expect(harness.requests()).toHaveLength(2);
+
+        jest.advanceTimersByTime(1);
+        await settle();
+        expect(harness.requests()).toHaveLength(3);
+      });
+
+      it('doubles the default retry delay after each failed attempt', async () => {
+        jest.useFakeTimers();
+        const { connection } = connect({ retryDelay: 100 });
+        await connection.connect();
+        await harness.fail();
+
+        jest.advanceTimersByTime(100);
+        await settle();
+        expect(harness.requests()).toHaveLength(2);
+
+        await harness.fail();
+        jest.advanceTimersByTime(199);
+        await settle();
+        expect(harness.requests()).toHaveLength(2);
+
+        jest.advanceTimersByTime(1);
+        await settle();
+        expect(harness.requests()).toHaveLength(3);
+      });
+
+      it('refreshes the token once on 401 and reconnects straight away', async () => {
+        mockedAuth.getValidAccessToken
+          .mockResolvedValueOnce('expired')
+          .mockResolvedValueOnce('token-2');
+        const { connection, states } = connect();
+        await connection.connect();
+        await harness.respond(401);
+        await settle();
+        await harness.respond(200);
+
+        expect(mockedAuth.refreshToken).toHaveBeenCalledTimes(1);
+        expect(harness.requests().map((request) => request.headers.Authorization)).toEqual([
+          'Bearer expired',
+          'Bearer token-2',
+        ]);
+        expect(states[states.length - 1]).toBe('connected');
+      });
+
+      it('gives up with an error chunk after the last retry', async () => {
+        jest.useFakeTimers();
+        const { connection, chunks } = connect({ maxRetries: 1, retryDelay: 100 });
+        await connection.connect();
+        await harness.fail();
+
+        jest.advanceTimersByTime(100);
+        await settle();
+        await harness.fail();
+
+        expect(harness.requests()).toHaveLength(2);
+        expect(chunks).toEqual([{ type: 'error', error: 'Connection lost. Please try again.' }]);
+      });
+
+      it('reconnects a silent connection as stale, resuming from the last event id', async () => {
+        jest.useFakeTimers();
+        const onStale = jest.fn();
+        const { connection, states } = connect({
+          heartbeatTimeout: 1000,
+          retryDelay: 100,
+          onStale,
+        });
+        await connection.connect();
+        await harness.respond(200);
+        await harness.send(event({ type: 'llm_chunk', content: 'one' }, 'e1'));
+
+        jest.advanceTimersByTime(999);
+        expect(onStale).not.toHaveBeenCalled();
+
+        jest.advanceTimersByTime(1);
+        await settle();
+        expect(harness.requests()).toHaveLength(1);
+
+        jest.advanceTimersByTime(100);
+        await settle();
+        await harness.respond(200);
+
+        expect(onStale).toHaveBeenCalledTimes(1);
+        expect(onStale.mock.calls[0][0].message).toContain('stale');
+        expect(states).toEqual(['connecting', 'connected', 'stale', 'reconnecting', 'connected']);
+        expect(harness.requests()).toHaveLength(2);
+        expect(harness.requests()[1].headers['Last-Event-ID']).toBe('e1');
+      });
+
+      it('treats heartbeats and keep-alive comments as signs of life', async () => {
+        jest.useFakeTimers();
+        const onStale = jest.fn();
+        const { connection } = connect({ heartbeatTimeout: 1000, onStale });
+        await connection.connect();
+        await harness.respond(200);
+
+        for (let i = 0; i < 3; i++) {
+          jest.advanceTimersByTime(800);
+          await harness.send(i % 2 ? ': keep-alive\n\n' : event({ type: 'heartbeat' }));
+        }
+        jest.advanceTimersByTime(800);
+
+        expect(onStale).not.toHaveBeenCalled();
+        expect(harness.requests()).toHaveLength(1);
+        expect(connection.getState()).toBe('connected');
+      });
+
+      it('treats a request that never gets an answer as stale', async () => {
+        jest.useFakeTimers();
+        const onStale = jest.fn();
+        const { connection } = connect({ heartbeatTimeout: 1000, retryDelay: 100, onStale });
+        await connection.connect();
+
+        jest.advanceTimersByTime(1000);
+        await settle();
+        jest.advanceTimersByTime(100);
+        await settle();
+
+        expect(onStale).toHaveBeenCalledTimes(1);
+        expect(harness.requests()).toHaveLength(2);
+      });
+
+      it('gives up on a server that answers but never sends anything', async () => {
+        jest.useFakeTimers();
+        const { connection, chunks, states } = connect({
+          heartbeatTimeout: 1000,
+          maxRetries: 2,
+          retryDelay: 100,
+        });
+        await connection.connect();
+
+        for (let i = 0; i < 4; i++) {
+          await harness.respond(200);
+          jest.advanceTimersByTime(1000);
+          await settle();
+          jest.advanceTimersByTime(1000);
+          await settle();
+        }
+
+        expect(harness.requests()).toHaveLength(3);
+        expect(chunks).toEqual([{ type: 'error', error: 'Connection lost. Please try again.' }]);
+        expect(states[states.length - 1]).toBe('disconnected');
+      });
+
+      it('reports each lifecycle state and aborts the request on close', async () => {
+        jest.useFakeTimers();
+        const { connection, states } = connect({ retryDelay: 100 });
+        await connection.connect();
+        await harness.respond(200);
+        await harness.end();
+        jest.advanceTimersByTime(100);
+        await settle();
+        await harness.respond(200);
+        connection.close();
+        await settle();
+
+        expect(states).toEqual([
+          'connecting',
+          'connected',
+          'reconnecting',
+          'connected',
+          'disconnected',
+        ]);
+        expect(harness.isAborted()).toBe(true);
+        expect(connection.isConnected()).toBe(false);
+      });
+    });
+  }
+);
+
+describe('SSE over XMLHttpRequest on a long-lived stream', () => {
+  let harness: TransportHarness;
+
+  beforeEach(() => {
+    harness = createXhrHarness();
+    mockedAuth.getValidAccessToken.mockResolvedValue('token-1');
+  });
+
+  afterEach(() => {
+    sseService.closeAllConnections();
+    harness.restore();
+  });
+
+  it('reopens between events once the response buffer is large, resuming where it stopped', async () => {
+    const chunks: SSEStreamChunk[] = [];
+    const connection = sseService.createConnection('long-lived', {
+      url: 'https://api.test/chat/stream',
+      onMessage: (chunk) => chunks.push(chunk),
+      transport: harness.transport,
+    });
+    await connection.connect();
+    await harness.respond(200);
+
+    const content = 'x'.repeat(1_000_000);
+    const body = event({ type: 'llm_chunk', content }, 'e1');
+    await harness.send(body.slice(0, 500_000));
+    expect(harness.requests()).toHaveLength(1);
+
+    await harness.send(body.slice(500_000));
+    await settle();
+
+    expect(chunks).toHaveLength(1);
+    expect(harness.requests()).toHaveLength(2);
+    expect(harness.requests()[1].headers['Last-Event-ID']).toBe('e1');
+  });
+});
@@ -0,0 +1,124 @@
+import { useChatStore } from '@/stores/chat.store';
+import { createChunkCoalescer, type FrameScheduler } from '@/utils/chunkCoalescer';
+
+const FRAME_MS = 16;
+
+/** Frames on jest's fake clock, standing in for requestAnimationFrame at 60fps */
+const fakeFrames: FrameScheduler = {
+  request: (callback) => setTimeout(callback, FRAME_MS) as unknown as number,
+  cancel: (handle) => clearTimeout(handle),
+};
+
+describe('Chunk coalescer', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('delivers the chunks of a frame in order as one flush', () => {
+    const onFlush = jest.fn();
+    const coalescer = createChunkCoalescer(onFlush, fakeFrames);
+
+    coalescer.push('Take ');
+    coalescer.push('the ');
+    coalescer.push('over');
+    expect(onFlush).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(FRAME_MS);
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith('Take the over');
+
+    coalescer.push('.');
+    jest.advanceTimersByTime(FRAME_MS);
+    expect(onFlush).toHaveBeenLastCalledWith('.');
+  });
+
+  it('flushes queued chunks immediately without flushing them again on the frame', () => {
+    const onFlush = jest.fn();
+    const coalescer = createChunkCoalescer(onFlush, fakeFrames);
+
+    coalescer.push('final words');
+    coalescer.flush();
+    jest.advanceTimersByTime(FRAME_MS);
+
+    expect(onFlush).toHaveBeenCalledTimes(1);
+    expect(onFlush).toHaveBeenCalledWith('final words');
+  });
+
+  it('drops queued chunks when cancelled', () => {
+    const onFlush = jest.fn();
+    const coalescer = createChunkCoalescer(onFlush, fakeFrames);
+
+    coalescer.push('stale');
+    coalescer.cancel();
+    coalescer.flush();
+    jest.advanceTimersByTime(FRAME_MS);
+
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+
+  it('ignores empty chunks', () => {
+    const onFlush = jest.fn();
+    const coalescer = createChunkCoalescer(onFlush, fakeFrames);
+
+    coalescer.push('');
+    jest.advanceTimersByTime(FRAME_MS);
+
+    expect(onFlush).not.toHaveBeenCalled();
+  });
+});
+
+describe('Streaming state updates benchmark', () => {
+  const THREAD_ID = 'thread-1';
+  const CHUNK_COUNT = 1000;
+  // A fast model streams a token every few milliseconds
+  const CHUNK_INTERVAL_MS = 4;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    useChatStore.getState().clearStreamBuffer(THREAD_ID);
+    useChatStore.getState().startStream(THREAD_ID);
+  });
+
+  afterEach(() => {
+    useChatStore.getState().endStream(THREAD_ID);
+    jest.useRealTimers();
+  });
+
+  const appendToStore = (content: string) =>
+    useChatStore.getState().appendStreamChunk(THREAD_ID, { type: 'content', content });
+
+  /** Stream 1,000 chunks through `deliver` and count the store updates subscribers see */
+  const measureStateUpdates = (deliver: (chunk: string) => void, finish = () => {}) => {
+    let updates = 0;
+    const unsubscribe = useChatStore.subscribe(() => {
+      updates += 1;
+    });
+
+    for (let i = 0; i < CHUNK_COUNT; i++) {
+      deliver(`token${i} `);
+      jest.advanceTimersByTime(CHUNK_INTERVAL_MS);
+    }
+    finish();
+    unsubscribe();
+
+    return { updates, content: useChatStore.getState().activeStream?.currentMessage };
+  };
+
+  const expectedContent = Array.from({ length: CHUNK_COUNT }, (_, i) => `token${i} `).join('');
+
+  it('updates the store once per chunk without coalescing', () => {
+    const before = measureStateUpdates(appendToStore);
+
+    expect(before.updates).toBe(CHUNK_COUNT);
+    expect(before.content).toBe(expectedContent);
+  });
+
+  it('updates the store at most once per frame with coalescing', () => {
+    const coalescer = createChunkCoalescer(appendToStore, fakeFrames);
+    const after = measureStateUpdates(coalescer.push, coalescer.flush);
+
+    const frames = Math.ceil((CHUNK_COUNT * CHUNK_INTERVAL_MS) / FRAME_MS);
+    expect(after.updates).toBeLessThanOrEqual(frames + 1);
+    expect(after.updates).toBeLessThan(CHUNK_COUNT / 3);
+    expect(after.content).toBe(expectedContent);
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  getSportsbookAvailability,
+  isSportsbookBlocked,
+  normalizeStateCode,
+} from '@/utils/jurisdiction';
+import type { UserLocation } from '@/services/location.service';
+
+const location = (state?: string, country = 'United States'): UserLocation => ({
+  latitude: 0,
+  longitude: 0,
+  state,
+  country,
+  timestamp: 0,
+});
+
+const hardRock = { id: 'hardrock', name: 'Hard Rock Bet', deepLinkScheme: 'hardrock' };
+
+describe('Jurisdiction utils', () => {
+  it('should normalize state codes and names', () => {
+    expect(normalizeStateCode('NJ')).toBe('NJ');
+    expect(normalizeStateCode(' new jersey ')).toBe('NJ');
+    expect(normalizeStateCode('Ontario')).toBeNull();
+    expect(normalizeStateCode(undefined)).toBeNull();
+  });
+
+  it('should allow sportsbooks licensed in the user state', () => {
+    expect(getSportsbookAvailability(hardRock, location('New Jersey'))).toEqual({
+      status: 'available',
+      state: 'NJ',
+    });
+  });
+
+  it('should offer the closest legal alternative when a sportsbook is not licensed', () => {
+    const availability = getSportsbookAvailability(hardRock, location('NY'));
+
+    expect(availability).toMatchObject({
+      status: 'unavailable',
+      state: 'NY',
+      alternative: { id: 'draftkings' },
+    });
+    expect(isSportsbookBlocked(availability)).toBe(true);
+  });
+
+  it('should block every sportsbook where online betting is illegal', () => {
+    const availability = getSportsbookAvailability(hardRock, location('CA'));
+
+    expect(availability).toEqual({ status: 'prohibited', state: 'CA' });
+    expect(isSportsbookBlocked(availability)).toBe(true);
+  });
+
+  it('should not block when the location is unknown or outside the US', () => {
+    expect(getSportsbookAvailability(hardRock, null)).toEqual({ status: 'unknown' });
+    expect(getSportsbookAvailability(hardRock, location('Ontario', 'Canada'))).toEqual({
+      status: 'unknown',
+    });
+    expect(
+      isSportsbookBlocked(
+        getSportsbookAvailability(
+          { id: 'local', name: 'Local Book', deepLinkScheme: 'localbook' },
+          location('NJ')
+        )
+      )
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { compareOdds, formatEdge, getImpliedProbability } from '@/utils/lineShopping';
+import type { BetRecommendation, SportsbookOdds } from '@/types/bet';
+
+const draftKings = { id: 'draftkings', name: 'DraftKings', deepLinkScheme: 'draftkings' };
+const fanDuel = { id: 'fanduel', name: 'FanDuel', deepLinkScheme: 'fanduel' };
+const hardRock = { id: 'hardrock', name: 'Hard Rock Bet', deepLinkScheme: 'hardrock' };
+
+const recommendation = {
+  id: 'rec-1',
+  selection: 'Lakers ML',
+  odds: -110,
+  oddsFormat: 'american',
+  stake: 10,
+  sportsbook: draftKings,
+} as BetRecommendation;
+
+const quote = (
+  sportsbook: SportsbookOdds['sportsbook'],
+  odds: number,
+  oddsFormat: SportsbookOdds['oddsFormat'] = 'american'
+): SportsbookOdds => ({ sportsbook, odds, oddsFormat, updatedAt: '2025-03-15T12:00:00.000Z' });
+
+describe('Line shopping utils', () => {
+  it('should rank prices across formats with the best price first', () => {
+    const rows = compareOdds(recommendation, [
+      quote(fanDuel, 2.0, 'decimal'),
+      quote(hardRock, -120),
+    ]);
+
+    expect(rows.map((row) => row.sportsbook.id)).toEqual(['fanduel', 'draftkings', 'hardrock']);
+    expect(rows[0]).toMatchObject({ isBest: true, americanOdds: 100, isRecommended: false });
+    expect(rows[1]).toMatchObject({ isRecommended: true, updatedAt: null, edge: 0 });
+  });
+
+  it('should report the implied-probability edge against the recommended price', () => {
+    const [best, , worst] = compareOdds(recommendation, [
+      quote(fanDuel, 100),
+      quote(hardRock, -120),
+    ]);
+
+    expect(getImpliedProbability(2)).toBe(0.5);
+    expect(best.edge).toBeCloseTo(110 / 210 - 0.5, 6);
+    expect(worst.edge).toBeLessThan(0);
+    expect(formatEdge(best.edge)).toBe('+2.4 pts');
+  });
+
+  it('should prefer a fresh quote from the recommended book over its original price', () => {
+    const rows = compareOdds(recommendation, [quote(draftKings, -105), quote(fanDuel, -115)]);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({ isRecommended: true, odds: -105, isBest: true });
+  });
+
+  it('should only pick the best price from eligible books', () => {
+    const rows = compareOdds(
+      recommendation,
+      [quote(fanDuel, 150)],
+      (sportsbook) => sportsbook.id !== 'fanduel'
+    );
+
+    expect(rows[0]).toMatchObject({ isEligible: false, isBest: false });
+    expect(rows[1]).toMatchObject({ isRecommended: true, isBest: true });
+  });
+});
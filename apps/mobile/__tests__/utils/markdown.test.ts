@@ -0,0 +1,210 @@
+import {
+  markdownToPlainText,
+  parseInline,
+  parseMarkdown,
+  type ParsedMarkdown,
+} from '@/utils/markdown';
+
+const REPLY = `## Tonight's best price
+
+Lakers **-3.5** looks *soft*; see [the model](https://example.com/model).
+
+| Book | Spread | Odds |
+|:-----|:------:|-----:|
+| DraftKings | -3.5 | -110 |
+| FanDuel | -3 | -115 |
+
+1. Shop the line
+2. Keep stakes at \`1u\`
+   unless the number moves
+
+- Injury news
+  - Davis is probable
+
+> Past results don't guarantee future returns
+
+---
+
+\`\`\`python
+stake = bankroll * 0.01
+\`\`\`
+
+Good luck!`;
+
+/** Parse `source` as a stream of chunks of the given size */
+const parseInChunks = (source: string, size: number) => {
+  let parsed: ParsedMarkdown | null = null;
+  for (let end = size; end < source.length + size; end += size) {
+    parsed = parseMarkdown(source.slice(0, end), parsed);
+  }
+  return parsed!;
+};
+
+describe('Markdown parsing', () => {
+  it('parses the blocks of an assistant reply', () => {
+    const { blocks } = parseMarkdown(REPLY);
+
+    expect(blocks.map((block) => block.type)).toEqual([
+      'heading',
+      'paragraph',
+      'table',
+      'list',
+      'list',
+      'quote',
+      'rule',
+      'code',
+      'paragraph',
+    ]);
+    expect(blocks[0]).toEqual({ type: 'heading', level: 2, text: "Tonight's best price" });
+    expect(blocks[2]).toEqual({
+      type: 'table',
+      header: ['Book', 'Spread', 'Odds'],
+      align: ['left', 'center', 'right'],
+      rows: [
+        ['DraftKings', '-3.5', '-110'],
+        ['FanDuel', '-3', '-115'],
+      ],
+    });
+    expect(blocks[3]).toEqual({
+      type: 'list',
+      ordered: true,
+      items: [
+        { text: 'Shop the line', depth: 0, marker: '1.' },
+        { text: 'Keep stakes at `1u`\nunless the number moves', depth: 0, marker: '2.' },
+      ],
+    });
+    expect(blocks[4]).toMatchObject({
+      items: [
+        { text: 'Injury news', depth: 0 },
+        { text: 'Davis is probable', depth: 1 },
+      ],
+    });
+    expect(blocks[7]).toEqual({
+      type: 'code',
+      language: 'python',
+      text: 'stake = bankroll * 0.01',
+      closed: true,
+    });
+  });
+
+  it('keeps table rows the width of the header and honours escaped pipes', () => {
+    const { blocks } = parseMarkdown('| A | B |\n|---|---|\n| 1 |\n| x \\| y | 2 | extra |');
+
+    expect(blocks[0]).toMatchObject({
+      rows: [
+        ['1', ''],
+        ['x | y', '2'],
+      ],
+    });
+  });
+
+  it('renders an unterminated code fence as an open code block', () => {
+    const { blocks } = parseMarkdown('Try this:\n```\nconst edge = 0.04;');
+
+    expect(blocks[1]).toEqual({
+      type: 'code',
+      language: null,
+      text: 'const edge = 0.04;',
+      closed: false,
+    });
+  });
+
+  it.each([1, 3, 7, 40])(
+    'parses a stream in %i character chunks like the whole reply',
+    (size: number) => {
+      expect(parseInChunks(REPLY, size).blocks).toEqual(parseMarkdown(REPLY).blocks);
+    }
+  );
+
+  it('settles a block whose boundary depends on the line being streamed', () => {
+    const streamed = parseMarkdown('Intro\n---', parseMarkdown('Intro\n--'));
+
+    expect(parseMarkdown('Intro\n--- not a rule', streamed).blocks).toEqual(
+      parseMarkdown('Intro\n--- not a rule').blocks
+    );
+  });
+
+  it('reuses settled blocks and only reparses the tail', () => {
+    const first = parseMarkdown('# Picks\n\nFirst paragraph.\n\nSecond paragraph\nrunning\non');
+    const next = parseMarkdown(`${first.source} and on`, first);
+
+    expect(next.blocks[0]).toBe(first.blocks[0]);
+    expect(next.blocks[1]).toBe(first.blocks[1]);
+    expect(next.blocks[2]).toEqual({
+      type: 'paragraph',
+      text: 'Second paragraph\nrunning\non and on',
+    });
+  });
+
+  it('parses from scratch when the source was replaced rather than extended', () => {
+    const first = parseMarkdown('Old reply\n\nMore');
+    const next = parseMarkdown('New reply', first);
+
+    expect(next.blocks).toEqual([{ type: 'paragraph', text: 'New reply' }]);
+  });
+});
+
+describe('Inline markdown parsing', () => {
+  it('parses emphasis, code and links', () => {
+    expect(parseInline('**Bold *and italic*** with `code` and [docs](https://a.io)')).toEqual([
+      {
+        type: 'strong',
+        children: [
+          { type: 'text', text: 'Bold ' },
+          { type: 'emphasis', children: [{ type: 'text', text: 'and italic' }] },
+        ],
+      },
+      { type: 'text', text: ' with ' },
+      { type: 'code', text: 'code' },
+      { type: 'text', text: ' and ' },
+      { type: 'link', href: 'https://a.io', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+  });
+
+  it('links bare URLs without trailing punctuation', () => {
+    expect(parseInline('See https://example.com/odds.')).toEqual([
+      { type: 'text', text: 'See ' },
+      {
+        type: 'link',
+        href: 'https://example.com/odds',
+        children: [{ type: 'text', text: 'https://example.com/odds' }],
+      },
+      { type: 'text', text: '.' },
+    ]);
+  });
+
+  it('drops links with unsafe schemes and never interprets HTML', () => {
+    expect(parseInline('[win big](javascript:steal) <script>x</script>')).toEqual([
+      { type: 'text', text: 'win big <script>x</script>' },
+    ]);
+  });
+
+  it('leaves unclosed marks from a streaming reply as text', () => {
+    expect(parseInline('Take the **Lak')).toEqual([{ type: 'text', text: 'Take the **Lak' }]);
+  });
+
+  it('only matches links and code where they start', () => {
+    expect(parseInline('[odds] hit ``x` at [docs](https://a.io) ``')).toEqual([
+      { type: 'text', text: '[odds] hit ' },
+      { type: 'code', text: 'x` at [docs](https://a.io)' },
+    ]);
+    expect(parseInline('[odds] via http: then https://a.io')).toEqual([
+      { type: 'text', text: '[odds] via http: then ' },
+      { type: 'link', href: 'https://a.io', children: [{ type: 'text', text: 'https://a.io' }] },
+    ]);
+  });
+
+  it('keeps underscores inside words', () => {
+    expect(parseInline('snake_case_name')).toEqual([{ type: 'text', text: 'snake_case_name' }]);
+  });
+});
+
+describe('markdownToPlainText', () => {
+  it('strips markup for screen readers', () => {
+    expect(
+      markdownToPlainText(
+        '**Lakers** -3.5\n\n- [Odds](https://a.io)\n\n| A | B |\n|-|-|\n| 1 | 2 |'
+      )
+    ).toBe('Lakers -3.5\n• Odds\nA, B\n1, 2');
+  });
+});
@@ -0,0 +1,70 @@
+import { resolveConversationPath } from '@/utils/messageBranches';
+import type { DeliverableChatMessage } from '@/types/chat';
+
+let clock = 0;
+const message = (
+  id: string,
+  role: DeliverableChatMessage['role'],
+  branch: Pick<DeliverableChatMessage, 'parentId' | 'versionOf'> = {}
+): DeliverableChatMessage => ({
+  id,
+  chatId: 'chat-1',
+  role,
+  content: id,
+  timestamp: new Date(Date.UTC(2025, 0, 1, 0, 0, clock++)).toISOString(),
+  ...branch,
+});
+
+const ids = (messages: DeliverableChatMessage[], selections?: Record<string, string>) =>
+  resolveConversationPath(messages, selections).map((step) => step.message.id);
+
+describe('resolveConversationPath', () => {
+  beforeEach(() => {
+    clock = 0;
+  });
+
+  it('should read messages without branch fields as a linear history in time order', () => {
+    const history = [message('u1', 'user'), message('a1', 'assistant'), message('u2', 'user')];
+
+    expect(ids([history[2], history[0], history[1]])).toEqual(['u1', 'a1', 'u2']);
+  });
+
+  it('should show the newest reply and page to earlier ones', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('a1', 'assistant'),
+      message('a1-v2', 'assistant', { versionOf: 'a1' }),
+    ];
+
+    const [, reply] = resolveConversationPath(messages);
+    expect(reply).toMatchObject({ groupId: 'a1', versionIds: ['a1', 'a1-v2'], versionIndex: 1 });
+    expect(ids(messages, { a1: 'a1' })).toEqual(['u1', 'a1']);
+  });
+
+  it('should follow the branch of the selected edit', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('a1', 'assistant'),
+      message('u2', 'user'),
+      message('a2', 'assistant'),
+      message('u2-edit', 'user', { versionOf: 'u2', parentId: 'a1' }),
+      message('a2-edit', 'assistant', { parentId: 'u2-edit' }),
+      message('u3', 'user', { parentId: 'a2-edit' }),
+    ];
+
+    expect(ids(messages)).toEqual(['u1', 'a1', 'u2-edit', 'a2-edit', 'u3']);
+    expect(ids(messages, { u2: 'u2' })).toEqual(['u1', 'a1', 'u2', 'a2']);
+  });
+
+  it('should group versions of the first message and of earlier versions', () => {
+    const messages = [
+      message('u1', 'user'),
+      message('u1-edit', 'user', { versionOf: 'u1', parentId: null }),
+      message('u1-edit-2', 'user', { versionOf: 'u1-edit' }),
+    ];
+
+    expect(resolveConversationPath(messages)).toEqual([
+      expect.objectContaining({ groupId: 'u1', versionIds: ['u1', 'u1-edit', 'u1-edit-2'] }),
+    ]);
+  });
+});
@@ -0,0 +1,41 @@
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  buildSnippet,
+  splitHighlights,
+  toFtsQuery,
+  toLikePattern,
+} from '@/utils/messageSearch';
+
+const mark = (text: string) => `${HIGHLIGHT_START}${text}${HIGHLIGHT_END}`;
+
+describe('Message search utils', () => {
+  it('should quote every term as a prefix so FTS5 operators are searched literally', () => {
+    expect(toFtsQuery('  lakers  OR "spread" ')).toBe('"lakers"* "OR"* "spread"*');
+    expect(toFtsQuery('""')).toBe('');
+  });
+
+  it('should escape LIKE wildcards', () => {
+    expect(toLikePattern('50%_off\\')).toBe('%50\\%\\_off\\\\%');
+  });
+
+  it('should mark every term in a window around the first match', () => {
+    const content = `${'word '.repeat(30)}the Lakers cover the spread\n${'more '.repeat(30)}`;
+    const snippet = buildSnippet(content, ['lakers', 'spread']);
+
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain(`the ${mark('Lakers')} cover the ${mark('spread')} more`);
+    expect(buildSnippet('Short one', ['one'])).toBe(`Short ${mark('one')}`);
+  });
+
+  it('should split a snippet into plain and highlighted runs', () => {
+    expect(splitHighlights(`…take the ${mark('Lakers')} ${mark('spread')}?`)).toEqual([
+      { text: '…take the ', highlighted: false },
+      { text: 'Lakers', highlighted: true },
+      { text: ' ', highlighted: false },
+      { text: 'spread', highlighted: true },
+      { text: '?', highlighted: false },
+    ]);
+  });
+});
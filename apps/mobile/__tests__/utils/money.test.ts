@@ -0,0 +1,22 @@
+import { formatMoney, getAmountCurrency, getCurrencySymbol } from '@/utils/money';
+
+describe('Money utils', () => {
+  it('should format amounts for the locale and currency', () => {
+    expect(formatMoney(1234.5, { currency: 'USD', locale: 'en-US' })).toBe('$1,234.50');
+    expect(formatMoney(1234.5, { currency: 'GBP', locale: 'en-GB' })).toBe('£1,234.50');
+    expect(formatMoney(1234.5, { currency: 'EUR', locale: 'de-DE' })).toBe('1.234,50 €');
+    expect(formatMoney(-5, { currency: 'USD', locale: 'en-US', signed: true })).toBe('-$5.00');
+    expect(formatMoney(5, { currency: 'USD', locale: 'en-US', signed: true })).toBe('+$5.00');
+  });
+
+  it('should fall back to dollars for unknown currency codes', () => {
+    expect(formatMoney(10, { currency: 'not-a-currency', locale: 'en-US' })).toBe('$10.00');
+    expect(getCurrencySymbol('CAD', 'en-CA')).toBe('$');
+    expect(getCurrencySymbol('GBP', 'en-GB')).toBe('£');
+  });
+
+  it('should treat untagged recommendations as dollars', () => {
+    expect(getAmountCurrency({})).toBe('USD');
+    expect(getAmountCurrency({ currency: 'EUR' })).toBe('EUR');
+  });
+});
@@ -0,0 +1,31 @@
+import {
+  formatImpliedProbability,
+  formatOdds,
+  getPriceImpliedProbability,
+} from '@/utils/oddsFormat';
+
+describe('Odds format utils', () => {
+  it('should render a price in every format whatever it was quoted in', () => {
+    const plusMoney = { odds: 150, oddsFormat: 'american' as const };
+
+    expect(formatOdds(plusMoney, 'american')).toBe('+150');
+    expect(formatOdds(plusMoney, 'decimal')).toBe('2.50');
+    expect(formatOdds(plusMoney, 'fractional')).toBe('3/2');
+
+    const favourite = { odds: 1.909, oddsFormat: 'decimal' as const };
+
+    expect(formatOdds(favourite, 'american')).toBe('-110');
+    expect(formatOdds(favourite, 'fractional')).toBe('10/11');
+    expect(formatOdds({ odds: 1, oddsFormat: 'fractional' }, 'fractional')).toBe('Evens');
+    expect(formatOdds({ odds: 4, oddsFormat: 'fractional' }, 'american')).toBe('+400');
+  });
+
+  it('should render prices with no payout as a dash', () => {
+    expect(formatOdds({ odds: 1, oddsFormat: 'decimal' }, 'american')).toBe('—');
+  });
+
+  it('should format implied probability', () => {
+    expect(getPriceImpliedProbability({ odds: -150, oddsFormat: 'american' })).toBeCloseTo(0.6, 5);
+    expect(formatImpliedProbability(0.5238)).toBe('52.4%');
+  });
+});
@@ -0,0 +1,59 @@
+import { exceedsTolerance, getOddsMovement, parseOddsUpdate } from '@/utils/oddsMovement';
+
+describe('Odds movement utils', () => {
+  it('should parse odds_update events and reject malformed ones', () => {
+    const receivedAt = new Date('2025-03-15T12:00:00.000Z');
+
+    expect(
+      parseOddsUpdate(
+        {
+          type: 'odds_update',
+          recommendationId: 'rec-1',
+          sportsbookId: 'draftkings',
+          odds: -120,
+          oddsFormat: 'american',
+        },
+        receivedAt
+      )
+    ).toEqual({
+      recommendationId: 'rec-1',
+      sportsbookId: 'draftkings',
+      odds: -120,
+      oddsFormat: 'american',
+      updatedAt: '2025-03-15T12:00:00.000Z',
+    });
+    expect(parseOddsUpdate({ recommendationId: 'rec-1', odds: 'evens' })).toBeNull();
+  });
+
+  it('should compare prices across formats', () => {
+    const lengthened = getOddsMovement(
+      { odds: -110, oddsFormat: 'american' },
+      { odds: 2.1, oddsFormat: 'decimal' }
+    );
+    expect(lengthened.direction).toBe('up');
+    expect(lengthened.probabilityChange).toBeLessThan(0);
+
+    const shortened = getOddsMovement(
+      { odds: 2.0, oddsFormat: 'decimal' },
+      { odds: -125, oddsFormat: 'american' }
+    );
+    expect(shortened.direction).toBe('down');
+    expect(shortened.probabilityChange).toBeCloseTo(0.5556 - 0.5, 3);
+
+    expect(
+      getOddsMovement({ odds: 100, oddsFormat: 'american' }, { odds: 2, oddsFormat: 'decimal' })
+    ).toEqual({ direction: 'none', probabilityChange: 0 });
+  });
+
+  it('should only require acceptance for moves past the tolerance', () => {
+    const move = getOddsMovement(
+      { odds: 2.0, oddsFormat: 'decimal' },
+      { odds: 1.95, oddsFormat: 'decimal' }
+    );
+
+    expect(exceedsTolerance(move, 0)).toBe(true);
+    expect(exceedsTolerance(move, 0.01)).toBe(true);
+    expect(exceedsTolerance(move, 0.02)).toBe(false);
+    expect(exceedsTolerance({ direction: 'none', probabilityChange: 0 }, 0)).toBe(false);
+  });
+});
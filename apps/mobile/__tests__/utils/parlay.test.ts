@@ -0,0 +1,75 @@
+import { quoteParlay, findCorrelatedLegs } from '@/utils/parlay';
+import type { BetRecommendation } from '@/types/bet';
+
+const createLeg = (overrides: Partial<BetRecommendation>): BetRecommendation => ({
+  id: 'leg',
+  sport: 'NFL',
+  league: 'NFL',
+  event: 'Chiefs vs Bills',
+  eventDate: '2025-10-12T20:00:00.000Z',
+  betType: 'Moneyline',
+  selection: 'Chiefs',
+  odds: 2,
+  oddsFormat: 'decimal',
+  stake: 10,
+  potentialPayout: 20,
+  sportsbook: { id: 'dk', name: 'DraftKings', deepLinkScheme: 'draftkings' },
+  reasoning: '',
+  confidence: 0.5,
+  ...overrides,
+});
+
+describe('Parlay utils', () => {
+  it('should multiply decimal odds across legs', () => {
+    const quote = quoteParlay(
+      [
+        createLeg({ id: 'a', odds: 2, event: 'Chiefs vs Bills' }),
+        createLeg({ id: 'b', odds: 1.5, event: 'Eagles vs Cowboys' }),
+      ],
+      10
+    );
+
+    expect(quote.decimalOdds).toBe(3);
+    expect(quote.potentialPayout).toBe(30);
+    expect(quote.americanOdds).toBe(200);
+  });
+
+  it('should normalize american odds before combining', () => {
+    const quote = quoteParlay(
+      [
+        createLeg({ id: 'a', odds: 100, oddsFormat: 'american', event: 'Chiefs vs Bills' }),
+        createLeg({ id: 'b', odds: -200, oddsFormat: 'american', event: 'Eagles vs Cowboys' }),
+      ],
+      20
+    );
+
+    expect(quote.decimalOdds).toBe(3);
+    expect(quote.potentialPayout).toBe(60);
+  });
+
+  it('should flag legs from the same event as correlated', () => {
+    const legs = [
+      createLeg({ id: 'a', selection: 'Chiefs' }),
+      createLeg({ id: 'b', selection: 'Over 47.5' }),
+      createLeg({ id: 'c', event: 'Eagles vs Cowboys' }),
+    ];
+
+    expect(findCorrelatedLegs(legs)).toEqual([['a', 'b']]);
+  });
+
+  it('should detect legs from different sportsbooks', () => {
+    const quote = quoteParlay(
+      [
+        createLeg({ id: 'a' }),
+        createLeg({
+          id: 'b',
+          event: 'Eagles vs Cowboys',
+          sportsbook: { id: 'fd', name: 'FanDuel', deepLinkScheme: 'fanduel' },
+        }),
+      ],
+      10
+    );
+
+    expect(quote.hasMixedSportsbooks).toBe(true);
+  });
+});
@@ -0,0 +1,118 @@
+import { summarizePerformance } from '@/utils/performance';
+import { parseBetResultNotification } from '@/utils/settlement';
+import type { BetLedgerEntry, BetRecommendation, BetSettlement } from '@/types/bet';
+
+const createBet = (
+  id: string,
+  settlement: Omit<BetSettlement, 'betRecommendationId'> | null,
+  overrides: Partial<BetRecommendation> = {}
+): BetLedgerEntry => ({
+  betRecommendationId: id,
+  userId: 'user-1',
+  chatId: '',
+  messageId: '',
+  confirmedAt: '2025-01-01T00:00:00.000Z',
+  redirectedToSportsbook: true,
+  recommendation: {
+    id,
+    sport: 'NFL',
+    league: 'NFL',
+    event: 'Chiefs vs Bills',
+    eventDate: '2025-01-02T00:00:00.000Z',
+    betType: 'Moneyline',
+    selection: 'Chiefs',
+    odds: 2,
+    oddsFormat: 'decimal',
+    stake: 10,
+    potentialPayout: 20,
+    sportsbook: { id: 'dk', name: 'DraftKings', deepLinkScheme: 'draftkings' },
+    reasoning: '',
+    confidence: 0.5,
+    ...overrides,
+  },
+  settlement: settlement && { betRecommendationId: id, ...settlement },
+});
+
+describe('Performance utils', () => {
+  const bets = [
+    createBet('a', { status: 'won', payout: 20, settledAt: '2025-01-03T00:00:00.000Z' }),
+    createBet(
+      'b',
+      { status: 'lost', payout: 0, settledAt: '2025-01-02T00:00:00.000Z' },
+      {
+        sport: 'NBA',
+        league: 'NBA',
+        sportsbook: { id: 'fd', name: 'FanDuel', deepLinkScheme: 'fd' },
+      }
+    ),
+    createBet('c', { status: 'push', payout: 10, settledAt: '2025-01-04T00:00:00.000Z' }),
+    createBet('d', { status: 'void', payout: 10, settledAt: '2025-01-05T00:00:00.000Z' }),
+    createBet('e', null),
+  ];
+
+  it('should compute profit, ROI, units and win rate over settled bets', () => {
+    const summary = summarizePerformance(bets, 5);
+
+    expect(summary.bets).toBe(4);
+    expect(summary.profit).toBe(0);
+    // Void bets had no action, so only three stakes count
+    expect(summary.staked).toBe(30);
+    expect(summary.roi).toBe(0);
+    expect(summary.unitsWon).toBe(0);
+    expect(summary.winRate).toBe(0.5);
+  });
+
+  it('should build the running profit series in settlement order', () => {
+    const { profitSeries } = summarizePerformance(bets, 0);
+
+    expect(profitSeries.map((point) => point.profit)).toEqual([-10, 0, 0, 0]);
+  });
+
+  it('should break results down by dimension', () => {
+    const { breakdown, unitsWon } = summarizePerformance(bets, 0);
+
+    expect(unitsWon).toBeNull();
+    expect(breakdown.sport.map(({ key, profit }) => [key, profit])).toEqual([
+      ['NFL', 10],
+      ['NBA', -10],
+    ]);
+    expect(breakdown.sportsbook.find((group) => group.key === 'FanDuel')?.winRate).toBe(0);
+  });
+
+  it('should only add up bets in the requested currency', () => {
+    const mixed = [
+      ...bets,
+      createBet(
+        'f',
+        { status: 'won', payout: 30, settledAt: '2025-01-06T00:00:00.000Z' },
+        { currency: 'GBP' }
+      ),
+    ];
+
+    const dollars = summarizePerformance(mixed, 0, 'USD');
+    expect(dollars.bets).toBe(4);
+    expect(dollars.profit).toBe(0);
+    expect(dollars.otherCurrencyBets).toBe(1);
+
+    const pounds = summarizePerformance(mixed, 0, 'GBP');
+    expect(pounds.profit).toBe(20);
+    expect(pounds.otherCurrencyBets).toBe(4);
+  });
+
+  it('should read settlements from bet_result notifications', () => {
+    const receivedAt = new Date('2025-01-06T00:00:00.000Z');
+
+    expect(
+      parseBetResultNotification(
+        { type: 'bet_result', betId: 'a', status: 'won', payout: '19.09' },
+        receivedAt
+      )
+    ).toEqual({
+      betRecommendationId: 'a',
+      status: 'won',
+      payout: 19.09,
+      settledAt: '2025-01-06T00:00:00.000Z',
+    });
+    expect(parseBetResultNotification({ type: 'bet_result', betId: 'a' })).toBeNull();
+  });
+});
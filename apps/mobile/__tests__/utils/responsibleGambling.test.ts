@@ -0,0 +1,100 @@
+import {
+  checkBetAllowed,
+  getEffectiveStakeLimits,
+  getLimitCurrency,
+} from '@/utils/responsibleGambling';
+import type { ResponsibleGamblingSettings } from '@/utils/responsibleGambling';
+
+const now = new Date('2025-03-15T12:00:00.000Z');
+
+const settings = (
+  overrides: Partial<ResponsibleGamblingSettings> = {}
+): ResponsibleGamblingSettings => ({
+  stakeLimits: { daily: null, weekly: null, monthly: null },
+  limitCurrency: 'USD',
+  pendingLimitChanges: {},
+  coolOffUntil: null,
+  selfExcludedUntil: null,
+  ...overrides,
+});
+
+describe('Responsible gambling utils', () => {
+  it('should allow any bet without limits or breaks', () => {
+    expect(checkBetAllowed(1000, 'USD', [], settings(), now)).toEqual({ allowed: true });
+  });
+
+  it('should block bets during self-exclusion and cool-off', () => {
+    expect(
+      checkBetAllowed(
+        10,
+        'USD',
+        [],
+        settings({ selfExcludedUntil: '2025-09-15T12:00:00.000Z' }),
+        now
+      )
+    ).toEqual({ allowed: false, reason: 'self-exclusion', until: '2025-09-15T12:00:00.000Z' });
+    expect(
+      checkBetAllowed(10, 'USD', [], settings({ coolOffUntil: '2025-03-16T12:00:00.000Z' }), now)
+    ).toEqual({ allowed: false, reason: 'cool-off', until: '2025-03-16T12:00:00.000Z' });
+    expect(
+      checkBetAllowed(10, 'USD', [], settings({ coolOffUntil: '2025-03-14T12:00:00.000Z' }), now)
+    ).toEqual({ allowed: true });
+  });
+
+  it('should count only stakes inside each rolling window', () => {
+    const recentStakes = [
+      { confirmedAt: '2025-03-15T08:00:00.000Z', stake: 40, currency: 'USD' },
+      { confirmedAt: '2025-03-10T08:00:00.000Z', stake: 50, currency: 'USD' },
+      { confirmedAt: '2025-02-01T08:00:00.000Z', stake: 500, currency: 'USD' },
+    ];
+    const limited = settings({ stakeLimits: { daily: 50, weekly: 100, monthly: null } });
+
+    expect(checkBetAllowed(10, 'USD', recentStakes, limited, now)).toEqual({ allowed: true });
+    expect(checkBetAllowed(11, 'USD', recentStakes, limited, now)).toEqual({
+      allowed: false,
+      reason: 'stake-limit',
+      period: 'daily',
+      limit: 50,
+      remaining: 10,
+      currency: 'USD',
+    });
+  });
+
+  it('should count only stakes in the limit currency and refuse bets in others', () => {
+    const recentStakes = [
+      { confirmedAt: '2025-03-15T08:00:00.000Z', stake: 40, currency: 'USD' },
+      { confirmedAt: '2025-03-15T09:00:00.000Z', stake: 40, currency: 'EUR' },
+    ];
+    const limited = settings({ stakeLimits: { daily: 50, weekly: null, monthly: null } });
+
+    expect(checkBetAllowed(10, 'USD', recentStakes, limited, now)).toEqual({ allowed: true });
+    expect(checkBetAllowed(1, 'EUR', recentStakes, limited, now)).toEqual({
+      allowed: false,
+      reason: 'currency-mismatch',
+      currency: 'USD',
+    });
+    expect(checkBetAllowed(1000, 'EUR', recentStakes, settings(), now)).toEqual({ allowed: true });
+  });
+
+  it('should keep the limit currency only while a limit is set or pending', () => {
+    const removal = { amount: null, effectiveAt: '2025-03-16T00:00:00.000Z' };
+
+    expect(getLimitCurrency(settings(), 'EUR')).toBe('EUR');
+    expect(
+      getLimitCurrency(settings({ stakeLimits: { daily: 50, weekly: null, monthly: null } }), 'EUR')
+    ).toBe('USD');
+    expect(getLimitCurrency(settings({ pendingLimitChanges: { daily: removal } }), 'EUR')).toBe(
+      'USD'
+    );
+  });
+
+  it('should apply a pending limit increase only once its delay has passed', () => {
+    const pending = settings({
+      stakeLimits: { daily: 50, weekly: null, monthly: null },
+      pendingLimitChanges: { daily: { amount: 200, effectiveAt: '2025-03-16T00:00:00.000Z' } },
+    });
+
+    expect(getEffectiveStakeLimits(pending, now).daily).toBe(50);
+    expect(getEffectiveStakeLimits(pending, new Date('2025-03-16T00:00:00.000Z')).daily).toBe(200);
+  });
+});
@@ -0,0 +1,112 @@
+import { buildParlayLinks, buildSportsbookLinks } from '@/utils/sportsbookLinks';
+import {
+  DEEP_LINK_PARAMS,
+  SPORTSBOOKS,
+  SPORTSBOOK_KEYS,
+  findSportsbookKey,
+  toSportsbook,
+  type SportsbookKey,
+} from '@/config/sportsbooks';
+import { LICENSED_SPORTSBOOKS } from '@/config/jurisdictions';
+import type { BetRecommendation } from '@/types/bet';
+
+const recommendation = (overrides: Partial<BetRecommendation> = {}): BetRecommendation =>
+  ({
+    id: 'rec-1',
+    sport: 'NBA',
+    league: 'NBA',
+    event: 'Lakers @ Celtics',
+    betType: 'moneyline',
+    selection: 'Lakers ML',
+    odds: -110,
+    oddsFormat: 'american',
+    stake: 25,
+    potentialPayout: 47.73,
+    sportsbook: { id: 'dk', name: 'DraftKings', deepLinkScheme: 'draftkings' },
+    ...overrides,
+  }) as BetRecommendation;
+
+const queryKeys = (url: string): string[] => [
+  ...new URLSearchParams(url.split('?')[1] ?? '').keys(),
+];
+
+describe.each(SPORTSBOOK_KEYS)('Sportsbook links for %s', (key: SportsbookKey) => {
+  const config = SPORTSBOOKS[key];
+  const bet = recommendation({ sportsbook: toSportsbook(config) });
+
+  it('should be found in the registry from the API shape', () => {
+    expect(findSportsbookKey(toSportsbook(config))).toBe(key);
+    expect(findSportsbookKey({ id: 'other', name: config.name, deepLinkScheme: 'other' })).toBe(
+      key
+    );
+  });
+
+  it('should list exactly the states that license it', () => {
+    Object.entries(LICENSED_SPORTSBOOKS).forEach(([state, books]) => {
+      expect(config.states.includes(state as never)).toBe(books.includes(key));
+    });
+  });
+
+  it('should deep link to the native bet slip with supported params only', () => {
+    const links = buildSportsbookLinks(bet, 'ios');
+
+    expect(links.sportsbook).toBe(key);
+    expect(links.native.startsWith(`${config.deepLinkScheme}://${config.deepLinkPath}?`)).toBe(
+      true
+    );
+    expect(queryKeys(links.native).sort()).toEqual([...config.deepLinkParams].sort());
+    expect(new URLSearchParams(links.native.split('?')[1]).get('mode')).toBe(
+      config.deepLinkParams.includes('mode') ? 'guide' : null
+    );
+  });
+
+  it('should fall back to the web bet slip when the book has one', () => {
+    const { web } = buildSportsbookLinks(bet, 'ios');
+
+    if (config.webBetSlipPath) {
+      expect(web?.startsWith(`${config.webUrl}${config.webBetSlipPath}?`)).toBe(true);
+      expect(web?.startsWith('https://')).toBe(true);
+    } else {
+      expect(web).toBeNull();
+    }
+  });
+
+  it('should fall back to the platform app store', () => {
+    expect(buildSportsbookLinks(bet, 'ios').store).toBe(
+      `https://apps.apple.com/us/app/id${config.iosAppStoreId}`
+    );
+    expect(buildSportsbookLinks(bet, 'android').store).toBe(
+      `https://play.google.com/store/apps/details?id=${config.androidPackage}`
+    );
+  });
+
+  it('should prefill parlays only where the book supports it', () => {
+    const links = buildParlayLinks([bet, { ...bet, id: 'rec-2' }], 40, 'android');
+
+    if (config.supportsParlayDeepLink) {
+      expect(links.native.startsWith(`${config.deepLinkScheme}://parlay?`)).toBe(true);
+      expect(queryKeys(links.native)).toEqual(expect.arrayContaining(['legs', 'leg2_selection']));
+    } else {
+      expect(links.native).toBe(`${config.deepLinkScheme}://`);
+      expect(links.web).toBe(config.webUrl);
+    }
+    expect(links.store).toContain(config.androidPackage);
+  });
+});
+
+describe('Sportsbook links for unknown books', () => {
+  it('should only use the link the API described', () => {
+    const links = buildSportsbookLinks(
+      recommendation({
+        sportsbook: { id: 'local', name: 'Local Book', deepLinkScheme: 'localbook' },
+      }),
+      'ios'
+    );
+
+    expect(links.sportsbook).toBe('localbook');
+    expect(links.native.startsWith('localbook://bet?')).toBe(true);
+    expect(queryKeys(links.native).sort()).toEqual([...DEEP_LINK_PARAMS].sort());
+    expect(links.web).toBeNull();
+    expect(links.store).toBeNull();
+  });
+});
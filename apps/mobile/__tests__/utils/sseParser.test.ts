@@ -0,0 +1,133 @@
+import { TextEncoder } from 'util';
+import { createSSEParser, type SSEMessage } from '@/utils/sseParser';
+
+const parseAll = (chunks: Array<string | Uint8Array>, end = false) => {
+  const messages: SSEMessage[] = [];
+  const parser = createSSEParser((message) => messages.push(message));
+  chunks.forEach((chunk) => parser.push(chunk));
+  if (end) parser.end();
+  return messages;
+};
+
+/** Every way of cutting `text` into two chunks */
+const splits = (text: string) =>
+  Array.from({ length: text.length + 1 }, (_, i) => [text.slice(0, i), text.slice(i)]);
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('createSSEParser', () => {
+  it('dispatches an event at each blank line', () => {
+    expect(parseAll(['data: one\n\ndata: two\n\n'])).toEqual([{ data: 'one' }, { data: 'two' }]);
+  });
+
+  it('joins multi-line data with newlines', () => {
+    expect(parseAll(['data: {\ndata:   "a": 1\ndata: }\n\n'])).toEqual([
+      { data: '{\n  "a": 1\n}' },
+    ]);
+  });
+
+  it.each([
+    ['LF', '\n'],
+    ['CRLF', '\r\n'],
+    ['CR', '\r'],
+  ])('accepts %s line endings', (_name: string, eol: string) => {
+    const stream = `event: update${eol}data: a${eol}data: b${eol}${eol}data: c${eol}${eol}`;
+
+    expect(parseAll([stream])).toEqual([{ event: 'update', data: 'a\nb' }, { data: 'c' }]);
+  });
+
+  it('treats a CRLF split across chunks as one line ending', () => {
+    expect(parseAll(['data: a\r', '\ndata: b\r\n\r', '\n'])).toEqual([{ data: 'a\nb' }]);
+  });
+
+  it('ignores comments, including keep-alives on their own', () => {
+    expect(parseAll([':ping\n\n: hello\ndata: x\n:mid\n\n'])).toEqual([{ data: 'x' }]);
+  });
+
+  it('strips exactly one space after the colon', () => {
+    expect(parseAll(['data:no-space\ndata:  two-spaces\n\n'])).toEqual([
+      { data: 'no-space\n two-spaces' },
+    ]);
+  });
+
+  it('treats a line without a colon as a field with an empty value', () => {
+    expect(parseAll(['data\ndata\n\n'])).toEqual([{ data: '\n' }]);
+  });
+
+  it('reads id and retry, ignoring invalid values and unknown fields', () => {
+    expect(
+      parseAll(['id: 7\nretry: 2500\nfoo: bar\ndata: x\n\nid: a\0b\nretry: 1s\ndata: y\n\n'])
+    ).toEqual([{ id: '7', retry: 2500, data: 'x' }, { data: 'y' }]);
+  });
+
+  it('reports events without data so id changes are not lost', () => {
+    expect(parseAll(['id: 9\n\nid:\n\n'])).toEqual([
+      { id: '9', data: '' },
+      { id: '', data: '' },
+    ]);
+  });
+
+  it('uses the last event field in a block', () => {
+    expect(parseAll(['event: a\nevent: b\ndata: x\n\n'])).toEqual([{ event: 'b', data: 'x' }]);
+  });
+
+  it('strips a leading byte order mark once', () => {
+    expect(parseAll(['\uFEFFdata: a\n\n\uFEFFdata: b\n\n'])).toEqual([{ data: 'a' }]);
+  });
+
+  it('discards an unterminated event when the stream ends', () => {
+    expect(parseAll(['data: done\n\ndata: partial\n'], true)).toEqual([{ data: 'done' }]);
+  });
+
+  it('parses the same events however the text is split', () => {
+    const stream = ': hi\r\nid: 1\r\nevent: chunk\r\ndata: {"a":\r\ndata: 1}\r\n\r\ndata: é\n\n';
+    const expected = parseAll([stream]);
+
+    for (const chunks of splits(stream)) {
+      expect(parseAll(chunks)).toEqual(expected);
+    }
+  });
+
+  describe('with UTF-8 bytes', () => {
+    it('decodes characters split across chunks at any byte', () => {
+      const encoded = bytes('data: héllo — 🎲 ✓\n\n');
+
+      for (let i = 0; i <= encoded.length; i++) {
+        expect(parseAll([encoded.slice(0, i), encoded.slice(i)])).toEqual([
+          { data: 'héllo — 🎲 ✓' },
+        ]);
+      }
+    });
+
+    it('decodes one byte at a time', () => {
+      const encoded = bytes('data: 🎲🎲\r\n\r\n');
+      const chunks = Array.from(encoded, (byte) => new Uint8Array([byte]));
+
+      expect(parseAll(chunks)).toEqual([{ data: '🎲🎲' }]);
+    });
+
+    it('replaces malformed sequences without swallowing the bytes after them', () => {
+      const malformed = new Uint8Array([
+        ...bytes('data: a'),
+        0xe2,
+        0x82, // truncated three-byte sequence
+        ...bytes('b'),
+        0xff,
+        ...bytes('\n\n'),
+      ]);
+
+      expect(parseAll([malformed])).toEqual([{ data: 'a\uFFFDb\uFFFD' }]);
+    });
+  });
+
+  it('handles long events delivered in small chunks', () => {
+    const content = 'x'.repeat(200_000);
+    const stream = `data: ${content}\n\n`;
+    const chunks: string[] = [];
+    for (let i = 0; i < stream.length; i += 16) {
+      chunks.push(stream.slice(i, i + 16));
+    }
+
+    expect(parseAll(chunks)).toEqual([{ data: content }]);
+  });
+});
@@ -0,0 +1,54 @@
+import { calculateKellyFraction, calculatePayout, proposeStake } from '@/utils/staking';
+import type { BankrollSettings } from '@/utils/staking';
+
+const settings = (overrides: Partial<BankrollSettings>): BankrollSettings => ({
+  bankroll: 1000,
+  strategy: 'fixed-unit',
+  unitSize: 10,
+  percentage: 0.02,
+  kellyFraction: 0.25,
+  ...overrides,
+});
+
+describe('Staking utils', () => {
+  it('should compute the full Kelly fraction for a positive edge', () => {
+    // 60% at even money: (1 * 0.6 - 0.4) / 1
+    expect(calculateKellyFraction(0.6, 2)).toBeCloseTo(0.2);
+  });
+
+  it('should not bet without an edge', () => {
+    expect(calculateKellyFraction(0.4, 2)).toBe(0);
+    expect(calculateKellyFraction(0.6, 1)).toBe(0);
+  });
+
+  it('should stake one unit with the fixed-unit strategy', () => {
+    const recommendation = { odds: 2, oddsFormat: 'decimal' as const, confidence: 0.6 };
+    expect(proposeStake(recommendation, settings({ unitSize: 25 }))).toBe(25);
+  });
+
+  it('should stake a share of the bankroll with the percentage strategy', () => {
+    const recommendation = { odds: 2, oddsFormat: 'decimal' as const, confidence: 0.6 };
+    expect(
+      proposeStake(recommendation, settings({ strategy: 'percentage', percentage: 0.03 }))
+    ).toBe(30);
+  });
+
+  it('should scale the Kelly stake by the configured fraction', () => {
+    const recommendation = { odds: 100, oddsFormat: 'american' as const, confidence: 0.6 };
+    // Full Kelly is 20% of 1000; quarter Kelly is 50
+    expect(proposeStake(recommendation, settings({ strategy: 'kelly' }))).toBe(50);
+  });
+
+  it('should never propose more than the bankroll or less than zero', () => {
+    const recommendation = { odds: 2, oddsFormat: 'decimal' as const, confidence: 0.3 };
+    expect(proposeStake(recommendation, settings({ bankroll: 5, unitSize: 10 }))).toBe(5);
+    expect(proposeStake(recommendation, settings({ strategy: 'kelly' }))).toBe(0);
+    expect(proposeStake(recommendation, settings({ bankroll: 0 }))).toBe(0);
+  });
+
+  it('should calculate the payout for a custom stake', () => {
+    expect(calculatePayout(20, 150, 'american')).toBe(50);
+    expect(calculatePayout(12.5, 1.91, 'decimal')).toBe(23.88);
+    expect(calculatePayout(Number.NaN, 2, 'decimal')).toBe(0);
+  });
+});
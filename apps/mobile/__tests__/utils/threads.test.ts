@@ -0,0 +1,66 @@
+import {
+  ALL_THREADS,
+  deriveThreadTitle,
+  filterThreads,
+  withLocalOrganization,
+} from '@/utils/threads';
+import type { OrganizedChatThread } from '@/types/chat';
+
+const thread = (id: string, overrides: Partial<OrganizedChatThread> = {}): OrganizedChatThread =>
+  ({
+    id,
+    userId: 'user-1',
+    title: id,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+    messageCount: 1,
+    ...overrides,
+  }) as OrganizedChatThread;
+
+const ids = (threads: OrganizedChatThread[]) => threads.map((item) => item.id);
+
+describe('Thread list utils', () => {
+  const threads = [
+    thread('old', { updatedAt: '2025-01-01T00:00:00.000Z' }),
+    thread('recent', { lastMessageAt: '2025-01-05T00:00:00.000Z' }),
+    thread('pinned', { pinned: true }),
+    thread('archived', { archived: true, pinned: true }),
+    thread('filed', { folderId: 'folder-1', updatedAt: '2025-01-03T00:00:00.000Z' }),
+  ];
+
+  it('should list pinned threads first, then the most recently active, hiding archived ones', () => {
+    expect(ids(filterThreads(threads, ALL_THREADS))).toEqual(['pinned', 'recent', 'filed', 'old']);
+  });
+
+  it('should filter by pinned, archived and folder', () => {
+    expect(ids(filterThreads(threads, { kind: 'pinned' }))).toEqual(['pinned']);
+    expect(ids(filterThreads(threads, { kind: 'archived' }))).toEqual(['archived']);
+    expect(ids(filterThreads(threads, { kind: 'folder', folderId: 'folder-1' }))).toEqual([
+      'filed',
+    ]);
+  });
+
+  it('should keep local organization the server did not send', () => {
+    const local = [
+      thread('a', { pinned: true, folderId: 'folder-1' }),
+      thread('b', { pinned: true }),
+    ];
+    const remote = [thread('a'), thread('b', { pinned: false, folderId: null }), thread('c')];
+
+    expect(withLocalOrganization(remote, local)).toEqual([
+      thread('a', { pinned: true, folderId: 'folder-1' }),
+      thread('b', { pinned: false, folderId: null }),
+      thread('c'),
+    ]);
+  });
+
+  it('should derive a title from the first sentence of a message', () => {
+    expect(deriveThreadTitle('  should I take the Lakers -3.5 tonight? Their defense...')).toBe(
+      'Should I take the Lakers -3.5 tonight?'
+    );
+    expect(deriveThreadTitle('Best NBA props.\nAlso golf')).toBe('Best NBA props');
+    expect(
+      deriveThreadTitle('Compare the moneyline, spread and total for every Premier League match')
+    ).toBe('Compare the moneyline, spread and total for…');
+  });
+});
@@ -11,11 +11,13 @@ import { Slot } from 'expo-router';
 import * as Updates from 'expo-updates';
 import { ErrorBoundary } from '@/components/ErrorBoundary';
 import { BetConfirmationSheet } from '@/components/BetConfirmationSheet';
+import { ParlaySlipSheet } from '@/components/ParlaySlipSheet';
 import { lightTheme, darkTheme } from '@/theme';
 import { queryClient } from '@/config/react-query';
 import { useUIStore } from '@/stores/ui.store';
 import { useAuthStore } from '@/stores/auth.store';
 import { databaseService } from '@/services/database.service';
+import { outboxService } from '@/services/outbox.service';
 import { notificationService } from '@/services/notification.service';
 import { analyticsService } from '@/services/analytics.service';
 import { errorTrackingService } from '@/services/error-tracking.service';
@@ -86,6 +88,9 @@ function LayoutContent() {
         notificationService.initialize(),
       ]);
 
+      // Resend messages left in the outbox by a previous session
+      outboxService.drain().catch((error) => logger.error('Initial outbox drain failed', error));
+
       // Initialize error tracking (synchronous)
       errorTrackingService.initialize();
 
@@ -158,6 +163,7 @@ function LayoutContent() {
           <ErrorBoundary>
             <Slot />
             <BetConfirmationSheet />
+            <ParlaySlipSheet />
           </ErrorBoundary>
         </GestureHandlerRootView>
       </SafeAreaProvider>
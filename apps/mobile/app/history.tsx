@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, StyleSheet, TouchableOpacity, Text } from 'react-native';
+import { useTheme } from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from '@/hooks/useTranslation';
+import { HistoryScreen } from '@/screens/HistoryScreen';
+
+export default function HistoryPage() {
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top']}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.headerTitle, { color: theme.colors.onBackground }]}>
+          {t('history.title')}
+        </Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.closeButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('history.close')}
+        >
+          <Ionicons name="close" size={24} color={theme.colors.onBackground} />
+        </TouchableOpacity>
+      </View>
+
+      <HistoryScreen />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    height: 56,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 12,
+    padding: 8,
+  },
+});
@@ -15,36 +15,61 @@ import {
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import { router } from 'expo-router';
-import { useCreateThread, useSendMessage, useChatMessages } from '@/hooks/useChat';
+import { router, useLocalSearchParams } from 'expo-router';
+import {
+  useCreateThread,
+  useSendMessage,
+  useChatMessages,
+  useRetryMessage,
+  useChatThread,
+  useUpdateThread,
+  useGenerateThreadTitle,
+  useEditMessage,
+  useRegenerateResponse,
+} from '@/hooks/useChat';
 import { useSSEStream } from '@/hooks/useSSEStream';
+import { useOpenBetRecommendation } from '@/hooks/useBetting';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BetRecommendationCard } from '@/components/BetRecommendationCard';
+import { ParlaySlipButton } from '@/components/ParlaySlipButton';
+import { EditableThreadTitle } from '@/components/EditableThreadTitle';
+import { MessageActions } from '@/components/MessageActions';
+import { Markdown } from '@/components/Markdown';
+import { getMessageRecommendations } from '@/utils/recommendations';
+import { resolveConversationPath } from '@/utils/messageBranches';
 import { databaseService } from '@/services/database.service';
 import { useAuthStore } from '@/stores/auth.store';
 import type { ChatMessage as ChatMessageType } from '@betthink/shared';
+import type { TranslationKey } from '@/i18n';
+import type { ConversationStep, DeliverableChatMessage } from '@/types/chat';
 import LandingScreen from '@/screens/LandingScreen';
 import TermsOfServiceScreen from '@/screens/TermsOfServiceScreen';
 import PrivacyPolicyScreen from '@/screens/PrivacyPolicyScreen';
 
-const EXAMPLE_PROMPTS = [
+const EXAMPLE_PROMPTS: { titleKey: TranslationKey; subtitleKey: TranslationKey }[] = [
   {
-    title: 'Analyze tonight\'s NBA games',
-    subtitle: 'Show me the best betting opportunities',
+    titleKey: 'home.examplePrompts.nbaTitle',
+    subtitleKey: 'home.examplePrompts.nbaSubtitle',
   },
   {
-    title: 'What\'s the value in Premier League?',
-    subtitle: 'Find undervalued bets this weekend',
+    titleKey: 'home.examplePrompts.premierLeagueTitle',
+    subtitleKey: 'home.examplePrompts.premierLeagueSubtitle',
   },
   {
-    title: 'Explain point spread betting',
-    subtitle: 'Help me understand the basics',
+    titleKey: 'home.examplePrompts.spreadTitle',
+    subtitleKey: 'home.examplePrompts.spreadSubtitle',
   },
   {
-    title: 'Compare NFL teams',
-    subtitle: 'Chiefs vs Bills head-to-head stats',
+    titleKey: 'home.examplePrompts.nflTitle',
+    subtitleKey: 'home.examplePrompts.nflSubtitle',
   },
 ];
 
+/** How long a message opened from search stays highlighted */
+const SEARCH_HIT_HIGHLIGHT_MS = 4000;
+
 export default function Page() {
+  const { t } = useTranslation();
   const [inputText, setInputText] = useState('');
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
   const [menuVisible, setMenuVisible] = useState(false);
@@ -54,11 +79,45 @@ export default function Page() {
   const inputRef = useRef<TextInput>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const { user, isAuthenticated, login, logout } = useAuthStore();
+  // Search and the chat list open a thread, optionally at a message, by navigating here
+  const { threadId: routeThreadId, messageId: routeMessageId } = useLocalSearchParams<{
+    threadId?: string;
+    messageId?: string;
+  }>();
+  const [searchHitId, setSearchHitId] = useState<string | null>(null);
+  const messageOffsets = useRef(new Map<string, number>());
+  const searchHitRef = useRef(searchHitId);
+  searchHitRef.current = searchHitId;
 
   // Hooks for conversation and message management
   const createThread = useCreateThread();
   const { data: messages = [], refetch: refetchMessages } = useChatMessages(currentConversationId || '');
   const sendMessage = useSendMessage(currentConversationId || '');
+  const retryMessage = useRetryMessage(currentConversationId || '');
+  const openBetRecommendation = useOpenBetRecommendation();
+  const { data: currentThread } = useChatThread(currentConversationId || '');
+  const updateThread = useUpdateThread();
+  const generateTitle = useGenerateThreadTitle();
+  // A thread created here keeps its placeholder title until its first reply completes
+  const untitledThreadRef = useRef<{ threadId: string; firstMessage: string } | null>(null);
+  const editMessage = useEditMessage(currentConversationId || '');
+  const regenerateResponse = useRegenerateResponse(currentConversationId || '');
+  // Version shown for each message with alternates, by group id; the newest by default
+  const [versionSelections, setVersionSelections] = useState<Record<string, string>>({});
+  const [editingMessage, setEditingMessage] = useState<DeliverableChatMessage | null>(null);
+  // While an edit or regeneration streams, the path from the replaced message is hidden
+  const [replacingMessageId, setReplacingMessageId] = useState<string | null>(null);
+  // Version group of the reply being regenerated, so the streamed reply joins it
+  const regeneratingGroupRef = useRef<string | null>(null);
+
+  const conversationPath = useMemo(
+    () => resolveConversationPath(messages, versionSelections),
+    [messages, versionSelections]
+  );
+  const stepsById = useMemo(
+    () => new Map(conversationPath.map((step) => [step.message.id, step])),
+    [conversationPath]
+  );
 
   // SSE streaming for real-time responses
   const {
@@ -70,7 +129,7 @@ export default function Page() {
     startStreaming,
   } = useSSEStream({
     threadId: currentConversationId || '',
-    onComplete: async (fullMessage) => {
+    onComplete: async (fullMessage, recommendations) => {
       // Save completed assistant message to database
       if (currentConversationId) {
         const assistantMessage: ChatMessageType = {
@@ -79,19 +138,31 @@ export default function Page() {
           role: 'assistant',
           content: fullMessage,
           timestamp: new Date().toISOString(),
+          ...(recommendations.length > 0 && { metadata: { betRecommendations: recommendations } }),
         };
 
         await databaseService.saveMessage({
           ...assistantMessage,
           localId: assistantMessage.id,
           synced: true,
+          versionOf: regeneratingGroupRef.current,
         });
+        regeneratingGroupRef.current = null;
+        setReplacingMessageId(null);
 
         refetchMessages();
+
+        const untitled = untitledThreadRef.current;
+        if (untitled?.threadId === currentConversationId) {
+          untitledThreadRef.current = null;
+          generateTitle.mutate(untitled);
+        }
       }
     },
     onError: (error) => {
       console.error('Stream error:', error);
+      regeneratingGroupRef.current = null;
+      setReplacingMessageId(null);
     },
   });
 
@@ -105,25 +176,99 @@ export default function Page() {
     setInputText('');
 
     try {
+      if (editingMessage && currentConversationId) {
+        // Resend as a new version of the edited message, which branches the conversation
+        const original = editingMessage;
+        setEditingMessage(null);
+        showNewestVersion(original.id);
+        setReplacingMessageId(original.id);
+        startStreaming();
+        await editMessage.mutateAsync({ messageId: original.id, content: userMessage });
+        return;
+      }
+
       // Create thread if this is the first message
       if (!currentConversationId) {
         // Create thread WITHOUT initial message to avoid race condition
         const thread = await createThread.mutateAsync({
-          title: 'Betting Chat',
+          title: t('home.newThreadTitle'),
         });
         
+        untitledThreadRef.current = { threadId: thread.id, firstMessage: userMessage };
+
         // Set conversation ID - this will trigger SSE connection via useEffect
         setCurrentConversationId(thread.id);
         
         // Store message to send after connection is ready
         setPendingFirstMessage(userMessage);
       } else {
-        // Send message to existing conversation
+        // Send message to existing conversation, continuing the version being shown
+        const lastMessage = conversationPath[conversationPath.length - 1]?.message;
         startStreaming(); // Set streaming state first
-        await sendMessage.mutateAsync(userMessage);
+        await sendMessage.mutateAsync({
+          content: userMessage,
+          parentId: lastMessage && !lastMessage.deliveryStatus ? lastMessage.id : null,
+        });
       }
     } catch (error) {
       console.error('Failed to send message:', error);
+      setReplacingMessageId(null);
+    }
+  };
+
+  const showNewestVersion = (messageId: string) => {
+    const groupId = stepsById.get(messageId)?.groupId;
+    if (!groupId) return;
+    setVersionSelections((current) => {
+      const next = { ...current };
+      delete next[groupId];
+      return next;
+    });
+  };
+
+  const selectVersion = (groupId: string, messageId: string) => {
+    setVersionSelections((current) => ({ ...current, [groupId]: messageId }));
+  };
+
+  const handleEdit = (message: DeliverableChatMessage) => {
+    setEditingMessage(message);
+    setInputText(message.content);
+    inputRef.current?.focus();
+  };
+
+  const cancelEdit = () => {
+    setEditingMessage(null);
+    setInputText('');
+  };
+
+  const renderMessageActions = (message: DeliverableChatMessage) => {
+    const step = stepsById.get(message.id);
+    if (!step || message.deliveryStatus) return null;
+
+    return (
+      <MessageActions
+        step={step}
+        disabled={isStreaming || sendMessage.isPending}
+        onSelectVersion={selectVersion}
+        onEdit={message.role === 'user' ? () => handleEdit(message) : undefined}
+        onRegenerate={message.role === 'assistant' ? () => handleRegenerate(step) : undefined}
+      />
+    );
+  };
+
+  const handleRegenerate = async (step: ConversationStep) => {
+    if (isStreaming || sendMessage.isPending) return;
+
+    regeneratingGroupRef.current = step.groupId;
+    showNewestVersion(step.message.id);
+    setReplacingMessageId(step.message.id);
+    startStreaming();
+    try {
+      await regenerateResponse.mutateAsync(step.message.id);
+    } catch (error) {
+      console.error('Failed to regenerate response:', error);
+      regeneratingGroupRef.current = null;
+      setReplacingMessageId(null);
     }
   };
 
@@ -171,6 +316,15 @@ export default function Page() {
     }
   };
 
+  const handleRename = (title: string) => {
+    if (!currentConversationId) return;
+    // A title the user chose is never replaced by a generated one
+    if (untitledThreadRef.current?.threadId === currentConversationId) {
+      untitledThreadRef.current = null;
+    }
+    updateThread.mutate({ threadId: currentConversationId, updates: { title } });
+  };
+
   const toggleMenu = () => {
     setMenuVisible(!menuVisible);
   };
@@ -190,6 +344,52 @@ export default function Page() {
     router.push('/settings');
   };
 
+  const handleChats = () => {
+    setMenuVisible(false);
+    router.push('/threads');
+  };
+
+  const handleSearch = () => {
+    setMenuVisible(false);
+    router.push('/search');
+  };
+
+  const handleHistory = () => {
+    setMenuVisible(false);
+    router.push('/history');
+  };
+
+  // Open the requested thread; a search hit scrolls into view once it lays out
+  useEffect(() => {
+    if (!routeThreadId) return;
+    setCurrentConversationId(routeThreadId);
+    setSearchHitId(routeMessageId ?? null);
+  }, [routeThreadId, routeMessageId]);
+
+  const scrollToOffset = (y: number) => {
+    scrollViewRef.current?.scrollTo({ y: Math.max(0, y - 16), animated: true });
+  };
+
+  useEffect(() => {
+    if (!searchHitId) return;
+
+    // Already laid out when the thread was open before searching
+    const offset = messageOffsets.current.get(searchHitId);
+    if (offset !== undefined) scrollToOffset(offset);
+
+    const timeout = setTimeout(() => setSearchHitId(null), SEARCH_HIT_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [searchHitId]);
+
+  const isSearchHit = (message: { id: string; localId?: string }) =>
+    !!searchHitId && (message.id === searchHitId || message.localId === searchHitId);
+
+  const handleMessageLayout = (message: { id: string; localId?: string }, y: number) => {
+    messageOffsets.current.set(message.id, y);
+    if (message.localId) messageOffsets.current.set(message.localId, y);
+    if (isSearchHit(message)) scrollToOffset(y);
+  };
+
   // Establish SSE connection when conversation ID changes
   useEffect(() => {
     if (currentConversationId) {
@@ -197,9 +397,21 @@ export default function Page() {
     }
   }, [currentConversationId]); // Remove connectSSE from deps to prevent infinite loop
 
-  // Combine messages with streaming content
+  // Version choices and edits belong to the thread they were made in
+  useEffect(() => {
+    setVersionSelections({});
+    setEditingMessage(null);
+    setReplacingMessageId(null);
+  }, [currentConversationId]);
+
+  // Combine the version path being shown with streaming content
   const displayMessages = useMemo(() => {
-    const allMessages = [...messages];
+    const replacedIndex = conversationPath.findIndex(
+      (step) => step.message.id === replacingMessageId
+    );
+    const allMessages: DeliverableChatMessage[] = conversationPath
+      .slice(0, replacedIndex >= 0 ? replacedIndex : undefined)
+      .map((step) => step.message);
 
     // Add streaming message if active
     if (isStreaming && streamedContent && currentConversationId) {
@@ -213,13 +425,13 @@ export default function Page() {
     }
 
     return allMessages;
-  }, [messages, isStreaming, streamedContent, currentConversationId]);
+  }, [conversationPath, replacingMessageId, isStreaming, streamedContent, currentConversationId]);
 
   const showChat = displayMessages.length > 0;
 
-  // Auto-scroll to bottom when new messages arrive
+  // Auto-scroll to bottom when new messages arrive, unless showing a search hit
   useEffect(() => {
-    if (showChat) {
+    if (showChat && !searchHitRef.current) {
       setTimeout(() => {
         scrollViewRef.current?.scrollToEnd({ animated: true });
       }, 100);
@@ -252,14 +464,24 @@ export default function Page() {
             <Pressable style={styles.menuButton} onPress={toggleMenu}>
               <Ionicons name="menu" size={24} color="#ECECEC" />
             </Pressable>
-            <Text style={styles.headerTitle}>BetThink</Text>
+            {currentThread ? (
+              <View style={styles.headerTitleContainer}>
+                <EditableThreadTitle
+                  title={currentThread.title || t('common.appShortName')}
+                  onRename={handleRename}
+                  style={styles.headerTitle}
+                />
+              </View>
+            ) : (
+              <Text style={styles.headerTitle}>{t('common.appShortName')}</Text>
+            )}
             {!isAuthenticated ? (
               <Pressable style={styles.signupButton} onPress={handleSignIn}>
-                <Text style={styles.signupText}>Sign in</Text>
+                <Text style={styles.signupText}>{t('home.signIn')}</Text>
               </Pressable>
             ) : (
               <View style={styles.userInfo}>
-                <Text style={styles.userName}>{user?.email || 'User'}</Text>
+                <Text style={styles.userName}>{user?.email || t('home.defaultUserName')}</Text>
               </View>
             )}
           </View>
@@ -274,12 +496,32 @@ export default function Page() {
             <View style={styles.modalOverlay}>
               <View style={styles.menuContainer}>
                 {/* Menu Items */}
+                <TouchableOpacity style={styles.menuItem} onPress={handleChats} activeOpacity={0.7}>
+                  <Text style={styles.menuItemText}>{t('home.menu.chats')}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  onPress={handleSearch}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.menuItemText}>{t('home.menu.search')}</Text>
+                </TouchableOpacity>
+
+                <TouchableOpacity
+                  style={styles.menuItem}
+                  onPress={handleHistory}
+                  activeOpacity={0.7}
+                >
+                  <Text style={styles.menuItemText}>{t('home.menu.history')}</Text>
+                </TouchableOpacity>
+
                 <TouchableOpacity
                   style={styles.menuItem}
                   onPress={handleTermsOfUse}
                   activeOpacity={0.7}
                 >
-                  <Text style={styles.menuItemText}>Terms of Use</Text>
+                  <Text style={styles.menuItemText}>{t('home.menu.terms')}</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity
@@ -287,7 +529,7 @@ export default function Page() {
                   onPress={handlePrivacyPolicy}
                   activeOpacity={0.7}
                 >
-                  <Text style={styles.menuItemText}>Privacy Policy</Text>
+                  <Text style={styles.menuItemText}>{t('common.privacyPolicy')}</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity
@@ -295,7 +537,7 @@ export default function Page() {
                   onPress={handleSettings}
                   activeOpacity={0.7}
                 >
-                  <Text style={styles.menuItemText}>Settings</Text>
+                  <Text style={styles.menuItemText}>{t('common.settings')}</Text>
                 </TouchableOpacity>
 
                 {isAuthenticated && (
@@ -307,7 +549,7 @@ export default function Page() {
                       activeOpacity={0.7}
                     >
                       <Ionicons name="log-out-outline" size={20} color="#FF6B6B" />
-                      <Text style={styles.menuItemTextSignOut}>Sign Out</Text>
+                      <Text style={styles.menuItemTextSignOut}>{t('home.menu.signOut')}</Text>
                     </TouchableOpacity>
                   </>
                 )}
@@ -329,11 +571,11 @@ export default function Page() {
                   <TouchableOpacity
                     key={index}
                     style={styles.promptCard}
-                    onPress={() => handlePromptPress(prompt.title)}
+                    onPress={() => handlePromptPress(t(prompt.titleKey))}
                     activeOpacity={0.7}
                   >
-                    <Text style={styles.promptTitle}>{prompt.title}</Text>
-                    <Text style={styles.promptSubtitle}>{prompt.subtitle}</Text>
+                    <Text style={styles.promptTitle}>{t(prompt.titleKey)}</Text>
+                    <Text style={styles.promptSubtitle}>{t(prompt.subtitleKey)}</Text>
                   </TouchableOpacity>
                 ))}
               </View>
@@ -352,22 +594,47 @@ export default function Page() {
                     styles.messageContainer,
                     message.role === 'user' ? styles.userMessage : styles.assistantMessage,
                   ]}
+                  onLayout={(event) => handleMessageLayout(message, event.nativeEvent.layout.y)}
                 >
                   <View
                     style={[
                       styles.messageBubble,
                       message.role === 'user' ? styles.userBubble : styles.assistantBubble,
+                      isSearchHit(message) && styles.searchHitBubble,
                     ]}
                   >
-                    <Text
-                      style={[
-                        styles.messageText,
-                        message.role === 'user' ? styles.userText : styles.assistantText,
-                      ]}
-                    >
-                      {message.content}
-                    </Text>
+                    {message.role === 'user' ? (
+                      <Text style={[styles.messageText, styles.userText]}>{message.content}</Text>
+                    ) : (
+                      <Markdown
+                        content={message.content}
+                        textStyle={styles.assistantText}
+                        linkColor="#64B5F6"
+                      />
+                    )}
+                    {getMessageRecommendations(message.metadata).map((recommendation) => (
+                      <BetRecommendationCard
+                        key={recommendation.id}
+                        recommendation={recommendation}
+                        onPress={openBetRecommendation}
+                      />
+                    ))}
                   </View>
+                  {message.deliveryStatus === 'pending' && (
+                    <Text style={styles.deliveryStatusText}>{t('home.sending')}</Text>
+                  )}
+                  {message.deliveryStatus === 'failed' && (
+                    <Pressable
+                      onPress={() => message.localId && retryMessage.mutate(message.localId)}
+                      accessibilityRole="button"
+                      accessibilityLabel={t('home.notDeliveredLabel')}
+                    >
+                      <Text style={[styles.deliveryStatusText, styles.errorText]}>
+                        {t('home.notDelivered')}
+                      </Text>
+                    </Pressable>
+                  )}
+                  {renderMessageActions(message)}
                 </View>
               ))}
               {sendMessage.isPending && !isStreaming && (
@@ -387,8 +654,19 @@ export default function Page() {
             </ScrollView>
           )}
 
+          <ParlaySlipButton />
+
           {/* Input Container */}
           <View style={styles.inputWrapper}>
+            {editingMessage && (
+              <View style={styles.editingBar}>
+                <Ionicons name="pencil" size={14} color="#8E8E93" />
+                <Text style={styles.editingText}>{t('home.editingMessage')}</Text>
+                <Pressable onPress={cancelEdit} accessibilityRole="button">
+                  <Text style={styles.editingCancel}>{t('common.cancel')}</Text>
+                </Pressable>
+              </View>
+            )}
             <View style={styles.inputContainer}>
               <TouchableOpacity style={styles.addButton}>
                 <Ionicons name="add-circle-outline" size={24} color="#8E8E93" />
@@ -397,7 +675,7 @@ export default function Page() {
               <TextInput
                 ref={inputRef}
                 style={styles.input}
-                placeholder="Ask anything about betting..."
+                placeholder={t('home.inputPlaceholder')}
                 placeholderTextColor="#8E8E93"
                 value={inputText}
                 onChangeText={setInputText}
@@ -465,6 +743,12 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#ECECEC',
   },
+  headerTitleContainer: {
+    flex: 1,
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginHorizontal: 12,
+  },
   signupButton: {
     paddingHorizontal: 16,
     paddingVertical: 8,
@@ -544,6 +828,10 @@ const styles = StyleSheet.create({
   assistantBubble: {
     backgroundColor: '#2C2C2E',
   },
+  searchHitBubble: {
+    borderWidth: 2,
+    borderColor: '#FFD60A',
+  },
   errorBubble: {
     backgroundColor: '#3A2C2C',
     borderWidth: 1,
@@ -557,11 +845,19 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
   },
   assistantText: {
+    fontSize: 16,
+    lineHeight: 22,
     color: '#ECECEC',
   },
   errorText: {
     color: '#FF6B6B',
   },
+  deliveryStatusText: {
+    alignSelf: 'flex-end',
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
   inputWrapper: {
     paddingHorizontal: 16,
     paddingVertical: 12,
@@ -569,6 +865,22 @@ const styles = StyleSheet.create({
     borderTopWidth: 1,
     borderTopColor: '#2C2C2E',
   },
+  editingBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 8,
+  },
+  editingText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  editingCancel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#ECECEC',
+  },
   inputContainer: {
     flexDirection: 'row',
     alignItems: 'flex-end',
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { View, StyleSheet, FlatList, TouchableOpacity, Text } from 'react-native';
+import {
+  ActivityIndicator,
+  Divider,
+  List,
+  Searchbar,
+  SegmentedButtons,
+  useTheme,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useMessageSearch } from '@/hooks/useChat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { HighlightedSnippet } from '@/components/HighlightedSnippet';
+import type { MessageSearchFilters, MessageSearchResult } from '@/types/chat';
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+type RoleFilter = 'all' | 'user' | 'assistant';
+
+export default function SearchPage() {
+  const theme = useTheme();
+  const { t, language } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [roleFilter, setRoleFilter] = useState<RoleFilter>('all');
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const filters: MessageSearchFilters = roleFilter === 'all' ? {} : { role: roleFilter };
+  const { data: results = [], isFetching } = useMessageSearch(debouncedQuery, filters);
+  const hasQuery = debouncedQuery.trim().length > 0;
+
+  const openResult = (result: MessageSearchResult) => {
+    router.navigate({
+      pathname: '/',
+      params: { threadId: result.chatId, messageId: result.messageId },
+    });
+  };
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => {
+    const title = item.threadTitle || t('search.untitledThread');
+    const date = new Date(item.timestamp).toLocaleDateString(language, {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    const author = item.role === 'user' ? t('search.you') : t('common.appShortName');
+
+    return (
+      <List.Item
+        title={title}
+        description={() => (
+          <View>
+            <Text style={[styles.meta, { color: theme.colors.onSurfaceVariant }]}>
+              {t('search.resultMeta', { author, date })}
+            </Text>
+            <HighlightedSnippet snippet={item.snippet} />
+          </View>
+        )}
+        left={(props) => <List.Icon {...props} icon="message-text-outline" />}
+        onPress={() => openResult(item)}
+        accessibilityRole="button"
+        accessibilityLabel={t('search.resultLabel', { title, author, date })}
+      />
+    );
+  };
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top', 'bottom']}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.headerTitle, { color: theme.colors.onBackground }]}>
+          {t('search.title')}
+        </Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.closeButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('search.close')}
+        >
+          <Ionicons name="close" size={24} color={theme.colors.onBackground} />
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.controls}>
+        <Searchbar
+          value={query}
+          onChangeText={setQuery}
+          placeholder={t('search.placeholder')}
+          autoFocus
+          autoCorrect={false}
+          loading={isFetching}
+        />
+        <SegmentedButtons
+          value={roleFilter}
+          onValueChange={(value) => setRoleFilter(value as RoleFilter)}
+          buttons={[
+            { value: 'all', label: t('search.filters.all') },
+            { value: 'user', label: t('search.filters.mine') },
+            { value: 'assistant', label: t('search.filters.assistant') },
+          ]}
+        />
+      </View>
+
+      <FlatList
+        data={hasQuery ? results : []}
+        keyExtractor={(item) => item.localId}
+        renderItem={renderResult}
+        ItemSeparatorComponent={Divider}
+        keyboardShouldPersistTaps="handled"
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          isFetching ? (
+            <ActivityIndicator style={styles.empty} />
+          ) : (
+            <Text style={[styles.empty, { color: theme.colors.onSurfaceVariant }]}>
+              {hasQuery
+                ? t('search.noResults', { query: debouncedQuery.trim() })
+                : t('search.hint')}
+            </Text>
+          )
+        }
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    height: 56,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 12,
+    padding: 8,
+  },
+  controls: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    gap: 12,
+  },
+  list: {
+    flexGrow: 1,
+  },
+  meta: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  empty: {
+    marginTop: 48,
+    paddingHorizontal: 24,
+    textAlign: 'center',
+  },
+});
@@ -3,12 +3,19 @@ import { View, StyleSheet, ScrollView, Linking, TouchableOpacity, Text } from 'r
 import { List, Divider, Button, useTheme } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocation } from '@/hooks/useLocation';
+import { useTranslation } from '@/hooks/useTranslation';
+import { BankrollSettings } from '@/components/BankrollSettings';
+import { OddsSettings } from '@/components/OddsSettings';
+import { CurrencySettings } from '@/components/CurrencySettings';
+import { LanguageSettings } from '@/components/LanguageSettings';
+import { ResponsibleGamblingSettings } from '@/components/ResponsibleGamblingSettings';
 import Constants from 'expo-constants';
 import { router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 
 export default function SettingsPage() {
   const theme = useTheme();
+  const { t } = useTranslation();
   const {
     permissionStatus,
     isLoading,
@@ -17,24 +24,29 @@ export default function SettingsPage() {
     isLocationEnabled,
   } = useLocation();
 
+  const permissionLabel = permissionStatus?.granted
+    ? t('settings.locationAllowed')
+    : permissionStatus?.status === 'denied'
+    ? t('settings.locationDenied')
+    : t('settings.locationNotDetermined');
+
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: theme.colors.background }]} edges={['top', 'bottom']}>
       <View style={styles.header}>
-        <Text style={[styles.headerTitle, { color: theme.colors.onBackground }]}>Settings</Text>
-        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton} accessibilityRole="button" accessibilityLabel="Close settings">
+        <Text style={[styles.headerTitle, { color: theme.colors.onBackground }]}>{t('settings.title')}</Text>
+        <TouchableOpacity onPress={() => router.back()} style={styles.closeButton} accessibilityRole="button" accessibilityLabel={t('settings.close')}>
           <Ionicons name="close" size={24} color={theme.colors.onBackground} />
         </TouchableOpacity>
       </View>
       <ScrollView style={{ backgroundColor: theme.colors.background }} contentContainerStyle={styles.content}>
         <List.Section>
-          <List.Subheader>Location Privacy</List.Subheader>
+          <List.Subheader>{t('settings.locationPrivacy')}</List.Subheader>
           <List.Item
-            title="Location"
-            description={`${permissionStatus?.granted
-              ? 'Allowed'
-              : permissionStatus?.status === 'denied'
-              ? 'Denied'
-              : 'Not determined'} · Services ${isLocationEnabled ? 'On' : 'Off'}`}
+            title={t('settings.location')}
+            description={t('settings.locationStatus', {
+              permission: permissionLabel,
+              services: isLocationEnabled ? t('settings.servicesOn') : t('settings.servicesOff'),
+            })}
             left={(props) => <List.Icon {...props} icon="map-marker" />}
           />
 
@@ -45,7 +57,7 @@ export default function SettingsPage() {
               disabled={isLoading || permissionStatus?.granted === true}
               style={styles.button}
             >
-              {permissionStatus?.granted ? 'Granted' : 'Request Access'}
+              {permissionStatus?.granted ? t('settings.granted') : t('settings.requestAccess')}
             </Button>
 
             <Button
@@ -53,7 +65,7 @@ export default function SettingsPage() {
               onPress={() => Linking.openSettings()}
               style={styles.button}
             >
-              Open System Settings
+              {t('settings.openSystemSettings')}
             </Button>
           </View>
 
@@ -62,10 +74,30 @@ export default function SettingsPage() {
 
         <Divider />
 
+        <LanguageSettings />
+
+        <Divider />
+
+        <CurrencySettings />
+
+        <Divider />
+
+        <BankrollSettings />
+
+        <Divider />
+
+        <OddsSettings />
+
+        <Divider />
+
+        <ResponsibleGamblingSettings />
+
+        <Divider />
+
         <List.Section>
-          <List.Subheader>About</List.Subheader>
+          <List.Subheader>{t('settings.about')}</List.Subheader>
           <List.Item
-            title="Version"
+            title={t('settings.version')}
             description={`${Constants.expoConfig?.version || '1.0.0'} (${Constants.expoConfig?.extra?.appEnv || 'development'})`}
             left={(props) => <List.Icon {...props} icon="information" />}
           />
@@ -0,0 +1,384 @@
+import React, { useState } from 'react';
+import {
+  View,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  Text,
+  Alert,
+} from 'react-native';
+import {
+  ActivityIndicator,
+  Button,
+  Chip,
+  Dialog,
+  Divider,
+  IconButton,
+  List,
+  Portal,
+  RadioButton,
+  TextInput,
+  useTheme,
+} from 'react-native-paper';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useAuthStore } from '@/stores/auth.store';
+import {
+  useChatFolders,
+  useChatThreads,
+  useCreateFolder,
+  useDeleteFolder,
+  useUpdateThread,
+} from '@/hooks/useChat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { ALL_THREADS, filterThreads } from '@/utils/threads';
+import type { ChatFolder, OrganizedChatThread, ThreadListFilter, ThreadUpdate } from '@/types/chat';
+
+type ThreadDialog = 'actions' | 'rename' | 'move';
+
+const isSameFilter = (a: ThreadListFilter, b: ThreadListFilter) =>
+  a.kind === b.kind && (a.kind !== 'folder' || b.kind !== 'folder' || a.folderId === b.folderId);
+
+export default function ThreadsPage() {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const userId = useAuthStore((state) => state.user?.id ?? '');
+  const { data: threads = [], isLoading } = useChatThreads(userId);
+  const { data: folders = [] } = useChatFolders(userId);
+  const updateThread = useUpdateThread();
+  const createFolder = useCreateFolder();
+  const deleteFolder = useDeleteFolder();
+
+  const [filter, setFilter] = useState<ThreadListFilter>(ALL_THREADS);
+  const [selectedThread, setSelectedThread] = useState<OrganizedChatThread | null>(null);
+  const [threadDialog, setThreadDialog] = useState<ThreadDialog | null>(null);
+  const [titleDraft, setTitleDraft] = useState('');
+  const [folderDialogVisible, setFolderDialogVisible] = useState(false);
+  const [folderName, setFolderName] = useState('');
+
+  // A folder deleted elsewhere drops the list back to every chat
+  const activeFilter =
+    filter.kind === 'folder' && !folders.some((folder) => folder.id === filter.folderId)
+      ? ALL_THREADS
+      : filter;
+  const visibleThreads = filterThreads(threads, activeFilter);
+
+  const openThread = (thread: OrganizedChatThread) => {
+    router.navigate({ pathname: '/', params: { threadId: thread.id } });
+  };
+
+  const showActions = (thread: OrganizedChatThread) => {
+    setSelectedThread(thread);
+    setThreadDialog('actions');
+  };
+
+  const closeThreadDialog = () => {
+    setThreadDialog(null);
+    setSelectedThread(null);
+  };
+
+  const applyUpdate = (updates: ThreadUpdate) => {
+    if (!selectedThread) return;
+    updateThread.mutate(
+      { threadId: selectedThread.id, updates },
+      { onError: () => Alert.alert(t('threads.errors.updateFailed')) }
+    );
+    closeThreadDialog();
+  };
+
+  const startRename = () => {
+    setTitleDraft(selectedThread?.title ?? '');
+    setThreadDialog('rename');
+  };
+
+  const saveTitle = () => {
+    const title = titleDraft.trim();
+    if (title) applyUpdate({ title });
+  };
+
+  const saveFolder = () => {
+    const name = folderName.trim();
+    if (!name) return;
+    createFolder.mutate(name, {
+      onSuccess: (folder) => setFilter({ kind: 'folder', folderId: folder.id }),
+      onError: () => Alert.alert(t('threads.errors.folderFailed')),
+    });
+    setFolderDialogVisible(false);
+    setFolderName('');
+  };
+
+  const confirmDeleteFolder = (folder: ChatFolder) => {
+    Alert.alert(
+      t('threads.deleteFolder.title'),
+      t('threads.deleteFolder.message', { name: folder.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('threads.deleteFolder.confirm'),
+          style: 'destructive',
+          onPress: () => {
+            setFilter(ALL_THREADS);
+            deleteFolder.mutate(folder.id, {
+              onError: () => Alert.alert(t('threads.errors.folderFailed')),
+            });
+          },
+        },
+      ]
+    );
+  };
+
+  const renderFilterChip = (chipFilter: ThreadListFilter, label: string, folder?: ChatFolder) => {
+    const selected = isSameFilter(activeFilter, chipFilter);
+
+    return (
+      <Chip
+        key={folder?.id ?? chipFilter.kind}
+        selected={selected}
+        showSelectedOverlay
+        onPress={() => setFilter(chipFilter)}
+        onClose={selected && folder ? () => confirmDeleteFolder(folder) : undefined}
+        closeIcon="delete-outline"
+        closeIconAccessibilityLabel={
+          folder ? t('threads.filters.deleteFolder', { name: folder.name }) : undefined
+        }
+      >
+        {label}
+      </Chip>
+    );
+  };
+
+  const renderThread = ({ item }: { item: OrganizedChatThread }) => {
+    const title = item.title || t('threads.untitled');
+
+    return (
+      <List.Item
+        title={title}
+        description={t('threads.messageCount', { count: item.messageCount })}
+        left={(props) => (
+          <List.Icon
+            {...props}
+            icon={item.pinned ? 'pin' : 'message-text-outline'}
+            color={item.pinned ? theme.colors.primary : props.color}
+          />
+        )}
+        right={(props) => (
+          <IconButton
+            {...props}
+            icon="dots-vertical"
+            onPress={() => showActions(item)}
+            accessibilityLabel={t('threads.moreActions', { title })}
+          />
+        )}
+        onPress={() => openThread(item)}
+        onLongPress={() => showActions(item)}
+        accessibilityRole="button"
+        accessibilityLabel={item.pinned ? t('threads.pinnedLabel', { title }) : title}
+      />
+    );
+  };
+
+  const emptyMessage = {
+    all: t('threads.empty.all'),
+    pinned: t('threads.empty.pinned'),
+    archived: t('threads.empty.archived'),
+    folder: t('threads.empty.folder'),
+  }[activeFilter.kind];
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['top', 'bottom']}
+    >
+      <View style={styles.header}>
+        <Text style={[styles.headerTitle, { color: theme.colors.onBackground }]}>
+          {t('threads.title')}
+        </Text>
+        <TouchableOpacity
+          onPress={() => router.back()}
+          style={styles.closeButton}
+          accessibilityRole="button"
+          accessibilityLabel={t('threads.close')}
+        >
+          <Ionicons name="close" size={24} color={theme.colors.onBackground} />
+        </TouchableOpacity>
+      </View>
+
+      <View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.filters}
+        >
+          {renderFilterChip(ALL_THREADS, t('threads.filters.all'))}
+          {renderFilterChip({ kind: 'pinned' }, t('threads.filters.pinned'))}
+          {renderFilterChip({ kind: 'archived' }, t('threads.filters.archived'))}
+          {folders.map((folder) =>
+            renderFilterChip({ kind: 'folder', folderId: folder.id }, folder.name, folder)
+          )}
+          <Chip
+            icon="folder-plus-outline"
+            mode="outlined"
+            onPress={() => setFolderDialogVisible(true)}
+          >
+            {t('threads.filters.newFolder')}
+          </Chip>
+        </ScrollView>
+      </View>
+
+      <FlatList
+        data={visibleThreads}
+        keyExtractor={(item) => item.id}
+        renderItem={renderThread}
+        ItemSeparatorComponent={Divider}
+        contentContainerStyle={styles.list}
+        ListEmptyComponent={
+          isLoading ? (
+            <ActivityIndicator style={styles.empty} />
+          ) : (
+            <Text style={[styles.empty, { color: theme.colors.onSurfaceVariant }]}>
+              {emptyMessage}
+            </Text>
+          )
+        }
+      />
+
+      <Portal>
+        <Dialog visible={threadDialog === 'actions'} onDismiss={closeThreadDialog}>
+          <Dialog.Title numberOfLines={1}>
+            {selectedThread?.title || t('threads.untitled')}
+          </Dialog.Title>
+          <Dialog.Content>
+            <List.Item
+              title={t('threads.actions.rename')}
+              left={(props) => <List.Icon {...props} icon="pencil-outline" />}
+              onPress={startRename}
+            />
+            <List.Item
+              title={selectedThread?.pinned ? t('threads.actions.unpin') : t('threads.actions.pin')}
+              left={(props) => (
+                <List.Icon
+                  {...props}
+                  icon={selectedThread?.pinned ? 'pin-off-outline' : 'pin-outline'}
+                />
+              )}
+              onPress={() => applyUpdate({ pinned: !selectedThread?.pinned })}
+            />
+            <List.Item
+              title={
+                selectedThread?.archived
+                  ? t('threads.actions.unarchive')
+                  : t('threads.actions.archive')
+              }
+              left={(props) => (
+                <List.Icon
+                  {...props}
+                  icon={selectedThread?.archived ? 'archive-arrow-up-outline' : 'archive-outline'}
+                />
+              )}
+              onPress={() => applyUpdate({ archived: !selectedThread?.archived })}
+            />
+            <List.Item
+              title={t('threads.actions.move')}
+              left={(props) => <List.Icon {...props} icon="folder-move-outline" />}
+              onPress={() => setThreadDialog('move')}
+            />
+          </Dialog.Content>
+        </Dialog>
+
+        <Dialog visible={threadDialog === 'rename'} onDismiss={closeThreadDialog}>
+          <Dialog.Title>{t('threads.rename.title')}</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label={t('threads.rename.label')}
+              value={titleDraft}
+              onChangeText={setTitleDraft}
+              onSubmitEditing={saveTitle}
+              autoFocus
+              selectTextOnFocus
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeThreadDialog}>{t('common.cancel')}</Button>
+            <Button onPress={saveTitle} disabled={!titleDraft.trim()}>
+              {t('threads.rename.save')}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={threadDialog === 'move'} onDismiss={closeThreadDialog}>
+          <Dialog.Title>{t('threads.move.title')}</Dialog.Title>
+          <Dialog.Content>
+            <RadioButton.Group
+              value={selectedThread?.folderId ?? ''}
+              onValueChange={(folderId) => applyUpdate({ folderId: folderId || null })}
+            >
+              <RadioButton.Item label={t('threads.move.none')} value="" />
+              {folders.map((folder) => (
+                <RadioButton.Item key={folder.id} label={folder.name} value={folder.id} />
+              ))}
+            </RadioButton.Group>
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={closeThreadDialog}>{t('common.cancel')}</Button>
+          </Dialog.Actions>
+        </Dialog>
+
+        <Dialog visible={folderDialogVisible} onDismiss={() => setFolderDialogVisible(false)}>
+          <Dialog.Title>{t('threads.newFolder.title')}</Dialog.Title>
+          <Dialog.Content>
+            <TextInput
+              label={t('threads.newFolder.label')}
+              value={folderName}
+              onChangeText={setFolderName}
+              onSubmitEditing={saveFolder}
+              autoFocus
+            />
+          </Dialog.Content>
+          <Dialog.Actions>
+            <Button onPress={() => setFolderDialogVisible(false)}>{t('common.cancel')}</Button>
+            <Button onPress={saveFolder} disabled={!folderName.trim()}>
+              {t('threads.newFolder.create')}
+            </Button>
+          </Dialog.Actions>
+        </Dialog>
+      </Portal>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    height: 56,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    position: 'relative',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButton: {
+    position: 'absolute',
+    right: 12,
+    padding: 8,
+  },
+  filters: {
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+    gap: 8,
+  },
+  list: {
+    flexGrow: 1,
+  },
+  empty: {
+    marginTop: 48,
+    paddingHorizontal: 24,
+    textAlign: 'center',
+  },
+});
@@ -3,11 +3,25 @@ import type {
   Conversation as ChatThread,
   ChatMessage,
   ConversationListResponse as ChatHistoryResponse,
-  BetConfirmation,
   DeviceToken,
   PaginationParams,
 } from '@betthink/shared';
-import type { BetRecommendation } from '@/types/bet';
+import type {
+  BetConfirmationRequest,
+  BetRecommendation,
+  BetSettlement,
+  ParlayConfirmation,
+  ParlayConfirmationRequest,
+  PlacedBetConfirmation,
+  SportsbookOdds,
+} from '@/types/bet';
+import type {
+  ChatFolder,
+  MessageBranchFields,
+  OrganizedChatThread,
+  ThreadUpdate,
+} from '@/types/chat';
+import type { User } from '@/services/auth.service';
 
 // Chat Endpoints
 // Note: Backend uses "conversations" terminology in API paths
@@ -22,14 +36,41 @@ export const chatApi = {
   createThread: (title?: string, initialMessage?: string) =>
     apiClient.post<ChatThread>('/api/v1/chat/conversations', { title, initialMessage }),
 
+  updateThread: (threadId: string, updates: ThreadUpdate) =>
+    apiClient.patch<OrganizedChatThread>(`/api/v1/chat/conversations/${threadId}`, updates),
+
+  // Summarises the conversation so far into a title and saves it on the thread
+  generateThreadTitle: (threadId: string) =>
+    apiClient.post<OrganizedChatThread>(`/api/v1/chat/conversations/${threadId}/title`),
+
   deleteThread: (threadId: string) =>
     apiClient.delete<void>(`/api/v1/chat/conversations/${threadId}`),
 
+  getFolders: () => apiClient.get<ChatFolder[]>('/api/v1/chat/folders'),
+
+  createFolder: (name: string) => apiClient.post<ChatFolder>('/api/v1/chat/folders', { name }),
+
+  deleteFolder: (folderId: string) => apiClient.delete<void>(`/api/v1/chat/folders/${folderId}`),
+
   getMessages: (threadId: string, params?: PaginationParams) =>
     apiClient.get<ChatMessage[]>(`/api/v1/chat/conversations/${threadId}/history`, params),
 
-  sendMessage: (threadId: string, content: string) =>
-    apiClient.post<ChatMessage>(`/api/v1/chat/conversations/${threadId}/messages`, { content }),
+  // `parentId` continues the conversation from an earlier version instead of the latest
+  sendMessage: (threadId: string, content: string, parentId?: string | null) =>
+    apiClient.post<ChatMessage & MessageBranchFields>(
+      `/api/v1/chat/conversations/${threadId}/messages`,
+      { content, ...(parentId && { parentId }) }
+    ),
+
+  // Both stream the new reply over the thread's SSE connection
+  editMessage: (threadId: string, messageId: string, content: string) =>
+    apiClient.post<ChatMessage & MessageBranchFields>(
+      `/api/v1/chat/conversations/${threadId}/messages/${messageId}/edit`,
+      { content }
+    ),
+
+  regenerateResponse: (threadId: string, messageId: string) =>
+    apiClient.post<void>(`/api/v1/chat/conversations/${threadId}/messages/${messageId}/regenerate`),
 
   // Returns SSE stream URL
   getStreamUrl: (threadId: string) =>
@@ -41,11 +82,25 @@ export const bettingApi = {
   getBetRecommendation: (recommendationId: string) =>
     apiClient.get<BetRecommendation>(`/api/bets/recommendations/${recommendationId}`),
 
-  confirmBet: (data: Omit<BetConfirmation, 'confirmedAt'>) =>
-    apiClient.post<BetConfirmation>('/api/bets/confirmations', data),
+  getRecommendationOdds: (recommendationId: string) =>
+    apiClient.get<SportsbookOdds[]>(`/api/bets/recommendations/${recommendationId}/odds`),
+
+  getOddsStreamUrl: (recommendationIds: string[]) =>
+    apiClient.getStreamUrl(
+      `/api/bets/odds/stream?recommendationIds=${recommendationIds.map(encodeURIComponent).join(',')}`
+    ),
+
+  confirmBet: (data: BetConfirmationRequest) =>
+    apiClient.post<PlacedBetConfirmation>('/api/bets/confirmations', data),
+
+  getBetHistory: (params?: PaginationParams & { since?: string }) =>
+    apiClient.get<PlacedBetConfirmation[]>('/api/bets/history', params),
+
+  getBetSettlements: (params?: PaginationParams & { since?: string }) =>
+    apiClient.get<BetSettlement[]>('/api/bets/settlements', params),
 
-  getBetHistory: (params?: PaginationParams) =>
-    apiClient.get<BetConfirmation[]>('/api/bets/history', params),
+  confirmParlay: (data: ParlayConfirmationRequest) =>
+    apiClient.post<ParlayConfirmation>('/api/bets/parlays/confirmations', data),
 };
 
 // Notification Endpoints
@@ -67,8 +122,13 @@ export const notificationApi = {
 export const userApi = {
   getCurrentUser: () => apiClient.get('/api/users/me'),
 
-  updateProfile: (data: { name?: string; picture?: string }) =>
-    apiClient.patch('/api/users/me', data),
+  updateProfile: (data: {
+    name?: string;
+    picture?: string;
+    currency?: string;
+    /** null clears the locale so the app follows the device */
+    locale?: string | null;
+  }) => apiClient.patch<User>('/api/users/me', data),
 
   deleteAccount: () => apiClient.delete('/api/users/me'),
 };
@@ -0,0 +1,145 @@
+import React, { useCallback, useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, SegmentedButtons, Text, TextInput } from 'react-native-paper';
+import { useShallow } from 'zustand/react/shallow';
+import { useBankrollStore, selectBankrollSettings } from '@/stores/bankroll.store';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { TranslationKey } from '@/i18n';
+import type { StakingStrategy } from '@/utils/staking';
+import { spacing } from '@/theme';
+
+const STRATEGY_OPTIONS: { value: StakingStrategy; labelKey: TranslationKey }[] = [
+  { value: 'fixed-unit', labelKey: 'settings.bankroll.strategies.fixedUnit' },
+  { value: 'percentage', labelKey: 'settings.bankroll.strategies.percentage' },
+  { value: 'kelly', labelKey: 'settings.bankroll.strategies.kelly' },
+];
+
+const STRATEGY_DESCRIPTION_KEYS: Record<StakingStrategy, TranslationKey> = {
+  'fixed-unit': 'settings.bankroll.descriptions.fixedUnit',
+  percentage: 'settings.bankroll.descriptions.percentage',
+  kelly: 'settings.bankroll.descriptions.kelly',
+};
+
+interface NumberFieldProps {
+  label: string;
+  value: number;
+  onCommit: (value: number) => void;
+  prefix?: string;
+  suffix?: string;
+}
+
+/**
+ * Numeric input that keeps its own text while editing and only writes valid numbers
+ */
+const NumberField: React.FC<NumberFieldProps> = ({ label, value, onCommit, prefix, suffix }) => {
+  const [text, setText] = useState(value.toString());
+
+  const handleChange = useCallback(
+    (nextText: string) => {
+      setText(nextText);
+      const parsed = parseFloat(nextText);
+      if (Number.isFinite(parsed)) onCommit(parsed);
+    },
+    [onCommit]
+  );
+
+  return (
+    <TextInput
+      mode="outlined"
+      label={label}
+      value={text}
+      onChangeText={handleChange}
+      onBlur={() => setText(value.toString())}
+      keyboardType="decimal-pad"
+      left={prefix ? <TextInput.Affix text={prefix} /> : undefined}
+      right={suffix ? <TextInput.Affix text={suffix} /> : undefined}
+      accessible
+      accessibilityLabel={label}
+    />
+  );
+};
+
+const toPercent = (fraction: number): number => Math.round(fraction * 10000) / 100;
+
+export const BankrollSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const settings = useBankrollStore(useShallow(selectBankrollSettings));
+  const { getCurrencySymbol } = useMoneyFormat();
+  const currencySymbol = getCurrencySymbol();
+  const { setBankroll, setStrategy, setUnitSize, setPercentage, setKellyFraction } =
+    useBankrollStore();
+
+  const handlePercentage = useCallback(
+    (percent: number) => setPercentage(percent / 100),
+    [setPercentage]
+  );
+  const handleKellyFraction = useCallback(
+    (percent: number) => setKellyFraction(percent / 100),
+    [setKellyFraction]
+  );
+
+  return (
+    <List.Section>
+      <List.Subheader>{t('settings.bankroll.title')}</List.Subheader>
+      <View style={styles.content}>
+        <NumberField
+          label={t('settings.bankroll.bankroll')}
+          value={settings.bankroll}
+          onCommit={setBankroll}
+          prefix={currencySymbol}
+        />
+
+        <SegmentedButtons
+          value={settings.strategy}
+          onValueChange={(value) => setStrategy(value as StakingStrategy)}
+          buttons={STRATEGY_OPTIONS.map(({ value, labelKey }) => ({ value, label: t(labelKey) }))}
+        />
+        <Text variant="bodySmall" style={styles.description}>
+          {t(STRATEGY_DESCRIPTION_KEYS[settings.strategy])}
+        </Text>
+
+        {settings.strategy === 'fixed-unit' && (
+          <NumberField
+            label={t('settings.bankroll.unitSize')}
+            value={settings.unitSize}
+            onCommit={setUnitSize}
+            prefix={currencySymbol}
+          />
+        )}
+        {settings.strategy === 'percentage' && (
+          <NumberField
+            label={t('settings.bankroll.stakePerBet')}
+            value={toPercent(settings.percentage)}
+            onCommit={handlePercentage}
+            suffix="%"
+          />
+        )}
+        {settings.strategy === 'kelly' && (
+          <NumberField
+            label={t('settings.bankroll.kellyFraction')}
+            value={toPercent(settings.kellyFraction)}
+            onCommit={handleKellyFraction}
+            suffix="%"
+          />
+        )}
+
+        {settings.bankroll <= 0 && (
+          <Text variant="bodySmall" style={styles.description}>
+            {t('settings.bankroll.empty')}
+          </Text>
+        )}
+      </View>
+    </List.Section>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  description: {
+    opacity: 0.7,
+  },
+});
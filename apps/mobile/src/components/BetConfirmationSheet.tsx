@@ -1,21 +1,130 @@
-import React, { useCallback, useMemo } from 'react';
-import { View, StyleSheet } from 'react-native';
-import { Text, Button, Divider, useTheme } from 'react-native-paper';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Alert, View, StyleSheet } from 'react-native';
+import { Text, Button, Divider, TextInput, useTheme } from 'react-native-paper';
 import BottomSheet, { BottomSheetView, BottomSheetBackdrop } from '@gorhom/bottom-sheet';
 import type { BottomSheetBackdropProps } from '@gorhom/bottom-sheet';
 import { useUIStore } from '@/stores/ui.store';
-import { useConfirmBet, useCancelBet } from '@/hooks/useBetting';
-import { convertOdds } from '@betthink/shared';
-import type { BetRecommendation } from '@/types/bet';
+import { useParlayStore } from '@/stores/parlay.store';
+import { useBankrollStore, selectBankrollSettings } from '@/stores/bankroll.store';
+import { useAuthStore } from '@/stores/auth.store';
+import {
+  useBetErrorMessage,
+  useConfirmBet,
+  useCancelBet,
+  useLineShopping,
+} from '@/hooks/useBetting';
+import { useSportsbookAvailability } from '@/hooks/useSportsbookAvailability';
+import { useLiveOdds } from '@/hooks/useLiveOdds';
+import { useOddsFormat } from '@/hooks/useOddsFormat';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { TranslationKey, TranslationParams } from '@/i18n';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import { useShallow } from 'zustand/react/shallow';
+import type { Sportsbook } from '@betthink/shared';
+import { calculatePayout, proposeStake, type BankrollSettings } from '@/utils/staking';
+import { describeAvailability, isSportsbookBlocked } from '@/utils/jurisdiction';
+import { exceedsTolerance, getOddsMovement } from '@/utils/oddsMovement';
+import { getAmountCurrency } from '@/utils/money';
+import { LineShoppingModal } from '@/components/LineShoppingModal';
+import type { BetRecommendation, SportsbookOdds } from '@/types/bet';
 import { spacing, borderRadius } from '@/theme';
 
 export const BetConfirmationSheet: React.FC = () => {
   const theme = useTheme();
-  const { isBottomSheetOpen, bottomSheetData, closeBottomSheet } = useUIStore();
+  const { t } = useTranslation();
+  const { isBottomSheetOpen, bottomSheetContent, bottomSheetData, closeBottomSheet } = useUIStore();
+  const { addLeg, hasLeg } = useParlayStore();
+  const userId = useAuthStore((state) => state.user?.id);
   const confirmBet = useConfirmBet();
+  const describeError = useBetErrorMessage();
+  const { reset: resetConfirmBet } = confirmBet;
   const cancelBet = useCancelBet();
 
-  const recommendation: BetRecommendation | null = bottomSheetData;
+  const bankrollSettings = useBankrollStore(useShallow(selectBankrollSettings));
+  const [stakeText, setStakeText] = useState('');
+  const [selectedSportsbook, setSelectedSportsbook] = useState<Sportsbook | null>(null);
+  const [isComparingOdds, setIsComparingOdds] = useState(false);
+  const [acceptedPrice, setAcceptedPrice] = useState<Pick<
+    SportsbookOdds,
+    'odds' | 'oddsFormat'
+  > | null>(null);
+  const oddsMovementTolerance = usePreferencesStore((state) => state.oddsMovementTolerance);
+  const { formatOdds, formatImpliedProbability } = useOddsFormat();
+  const { currency: bankrollCurrency, formatMoney, getCurrencySymbol } = useMoneyFormat();
+
+  const recommendation: BetRecommendation | null =
+    bottomSheetContent === 'bet-confirmation' ? bottomSheetData : null;
+
+  // The chosen book's own price, once line shopping has loaded it
+  const { data: oddsComparison } = useLineShopping(
+    recommendation,
+    isComparingOdds || !!selectedSportsbook
+  );
+  const selectedLine = selectedSportsbook
+    ? oddsComparison?.find((row) => row.sportsbook.id === selectedSportsbook.id)
+    : undefined;
+  const quoted = useMemo(
+    () =>
+      recommendation && {
+        ...recommendation,
+        ...(selectedSportsbook && { sportsbook: selectedSportsbook }),
+        ...(selectedLine && { odds: selectedLine.odds, oddsFormat: selectedLine.oddsFormat }),
+      },
+    [recommendation, selectedSportsbook, selectedLine]
+  );
+
+  // Follow the chosen book's price while the sheet is open
+  const { prices: livePrices } = useLiveOdds(recommendation?.id);
+  const livePrice = quoted ? livePrices[quoted.sportsbook.id] : undefined;
+  const priced = useMemo(
+    () =>
+      quoted && livePrice
+        ? { ...quoted, odds: livePrice.odds, oddsFormat: livePrice.oddsFormat }
+        : quoted,
+    [quoted, livePrice]
+  );
+
+  // A move past the user's tolerance since they last saw or accepted the price needs a fresh OK
+  const priceMovement = quoted && priced ? getOddsMovement(acceptedPrice ?? quoted, priced) : null;
+  const needsPriceAcceptance =
+    !!priceMovement && exceedsTolerance(priceMovement, oddsMovementTolerance);
+  const trend = quoted && priced ? getOddsMovement(quoted, priced).direction : 'none';
+
+  const sportsbook = priced?.sportsbook;
+  const availability = useSportsbookAvailability(sportsbook);
+  const isBlocked = isSportsbookBlocked(availability);
+  const blocked = describeAvailability(availability);
+
+  // The bankroll is kept in the user's currency, so it can only size bets in that currency
+  const betCurrency = recommendation ? getAmountCurrency(recommendation) : bankrollCurrency;
+  const canSizeFromBankroll = bankrollSettings.bankroll > 0 && betCurrency === bankrollCurrency;
+
+  // Fall back to the backend's stake until the user has set a bankroll. Based on the
+  // quoted price so live ticks don't overwrite a stake the user typed.
+  const suggestedStake = quoted
+    ? canSizeFromBankroll
+      ? proposeStake(quoted, bankrollSettings)
+      : quoted.stake
+    : 0;
+
+  useEffect(() => {
+    setStakeText(suggestedStake > 0 ? suggestedStake.toFixed(2) : '');
+  }, [recommendation?.id, suggestedStake]);
+
+  // Don't carry a refusal or a swapped sportsbook from one recommendation over to the next
+  useEffect(() => {
+    resetConfirmBet();
+    setSelectedSportsbook(null);
+  }, [recommendation?.id, resetConfirmBet]);
+
+  // Acceptance is for one book's price
+  useEffect(() => {
+    setAcceptedPrice(null);
+  }, [recommendation?.id, quoted?.sportsbook.id]);
+
+  const stake = parseFloat(stakeText);
+  const isStakeValid = Number.isFinite(stake) && stake > 0;
 
   const snapPoints = useMemo(() => ['75%'], []);
 
@@ -30,19 +139,44 @@ export const BetConfirmationSheet: React.FC = () => {
     if (!recommendation) return;
 
     try {
-      await confirmBet.mutateAsync({
+      const { opened } = await confirmBet.mutateAsync({
         betRecommendationId: recommendation.id,
-        userId: '', // Set from auth context
+        userId: userId || '',
         chatId: '', // Set from chat context
         messageId: '', // Set from message context
         redirectedToSportsbook: true,
+        stake,
+        sportsbook: selectedSportsbook ?? undefined,
+        price:
+          priced && (selectedLine || livePrice)
+            ? { odds: priced.odds, oddsFormat: priced.oddsFormat }
+            : undefined,
       });
 
+      if (!opened) Alert.alert(t('betConfirmation.sportsbookNotOpened'));
       closeBottomSheet();
     } catch (error) {
       // Error handling is done in the mutation
     }
-  }, [recommendation, confirmBet, closeBottomSheet]);
+  }, [
+    recommendation,
+    confirmBet,
+    userId,
+    stake,
+    selectedSportsbook,
+    selectedLine,
+    livePrice,
+    priced,
+    closeBottomSheet,
+    t,
+  ]);
+
+  const handleAddToParlay = useCallback(() => {
+    if (!priced) return;
+
+    addLeg(priced);
+    closeBottomSheet();
+  }, [priced, addLeg, closeBottomSheet]);
 
   const handleCancel = useCallback(() => {
     if (recommendation) {
@@ -51,13 +185,19 @@ export const BetConfirmationSheet: React.FC = () => {
     closeBottomSheet();
   }, [recommendation, cancelBet, closeBottomSheet]);
 
-  if (!recommendation) return null;
+  if (!recommendation || !quoted || !priced) return null;
 
-  const americanOdds = convertOdds(
-    recommendation.odds,
-    recommendation.oddsFormat,
-    'american'
-  );
+  const isInParlay = hasLeg(recommendation.id);
+
+  const alternative = availability.status === 'unavailable' ? availability.alternative : null;
+  const switchLabel = alternative
+    ? t('betConfirmation.useAlternative', { sportsbook: alternative.name })
+    : '';
+
+  const baselineOdds = acceptedPrice ?? quoted;
+  const trendMarker = trend === 'up' ? ' ▲' : trend === 'down' ? ' ▼' : '';
+  const trendColor =
+    trend === 'up' ? theme.colors.secondary : trend === 'down' ? theme.colors.error : undefined;
 
   return (
     <BottomSheet
@@ -71,7 +211,7 @@ export const BetConfirmationSheet: React.FC = () => {
     >
       <BottomSheetView style={styles.container}>
         <Text variant="headlineSmall" style={styles.title}>
-          Confirm Bet
+          {t('betConfirmation.title')}
         </Text>
 
         <View style={[styles.section, { backgroundColor: theme.colors.surfaceVariant }]}>
@@ -86,13 +226,46 @@ export const BetConfirmationSheet: React.FC = () => {
         <Divider style={styles.divider} />
 
         <View style={styles.detailsContainer}>
-          <DetailRow label="Bet Type" value={recommendation.betType} />
-          <DetailRow label="Selection" value={recommendation.selection} />
-          <DetailRow label="Odds" value={`${americanOdds > 0 ? '+' : ''}${americanOdds}`} />
-          <DetailRow label="Stake" value={`$${recommendation.stake.toFixed(2)}`} />
+          <DetailRow label={t('betConfirmation.betType')} value={recommendation.betType} />
+          <DetailRow label={t('betConfirmation.selection')} value={recommendation.selection} />
+          <DetailRow
+            label={t('betConfirmation.odds')}
+            value={`${formatOdds(priced)} (${formatImpliedProbability(priced)})${trendMarker}`}
+            valueColor={trendColor}
+          />
+          <Button
+            mode="text"
+            compact
+            icon="compare-horizontal"
+            onPress={() => setIsComparingOdds(true)}
+            style={styles.compareButton}
+            accessible
+            accessibilityLabel={t('betConfirmation.compareOddsLabel')}
+          >
+            {t('betConfirmation.compareOdds')}
+          </Button>
+          <TextInput
+            mode="outlined"
+            label={t('betConfirmation.stake')}
+            value={stakeText}
+            onChangeText={setStakeText}
+            keyboardType="decimal-pad"
+            left={<TextInput.Affix text={getCurrencySymbol(betCurrency)} />}
+            error={stakeText !== '' && !isStakeValid}
+            accessible
+            accessibilityLabel={t('betConfirmation.stake')}
+          />
+          {canSizeFromBankroll && (
+            <Text variant="bodySmall" style={styles.stakeHint}>
+              {t('betConfirmation.suggestedStake', {
+                amount: formatMoney(suggestedStake, betCurrency),
+                strategy: t(...describeStrategy(bankrollSettings)),
+              })}
+            </Text>
+          )}
           <DetailRow
-            label="Potential Payout"
-            value={`$${recommendation.potentialPayout.toFixed(2)}`}
+            label={t('betConfirmation.potentialPayout')}
+            value={formatMoney(calculatePayout(stake, priced.odds, priced.oddsFormat), betCurrency)}
             highlight
           />
         </View>
@@ -102,7 +275,7 @@ export const BetConfirmationSheet: React.FC = () => {
             <Divider style={styles.divider} />
             <View style={styles.section}>
               <Text variant="titleSmall" style={styles.reasoningTitle}>
-                Why this bet?
+                {t('betConfirmation.reasoning')}
               </Text>
               <Text variant="bodyMedium">{recommendation.reasoning}</Text>
             </View>
@@ -111,16 +284,79 @@ export const BetConfirmationSheet: React.FC = () => {
 
         <View style={styles.sportsbookSection}>
           <Text variant="labelMedium" style={styles.sportsbookLabel}>
-            Sportsbook
+            {t('betConfirmation.sportsbook')}
           </Text>
           <Text variant="bodyLarge" style={styles.sportsbookName}>
-            {recommendation.sportsbook.name}
-          </Text>
-          <Text variant="bodySmall" style={styles.sportsbookNote}>
-            You'll be redirected to the {recommendation.sportsbook.name} app in guide mode
+            {sportsbook?.name}
           </Text>
+          {blocked ? (
+            <View
+              style={[styles.warning, { backgroundColor: theme.colors.errorContainer }]}
+              accessibilityRole="alert"
+            >
+              <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+                {t(...blocked)}
+              </Text>
+            </View>
+          ) : (
+            <Text variant="bodySmall" style={styles.sportsbookNote}>
+              {t('betConfirmation.redirectNote', { sportsbook: sportsbook?.name ?? '' })}
+            </Text>
+          )}
+          {alternative && (
+            <Button
+              mode="text"
+              icon="swap-horizontal"
+              onPress={() => setSelectedSportsbook(alternative)}
+              accessible
+              accessibilityLabel={switchLabel}
+            >
+              {switchLabel}
+            </Button>
+          )}
+          {selectedSportsbook && !selectedLine && !isBlocked && (
+            <Text variant="bodySmall" style={styles.sportsbookNote}>
+              {t('betConfirmation.alternativeOddsNote', { sportsbook: selectedSportsbook.name })}
+            </Text>
+          )}
+          {availability.status === 'unknown' && (
+            <Text variant="bodySmall" style={styles.sportsbookNote}>
+              {t('betConfirmation.locationUnknown')}
+            </Text>
+          )}
         </View>
 
+        {needsPriceAcceptance && (
+          <View
+            style={[styles.warning, { backgroundColor: theme.colors.tertiaryContainer }]}
+            accessibilityRole="alert"
+          >
+            <Text variant="bodySmall" style={{ color: theme.colors.onTertiaryContainer }}>
+              {t('betConfirmation.oddsMoved', {
+                from: formatOdds(baselineOdds),
+                to: formatOdds(priced),
+              })}
+            </Text>
+            <Button
+              mode="text"
+              compact
+              onPress={() => setAcceptedPrice({ odds: priced.odds, oddsFormat: priced.oddsFormat })}
+              accessible
+              accessibilityLabel={t('betConfirmation.acceptOdds')}
+            >
+              {t('betConfirmation.acceptOdds')}
+            </Button>
+          </View>
+        )}
+
+        {confirmBet.error && (
+          <View style={[styles.warning, { backgroundColor: theme.colors.errorContainer }]}>
+            <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+              {describeError(confirmBet.error)}
+            </Text>
+          </View>
+        )}
+
         <View style={styles.buttonContainer}>
           <Button
             mode="outlined"
@@ -128,34 +364,73 @@ export const BetConfirmationSheet: React.FC = () => {
             style={styles.cancelButton}
             disabled={confirmBet.isPending}
             accessible
-            accessibilityLabel="Cancel bet"
+            accessibilityLabel={t('betConfirmation.cancelLabel')}
           >
-            Cancel
+            {t('common.cancel')}
           </Button>
           <Button
             mode="contained"
             onPress={handleConfirm}
             style={styles.confirmButton}
             loading={confirmBet.isPending}
-            disabled={confirmBet.isPending}
+            disabled={confirmBet.isPending || !isStakeValid || isBlocked || needsPriceAcceptance}
             accessible
-            accessibilityLabel="Confirm bet and open sportsbook"
+            accessibilityLabel={t('betConfirmation.confirmLabel')}
           >
-            Confirm & Open
+            {t('betConfirmation.confirm')}
           </Button>
         </View>
+
+        <Button
+          mode="text"
+          icon={isInParlay ? 'check' : 'playlist-plus'}
+          onPress={handleAddToParlay}
+          style={styles.parlayButton}
+          disabled={isInParlay || confirmBet.isPending || isBlocked}
+          accessible
+          accessibilityLabel={
+            isInParlay ? t('betConfirmation.inParlayLabel') : t('betConfirmation.addToParlayLabel')
+          }
+        >
+          {isInParlay ? t('betConfirmation.inParlay') : t('betConfirmation.addToParlay')}
+        </Button>
+
+        <LineShoppingModal
+          visible={isComparingOdds}
+          recommendation={recommendation}
+          selectedSportsbookId={priced.sportsbook.id}
+          onSelect={(row) => setSelectedSportsbook(row.isRecommended ? null : row.sportsbook)}
+          onDismiss={() => setIsComparingOdds(false)}
+        />
       </BottomSheetView>
     </BottomSheet>
   );
 };
 
+/** Message key and params describing how a suggested stake was sized */
+const describeStrategy = ({
+  strategy,
+  percentage,
+  kellyFraction,
+}: BankrollSettings): [TranslationKey, TranslationParams?] => {
+  switch (strategy) {
+    case 'fixed-unit':
+      return ['betConfirmation.strategies.fixedUnit'];
+    case 'percentage':
+      return ['betConfirmation.strategies.percentage', { percent: (percentage * 100).toFixed(1) }];
+    case 'kelly':
+      return ['betConfirmation.strategies.kelly', { fraction: kellyFraction }];
+  }
+};
+
 interface DetailRowProps {
   label: string;
   value: string;
   highlight?: boolean;
+  valueColor?: string;
 }
 
-const DetailRow: React.FC<DetailRowProps> = ({ label, value, highlight }) => {
+const DetailRow: React.FC<DetailRowProps> = ({ label, value, highlight, valueColor }) => {
   const theme = useTheme();
 
   return (
@@ -168,6 +443,7 @@ const DetailRow: React.FC<DetailRowProps> = ({ label, value, highlight }) => {
         style={[
           styles.detailValue,
           highlight && { color: theme.colors.primary, fontWeight: 'bold' },
+          valueColor !== undefined && { color: valueColor },
         ]}
       >
         {value}
@@ -202,6 +478,17 @@ const styles = StyleSheet.create({
   detailsContainer: {
     gap: spacing.sm,
   },
+  compareButton: {
+    alignSelf: 'flex-end',
+  },
+  stakeHint: {
+    opacity: 0.7,
+  },
+  warning: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+    marginTop: spacing.md,
+  },
   detailRow: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -243,4 +530,7 @@ const styles = StyleSheet.create({
   confirmButton: {
     flex: 2,
   },
+  parlayButton: {
+    marginTop: spacing.sm,
+  },
 });
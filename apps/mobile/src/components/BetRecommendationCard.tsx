@@ -0,0 +1,152 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, Card, useTheme } from 'react-native-paper';
+import { useSportsbookAvailability } from '@/hooks/useSportsbookAvailability';
+import { useOddsFormat } from '@/hooks/useOddsFormat';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { OddsText } from '@/components/OddsText';
+import { describeAvailability } from '@/utils/jurisdiction';
+import { calculatePayout } from '@/utils/staking';
+import { getAmountCurrency } from '@/utils/money';
+import type { BetRecommendation } from '@/types/bet';
+import { spacing, borderRadius } from '@/theme';
+
+interface BetRecommendationCardProps {
+  recommendation: BetRecommendation;
+  onPress?: (recommendationId: string) => void;
+}
+
+/**
+ * Inline bet slip rendered inside an assistant message
+ */
+export const BetRecommendationCard: React.FC<BetRecommendationCardProps> = ({
+  recommendation,
+  onPress,
+}) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { formatOdds } = useOddsFormat();
+  const { formatMoney } = useMoneyFormat();
+  const availability = useSportsbookAvailability(recommendation.sportsbook);
+  const blocked = describeAvailability(availability);
+  const formattedOdds = formatOdds(recommendation);
+  const currency = getAmountCurrency(recommendation);
+  const payout = calculatePayout(
+    recommendation.stake,
+    recommendation.odds,
+    recommendation.oddsFormat
+  );
+
+  return (
+    <Card
+      style={[styles.card, { backgroundColor: theme.colors.tertiaryContainer }]}
+      onPress={() => onPress?.(recommendation.id)}
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel={t('betRecommendation.label', {
+        selection: recommendation.selection,
+        odds: formattedOdds,
+        event: recommendation.event,
+      })}
+      accessibilityHint={t('betRecommendation.hint')}
+    >
+      <Card.Content>
+        <Text variant="titleSmall" style={styles.title}>
+          {t('betRecommendation.title')}
+        </Text>
+        <Text variant="bodyMedium" style={styles.event}>
+          {recommendation.event}
+        </Text>
+        <Text variant="bodySmall" style={styles.meta}>
+          {recommendation.betType} • {recommendation.sportsbook.name}
+        </Text>
+
+        <View style={styles.selectionRow}>
+          <Text variant="titleMedium" style={styles.selection}>
+            {recommendation.selection}
+          </Text>
+          <OddsText
+            price={recommendation}
+            variant="titleMedium"
+            style={[styles.odds, { color: theme.colors.primary }]}
+            showImpliedProbability
+          />
+        </View>
+
+        <View style={styles.amountsRow}>
+          <View>
+            <Text variant="labelSmall" style={styles.meta}>
+              {t('betRecommendation.stake')}
+            </Text>
+            <Text variant="bodyMedium">{formatMoney(recommendation.stake, currency)}</Text>
+          </View>
+          <View style={styles.payout}>
+            <Text variant="labelSmall" style={styles.meta}>
+              {t('betRecommendation.potentialPayout')}
+            </Text>
+            <Text variant="bodyMedium" style={styles.payoutValue}>
+              {formatMoney(payout, currency)}
+            </Text>
+          </View>
+        </View>
+
+        {blocked && (
+          <View
+            style={[styles.blocked, { backgroundColor: theme.colors.errorContainer }]}
+            accessibilityRole="alert"
+          >
+            <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+              {t(...blocked)}
+            </Text>
+          </View>
+        )}
+      </Card.Content>
+    </Card>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: spacing.md,
+    borderRadius: borderRadius.md,
+  },
+  title: {
+    marginBottom: spacing.xs,
+  },
+  event: {
+    fontWeight: '600',
+  },
+  meta: {
+    opacity: 0.7,
+  },
+  selectionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: spacing.sm,
+  },
+  selection: {
+    flex: 1,
+    marginRight: spacing.sm,
+  },
+  odds: {
+    fontWeight: 'bold',
+  },
+  amountsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.sm,
+  },
+  payout: {
+    alignItems: 'flex-end',
+  },
+  payoutValue: {
+    fontWeight: 'bold',
+  },
+  blocked: {
+    marginTop: spacing.sm,
+    padding: spacing.sm,
+    borderRadius: borderRadius.sm,
+  },
+});
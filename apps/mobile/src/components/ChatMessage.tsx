@@ -1,18 +1,42 @@
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { Text, Card, useTheme } from 'react-native-paper';
-import { formatRelativeTime, type ChatMessage as ChatMessageType } from '@betthink/shared';
+import { formatRelativeTime } from '@betthink/shared';
+import { BetRecommendationCard } from '@/components/BetRecommendationCard';
+import { Markdown } from '@/components/Markdown';
+import { getMessageRecommendations } from '@/utils/recommendations';
+import { markdownToPlainText } from '@/utils/markdown';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { DeliverableChatMessage } from '@/types/chat';
 import { spacing, borderRadius } from '@/theme';
 
 interface ChatMessageProps {
-  message: ChatMessageType;
+  message: DeliverableChatMessage;
   showBetRecommendation?: (recommendationId: string) => void;
+  onRetry?: (localId: string) => void;
 }
 
-export const ChatMessage: React.FC<ChatMessageProps> = ({ message, showBetRecommendation }) => {
+export const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  showBetRecommendation,
+  onRetry,
+}) => {
   const theme = useTheme();
+  const { t } = useTranslation();
   const isUser = message.role === 'user';
-  const hasBetRecommendation = !!message.metadata?.betRecommendation;
+  const recommendations = getMessageRecommendations(message.metadata);
+  const { localId } = message;
+  const isFailed = message.deliveryStatus === 'failed';
+  const assistantTextStyle = useMemo(
+    () => [theme.fonts.bodyMedium, styles.content, { color: theme.colors.onSurface }],
+    [theme]
+  );
+
+  const getStatusText = () => {
+    if (message.deliveryStatus === 'pending') return t('home.sending');
+    if (isFailed) return t('home.notDelivered');
+    return formatRelativeTime(message.timestamp);
+  };
 
   return (
     <View
@@ -22,7 +46,11 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, showBetRecomm
       ]}
       accessible
       accessibilityRole="text"
-      accessibilityLabel={`${isUser ? 'You' : 'Assistant'} said: ${message.content}`}
+      accessibilityLabel={
+        isUser
+          ? t('chat.userMessageLabel', { content: message.content })
+          : t('chat.assistantMessageLabel', { content: markdownToPlainText(message.content) })
+      }
     >
       <Card
         style={[
@@ -32,47 +60,38 @@ export const ChatMessage: React.FC<ChatMessageProps> = ({ message, showBetRecomm
               ? theme.colors.primary
               : theme.colors.surfaceVariant,
           },
+          message.deliveryStatus === 'pending' && styles.pendingCard,
         ]}
         elevation={1}
+        onPress={isFailed && localId ? () => onRetry?.(localId) : undefined}
+        accessibilityHint={isFailed ? t('chat.resendHint') : undefined}
       >
         <Card.Content>
-          <Text
-            variant="bodyMedium"
-            style={[
-              styles.content,
-              { color: isUser ? theme.colors.onPrimary : theme.colors.onSurface },
-            ]}
-          >
-            {message.content}
-          </Text>
-
-          {hasBetRecommendation && (
-            <Card
-              style={[styles.betCard, { backgroundColor: theme.colors.tertiaryContainer }]}
-              onPress={() =>
-                showBetRecommendation?.(message.metadata!.betRecommendation!.id)
-              }
-              accessible
-              accessibilityRole="button"
-              accessibilityLabel="View bet recommendation"
-            >
-              <Card.Content>
-                <Text variant="titleSmall" style={styles.betTitle}>
-                  🎯 Bet Recommendation
-                </Text>
-                <Text variant="bodySmall">Tap to view details</Text>
-              </Card.Content>
-            </Card>
+          {isUser ? (
+            <Text variant="bodyMedium" style={[styles.content, { color: theme.colors.onPrimary }]}>
+              {message.content}
+            </Text>
+          ) : (
+            <Markdown content={message.content} textStyle={assistantTextStyle} />
           )}
 
+          {recommendations.map((recommendation) => (
+            <BetRecommendationCard
+              key={recommendation.id}
+              recommendation={recommendation}
+              onPress={showBetRecommendation}
+            />
+          ))}
+
           <Text
             variant="labelSmall"
             style={[
               styles.timestamp,
               { color: isUser ? theme.colors.onPrimary : theme.colors.onSurfaceVariant },
+              isFailed && styles.failedStatus,
             ]}
           >
-            {formatRelativeTime(message.timestamp)}
+            {getStatusText()}
           </Text>
         </Card.Content>
       </Card>
@@ -95,6 +114,9 @@ const styles = StyleSheet.create({
   card: {
     borderRadius: borderRadius.lg,
   },
+  pendingCard: {
+    opacity: 0.7,
+  },
   content: {
     lineHeight: 20,
   },
@@ -102,11 +124,8 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
     opacity: 0.7,
   },
-  betCard: {
-    marginTop: spacing.md,
-    borderRadius: borderRadius.md,
-  },
-  betTitle: {
-    marginBottom: spacing.xs,
+  failedStatus: {
+    opacity: 1,
+    fontWeight: '600',
   },
 });
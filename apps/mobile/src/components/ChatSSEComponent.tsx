@@ -10,7 +10,8 @@ import {
 } from 'react-native';
 import { TextInput, IconButton, Text, useTheme, Surface, Chip } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useChatSSE, ChatSSEMessage } from '@/hooks/useChatSSE';
+import { useChatSSE, ChatSSEMessage, type ConnectionStatus } from '@/hooks/useChatSSE';
+import { Markdown } from '@/components/Markdown';
 import { useAuthStore } from '@/stores/auth.store';
 import { spacing } from '@/theme';
 import { logger } from '@/utils/logger';
@@ -67,7 +68,7 @@ const BlinkingCursor: React.FC = () => {
  * Connection status indicator
  */
 interface ConnectionStatusIndicatorProps {
-  status: 'connected' | 'connecting' | 'disconnected' | 'reconnecting';
+  status: ConnectionStatus;
 }
 
 const ConnectionStatusIndicator: React.FC<ConnectionStatusIndicatorProps> = ({ status }) => {
@@ -93,6 +94,12 @@ const ConnectionStatusIndicator: React.FC<ConnectionStatusIndicatorProps> = ({ s
           color: theme.colors.tertiary,
           backgroundColor: `${theme.colors.tertiary}22`,
         };
+      case 'stale':
+        return {
+          label: 'Connection stalled',
+          color: theme.colors.tertiary,
+          backgroundColor: `${theme.colors.tertiary}22`,
+        };
       case 'disconnected':
         return {
           label: 'Disconnected',
@@ -138,6 +145,10 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, isStreaming = false
   const theme = useTheme();
   const isAssistant = message.type === 'assistant';
   const isSystem = message.type === 'system';
+  const assistantTextStyle = React.useMemo(
+    () => [theme.fonts.bodyMedium, styles.markdownText, { color: theme.colors.onPrimaryContainer }],
+    [theme]
+  );
 
   return (
     <View
@@ -165,20 +176,23 @@ const MessageItem: React.FC<MessageItemProps> = ({ message, isStreaming = false
           </Text>
         )}
         <View style={styles.messageContentRow}>
-          <Text
-            variant="bodyMedium"
-            style={[
-              styles.messageText,
-              isAssistant && {
-                color: theme.colors.onPrimaryContainer,
-              },
-              isSystem && {
-                color: theme.colors.onSecondaryContainer,
-              },
-            ]}
-          >
-            {message.content}
-          </Text>
+          {isAssistant ? (
+            <View style={styles.markdownContent}>
+              <Markdown content={message.content} textStyle={assistantTextStyle} />
+            </View>
+          ) : (
+            <Text
+              variant="bodyMedium"
+              style={[
+                styles.messageText,
+                isSystem && {
+                  color: theme.colors.onSecondaryContainer,
+                },
+              ]}
+            >
+              {message.content}
+            </Text>
+          )}
           {isStreaming && <BlinkingCursor />}
         </View>
         {message.metadata && (
@@ -202,7 +216,7 @@ export const ChatSSEComponent: React.FC<ChatSSEComponentProps> = ({
   onSendMessage,
 }) => {
   const theme = useTheme();
-  const { accessToken } = useAuthStore();
+  const isAuthenticated = useAuthStore((state) => state.isAuthenticated);
   const [inputText, setInputText] = useState('');
   const [isSending, setIsSending] = useState(false);
   const flatListRef = useRef<FlatList>(null);
@@ -217,8 +231,7 @@ export const ChatSSEComponent: React.FC<ChatSSEComponentProps> = ({
     disconnect,
   } = useChatSSE({
     conversationId,
-    accessToken: accessToken || '',
-    enabled: true,
+    enabled: isAuthenticated,
     onConnect: () => {
       logger.info('Chat SSE connected');
     },
@@ -442,6 +455,12 @@ const styles = StyleSheet.create({
     flex: 1,
     lineHeight: 20,
   },
+  markdownContent: {
+    flex: 1,
+  },
+  markdownText: {
+    lineHeight: 20,
+  },
   cursor: {
     fontSize: 16,
     fontWeight: '700',
@@ -0,0 +1,94 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, Menu, SegmentedButtons, Text } from 'react-native-paper';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import { useMoneyFormat, useUpdateMoneyPreferences } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { SUPPORTED_CURRENCIES } from '@/utils/money';
+import { spacing } from '@/theme';
+
+const CURRENCY_OPTIONS = SUPPORTED_CURRENCIES.map(({ code }) => ({ value: code, label: code }));
+
+/** Each number format's name in its own language, like the language picker */
+const LOCALE_NAMES: Record<string, string> = {
+  'en-US': 'English (US)',
+  'en-GB': 'English (UK)',
+  'en-CA': 'English (Canada)',
+  'fr-CA': 'Français (Canada)',
+  'en-AU': 'English (Australia)',
+  'de-DE': 'Deutsch',
+};
+
+const SAMPLE_AMOUNT = 1234.5;
+
+export const CurrencySettings: React.FC = () => {
+  const { t } = useTranslation();
+  const localeOverride = usePreferencesStore((state) => state.locale);
+  const { currency, formatMoney } = useMoneyFormat();
+  const { mutate: updatePreferences, isError } = useUpdateMoneyPreferences();
+  const [isLocaleMenuOpen, setIsLocaleMenuOpen] = useState(false);
+
+  const localeOptions: { value: string | null; label: string }[] = [
+    { value: null, label: t('settings.currency.deviceDefault') },
+    ...Object.entries(LOCALE_NAMES).map(([value, label]) => ({ value, label })),
+  ];
+  const localeLabel =
+    localeOptions.find((option) => option.value === localeOverride)?.label ?? localeOverride ?? '';
+
+  return (
+    <List.Section>
+      <List.Subheader>{t('settings.currency.title')}</List.Subheader>
+      <View style={styles.content}>
+        <SegmentedButtons
+          value={currency}
+          onValueChange={(value) => updatePreferences({ currency: value })}
+          buttons={CURRENCY_OPTIONS}
+        />
+      </View>
+      <Menu
+        visible={isLocaleMenuOpen}
+        onDismiss={() => setIsLocaleMenuOpen(false)}
+        anchor={
+          <List.Item
+            title={t('settings.currency.numberFormat')}
+            description={localeLabel}
+            left={(props) => <List.Icon {...props} icon="earth" />}
+            onPress={() => setIsLocaleMenuOpen(true)}
+            accessibilityLabel={t('settings.currency.numberFormatLabel', { locale: localeLabel })}
+          />
+        }
+      >
+        {localeOptions.map((option) => (
+          <Menu.Item
+            key={option.value ?? 'device'}
+            title={option.label}
+            onPress={() => {
+              setIsLocaleMenuOpen(false);
+              updatePreferences({ locale: option.value });
+            }}
+          />
+        ))}
+      </Menu>
+      <View style={styles.content}>
+        <Text variant="bodySmall" style={styles.description}>
+          {t('settings.currency.sample', { amount: formatMoney(SAMPLE_AMOUNT) })}
+        </Text>
+        {isError && (
+          <Text variant="bodySmall" style={styles.description}>
+            {t('settings.currency.saveFailed')}
+          </Text>
+        )}
+      </View>
+    </List.Section>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  description: {
+    opacity: 0.7,
+  },
+});
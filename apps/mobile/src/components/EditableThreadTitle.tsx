@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import {
+  Pressable,
+  StyleSheet,
+  Text,
+  TextInput,
+  type StyleProp,
+  type TextStyle,
+} from 'react-native';
+import { useTranslation } from '@/hooks/useTranslation';
+
+interface EditableThreadTitleProps {
+  title: string;
+  onRename: (title: string) => void;
+  style?: StyleProp<TextStyle>;
+}
+
+/**
+ * A thread title that turns into a text field when tapped. Blank or unchanged titles are
+ * discarded.
+ */
+export const EditableThreadTitle: React.FC<EditableThreadTitleProps> = ({
+  title,
+  onRename,
+  style,
+}) => {
+  const { t } = useTranslation();
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const finishEditing = () => {
+    const next = draft?.trim();
+    setDraft(null);
+    if (next && next !== title) onRename(next);
+  };
+
+  if (draft !== null) {
+    return (
+      <TextInput
+        value={draft}
+        onChangeText={setDraft}
+        onSubmitEditing={finishEditing}
+        onBlur={finishEditing}
+        autoFocus
+        selectTextOnFocus
+        returnKeyType="done"
+        maxLength={120}
+        style={[styles.title, styles.input, style]}
+        accessibilityLabel={t('home.threadTitle.inputLabel')}
+      />
+    );
+  }
+
+  return (
+    <Pressable
+      onPress={() => setDraft(title)}
+      style={styles.pressable}
+      accessibilityRole="button"
+      accessibilityLabel={title}
+      accessibilityHint={t('home.threadTitle.editHint')}
+    >
+      <Text style={[styles.title, style]} numberOfLines={1}>
+        {title}
+      </Text>
+    </Pressable>
+  );
+};
+
+const styles = StyleSheet.create({
+  pressable: {
+    flexShrink: 1,
+  },
+  title: {
+    textAlign: 'center',
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 0,
+  },
+});
@@ -2,6 +2,7 @@ import React, { Component, ErrorInfo, ReactNode } from 'react';
 import { View, StyleSheet } from 'react-native';
 import { Text, Button } from 'react-native-paper';
 import { errorTrackingService } from '@/services/error-tracking.service';
+import { useTranslation } from '@/hooks/useTranslation';
 import { logger } from '@/utils/logger';
 
 interface Props {
@@ -58,25 +59,31 @@ export class ErrorBoundary extends Component<Props, State> {
         return this.props.fallback;
       }
 
-      return (
-        <View style={styles.container}>
-          <Text variant="headlineMedium" style={styles.title}>
-            Oops! Something went wrong
-          </Text>
-          <Text variant="bodyMedium" style={styles.message}>
-            We're sorry for the inconvenience. The error has been reported to our team.
-          </Text>
-          <Button mode="contained" onPress={this.handleReset} style={styles.button}>
-            Try Again
-          </Button>
-        </View>
-      );
+      return <ErrorFallback onReset={this.handleReset} />;
     }
 
     return this.props.children;
   }
 }
 
+const ErrorFallback: React.FC<{ onReset: () => void }> = ({ onReset }) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.container}>
+      <Text variant="headlineMedium" style={styles.title}>
+        {t('errorBoundary.title')}
+      </Text>
+      <Text variant="bodyMedium" style={styles.message}>
+        {t('errorBoundary.message')}
+      </Text>
+      <Button mode="contained" onPress={onReset} style={styles.button}>
+        {t('errorBoundary.retry')}
+      </Button>
+    </View>
+  );
+};
+
 const styles = StyleSheet.create({
   container: {
     flex: 1,
@@ -0,0 +1,44 @@
+import React from 'react';
+import { StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+import { Text, useTheme } from 'react-native-paper';
+import { splitHighlights } from '@/utils/messageSearch';
+
+interface HighlightedSnippetProps {
+  snippet: string;
+  numberOfLines?: number;
+  style?: StyleProp<TextStyle>;
+}
+
+/**
+ * A search snippet with its matched terms emphasised
+ */
+export const HighlightedSnippet: React.FC<HighlightedSnippetProps> = ({
+  snippet,
+  numberOfLines = 2,
+  style,
+}) => {
+  const theme = useTheme();
+
+  return (
+    <Text variant="bodyMedium" numberOfLines={numberOfLines} style={style}>
+      {splitHighlights(snippet).map((segment, index) =>
+        segment.highlighted ? (
+          <Text
+            key={index}
+            style={[styles.highlight, { backgroundColor: theme.colors.primaryContainer }]}
+          >
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    fontWeight: '700',
+  },
+});
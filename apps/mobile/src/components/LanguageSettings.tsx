@@ -0,0 +1,52 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, SegmentedButtons, Text } from 'react-native-paper';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import { getDeviceLanguage, useTranslation } from '@/hooks/useTranslation';
+import { CATALOGS, LANGUAGE_NAMES, type Language } from '@/i18n';
+import { spacing } from '@/theme';
+
+const DEVICE_VALUE = 'device';
+
+export const LanguageSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { language, setLanguage } = usePreferencesStore();
+
+  const buttons = [
+    { value: DEVICE_VALUE, label: t('settings.language.deviceDefault') },
+    ...(Object.keys(CATALOGS) as Language[]).map((code) => ({
+      value: code,
+      label: LANGUAGE_NAMES[code],
+    })),
+  ];
+
+  return (
+    <List.Section>
+      <List.Subheader>{t('settings.language.title')}</List.Subheader>
+      <View style={styles.content}>
+        <SegmentedButtons
+          value={language ?? DEVICE_VALUE}
+          onValueChange={(value) =>
+            setLanguage(value === DEVICE_VALUE ? null : (value as Language))
+          }
+          buttons={buttons}
+        />
+        <Text variant="bodySmall" style={styles.description}>
+          {t('settings.language.description', {
+            language: LANGUAGE_NAMES[getDeviceLanguage()],
+          })}
+        </Text>
+      </View>
+    </List.Section>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  description: {
+    opacity: 0.7,
+  },
+});
@@ -0,0 +1,209 @@
+import React from 'react';
+import { View, StyleSheet, ScrollView } from 'react-native';
+import {
+  Text,
+  Button,
+  Chip,
+  Modal,
+  Portal,
+  ActivityIndicator,
+  TouchableRipple,
+  useTheme,
+} from 'react-native-paper';
+import { useLineShopping } from '@/hooks/useBetting';
+import { useOddsFormat } from '@/hooks/useOddsFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatEdge, type OddsComparisonRow } from '@/utils/lineShopping';
+import { formatImpliedProbability } from '@/utils/oddsFormat';
+import type { BetRecommendation } from '@/types/bet';
+import { spacing, borderRadius } from '@/theme';
+
+interface LineShoppingModalProps {
+  visible: boolean;
+  recommendation: BetRecommendation;
+  selectedSportsbookId: string;
+  onSelect: (row: OddsComparisonRow) => void;
+  onDismiss: () => void;
+}
+
+/**
+ * The recommendation's market priced at every sportsbook, so the user can bet where it pays most
+ */
+export const LineShoppingModal: React.FC<LineShoppingModalProps> = ({
+  visible,
+  recommendation,
+  selectedSportsbookId,
+  onSelect,
+  onDismiss,
+}) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { data: rows, isLoading, isError, refetch } = useLineShopping(recommendation, visible);
+
+  return (
+    <Portal>
+      <Modal
+        visible={visible}
+        onDismiss={onDismiss}
+        contentContainerStyle={[styles.container, { backgroundColor: theme.colors.surface }]}
+      >
+        <Text variant="titleLarge">{t('lineShopping.title')}</Text>
+        <Text variant="bodyMedium" style={styles.subtitle}>
+          {recommendation.selection} • {recommendation.betType}
+        </Text>
+
+        {isLoading && <ActivityIndicator style={styles.status} />}
+
+        {isError && (
+          <View style={styles.status}>
+            <Text variant="bodyMedium">{t('lineShopping.loadFailed')}</Text>
+            <Button mode="text" onPress={() => refetch()}>
+              {t('lineShopping.retry')}
+            </Button>
+          </View>
+        )}
+
+        <ScrollView style={styles.list}>
+          {rows?.map((row) => (
+            <OddsRow
+              key={row.sportsbook.id}
+              row={row}
+              isSelected={row.sportsbook.id === selectedSportsbookId}
+              onPress={() => {
+                onSelect(row);
+                onDismiss();
+              }}
+            />
+          ))}
+        </ScrollView>
+
+        <Text variant="bodySmall" style={styles.footnote}>
+          {t('lineShopping.edgeFootnote')}
+        </Text>
+        <Button mode="text" onPress={onDismiss}>
+          {t('lineShopping.close')}
+        </Button>
+      </Modal>
+    </Portal>
+  );
+};
+
+interface OddsRowProps {
+  row: OddsComparisonRow;
+  isSelected: boolean;
+  onPress: () => void;
+}
+
+const OddsRow: React.FC<OddsRowProps> = ({ row, isSelected, onPress }) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const edgeColor = row.edge > 0 ? theme.colors.secondary : theme.colors.error;
+  const { formatOdds } = useOddsFormat();
+  const odds = formatOdds(row);
+
+  return (
+    <TouchableRipple
+      onPress={onPress}
+      disabled={!row.isEligible}
+      style={[
+        styles.row,
+        { borderColor: isSelected ? theme.colors.primary : theme.colors.outlineVariant },
+        !row.isEligible && styles.ineligible,
+      ]}
+      accessible
+      accessibilityRole="button"
+      accessibilityState={{ selected: isSelected, disabled: !row.isEligible }}
+      accessibilityLabel={t('lineShopping.rowLabel', { sportsbook: row.sportsbook.name, odds })}
+    >
+      <View style={styles.rowContent}>
+        <View style={styles.rowInfo}>
+          <Text variant="titleSmall">{row.sportsbook.name}</Text>
+          <Text variant="bodySmall" style={styles.meta}>
+            {row.isEligible
+              ? t('lineShopping.implied', {
+                  probability: formatImpliedProbability(row.impliedProbability),
+                })
+              : t('lineShopping.unavailable')}
+          </Text>
+          <View style={styles.badges}>
+            {row.isBest && (
+              <Chip compact icon="trophy" style={styles.badge}>
+                {t('lineShopping.bestPrice')}
+              </Chip>
+            )}
+            {row.isRecommended && (
+              <Chip compact style={styles.badge}>
+                {t('lineShopping.recommended')}
+              </Chip>
+            )}
+          </View>
+        </View>
+        <View style={styles.rowPrice}>
+          <Text variant="titleMedium" style={{ color: theme.colors.primary }}>
+            {odds}
+          </Text>
+          {!row.isRecommended && row.edge !== 0 && (
+            <Text variant="bodySmall" style={{ color: edgeColor }}>
+              {formatEdge(row.edge)}
+            </Text>
+          )}
+        </View>
+      </View>
+    </TouchableRipple>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.lg,
+    maxHeight: '80%',
+  },
+  subtitle: {
+    opacity: 0.7,
+    marginBottom: spacing.md,
+  },
+  status: {
+    alignItems: 'center',
+    marginVertical: spacing.md,
+  },
+  list: {
+    flexGrow: 0,
+  },
+  row: {
+    borderWidth: 1,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  ineligible: {
+    opacity: 0.5,
+  },
+  rowContent: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowPrice: {
+    alignItems: 'flex-end',
+  },
+  meta: {
+    opacity: 0.7,
+  },
+  badges: {
+    flexDirection: 'row',
+    gap: spacing.xs,
+  },
+  badge: {
+    alignSelf: 'flex-start',
+    marginTop: spacing.xs,
+  },
+  footnote: {
+    opacity: 0.6,
+    marginTop: spacing.sm,
+  },
+});
@@ -11,6 +11,7 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface LocationPermissionModalProps {
   visible: boolean;
@@ -31,6 +32,8 @@ export default function LocationPermissionModal({
   onOpenSettings,
   permissionDenied = false,
 }: LocationPermissionModalProps) {
+  const { t } = useTranslation();
+
   return (
     <Modal
       visible={visible}
@@ -50,14 +53,16 @@ export default function LocationPermissionModal({
 
             {/* Title */}
             <Text style={styles.title}>
-              {permissionDenied ? 'Location Access Required' : 'Enable Location Services'}
+              {permissionDenied
+                ? t('locationPermission.requiredTitle')
+                : t('locationPermission.enableTitle')}
             </Text>
 
             {/* Description */}
             <Text style={styles.description}>
               {permissionDenied
-                ? 'To show you sportsbooks available in your state, we need location access. Please enable it in your device settings.'
-                : 'We use your location to show you sportsbooks that are legally available in your state. This helps ensure you have access to the best betting options in your area.'}
+                ? t('locationPermission.requiredDescription')
+                : t('locationPermission.enableDescription')}
             </Text>
 
             {/* Features List */}
@@ -65,15 +70,15 @@ export default function LocationPermissionModal({
               <View style={styles.featuresList}>
                 <FeatureItem
                   icon="shield-checkmark-outline"
-                  text="Only used to determine your state"
+                  text={t('locationPermission.stateOnly')}
                 />
                 <FeatureItem
                   icon="lock-closed-outline"
-                  text="Not shared with third parties"
+                  text={t('locationPermission.notShared')}
                 />
                 <FeatureItem
                   icon="eye-off-outline"
-                  text="Not continuously tracked"
+                  text={t('locationPermission.notTracked')}
                 />
               </View>
             )}
@@ -102,7 +107,9 @@ export default function LocationPermissionModal({
                       end={{ x: 1, y: 0 }}
                       style={styles.buttonGradient}
                     >
-                      <Text style={styles.primaryButtonText}>Open Settings</Text>
+                      <Text style={styles.primaryButtonText}>
+                        {t('locationPermission.openSettings')}
+                      </Text>
                     </LinearGradient>
                   </TouchableOpacity>
 
@@ -112,7 +119,7 @@ export default function LocationPermissionModal({
                     disabled={isLoading}
                     activeOpacity={0.8}
                   >
-                    <Text style={styles.secondaryButtonText}>Skip for Now</Text>
+                    <Text style={styles.secondaryButtonText}>{t('common.skipForNow')}</Text>
                   </TouchableOpacity>
                 </>
               ) : (
@@ -134,7 +141,9 @@ export default function LocationPermissionModal({
                         end={{ x: 1, y: 0 }}
                         style={styles.buttonGradient}
                       >
-                        <Text style={styles.primaryButtonText}>Enable Location</Text>
+                        <Text style={styles.primaryButtonText}>
+                          {t('locationPermission.enable')}
+                        </Text>
                       </LinearGradient>
                     )}
                   </TouchableOpacity>
@@ -145,16 +154,14 @@ export default function LocationPermissionModal({
                     disabled={isLoading}
                     activeOpacity={0.8}
                   >
-                    <Text style={styles.secondaryButtonText}>Skip for Now</Text>
+                    <Text style={styles.secondaryButtonText}>{t('common.skipForNow')}</Text>
                   </TouchableOpacity>
                 </>
               )}
             </View>
 
             {/* Footer Note */}
-            <Text style={styles.footerNote}>
-              You can change this permission anytime in Settings
-            </Text>
+            <Text style={styles.footerNote}>{t('locationPermission.footer')}</Text>
           </View>
         </SafeAreaView>
       </View>
@@ -0,0 +1,305 @@
+import React, { memo, useMemo } from 'react';
+import {
+  Linking,
+  Platform,
+  ScrollView,
+  StyleSheet,
+  Text,
+  View,
+  type StyleProp,
+  type TextStyle,
+} from 'react-native';
+import { useTheme } from 'react-native-paper';
+import * as WebBrowser from 'expo-web-browser';
+import { useMarkdown } from '@/hooks/useMarkdown';
+import { parseInline, type InlineNode, type MarkdownBlock } from '@/utils/markdown';
+import { logger } from '@/utils/logger';
+import { spacing, borderRadius } from '@/theme';
+
+interface MarkdownProps {
+  content: string;
+  /** Base text style for every block. Keep it stable so unchanged blocks skip rendering */
+  textStyle?: StyleProp<TextStyle>;
+  linkColor?: string;
+  onLinkPress?: (href: string) => void;
+}
+
+interface BlockProps {
+  block: MarkdownBlock;
+  textStyle?: StyleProp<TextStyle>;
+  linkStyle: StyleProp<TextStyle>;
+  onLinkPress: (href: string) => void;
+}
+
+const MONOSPACE = Platform.select({ ios: 'Menlo', default: 'monospace' });
+const SUBTLE_BACKGROUND = 'rgba(127, 127, 127, 0.15)';
+const SUBTLE_BORDER = 'rgba(127, 127, 127, 0.35)';
+const HEADING_SIZES = [22, 20, 18, 17, 16, 16];
+
+/**
+ * Web links open in the in-app browser; mail links go to the mail app
+ */
+const openLink = (href: string) => {
+  const opening = /^mailto:/i.test(href)
+    ? Linking.openURL(href)
+    : WebBrowser.openBrowserAsync(href);
+  opening.catch((error) => logger.error('Failed to open link', { href, error }));
+};
+
+const renderInline = (
+  nodes: InlineNode[],
+  linkStyle: StyleProp<TextStyle>,
+  onLinkPress: (href: string) => void
+): React.ReactNode[] =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return node.text;
+      case 'code':
+        return (
+          <Text key={index} style={styles.inlineCode}>
+            {node.text}
+          </Text>
+        );
+      case 'strong':
+        return (
+          <Text key={index} style={styles.strong}>
+            {renderInline(node.children, linkStyle, onLinkPress)}
+          </Text>
+        );
+      case 'emphasis':
+        return (
+          <Text key={index} style={styles.emphasis}>
+            {renderInline(node.children, linkStyle, onLinkPress)}
+          </Text>
+        );
+      case 'link':
+        return (
+          <Text
+            key={index}
+            style={linkStyle}
+            onPress={() => onLinkPress(node.href)}
+            accessibilityRole="link"
+          >
+            {renderInline(node.children, linkStyle, onLinkPress)}
+          </Text>
+        );
+    }
+  });
+
+const InlineText: React.FC<{
+  text: string;
+  style?: StyleProp<TextStyle>;
+  linkStyle: StyleProp<TextStyle>;
+  onLinkPress: (href: string) => void;
+}> = ({ text, style, linkStyle, onLinkPress }) => {
+  const nodes = useMemo(() => parseInline(text), [text]);
+  return <Text style={style}>{renderInline(nodes, linkStyle, onLinkPress)}</Text>;
+};
+
+/**
+ * Columns are sized from their longest cell so rows line up without measuring
+ */
+const columnWidth = (cells: string[]) =>
+  Math.min(240, Math.max(64, Math.max(...cells.map((cell) => cell.length)) * 8 + spacing.md));
+
+const BlockView = memo<BlockProps>(({ block, textStyle, linkStyle, onLinkPress }) => {
+  const inline = { linkStyle, onLinkPress };
+
+  switch (block.type) {
+    case 'paragraph':
+      return <InlineText text={block.text} style={textStyle} {...inline} />;
+
+    case 'heading':
+      return (
+        <InlineText
+          text={block.text}
+          style={[
+            textStyle,
+            styles.heading,
+            {
+              fontSize: HEADING_SIZES[block.level - 1],
+              lineHeight: HEADING_SIZES[block.level - 1] + 6,
+            },
+          ]}
+          {...inline}
+        />
+      );
+
+    case 'list':
+      return (
+        <View>
+          {block.items.map((item, index) => (
+            <View key={index} style={[styles.listItem, { paddingLeft: item.depth * spacing.md }]}>
+              <Text style={[textStyle, styles.listMarker]}>{item.marker}</Text>
+              <InlineText text={item.text} style={[textStyle, styles.listText]} {...inline} />
+            </View>
+          ))}
+        </View>
+      );
+
+    case 'quote':
+      return (
+        <View style={styles.quote}>
+          <InlineText text={block.text} style={[textStyle, styles.quoteText]} {...inline} />
+        </View>
+      );
+
+    case 'rule':
+      return <View style={styles.rule} />;
+
+    case 'code':
+      return (
+        <ScrollView horizontal style={styles.codeBlock} showsHorizontalScrollIndicator={false}>
+          <Text style={[textStyle, styles.codeText]} selectable>
+            {block.text}
+          </Text>
+        </ScrollView>
+      );
+
+    case 'table': {
+      const widths = block.header.map((cell, column) =>
+        columnWidth([cell, ...block.rows.map((row) => row[column])])
+      );
+      const renderRow = (cells: string[], header: boolean) =>
+        cells.map((cell, column) => (
+          <View key={column} style={[styles.tableCell, { width: widths[column] }]}>
+            <InlineText
+              text={cell}
+              style={[
+                textStyle,
+                styles.tableText,
+                header && styles.strong,
+                { textAlign: block.align[column] ?? 'left' },
+              ]}
+              {...inline}
+            />
+          </View>
+        ));
+
+      return (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View style={styles.table}>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              {renderRow(block.header, true)}
+            </View>
+            {block.rows.map((row, index) => (
+              <View key={index} style={styles.tableRow}>
+                {renderRow(row, false)}
+              </View>
+            ))}
+          </View>
+        </ScrollView>
+      );
+    }
+  }
+});
+
+BlockView.displayName = 'MarkdownBlock';
+
+/**
+ * Renders markdown from an assistant reply. Safe to feed a reply that is still streaming:
+ * only the blocks that changed are parsed and re-rendered.
+ */
+export const Markdown: React.FC<MarkdownProps> = ({
+  content,
+  textStyle,
+  linkColor,
+  onLinkPress = openLink,
+}) => {
+  const theme = useTheme();
+  const blocks = useMarkdown(content);
+  const linkStyle = useMemo(
+    () => [styles.link, { color: linkColor ?? theme.colors.primary }],
+    [linkColor, theme.colors.primary]
+  );
+
+  return (
+    <View style={styles.container}>
+      {blocks.map((block, index) => (
+        <BlockView
+          key={index}
+          block={block}
+          textStyle={textStyle}
+          linkStyle={linkStyle}
+          onLinkPress={onLinkPress}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: spacing.sm,
+  },
+  strong: {
+    fontWeight: '700',
+  },
+  emphasis: {
+    fontStyle: 'italic',
+  },
+  link: {
+    textDecorationLine: 'underline',
+  },
+  inlineCode: {
+    fontFamily: MONOSPACE,
+    backgroundColor: SUBTLE_BACKGROUND,
+  },
+  heading: {
+    fontWeight: '700',
+  },
+  listItem: {
+    flexDirection: 'row',
+  },
+  listMarker: {
+    minWidth: 20,
+  },
+  listText: {
+    flex: 1,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    borderLeftColor: SUBTLE_BORDER,
+    paddingLeft: spacing.sm,
+  },
+  quoteText: {
+    opacity: 0.8,
+  },
+  rule: {
+    height: StyleSheet.hairlineWidth,
+    backgroundColor: SUBTLE_BORDER,
+  },
+  codeBlock: {
+    backgroundColor: SUBTLE_BACKGROUND,
+    borderRadius: borderRadius.md,
+    padding: spacing.sm,
+  },
+  codeText: {
+    fontFamily: MONOSPACE,
+    fontSize: 13,
+    lineHeight: 18,
+  },
+  table: {
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: SUBTLE_BORDER,
+    borderRadius: borderRadius.sm,
+  },
+  tableRow: {
+    flexDirection: 'row',
+    borderTopWidth: StyleSheet.hairlineWidth,
+    borderTopColor: SUBTLE_BORDER,
+  },
+  tableHeader: {
+    borderTopWidth: 0,
+    backgroundColor: SUBTLE_BACKGROUND,
+  },
+  tableCell: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  tableText: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+});
@@ -0,0 +1,128 @@
+import React from 'react';
+import { Pressable, StyleSheet, Text, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { ConversationStep } from '@/types/chat';
+
+interface MessageActionsProps {
+  step: ConversationStep;
+  disabled?: boolean;
+  onSelectVersion: (groupId: string, messageId: string) => void;
+  onEdit?: () => void;
+  onRegenerate?: () => void;
+}
+
+const ICON_COLOR = '#8E8E93';
+
+/**
+ * Controls under a chat message: paging between its versions, and editing or
+ * regenerating it
+ */
+export const MessageActions: React.FC<MessageActionsProps> = ({
+  step,
+  disabled = false,
+  onSelectVersion,
+  onEdit,
+  onRegenerate,
+}) => {
+  const { t } = useTranslation();
+  const { groupId, versionIds, versionIndex } = step;
+  const versionCount = versionIds.length;
+
+  const showVersion = (index: number) => onSelectVersion(groupId, versionIds[index]);
+
+  return (
+    <View style={[styles.container, step.message.role === 'user' && styles.alignEnd]}>
+      {versionCount > 1 && (
+        <View style={styles.pager}>
+          <Pressable
+            onPress={() => showVersion(versionIndex - 1)}
+            disabled={disabled || versionIndex === 0}
+            style={styles.button}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.messageActions.previousVersion')}
+          >
+            <Ionicons
+              name="chevron-back"
+              size={16}
+              color={ICON_COLOR}
+              style={versionIndex === 0 && styles.inactive}
+            />
+          </Pressable>
+          <Text
+            style={styles.pagerText}
+            accessibilityLabel={t('home.messageActions.versionLabel', {
+              index: versionIndex + 1,
+              count: versionCount,
+            })}
+          >
+            {t('home.messageActions.version', { index: versionIndex + 1, count: versionCount })}
+          </Text>
+          <Pressable
+            onPress={() => showVersion(versionIndex + 1)}
+            disabled={disabled || versionIndex === versionCount - 1}
+            style={styles.button}
+            accessibilityRole="button"
+            accessibilityLabel={t('home.messageActions.nextVersion')}
+          >
+            <Ionicons
+              name="chevron-forward"
+              size={16}
+              color={ICON_COLOR}
+              style={versionIndex === versionCount - 1 && styles.inactive}
+            />
+          </Pressable>
+        </View>
+      )}
+      {onEdit && (
+        <Pressable
+          onPress={onEdit}
+          disabled={disabled}
+          style={styles.button}
+          accessibilityRole="button"
+          accessibilityLabel={t('home.messageActions.edit')}
+        >
+          <Ionicons name="pencil" size={14} color={ICON_COLOR} />
+        </Pressable>
+      )}
+      {onRegenerate && (
+        <Pressable
+          onPress={onRegenerate}
+          disabled={disabled}
+          style={styles.button}
+          accessibilityRole="button"
+          accessibilityLabel={t('home.messageActions.regenerate')}
+        >
+          <Ionicons name="refresh" size={16} color={ICON_COLOR} />
+        </Pressable>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+    gap: 4,
+  },
+  alignEnd: {
+    alignSelf: 'flex-end',
+  },
+  pager: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pagerText: {
+    fontSize: 12,
+    color: ICON_COLOR,
+    fontVariant: ['tabular-nums'],
+  },
+  button: {
+    padding: 4,
+  },
+  inactive: {
+    opacity: 0.4,
+  },
+});
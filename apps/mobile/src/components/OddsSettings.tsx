@@ -0,0 +1,70 @@
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import { List, SegmentedButtons, Text } from 'react-native-paper';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { TranslationKey } from '@/i18n';
+import type { OddsFormat } from '@/types/bet';
+import { spacing } from '@/theme';
+
+const FORMAT_OPTIONS: { value: OddsFormat; labelKey: TranslationKey }[] = [
+  { value: 'american', labelKey: 'settings.odds.formats.american' },
+  { value: 'decimal', labelKey: 'settings.odds.formats.decimal' },
+  { value: 'fractional', labelKey: 'settings.odds.formats.fractional' },
+];
+
+/** Tolerances as implied probability, labelled in points */
+const TOLERANCE_OPTIONS = [0, 0.01, 0.02, 0.05];
+
+export const OddsSettings: React.FC = () => {
+  const { t } = useTranslation();
+  const { oddsFormat, oddsMovementTolerance, setOddsFormat, setOddsMovementTolerance } =
+    usePreferencesStore();
+
+  return (
+    <List.Section>
+      <List.Subheader>{t('settings.odds.title')}</List.Subheader>
+      <View style={styles.content}>
+        <Text variant="bodyMedium">{t('settings.odds.format')}</Text>
+        <SegmentedButtons
+          value={oddsFormat}
+          onValueChange={(value) => setOddsFormat(value as OddsFormat)}
+          buttons={FORMAT_OPTIONS.map(({ value, labelKey }) => ({ value, label: t(labelKey) }))}
+        />
+        <Text variant="bodySmall" style={styles.description}>
+          {t('settings.odds.formatDescription')}
+        </Text>
+      </View>
+      <View style={[styles.content, styles.section]}>
+        <Text variant="bodyMedium">{t('settings.odds.tolerance')}</Text>
+        <SegmentedButtons
+          value={oddsMovementTolerance.toString()}
+          onValueChange={(value) => setOddsMovementTolerance(parseFloat(value))}
+          buttons={TOLERANCE_OPTIONS.map((tolerance) => ({
+            value: tolerance.toString(),
+            label:
+              tolerance === 0
+                ? t('settings.odds.anyMove')
+                : t('settings.odds.points', { count: Math.round(tolerance * 100) }),
+          }))}
+        />
+        <Text variant="bodySmall" style={styles.description}>
+          {t('settings.odds.toleranceDescription')}
+        </Text>
+      </View>
+    </List.Section>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  section: {
+    marginTop: spacing.md,
+  },
+  description: {
+    opacity: 0.7,
+  },
+});
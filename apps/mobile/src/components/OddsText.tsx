@@ -0,0 +1,50 @@
+import React from 'react';
+import { StyleSheet, type StyleProp, type TextStyle } from 'react-native';
+import { Text } from 'react-native-paper';
+import { useOddsFormat } from '@/hooks/useOddsFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { SportsbookOdds } from '@/types/bet';
+
+interface OddsTextProps {
+  price: Pick<SportsbookOdds, 'odds' | 'oddsFormat'>;
+  variant?: React.ComponentProps<typeof Text>['variant'];
+  style?: StyleProp<TextStyle>;
+  /** Appends the implied probability, e.g. "+150 (40.0%)" */
+  showImpliedProbability?: boolean;
+}
+
+/**
+ * A price rendered in the user's preferred odds format
+ */
+export const OddsText: React.FC<OddsTextProps> = ({
+  price,
+  variant = 'bodyMedium',
+  style,
+  showImpliedProbability = false,
+}) => {
+  const { t } = useTranslation();
+  const { formatOdds, formatImpliedProbability } = useOddsFormat();
+  const odds = formatOdds(price);
+  const probability = formatImpliedProbability(price);
+  const probabilityLabel = ` (${probability})`;
+
+  return (
+    <Text
+      variant={variant}
+      style={style}
+      accessibilityLabel={
+        showImpliedProbability ? t('odds.impliedLabel', { odds, probability }) : odds
+      }
+    >
+      {odds}
+      {showImpliedProbability && <Text style={styles.probability}>{probabilityLabel}</Text>}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  probability: {
+    opacity: 0.7,
+    fontWeight: 'normal',
+  },
+});
@@ -0,0 +1,39 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import { Chip } from 'react-native-paper';
+import { useUIStore } from '@/stores/ui.store';
+import { useParlayStore } from '@/stores/parlay.store';
+import { useTranslation } from '@/hooks/useTranslation';
+import { spacing } from '@/theme';
+
+/**
+ * Compact entry point to the parlay slip, shown while it has legs
+ */
+export const ParlaySlipButton: React.FC = () => {
+  const { t } = useTranslation();
+  const legCount = useParlayStore((state) => state.legs.length);
+  const openBottomSheet = useUIStore((state) => state.openBottomSheet);
+
+  if (legCount === 0) return null;
+
+  return (
+    <Chip
+      icon="format-list-bulleted"
+      mode="flat"
+      onPress={() => openBottomSheet('parlay-slip')}
+      style={styles.chip}
+      accessible
+      accessibilityRole="button"
+      accessibilityLabel={t('parlaySlip.openLabel', { count: legCount })}
+    >
+      {t('parlaySlip.button', { count: legCount })}
+    </Chip>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    alignSelf: 'center',
+    marginVertical: spacing.xs,
+  },
+});
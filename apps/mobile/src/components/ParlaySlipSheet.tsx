@@ -0,0 +1,327 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { Alert, View, StyleSheet } from 'react-native';
+import { Text, Button, Divider, IconButton, TextInput, useTheme } from 'react-native-paper';
+import BottomSheet, { BottomSheetScrollView, BottomSheetBackdrop } from '@gorhom/bottom-sheet';
+import type { BottomSheetBackdropProps } from '@gorhom/bottom-sheet';
+import { useUIStore } from '@/stores/ui.store';
+import { useParlayStore } from '@/stores/parlay.store';
+import { useAuthStore } from '@/stores/auth.store';
+import { useBetErrorMessage, useConfirmParlay } from '@/hooks/useBetting';
+import { useOddsFormat } from '@/hooks/useOddsFormat';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { quoteParlay } from '@/utils/parlay';
+import { getAmountCurrency } from '@/utils/money';
+import { OddsText } from '@/components/OddsText';
+import type { BetRecommendation } from '@/types/bet';
+import { spacing, borderRadius } from '@/theme';
+
+export const ParlaySlipSheet: React.FC = () => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { isBottomSheetOpen, bottomSheetContent, closeBottomSheet } = useUIStore();
+  const { legs, stake, chatId, removeLeg, setStake, clearSlip } = useParlayStore();
+  const userId = useAuthStore((state) => state.user?.id);
+  const confirmParlay = useConfirmParlay();
+  const describeError = useBetErrorMessage();
+  const { formatOdds, formatImpliedProbability } = useOddsFormat();
+  const { currency, formatMoney, getCurrencySymbol } = useMoneyFormat();
+  const [stakeText, setStakeText] = useState(stake ? stake.toString() : '');
+
+  const isOpen = isBottomSheetOpen && bottomSheetContent === 'parlay-slip';
+  const snapPoints = useMemo(() => ['80%'], []);
+  const quote = useMemo(() => quoteParlay(legs, stake), [legs, stake]);
+  const combinedPrice = { odds: quote.decimalOdds, oddsFormat: 'decimal' as const };
+  // A parlay is placed at a single sportsbook, so its first leg's currency stands for the slip
+  const parlayCurrency = legs[0] ? getAmountCurrency(legs[0]) : currency;
+  const correlatedLegIds = useMemo(
+    () => new Set(quote.correlatedLegGroups.flat()),
+    [quote.correlatedLegGroups]
+  );
+
+  const renderBackdrop = useCallback(
+    (props: BottomSheetBackdropProps) => (
+      <BottomSheetBackdrop {...props} disappearsOnIndex={-1} appearsOnIndex={0} />
+    ),
+    []
+  );
+
+  const handleConfirm = useCallback(async () => {
+    try {
+      const { opened } = await confirmParlay.mutateAsync({
+        legs,
+        stake,
+        userId: userId || '',
+        chatId: chatId || undefined,
+      });
+
+      if (!opened) Alert.alert(t('betConfirmation.sportsbookNotOpened'));
+      clearSlip();
+      setStakeText(useParlayStore.getState().stake.toString());
+      closeBottomSheet();
+    } catch (error) {
+      // Error handling is done in the mutation
+    }
+  }, [confirmParlay, legs, stake, userId, chatId, clearSlip, closeBottomSheet, t]);
+
+  const handleStakeChange = useCallback(
+    (value: string) => {
+      setStakeText(value);
+      setStake(parseFloat(value));
+    },
+    [setStake]
+  );
+
+  const handleClear = useCallback(() => {
+    clearSlip();
+    setStakeText(useParlayStore.getState().stake.toString());
+    closeBottomSheet();
+  }, [clearSlip, closeBottomSheet]);
+
+  if (!isOpen) return null;
+
+  const canConfirm = legs.length >= 2 && stake > 0 && !quote.hasMixedSportsbooks;
+
+  return (
+    <BottomSheet
+      index={0}
+      snapPoints={snapPoints}
+      enablePanDownToClose
+      onClose={closeBottomSheet}
+      backdropComponent={renderBackdrop}
+      backgroundStyle={{ backgroundColor: theme.colors.surface }}
+      handleIndicatorStyle={{ backgroundColor: theme.colors.outline }}
+    >
+      <BottomSheetScrollView contentContainerStyle={styles.container}>
+        <Text variant="headlineSmall" style={styles.title}>
+          {t('parlaySlip.title')}
+        </Text>
+
+        {legs.length === 0 ? (
+          <Text variant="bodyMedium" style={styles.emptyText}>
+            {t('parlaySlip.empty')}
+          </Text>
+        ) : (
+          legs.map((leg) => (
+            <ParlayLegRow
+              key={leg.id}
+              leg={leg}
+              isCorrelated={correlatedLegIds.has(leg.id)}
+              onRemove={removeLeg}
+            />
+          ))
+        )}
+
+        {quote.correlatedLegGroups.length > 0 && (
+          <View style={[styles.warning, { backgroundColor: theme.colors.errorContainer }]}>
+            <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+              {t('parlaySlip.correlatedWarning')}
+            </Text>
+          </View>
+        )}
+
+        {quote.hasMixedSportsbooks && (
+          <View style={[styles.warning, { backgroundColor: theme.colors.errorContainer }]}>
+            <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+              {t('parlaySlip.mixedSportsbooks')}
+            </Text>
+          </View>
+        )}
+
+        {confirmParlay.error && (
+          <View style={[styles.warning, { backgroundColor: theme.colors.errorContainer }]}>
+            <Text variant="bodySmall" style={{ color: theme.colors.onErrorContainer }}>
+              {describeError(confirmParlay.error)}
+            </Text>
+          </View>
+        )}
+
+        <Divider style={styles.divider} />
+
+        <TextInput
+          mode="outlined"
+          label={t('parlaySlip.stake')}
+          value={stakeText}
+          onChangeText={handleStakeChange}
+          keyboardType="decimal-pad"
+          left={<TextInput.Affix text={getCurrencySymbol(parlayCurrency)} />}
+          accessible
+          accessibilityLabel={t('parlaySlip.stakeLabel')}
+        />
+
+        <View style={styles.summary}>
+          <SummaryRow label={t('parlaySlip.legs')} value={legs.length.toString()} />
+          <SummaryRow
+            label={t('parlaySlip.combinedOdds')}
+            value={`${formatOdds(combinedPrice)} (${formatImpliedProbability(combinedPrice)})`}
+          />
+          <SummaryRow
+            label={t('parlaySlip.potentialPayout')}
+            value={formatMoney(quote.potentialPayout, parlayCurrency)}
+            highlight
+          />
+        </View>
+
+        <View style={styles.buttonContainer}>
+          <Button
+            mode="outlined"
+            onPress={handleClear}
+            style={styles.clearButton}
+            disabled={confirmParlay.isPending}
+            accessible
+            accessibilityLabel={t('parlaySlip.clearLabel')}
+          >
+            {t('parlaySlip.clear')}
+          </Button>
+          <Button
+            mode="contained"
+            onPress={handleConfirm}
+            style={styles.confirmButton}
+            loading={confirmParlay.isPending}
+            disabled={!canConfirm || confirmParlay.isPending}
+            accessible
+            accessibilityLabel={t('parlaySlip.confirmLabel')}
+          >
+            {t('parlaySlip.confirm')}
+          </Button>
+        </View>
+      </BottomSheetScrollView>
+    </BottomSheet>
+  );
+};
+
+interface ParlayLegRowProps {
+  leg: BetRecommendation;
+  isCorrelated: boolean;
+  onRemove: (recommendationId: string) => void;
+}
+
+const ParlayLegRow: React.FC<ParlayLegRowProps> = ({ leg, isCorrelated, onRemove }) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+
+  return (
+    <View
+      style={[
+        styles.legRow,
+        { backgroundColor: theme.colors.surfaceVariant },
+        isCorrelated && [styles.correlatedLeg, { borderColor: theme.colors.error }],
+      ]}
+    >
+      <View style={styles.legDetails}>
+        <Text variant="titleSmall">{leg.selection}</Text>
+        <Text variant="bodySmall" style={styles.legMeta}>
+          {leg.event} • {leg.betType}
+        </Text>
+        <Text variant="bodySmall" style={styles.legMeta}>
+          {leg.sportsbook.name}
+        </Text>
+      </View>
+      <OddsText price={leg} variant="titleMedium" style={styles.legOdds} />
+      <IconButton
+        icon="close"
+        size={18}
+        onPress={() => onRemove(leg.id)}
+        accessibilityLabel={t('parlaySlip.removeLeg', { selection: leg.selection })}
+      />
+    </View>
+  );
+};
+
+interface SummaryRowProps {
+  label: string;
+  value: string;
+  highlight?: boolean;
+}
+
+const SummaryRow: React.FC<SummaryRowProps> = ({ label, value, highlight }) => {
+  const theme = useTheme();
+
+  return (
+    <View style={styles.summaryRow}>
+      <Text variant="bodyMedium" style={styles.summaryLabel}>
+        {label}
+      </Text>
+      <Text
+        variant={highlight ? 'titleMedium' : 'bodyLarge'}
+        style={[
+          styles.summaryValue,
+          highlight && [styles.highlightValue, { color: theme.colors.primary }],
+        ]}
+      >
+        {value}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: spacing.md,
+    paddingBottom: spacing.lg,
+    gap: spacing.sm,
+  },
+  title: {
+    marginBottom: spacing.md,
+    textAlign: 'center',
+  },
+  emptyText: {
+    textAlign: 'center',
+    opacity: 0.6,
+  },
+  legRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+  },
+  correlatedLeg: {
+    borderWidth: 1,
+  },
+  legDetails: {
+    flex: 1,
+  },
+  legMeta: {
+    opacity: 0.7,
+  },
+  legOdds: {
+    fontWeight: '600',
+    marginHorizontal: spacing.sm,
+  },
+  warning: {
+    padding: spacing.sm,
+    borderRadius: borderRadius.md,
+  },
+  divider: {
+    marginVertical: spacing.sm,
+  },
+  summary: {
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  summaryLabel: {
+    opacity: 0.7,
+  },
+  summaryValue: {
+    fontWeight: '600',
+  },
+  highlightValue: {
+    fontWeight: 'bold',
+  },
+  buttonContainer: {
+    flexDirection: 'row',
+    gap: spacing.md,
+    marginTop: spacing.xl,
+  },
+  clearButton: {
+    flex: 1,
+  },
+  confirmButton: {
+    flex: 2,
+  },
+});
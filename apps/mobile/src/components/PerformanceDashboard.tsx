@@ -0,0 +1,218 @@
+import React, { useState } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Text, SegmentedButtons, Surface, useTheme } from 'react-native-paper';
+import { useBetPerformance } from '@/hooks/useBetting';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { TranslationKey } from '@/i18n';
+import type { PerformanceDimension, ProfitPoint } from '@/utils/performance';
+import { spacing, borderRadius } from '@/theme';
+
+const DIMENSION_OPTIONS: { value: PerformanceDimension; labelKey: TranslationKey }[] = [
+  { value: 'sport', labelKey: 'performance.dimensions.sport' },
+  { value: 'league', labelKey: 'performance.dimensions.league' },
+  { value: 'betType', labelKey: 'performance.dimensions.betType' },
+  { value: 'sportsbook', labelKey: 'performance.dimensions.sportsbook' },
+];
+
+const CHART_HEIGHT = 96;
+const MAX_CHART_POINTS = 60;
+
+const formatPercent = (value: number | null): string =>
+  value === null ? '–' : `${(value * 100).toFixed(1)}%`;
+
+interface PerformanceDashboardProps {
+  userId: string;
+}
+
+export const PerformanceDashboard: React.FC<PerformanceDashboardProps> = ({ userId }) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { data: summary } = useBetPerformance(userId);
+  const { formatProfit } = useMoneyFormat();
+  const [dimension, setDimension] = useState<PerformanceDimension>('sport');
+
+  if (!summary || summary.bets === 0) return null;
+
+  const profitColor = summary.profit < 0 ? theme.colors.error : theme.colors.secondary;
+  const record = t('performance.record', {
+    won: summary.won,
+    lost: summary.lost,
+    pushed: summary.pushed,
+    count: summary.bets,
+  });
+  const caption =
+    summary.otherCurrencyBets > 0
+      ? `${record} • ${t('performance.otherCurrencies', { count: summary.otherCurrencyBets })}`
+      : record;
+
+  return (
+    <Surface style={styles.container} elevation={1}>
+      <View style={styles.statsRow}>
+        <Stat
+          label={t('performance.profit')}
+          value={formatProfit(summary.profit)}
+          color={profitColor}
+        />
+        <Stat label={t('performance.roi')} value={formatPercent(summary.roi)} color={profitColor} />
+        <Stat
+          label={t('performance.units')}
+          value={summary.unitsWon === null ? '–' : summary.unitsWon.toFixed(2)}
+          color={profitColor}
+        />
+        <Stat label={t('performance.winRate')} value={formatPercent(summary.winRate)} />
+      </View>
+
+      <Text variant="bodySmall" style={styles.caption}>
+        {caption}
+      </Text>
+
+      <ProfitChart points={summary.profitSeries} />
+
+      <SegmentedButtons
+        value={dimension}
+        onValueChange={(value) => setDimension(value as PerformanceDimension)}
+        buttons={DIMENSION_OPTIONS.map(({ value, labelKey }) => ({ value, label: t(labelKey) }))}
+        style={styles.dimensionPicker}
+      />
+
+      {summary.breakdown[dimension].map((group) => (
+        <View key={group.key} style={styles.groupRow}>
+          <View style={styles.groupLabel}>
+            <Text variant="bodyMedium" numberOfLines={1}>
+              {group.key}
+            </Text>
+            <Text variant="bodySmall" style={styles.caption}>
+              {t('performance.groupRecord', {
+                won: group.won,
+                lost: group.lost,
+                pushed: group.pushed,
+                winRate: formatPercent(group.winRate),
+              })}
+            </Text>
+          </View>
+          <View style={styles.groupNumbers}>
+            <Text
+              variant="bodyMedium"
+              style={{ color: group.profit < 0 ? theme.colors.error : theme.colors.secondary }}
+            >
+              {formatProfit(group.profit)}
+            </Text>
+            <Text variant="bodySmall" style={styles.caption}>
+              {t('performance.groupRoi', { roi: formatPercent(group.roi) })}
+            </Text>
+          </View>
+        </View>
+      ))}
+    </Surface>
+  );
+};
+
+interface StatProps {
+  label: string;
+  value: string;
+  color?: string;
+}
+
+const Stat: React.FC<StatProps> = ({ label, value, color }) => (
+  <View style={styles.stat} accessible accessibilityLabel={`${label} ${value}`}>
+    <Text variant="titleMedium" style={color ? { color } : undefined}>
+      {value}
+    </Text>
+    <Text variant="bodySmall" style={styles.caption}>
+      {label}
+    </Text>
+  </View>
+);
+
+/**
+ * Running profit as columns above or below a zero line, one per settled bet
+ */
+const ProfitChart: React.FC<{ points: ProfitPoint[] }> = ({ points }) => {
+  const theme = useTheme();
+  const { t } = useTranslation();
+  const { formatProfit } = useMoneyFormat();
+  const visible = points.slice(-MAX_CHART_POINTS);
+  const max = Math.max(...visible.map((point) => point.profit), 0);
+  const min = Math.min(...visible.map((point) => point.profit), 0);
+  const range = max - min || 1;
+  const zeroOffset = (max / range) * CHART_HEIGHT;
+
+  return (
+    <View
+      style={styles.chart}
+      accessible
+      accessibilityLabel={t('performance.chartLabel', {
+        profit: formatProfit(visible[visible.length - 1]?.profit ?? 0),
+      })}
+    >
+      <View style={[styles.zeroLine, { top: zeroOffset, backgroundColor: theme.colors.outline }]} />
+      {visible.map((point, index) => {
+        const height = Math.max((Math.abs(point.profit) / range) * CHART_HEIGHT, 1);
+        return (
+          <View
+            key={`${point.settledAt}-${index}`}
+            style={[
+              styles.bar,
+              {
+                height,
+                top: point.profit >= 0 ? zeroOffset - height : zeroOffset,
+                backgroundColor: point.profit < 0 ? theme.colors.error : theme.colors.secondary,
+              },
+            ]}
+          />
+        );
+      })}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    margin: spacing.md,
+    padding: spacing.md,
+    borderRadius: borderRadius.md,
+    gap: spacing.sm,
+  },
+  statsRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  stat: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  caption: {
+    opacity: 0.6,
+  },
+  chart: {
+    height: CHART_HEIGHT,
+    flexDirection: 'row',
+    gap: 1,
+  },
+  zeroLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: StyleSheet.hairlineWidth,
+  },
+  bar: {
+    flex: 1,
+  },
+  dimensionPicker: {
+    marginTop: spacing.sm,
+  },
+  groupRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+  },
+  groupLabel: {
+    flex: 1,
+    marginRight: spacing.md,
+  },
+  groupNumbers: {
+    alignItems: 'flex-end',
+  },
+});
@@ -0,0 +1,240 @@
+import React, { useState } from 'react';
+import { View, StyleSheet, Alert } from 'react-native';
+import { List, Button, Text, TextInput } from 'react-native-paper';
+import { useResponsibleGamblingStore } from '@/stores/responsibleGambling.store';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatDateTime, type TranslationKey } from '@/i18n';
+import {
+  LIMIT_PERIODS,
+  getEffectiveStakeLimits,
+  getLimitCurrency,
+  isLimitIncrease,
+  type LimitPeriod,
+} from '@/utils/responsibleGambling';
+import { spacing } from '@/theme';
+import type { CurrencyCode } from '@/types/bet';
+
+const HOUR = 60 * 60 * 1000;
+
+const LIMIT_LABEL_KEYS: Record<LimitPeriod, TranslationKey> = {
+  daily: 'settings.responsibleGambling.limits.daily',
+  weekly: 'settings.responsibleGambling.limits.weekly',
+  monthly: 'settings.responsibleGambling.limits.monthly',
+};
+
+/** Option lengths, labelled with a plural message for `count` units */
+const COOL_OFF_OPTIONS: { count: number; unitKey: TranslationKey; duration: number }[] = [
+  { count: 24, unitKey: 'settings.responsibleGambling.durations.hours', duration: 24 * HOUR },
+  { count: 7, unitKey: 'settings.responsibleGambling.durations.days', duration: 7 * 24 * HOUR },
+  { count: 30, unitKey: 'settings.responsibleGambling.durations.days', duration: 30 * 24 * HOUR },
+];
+
+const SELF_EXCLUSION_OPTIONS: { count: number; unitKey: TranslationKey; months: number }[] = [
+  { count: 6, unitKey: 'settings.responsibleGambling.durations.months', months: 6 },
+  { count: 1, unitKey: 'settings.responsibleGambling.durations.years', months: 12 },
+  { count: 5, unitKey: 'settings.responsibleGambling.durations.years', months: 60 },
+];
+
+const isActive = (until: string | null): until is string =>
+  until !== null && new Date(until) > new Date();
+
+interface LimitFieldProps {
+  period: LimitPeriod;
+  value: number | null;
+  currency: CurrencyCode;
+  onCommit: (period: LimitPeriod, amount: number | null, currency: CurrencyCode) => void;
+}
+
+/**
+ * Commits on blur rather than per keystroke, so typing a larger number
+ * isn't treated as a series of limit increases
+ */
+const LimitField: React.FC<LimitFieldProps> = ({ period, value, currency, onCommit }) => {
+  const { t } = useTranslation();
+  const [text, setText] = useState(value === null ? '' : value.toString());
+  const { getCurrencySymbol } = useMoneyFormat();
+
+  const handleBlur = () => {
+    const trimmed = text.trim();
+    const amount = trimmed === '' ? null : parseFloat(trimmed);
+
+    if (amount !== null && (!Number.isFinite(amount) || amount < 0)) {
+      setText(value === null ? '' : value.toString());
+      return;
+    }
+
+    if (amount === value) return;
+    onCommit(period, amount, currency);
+
+    // Increases wait out a delay, so keep showing the limit that is still in force
+    if (isLimitIncrease(value, amount)) setText(value === null ? '' : value.toString());
+  };
+
+  return (
+    <TextInput
+      mode="outlined"
+      label={t(LIMIT_LABEL_KEYS[period])}
+      placeholder={t('settings.responsibleGambling.noLimit')}
+      value={text}
+      onChangeText={setText}
+      onBlur={handleBlur}
+      keyboardType="decimal-pad"
+      left={<TextInput.Affix text={getCurrencySymbol(currency)} />}
+      accessible
+      accessibilityLabel={t(LIMIT_LABEL_KEYS[period])}
+    />
+  );
+};
+
+export const ResponsibleGamblingSettings: React.FC = () => {
+  const { t, language } = useTranslation();
+  const settings = useResponsibleGamblingStore();
+  const { setStakeLimit, startCoolOff, selfExclude, coolOffUntil, selfExcludedUntil } = settings;
+  const limits = getEffectiveStakeLimits(settings, new Date());
+  const { currency, formatMoney } = useMoneyFormat();
+  const limitCurrency = getLimitCurrency(settings, currency);
+
+  const handleCoolOff = (length: string, duration: number) => {
+    Alert.alert(
+      t('settings.responsibleGambling.coolOff.confirmTitle'),
+      t('settings.responsibleGambling.coolOff.confirmMessage', { length }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.responsibleGambling.coolOff.confirm'),
+          style: 'destructive',
+          onPress: () => startCoolOff(duration),
+        },
+      ]
+    );
+  };
+
+  const handleSelfExclude = (length: string, months: number) => {
+    Alert.alert(
+      t('settings.responsibleGambling.selfExclusion.confirmTitle'),
+      t('settings.responsibleGambling.selfExclusion.confirmMessage', { length }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('settings.responsibleGambling.selfExclusion.confirm'),
+          style: 'destructive',
+          onPress: () => selfExclude(months),
+        },
+      ]
+    );
+  };
+
+  return (
+    <List.Section>
+      <List.Subheader>{t('settings.responsibleGambling.title')}</List.Subheader>
+      <View style={styles.content}>
+        {LIMIT_PERIODS.map((period) => {
+          const pending = settings.pendingLimitChanges[period];
+          return (
+            <View key={period}>
+              {/* Remount when the limit in force changes, e.g. after secure storage loads */}
+              <LimitField
+                key={`${period}-${limits[period]}`}
+                period={period}
+                value={limits[period]}
+                currency={limitCurrency}
+                onCommit={setStakeLimit}
+              />
+              {pending && new Date(pending.effectiveAt) > new Date() && (
+                <Text variant="bodySmall" style={styles.hint}>
+                  {pending.amount === null
+                    ? t('settings.responsibleGambling.pendingRemoval', {
+                        date: formatDateTime(pending.effectiveAt, language),
+                      })
+                    : t('settings.responsibleGambling.pendingIncrease', {
+                        amount: formatMoney(pending.amount, limitCurrency),
+                        date: formatDateTime(pending.effectiveAt, language),
+                      })}
+                </Text>
+              )}
+            </View>
+          );
+        })}
+        <Text variant="bodySmall" style={styles.hint}>
+          {t('settings.responsibleGambling.limitsHint')}
+        </Text>
+      </View>
+
+      <List.Item
+        title={t('settings.responsibleGambling.coolOff.title')}
+        description={
+          isActive(coolOffUntil)
+            ? t('settings.responsibleGambling.coolOff.activeUntil', {
+                date: formatDateTime(coolOffUntil, language),
+              })
+            : t('settings.responsibleGambling.coolOff.description')
+        }
+        left={(props) => <List.Icon {...props} icon="timer-sand" />}
+      />
+      <View style={styles.buttonsRow}>
+        {COOL_OFF_OPTIONS.map(({ count, unitKey, duration }) => {
+          const length = t(unitKey, { count });
+          return (
+            <Button
+              key={duration}
+              mode="outlined"
+              compact
+              onPress={() => handleCoolOff(length, duration)}
+              accessibilityLabel={t('settings.responsibleGambling.coolOff.optionLabel', {
+                length,
+              })}
+            >
+              {length}
+            </Button>
+          );
+        })}
+      </View>
+
+      <List.Item
+        title={t('settings.responsibleGambling.selfExclusion.title')}
+        description={
+          isActive(selfExcludedUntil)
+            ? t('settings.responsibleGambling.selfExclusion.activeUntil', {
+                date: formatDateTime(selfExcludedUntil, language),
+              })
+            : t('settings.responsibleGambling.selfExclusion.description')
+        }
+        left={(props) => <List.Icon {...props} icon="hand-back-left" />}
+      />
+      <View style={styles.buttonsRow}>
+        {SELF_EXCLUSION_OPTIONS.map(({ count, unitKey, months }) => {
+          const length = t(unitKey, { count });
+          return (
+            <Button
+              key={months}
+              mode="outlined"
+              compact
+              onPress={() => handleSelfExclude(length, months)}
+              accessibilityLabel={t('settings.responsibleGambling.selfExclusion.optionLabel', {
+                length,
+              })}
+            >
+              {length}
+            </Button>
+          );
+        })}
+      </View>
+    </List.Section>
+  );
+};
+
+const styles = StyleSheet.create({
+  content: {
+    paddingHorizontal: spacing.md,
+    gap: spacing.sm,
+  },
+  hint: {
+    opacity: 0.7,
+  },
+  buttonsRow: {
+    flexDirection: 'row',
+    gap: spacing.sm,
+    paddingHorizontal: spacing.md,
+  },
+});
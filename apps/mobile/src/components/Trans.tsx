@@ -0,0 +1,37 @@
+import React from 'react';
+import { useTranslation } from '@/hooks/useTranslation';
+import type { TranslationKey, TranslationParams } from '@/i18n';
+
+interface TransProps {
+  i18nKey: TranslationKey;
+  params?: TranslationParams;
+  /** Elements for each `<tag>` in the message; the tagged text becomes their child */
+  components: Record<string, React.ReactElement>;
+}
+
+const TAG_PATTERN = /<(\w+)>(.*?)<\/\1>/g;
+
+/**
+ * A translated message with inline elements, e.g. links inside a sentence.
+ * Render it inside a `<Text>` so the pieces flow as one paragraph.
+ */
+export const Trans: React.FC<TransProps> = ({ i18nKey, params, components }) => {
+  const { t } = useTranslation();
+  const message = t(i18nKey, params);
+  const parts: React.ReactNode[] = [];
+  let lastIndex = 0;
+
+  for (const match of message.matchAll(TAG_PATTERN)) {
+    const [whole, tag, text] = match;
+    const index = match.index ?? 0;
+    if (index > lastIndex) parts.push(message.slice(lastIndex, index));
+
+    const component = components[tag];
+    parts.push(component ? React.cloneElement(component, { key: `${tag}-${index}` }, text) : text);
+    lastIndex = index + whole.length;
+  }
+
+  if (lastIndex < message.length) parts.push(message.slice(lastIndex));
+
+  return <>{parts}</>;
+};
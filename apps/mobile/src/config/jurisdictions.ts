@@ -0,0 +1,166 @@
+import type { SportsbookKey } from '@/config/sportsbooks';
+
+export const US_STATES = {
+  AL: 'Alabama',
+  AK: 'Alaska',
+  AZ: 'Arizona',
+  AR: 'Arkansas',
+  CA: 'California',
+  CO: 'Colorado',
+  CT: 'Connecticut',
+  DE: 'Delaware',
+  DC: 'District of Columbia',
+  FL: 'Florida',
+  GA: 'Georgia',
+  HI: 'Hawaii',
+  ID: 'Idaho',
+  IL: 'Illinois',
+  IN: 'Indiana',
+  IA: 'Iowa',
+  KS: 'Kansas',
+  KY: 'Kentucky',
+  LA: 'Louisiana',
+  ME: 'Maine',
+  MD: 'Maryland',
+  MA: 'Massachusetts',
+  MI: 'Michigan',
+  MN: 'Minnesota',
+  MS: 'Mississippi',
+  MO: 'Missouri',
+  MT: 'Montana',
+  NE: 'Nebraska',
+  NV: 'Nevada',
+  NH: 'New Hampshire',
+  NJ: 'New Jersey',
+  NM: 'New Mexico',
+  NY: 'New York',
+  NC: 'North Carolina',
+  ND: 'North Dakota',
+  OH: 'Ohio',
+  OK: 'Oklahoma',
+  OR: 'Oregon',
+  PA: 'Pennsylvania',
+  RI: 'Rhode Island',
+  SC: 'South Carolina',
+  SD: 'South Dakota',
+  TN: 'Tennessee',
+  TX: 'Texas',
+  UT: 'Utah',
+  VT: 'Vermont',
+  VA: 'Virginia',
+  WA: 'Washington',
+  WV: 'West Virginia',
+  WI: 'Wisconsin',
+  WY: 'Wyoming',
+} as const;
+
+export type StateCode = keyof typeof US_STATES;
+
+/**
+ * Sportsbooks licensed for online wagering in each state.
+ * States that are absent have no legal online sports betting; states with an empty
+ * list only allow books we don't support (e.g. state-run apps).
+ * Licensing changes often, so confirm changes with compliance before editing.
+ */
+export const LICENSED_SPORTSBOOKS: Partial<Record<StateCode, SportsbookKey[]>> = {
+  AZ: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  CO: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  CT: ['draftkings', 'fanduel', 'fanatics'],
+  DC: ['fanduel', 'betmgm', 'caesars', 'fanatics'],
+  DE: ['betrivers'],
+  IL: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers', 'bet365'],
+  IN: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  IA: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  KS: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'bet365'],
+  KY: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'bet365'],
+  LA: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers', 'bet365'],
+  ME: ['draftkings', 'caesars'],
+  MD: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers', 'bet365'],
+  MA: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'bet365'],
+  MI: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers'],
+  MO: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'bet365'],
+  NV: ['betmgm', 'caesars'],
+  NH: ['draftkings'],
+  NJ: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  NY: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers'],
+  NC: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'bet365'],
+  OH: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  OR: ['draftkings'],
+  PA: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers', 'bet365'],
+  RI: [],
+  TN: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'hardrock', 'bet365'],
+  VT: ['draftkings', 'fanduel', 'fanatics'],
+  VA: [
+    'draftkings',
+    'fanduel',
+    'betmgm',
+    'caesars',
+    'fanatics',
+    'espnbet',
+    'betrivers',
+    'hardrock',
+    'bet365',
+  ],
+  WV: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet', 'betrivers'],
+  WY: ['draftkings', 'fanduel', 'betmgm', 'caesars', 'fanatics', 'espnbet'],
+};
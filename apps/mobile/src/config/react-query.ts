@@ -1,6 +1,8 @@
 import { QueryClient, QueryClientConfig } from '@tanstack/react-query';
 import { logger } from '@/utils/logger';
 import NetInfo from '@react-native-community/netinfo';
+import { outboxService } from '@/services/outbox.service';
+import { notificationService } from '@/services/notification.service';
 
 const queryConfig: QueryClientConfig = {
   defaultOptions: {
@@ -41,6 +43,7 @@ NetInfo.addEventListener((state) => {
     logger.info('Network reconnected, resuming queries');
     queryClient.resumePausedMutations();
     queryClient.invalidateQueries();
+    outboxService.drain().catch((error) => logger.error('Outbox drain on reconnect failed', error));
   } else if (wasOnline && !isOnline) {
     logger.warn('Network disconnected');
   }
@@ -55,15 +58,30 @@ export const queryKeys = {
     all: ['chat'] as const,
     threads: (params?: any) => ['chat', 'threads', params] as const,
     thread: (id: string) => ['chat', 'thread', id] as const,
+    folders: () => ['chat', 'folders'] as const,
     messages: (threadId: string, params?: any) => ['chat', 'messages', threadId, params] as const,
+    search: (query: string, filters?: object) => ['chat', 'search', query, filters] as const,
   },
   betting: {
     all: ['betting'] as const,
     recommendation: (id: string) => ['betting', 'recommendation', id] as const,
+    odds: (recommendationId: string) => ['betting', 'odds', recommendationId] as const,
     history: (params?: any) => ['betting', 'history', params] as const,
+    performance: () => ['betting', 'performance'] as const,
   },
   notifications: {
     all: ['notifications'] as const,
     list: (params?: any) => ['notifications', 'list', params] as const,
   },
 } as const;
+
+// Refresh a thread whenever one of its queued messages is delivered or fails
+outboxService.subscribe((entry) => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.chat.messages(entry.chatId) });
+});
+
+// Show results delivered by push without waiting for the next history sync
+notificationService.onBetResult(() => {
+  queryClient.invalidateQueries({ queryKey: queryKeys.betting.history() });
+  queryClient.invalidateQueries({ queryKey: queryKeys.betting.performance() });
+});
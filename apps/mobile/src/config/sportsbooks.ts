@@ -0,0 +1,207 @@
+import { LICENSED_SPORTSBOOKS, type StateCode } from '@/config/jurisdictions';
+import type { Sportsbook } from '@betthink/shared';
+
+export type SportsbookKey =
+  | 'draftkings'
+  | 'fanduel'
+  | 'betmgm'
+  | 'caesars'
+  | 'fanatics'
+  | 'espnbet'
+  | 'betrivers'
+  | 'hardrock'
+  | 'bet365';
+
+/**
+ * Bet slip query params we know how to send
+ */
+export type DeepLinkParam = 'type' | 'selection' | 'odds' | 'stake' | 'event' | 'mode';
+
+export interface SportsbookConfig {
+  id: string;
+  name: string;
+  deepLinkScheme: string;
+  deepLinkPath: string;
+  /** Query params the book's bet slip reads; anything else is dropped from links */
+  deepLinkParams: DeepLinkParam[];
+  /** Whether the app can prefill a multi-leg slip; otherwise parlays open the app's home */
+  supportsParlayDeepLink: boolean;
+  /** Universal link domain, which also serves the web sportsbook */
+  webUrl: string;
+  /** Path of the web bet slip on `webUrl`, or null when the book only takes bets in-app */
+  webBetSlipPath: string | null;
+  iosAppStoreId: string;
+  androidPackage: string;
+  /** States the book is licensed in, from the jurisdiction registry */
+  states: StateCode[];
+}
+
+export const DEEP_LINK_PARAMS: DeepLinkParam[] = [
+  'type',
+  'selection',
+  'odds',
+  'stake',
+  'event',
+  'mode',
+];
+
+const licensedStates = (key: SportsbookKey): StateCode[] =>
+  (Object.keys(LICENSED_SPORTSBOOKS) as StateCode[]).filter((state) =>
+    LICENSED_SPORTSBOOKS[state]?.includes(key)
+  );
+
+/**
+ * Sportsbooks we can send users to, in the order alternatives are offered.
+ * Paths, params and store IDs come from each book's affiliate docs; re-check them
+ * when a book ships a new app.
+ */
+export const SPORTSBOOKS: Record<SportsbookKey, SportsbookConfig> = {
+  draftkings: {
+    id: 'draftkings',
+    name: 'DraftKings',
+    deepLinkScheme: 'draftkings',
+    deepLinkPath: 'betslip',
+    deepLinkParams: DEEP_LINK_PARAMS,
+    supportsParlayDeepLink: true,
+    webUrl: 'https://sportsbook.draftkings.com',
+    webBetSlipPath: '/betslip',
+    iosAppStoreId: '1375031205',
+    androidPackage: 'com.draftkings.sportsbook',
+    states: licensedStates('draftkings'),
+  },
+  fanduel: {
+    id: 'fanduel',
+    name: 'FanDuel',
+    deepLinkScheme: 'fanduel',
+    deepLinkPath: 'addToBetslip',
+    deepLinkParams: DEEP_LINK_PARAMS,
+    supportsParlayDeepLink: true,
+    webUrl: 'https://sportsbook.fanduel.com',
+    webBetSlipPath: '/addToBetslip',
+    iosAppStoreId: '1059881100',
+    androidPackage: 'com.fanduel.sportsbook',
+    states: licensedStates('fanduel'),
+  },
+  betmgm: {
+    id: 'betmgm',
+    name: 'BetMGM',
+    deepLinkScheme: 'betmgm',
+    deepLinkPath: 'bet',
+    deepLinkParams: DEEP_LINK_PARAMS,
+    supportsParlayDeepLink: true,
+    webUrl: 'https://sports.betmgm.com',
+    webBetSlipPath: '/en/sports/betslip',
+    iosAppStoreId: '1453911024',
+    androidPackage: 'com.betmgm.sportsbook',
+    states: licensedStates('betmgm'),
+  },
+  caesars: {
+    id: 'caesars',
+    name: 'Caesars Sportsbook',
+    deepLinkScheme: 'caesars',
+    deepLinkPath: 'bet',
+    deepLinkParams: ['selection', 'odds', 'stake', 'event', 'mode'],
+    supportsParlayDeepLink: false,
+    webUrl: 'https://sportsbook.caesars.com',
+    webBetSlipPath: '/us/betslip',
+    iosAppStoreId: '1488418599',
+    androidPackage: 'com.williamhill.us.sportsbook',
+    states: licensedStates('caesars'),
+  },
+  fanatics: {
+    id: 'fanatics',
+    name: 'Fanatics Sportsbook',
+    deepLinkScheme: 'fanatics',
+    deepLinkPath: 'bet',
+    deepLinkParams: ['selection', 'odds', 'stake', 'mode'],
+    supportsParlayDeepLink: false,
+    webUrl: 'https://sportsbook.fanatics.com',
+    webBetSlipPath: null,
+    iosAppStoreId: '1616633935',
+    androidPackage: 'com.fanatics.sportsbook',
+    states: licensedStates('fanatics'),
+  },
+  espnbet: {
+    id: 'espnbet',
+    name: 'ESPN BET',
+    deepLinkScheme: 'espnbet',
+    deepLinkPath: 'betslip',
+    deepLinkParams: ['type', 'selection', 'odds', 'stake', 'mode'],
+    supportsParlayDeepLink: true,
+    webUrl: 'https://espnbet.com',
+    webBetSlipPath: '/betslip',
+    iosAppStoreId: '1503424713',
+    androidPackage: 'com.penn.espnbet',
+    states: licensedStates('espnbet'),
+  },
+  betrivers: {
+    id: 'betrivers',
+    name: 'BetRivers',
+    deepLinkScheme: 'betrivers',
+    deepLinkPath: 'bet',
+    deepLinkParams: ['selection', 'odds', 'stake', 'event', 'mode'],
+    supportsParlayDeepLink: false,
+    webUrl: 'https://www.betrivers.com',
+    webBetSlipPath: '/betslip',
+    iosAppStoreId: '1436405542',
+    androidPackage: 'com.rushstreetinteractive.betrivers',
+    states: licensedStates('betrivers'),
+  },
+  hardrock: {
+    id: 'hardrock',
+    name: 'Hard Rock Bet',
+    deepLinkScheme: 'hardrock',
+    deepLinkPath: 'bet',
+    deepLinkParams: ['selection', 'odds', 'stake', 'mode'],
+    supportsParlayDeepLink: false,
+    webUrl: 'https://www.hardrock.bet',
+    webBetSlipPath: null,
+    iosAppStoreId: '1611398543',
+    androidPackage: 'com.hardrockdigital.sportsbook',
+    states: licensedStates('hardrock'),
+  },
+  bet365: {
+    id: 'bet365',
+    name: 'bet365',
+    deepLinkScheme: 'bet365',
+    deepLinkPath: 'betslip',
+    deepLinkParams: ['selection', 'odds', 'stake', 'mode'],
+    supportsParlayDeepLink: false,
+    webUrl: 'https://www.bet365.com',
+    webBetSlipPath: null,
+    iosAppStoreId: '454638411',
+    androidPackage: 'com.bet365Wrapper.Bet365_Application',
+    states: licensedStates('bet365'),
+  },
+};
+
+export const SPORTSBOOK_KEYS = Object.keys(SPORTSBOOKS) as SportsbookKey[];
+
+/**
+ * The plain sportsbook shape the API and ledger use
+ */
+export const toSportsbook = ({
+  id,
+  name,
+  deepLinkScheme,
+  deepLinkPath,
+}: SportsbookConfig): Sportsbook => ({ id, name, deepLinkScheme, deepLinkPath });
+
+const normalize = (value: string): string => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Match a sportsbook from the API to our registry by id, deep-link scheme or name
+ */
+export const findSportsbookKey = (sportsbook: Sportsbook): SportsbookKey | null => {
+  const candidates = [sportsbook.id, sportsbook.deepLinkScheme, sportsbook.name]
+    .filter(Boolean)
+    .map(normalize);
+
+  return (
+    SPORTSBOOK_KEYS.find((key) =>
+      candidates.some(
+        (candidate) => candidate === key || candidate === normalize(SPORTSBOOKS[key].name)
+      )
+    ) ?? null
+  );
+};
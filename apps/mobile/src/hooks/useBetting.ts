@@ -1,11 +1,49 @@
+import { useCallback, useMemo } from 'react';
 import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
 import { Linking, Platform } from 'react-native';
 import { queryKeys } from '@/config/react-query';
 import { bettingApi } from '@/api/endpoints';
+import { useUIStore } from '@/stores/ui.store';
+import { useBankrollStore } from '@/stores/bankroll.store';
+import { useAuthStore } from '@/stores/auth.store';
+import { useMoneyFormat, useMoneyPreferences } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatDateTime, type TranslationKey, type TranslationParams } from '@/i18n';
+import { loadResponsibleGamblingSettings } from '@/stores/responsibleGambling.store';
 import { analyticsService } from '@/services/analytics.service';
+import { databaseService } from '@/services/database.service';
+import { locationService } from '@/services/location.service';
 import { logger } from '@/utils/logger';
-import { buildDeepLink, type BetConfirmation, type Sportsbook } from '@betthink/shared';
-import type { BetRecommendation } from '@/types/bet';
+import { getAmountCurrency } from '@/utils/money';
+import type { BetConfirmation, Sportsbook } from '@betthink/shared';
+import { quoteParlay } from '@/utils/parlay';
+import { calculatePayout } from '@/utils/staking';
+import {
+  buildParlayLinks,
+  buildSportsbookLinks,
+  type SportsbookLinks,
+  type StorePlatform,
+} from '@/utils/sportsbookLinks';
+import { summarizePerformance } from '@/utils/performance';
+import { compareOdds } from '@/utils/lineShopping';
+import {
+  checkBetAllowed,
+  getPeriodStart,
+  type BetLimitRefusal,
+  type LimitPeriod,
+} from '@/utils/responsibleGambling';
+import {
+  describeAvailability,
+  getSportsbookAvailability,
+  isSportsbookBlocked,
+} from '@/utils/jurisdiction';
+import type {
+  BetRecommendation,
+  CurrencyCode,
+  ParlayConfirmation,
+  PlacedBetTerms,
+  SportsbookOdds,
+} from '@/types/bet';
 
 export const useBetRecommendation = (recommendationId: string) => {
   return useQuery({
@@ -15,11 +53,132 @@ export const useBetRecommendation = (recommendationId: string) => {
   });
 };
 
-export const useBetHistory = () => {
+/**
+ * Seeds the recommendation query cache with recommendations that arrived inline
+ * on the SSE stream, so opening one never needs a second round-trip.
+ */
+export const useCacheBetRecommendations = () => {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    (recommendations: BetRecommendation[]) => {
+      recommendations.forEach((recommendation) => {
+        queryClient.setQueryData(
+          queryKeys.betting.recommendation(recommendation.id),
+          recommendation
+        );
+        analyticsService.trackBetRecommendationShown(recommendation.id, recommendation.sport);
+      });
+
+      if (recommendations.length > 0) {
+        logger.debug('Cached inline bet recommendations', { count: recommendations.length });
+      }
+    },
+    [queryClient]
+  );
+};
+
+/**
+ * Opens the confirmation sheet for a recommendation, reading it from the cache
+ * when it arrived inline and fetching it only as a fallback.
+ */
+export const useOpenBetRecommendation = () => {
+  const queryClient = useQueryClient();
+  const openBottomSheet = useUIStore((state) => state.openBottomSheet);
+
+  return useCallback(
+    async (recommendationId: string) => {
+      try {
+        const queryKey = queryKeys.betting.recommendation(recommendationId);
+        const recommendation =
+          queryClient.getQueryData<BetRecommendation>(queryKey) ??
+          (await queryClient.fetchQuery({
+            queryKey,
+            queryFn: () => bettingApi.getBetRecommendation(recommendationId),
+          }));
+
+        openBottomSheet('bet-confirmation', recommendation);
+      } catch (error) {
+        logger.error('Failed to load bet recommendation', { error, recommendationId });
+      }
+    },
+    [queryClient, openBottomSheet]
+  );
+};
+
+/**
+ * Bet history from the local ledger, so it is available offline and on cold start.
+ * Use `useSyncBetHistory` to pull new confirmations from the API.
+ */
+export const useBetHistory = (userId: string) => {
   return useQuery({
     queryKey: queryKeys.betting.history(),
-    queryFn: () => bettingApi.getBetHistory({ page: 1, pageSize: 50 }),
-    staleTime: 5 * 60 * 1000, // 5 minutes
+    queryFn: () => databaseService.getBetLedger(userId),
+    enabled: !!userId,
+  });
+};
+
+/**
+ * ROI, units and win rates over the user's graded bets, from the local ledger
+ */
+export const useBetPerformance = (userId: string) => {
+  const unitSize = useBankrollStore((state) => state.unitSize);
+  const { currency } = useMoneyPreferences();
+  const { data: settledBets, ...query } = useQuery({
+    queryKey: queryKeys.betting.performance(),
+    queryFn: () => databaseService.getSettledBetLedger(userId),
+    enabled: !!userId,
+  });
+
+  const summary = useMemo(
+    () => (settledBets ? summarizePerformance(settledBets, unitSize, currency) : undefined),
+    [settledBets, unitSize, currency]
+  );
+
+  return { ...query, data: summary };
+};
+
+/**
+ * Prices for a recommendation's market across sportsbooks, best legal price first
+ */
+export const useLineShopping = (recommendation: BetRecommendation | null, enabled = true) => {
+  const location = useAuthStore((state) => state.location);
+  const recommendationId = recommendation?.id ?? '';
+  const { data: quotes, ...query } = useQuery({
+    queryKey: queryKeys.betting.odds(recommendationId),
+    queryFn: () => bettingApi.getRecommendationOdds(recommendationId),
+    enabled: !!recommendationId && enabled,
+    staleTime: 30 * 1000, // 30 seconds - lines move quickly
+  });
+
+  const comparison = useMemo(
+    () =>
+      recommendation && quotes
+        ? compareOdds(
+            recommendation,
+            quotes,
+            (sportsbook) => !isSportsbookBlocked(getSportsbookAvailability(sportsbook, location))
+          )
+        : undefined,
+    [recommendation, quotes, location]
+  );
+
+  return { ...query, data: comparison };
+};
+
+export const useSyncBetHistory = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (userId: string) => syncBetHistory(userId),
+    onSuccess: (syncedCounts) => {
+      logger.info('Bet history synced', syncedCounts);
+      queryClient.invalidateQueries({ queryKey: queryKeys.betting.history() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.betting.performance() });
+    },
+    onError: (error) => {
+      logger.error('Failed to sync bet history, showing local ledger', error);
+    },
   });
 };
 
@@ -27,17 +186,51 @@ export const useConfirmBet = () => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (
-      data: Omit<BetConfirmation, 'confirmedAt'>
-    ): Promise<{ confirmation: BetConfirmation; redirectUrl: string }> => {
-      // Get bet recommendation details
-      const recommendation = await bettingApi.getBetRecommendation(data.betRecommendationId);
+    mutationFn: async ({
+      stake,
+      sportsbook,
+      price,
+      ...data
+    }: Omit<BetConfirmation, 'confirmedAt'> & {
+      stake?: number;
+      /** A legal alternative or better-priced book the user chose instead of the recommended one */
+      sportsbook?: Sportsbook;
+      /** The chosen book's price, when it differs from the recommendation's */
+      price?: Pick<SportsbookOdds, 'odds' | 'oddsFormat'>;
+    }): Promise<{ confirmation: BetConfirmation; opened: boolean }> => {
+      // Get bet recommendation details with any stake, sportsbook or price the user chose
+      const fetchedRecommendation = await bettingApi.getBetRecommendation(data.betRecommendationId);
+      const { odds, oddsFormat } = price ?? fetchedRecommendation;
+      const recommendation = {
+        ...fetchedRecommendation,
+        sportsbook: sportsbook ?? fetchedRecommendation.sportsbook,
+        ...((stake !== undefined || price) && {
+          stake: stake ?? fetchedRecommendation.stake,
+          odds,
+          oddsFormat,
+          potentialPayout: calculatePayout(stake ?? fetchedRecommendation.stake, odds, oddsFormat),
+        }),
+      };
+
+      // Refuse before anything is recorded or any sportsbook is opened
+      enforceSportsbookAvailability(recommendation.sportsbook);
+      await enforceBetLimits(data.userId, recommendation.stake, getAmountCurrency(recommendation));
+
+      // Confirm bet with API, at the terms the user placed
+      const confirmation = await bettingApi.confirmBet({
+        ...data,
+        stake: recommendation.stake,
+        sportsbook: recommendation.sportsbook,
+        odds: recommendation.odds,
+        oddsFormat: recommendation.oddsFormat,
+        potentialPayout: recommendation.potentialPayout,
+      });
 
-      // Confirm bet with API
-      const confirmation = await bettingApi.confirmBet(data);
+      // Record in the local ledger with the recommendation as it was confirmed
+      await databaseService.saveBetConfirmations([{ ...confirmation, recommendation }]);
 
       // Build deep link to sportsbook
-      const redirectUrl = buildSportsbookDeepLink(recommendation);
+      const links = buildSportsbookLinks(recommendation, getStorePlatform());
 
       // Track analytics
       analyticsService.trackBetConfirmed(
@@ -52,14 +245,14 @@ export const useConfirmBet = () => {
         sportsbook: recommendation.sportsbook.name,
       });
 
-      return { confirmation, redirectUrl };
+      // The bet is recorded either way, so failing to open the app isn't a failed confirmation
+      const opened = await openSportsbookApp(links);
+
+      return { confirmation, opened };
     },
-    onSuccess: ({ confirmation, redirectUrl }) => {
+    onSuccess: () => {
       // Invalidate bet history to refresh
       queryClient.invalidateQueries({ queryKey: queryKeys.betting.history() });
-
-      // Open sportsbook app
-      openSportsbookApp(redirectUrl);
     },
     onError: (error) => {
       logger.error('Failed to confirm bet', error);
@@ -67,88 +260,308 @@ export const useConfirmBet = () => {
   });
 };
 
-const buildSportsbookDeepLink = (recommendation: BetRecommendation): string => {
-  const { sportsbook, betType, selection, odds, stake } = recommendation;
+export const useConfirmParlay = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      legs,
+      stake,
+      userId,
+      chatId,
+    }: {
+      legs: BetRecommendation[];
+      stake: number;
+      userId: string;
+      chatId?: string;
+    }): Promise<{ confirmation: ParlayConfirmation; opened: boolean }> => {
+      if (legs.length < 2) {
+        refuseBet({ reason: 'parlay-too-short' });
+      }
+
+      const quote = quoteParlay(legs, stake);
+      if (quote.hasMixedSportsbooks) {
+        refuseBet({ reason: 'parlay-mixed-sportsbooks' });
+      }
+
+      const sportsbook = legs[0].sportsbook;
+      const currency = getAmountCurrency(legs[0]);
+
+      enforceSportsbookAvailability(sportsbook);
+      await enforceBetLimits(userId, stake, currency);
+
+      const confirmation = await bettingApi.confirmParlay({
+        userId,
+        chatId,
+        legRecommendationIds: legs.map((leg) => leg.id),
+        legPrices: legs.map(({ odds, oddsFormat }) => ({ odds, oddsFormat })),
+        sportsbookId: sportsbook.id,
+        stake,
+        combinedOdds: quote.decimalOdds,
+        potentialPayout: quote.potentialPayout,
+        redirectedToSportsbook: true,
+      });
+
+      // Record the stake locally so the parlay counts toward stake limits
+      await databaseService.saveParlayConfirmation(confirmation, currency);
+
+      const links = buildParlayLinks(legs, stake, getStorePlatform());
+
+      analyticsService.trackBetConfirmed(confirmation.id, 'parlay', stake, sportsbook.name);
+
+      logger.info('Parlay confirmed', {
+        parlayId: confirmation.id,
+        legCount: legs.length,
+        sportsbook: sportsbook.name,
+      });
+
+      const opened = await openSportsbookApp(links);
+
+      return { confirmation, opened };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.betting.history() });
+    },
+    onError: (error) => {
+      logger.error('Failed to confirm parlay', error);
+    },
+  });
+};
+
+/** Why a bet or parlay was refused before anything was recorded */
+export type BetRefusal =
+  | BetLimitRefusal
+  | { reason: 'jurisdiction'; description: [TranslationKey, TranslationParams] }
+  | { reason: 'parlay-too-short' }
+  | { reason: 'parlay-mixed-sportsbooks' };
+
+export interface BetBlockedError {
+  code: 'BET_BLOCKED';
+  message: string;
+  refusal: BetRefusal;
+}
 
-  // Build deep link parameters for guide mode
-  const params: Record<string, string> = {
-    type: betType,
-    selection: selection,
-    odds: odds.toString(),
-    stake: stake.toString(),
-    mode: 'guide', // Guide mode - no programmatic placement
+const refuseBet = (refusal: BetRefusal): never => {
+  const error: BetBlockedError = {
+    code: 'BET_BLOCKED',
+    message: `Bet refused: ${refusal.reason}`,
+    refusal,
   };
+  throw error;
+};
 
-  // Add event details if available
-  if (recommendation.event) {
-    params.event = recommendation.event;
-  }
+const isBetBlockedError = (error: unknown): error is BetBlockedError =>
+  typeof error === 'object' &&
+  error !== null &&
+  (error as Partial<BetBlockedError>).code === 'BET_BLOCKED';
+
+const STAKE_LIMIT_KEYS: Record<LimitPeriod, TranslationKey> = {
+  daily: 'betBlocked.stakeLimit.daily',
+  weekly: 'betBlocked.stakeLimit.weekly',
+  monthly: 'betBlocked.stakeLimit.monthly',
+};
+
+/**
+ * Words a failed bet or parlay confirmation in the user's language
+ */
+export const useBetErrorMessage = () => {
+  const { t, language } = useTranslation();
+  const { formatMoney } = useMoneyFormat();
 
-  const deepLink = buildDeepLink(
-    sportsbook.deepLinkScheme,
-    sportsbook.deepLinkPath || 'bet',
-    params
+  return useCallback(
+    (error: unknown): string => {
+      if (!isBetBlockedError(error)) {
+        return error instanceof Error ? error.message : t('betBlocked.generic');
+      }
+
+      const { refusal } = error;
+      switch (refusal.reason) {
+        case 'self-exclusion':
+          return t('betBlocked.selfExclusion', { date: formatDateTime(refusal.until, language) });
+        case 'cool-off':
+          return t('betBlocked.coolOff', { date: formatDateTime(refusal.until, language) });
+        case 'stake-limit':
+          return t(STAKE_LIMIT_KEYS[refusal.period], {
+            limit: formatMoney(refusal.limit, refusal.currency),
+            remaining: formatMoney(refusal.remaining, refusal.currency),
+          });
+        case 'currency-mismatch':
+          return t('betBlocked.currencyMismatch', { currency: refusal.currency });
+        case 'jurisdiction':
+          return t(...refusal.description);
+        case 'parlay-too-short':
+          return t('betBlocked.parlayTooShort');
+        case 'parlay-mixed-sportsbooks':
+          return t('parlaySlip.mixedSportsbooks');
+      }
+    },
+    [t, language, formatMoney]
   );
+};
 
-  logger.debug('Built sportsbook deep link', { deepLink, sportsbook: sportsbook.name });
-  return deepLink;
+/**
+ * Throws when self-exclusion, a cool-off or a stake limit forbids a bet of `stake`
+ */
+const enforceBetLimits = async (
+  userId: string,
+  stake: number,
+  currency: CurrencyCode
+): Promise<void> => {
+  const settings = await loadResponsibleGamblingSettings();
+  const now = new Date();
+  const recentStakes = await databaseService.getBetStakesSince(
+    userId,
+    getPeriodStart('monthly', now).toISOString()
+  );
+
+  const check = checkBetAllowed(stake, currency, recentStakes, settings, now);
+  if (check.allowed) return;
+
+  analyticsService.trackBetBlocked(check.reason, stake);
+  logger.warn('Bet blocked by responsible gambling settings', check);
+
+  refuseBet(check);
 };
 
-const openSportsbookApp = async (deepLink: string) => {
-  try {
-    const canOpen = await Linking.canOpenURL(deepLink);
+/**
+ * Refuses books that aren't licensed where the user is. An unknown location is
+ * allowed through; the sportsbook runs its own geolocation check.
+ */
+const enforceSportsbookAvailability = (sportsbook: Sportsbook): void => {
+  const location = useAuthStore.getState().location ?? locationService.getLastKnownLocation();
+  const availability = getSportsbookAvailability(sportsbook, location);
+  const description = describeAvailability(availability);
+  if (!isSportsbookBlocked(availability) || !description) return;
 
-    if (canOpen) {
-      await Linking.openURL(deepLink);
-      analyticsService.trackSportsbookRedirect(
-        extractSportsbookFromUrl(deepLink),
-        'deep_link'
-      );
-      logger.info('Opened sportsbook app via deep link', { deepLink });
-    } else {
-      // Fallback to app store if sportsbook app not installed
-      logger.warn('Sportsbook app not installed, redirecting to app store');
-      await redirectToAppStore(deepLink);
-    }
-  } catch (error) {
-    logger.error('Failed to open sportsbook app', error);
-    throw new Error('Could not open sportsbook app. Please install the app first.');
-  }
+  logger.warn('Bet blocked by jurisdiction', {
+    sportsbook: sportsbook.name,
+    status: availability.status,
+  });
+
+  refuseBet({ reason: 'jurisdiction', description });
 };
 
-const redirectToAppStore = async (deepLink: string): Promise<void> => {
-  // Extract sportsbook identifier from deep link
-  const sportsbook = extractSportsbookFromUrl(deepLink);
+const HISTORY_PAGE_SIZE = 50;
 
-  // Map sportsbooks to their app store URLs
-  const appStoreUrls: Record<string, { ios: string; android: string }> = {
-    draftkings: {
-      ios: 'https://apps.apple.com/us/app/draftkings-sportsbook-casino/id1375031205',
-      android: 'https://play.google.com/store/apps/details?id=com.draftkings.sportsbook',
-    },
-    fanduel: {
-      ios: 'https://apps.apple.com/us/app/fanduel-sportsbook-casino/id1059881100',
-      android: 'https://play.google.com/store/apps/details?id=com.fanduel.sportsbook',
-    },
-    // Add more sportsbooks as needed
-  };
+/**
+ * Pull confirmations made since the newest one in the ledger, page by page,
+ * attaching a recommendation snapshot to any the ledger hasn't seen before,
+ * then pull results for bets graded since the last settlement sync
+ */
+const syncBetHistory = async (
+  userId: string
+): Promise<{ confirmations: number; settlements: number }> => {
+  const confirmations = await syncBetConfirmations(userId);
+  const settlements = await syncBetSettlements(userId);
+
+  return { confirmations, settlements };
+};
+
+const syncBetConfirmations = async (userId: string): Promise<number> => {
+  const since = await databaseService.getLatestBetConfirmedAt(userId);
+  let page = 1;
+  let syncedCount = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const confirmations = await bettingApi.getBetHistory({
+      page,
+      pageSize: HISTORY_PAGE_SIZE,
+      ...(since && { since }),
+    });
+
+    const entries = await Promise.all(
+      confirmations.map(async (confirmation) => {
+        const existing = await databaseService.getBetLedgerEntry(confirmation.betRecommendationId);
+        const recommendation =
+          existing?.recommendation ??
+          (await bettingApi
+            .getBetRecommendation(confirmation.betRecommendationId)
+            .catch(() => null));
+
+        return {
+          ...confirmation,
+          recommendation: recommendation && withPlacedTerms(recommendation, confirmation),
+        };
+      })
+    );
+
+    await databaseService.saveBetConfirmations(entries);
+    syncedCount += confirmations.length;
 
-  const appStore = appStoreUrls[sportsbook];
-  if (!appStore) {
-    throw new Error(`Unknown sportsbook: ${sportsbook}`);
+    hasMore = confirmations.length === HISTORY_PAGE_SIZE;
+    page += 1;
   }
 
-  const storeUrl = Platform.OS === 'ios' ? appStore.ios : appStore.android;
-  await Linking.openURL(storeUrl);
+  return syncedCount;
+};
+
+/**
+ * The recommendation at the terms its bet was placed at, as the API recorded them
+ */
+const withPlacedTerms = (
+  recommendation: BetRecommendation,
+  { stake, sportsbook, odds, oddsFormat, potentialPayout }: Partial<PlacedBetTerms>
+): BetRecommendation => ({
+  ...recommendation,
+  ...(stake !== undefined && { stake }),
+  ...(sportsbook && { sportsbook }),
+  ...(odds !== undefined && oddsFormat && { odds, oddsFormat }),
+  ...(potentialPayout !== undefined && { potentialPayout }),
+});
+
+const syncBetSettlements = async (userId: string): Promise<number> => {
+  const since = await databaseService.getLatestBetSettledAt(userId);
+  let page = 1;
+  let syncedCount = 0;
+  let hasMore = true;
+
+  while (hasMore) {
+    const settlements = await bettingApi.getBetSettlements({
+      page,
+      pageSize: HISTORY_PAGE_SIZE,
+      ...(since && { since }),
+    });
+
+    await databaseService.saveBetSettlements(settlements, 'sync');
+    syncedCount += settlements.length;
+
+    hasMore = settlements.length === HISTORY_PAGE_SIZE;
+    page += 1;
+  }
 
-  analyticsService.trackSportsbookRedirect(sportsbook, 'app_store');
-  logger.info('Redirected to app store', { sportsbook, platform: Platform.OS });
+  return syncedCount;
 };
 
-const extractSportsbookFromUrl = (url: string): string => {
-  // Extract sportsbook name from deep link scheme (e.g., "draftkings://..." -> "draftkings")
-  const match = url.match(/^(\w+):\/\//);
-  return match ? match[1] : 'unknown';
+const getStorePlatform = (): StorePlatform => (Platform.OS === 'ios' ? 'ios' : 'android');
+
+/**
+ * Native deep link first, then the web bet slip, then the app store. Resolves to whether
+ * any of them opened.
+ */
+const openSportsbookApp = async (links: SportsbookLinks): Promise<boolean> => {
+  const attempts: [method: string, url: string | null][] = [
+    ['deep_link', links.native],
+    ['web', links.web],
+    ['app_store', links.store],
+  ];
+
+  for (const [method, url] of attempts) {
+    if (!url) continue;
+
+    try {
+      // openURL rejects when nothing can handle the URL, e.g. the app isn't installed
+      await Linking.openURL(url);
+      analyticsService.trackSportsbookRedirect(links.sportsbook, method);
+      logger.info('Opened sportsbook', { sportsbook: links.sportsbook, method, url });
+      return true;
+    } catch (error) {
+      logger.warn('Could not open sportsbook link, trying next fallback', { method, url, error });
+    }
+  }
+
+  logger.error('Failed to open sportsbook app', { sportsbook: links.sportsbook });
+  return false;
 };
 
 export const useCancelBet = () => {
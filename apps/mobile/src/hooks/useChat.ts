@@ -1,16 +1,30 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  type QueryClient,
+} from '@tanstack/react-query';
 import { queryKeys } from '@/config/react-query';
 import { chatApi } from '@/api/endpoints';
 import { databaseService } from '@/services/database.service';
 import { logger } from '@/utils/logger';
 import { analyticsService } from '@/services/analytics.service';
-import type { Conversation, ChatMessage, LocalChatMessage } from '@betthink/shared';
-import { v4 as uuidv4 } from 'uuid';
+import { outboxService } from '@/services/outbox.service';
+import { deriveThreadTitle, withLocalOrganization } from '@/utils/threads';
+import type {
+  ChatFolder,
+  DeliverableChatMessage,
+  MessageSearchFilters,
+  OrganizedChatThread,
+  OutboxEntry,
+  ThreadUpdate,
+} from '@/types/chat';
 
 export const useChatThreads = (userId: string) => {
   return useQuery({
     queryKey: queryKeys.chat.threads(),
-    queryFn: async () => {
+    queryFn: async (): Promise<OrganizedChatThread[]> => {
       // Try to get from local database first
       const localThreads = await databaseService.getThreads(userId);
 
@@ -23,7 +37,7 @@ export const useChatThreads = (userId: string) => {
           response.conversations.map((thread) => databaseService.saveThread(thread as any))
         );
 
-        return response.conversations as any;
+        return withLocalOrganization(response.conversations, localThreads);
       } catch (error) {
         logger.error('Failed to fetch threads from API, using local cache', error);
         return localThreads;
@@ -53,9 +67,10 @@ export const useChatThread = (threadId: string) => {
 export const useChatMessages = (threadId: string) => {
   return useQuery({
     queryKey: queryKeys.chat.messages(threadId),
-    queryFn: async () => {
+    queryFn: async (): Promise<DeliverableChatMessage[]> => {
       // Get local messages first for instant display
       const localMessages = await databaseService.getMessages(threadId);
+      const outboxEntries = await databaseService.getOutboxEntries(threadId);
 
       // Fetch from API
       try {
@@ -72,10 +87,10 @@ export const useChatMessages = (threadId: string) => {
           )
         );
 
-        return apiMessages;
+        return withOutboxStatus(apiMessages, outboxEntries);
       } catch (error) {
         logger.error('Failed to fetch messages from API, using local cache', error);
-        return localMessages;
+        return withOutboxStatus(localMessages, outboxEntries);
       }
     },
     enabled: !!threadId,
@@ -83,6 +98,57 @@ export const useChatMessages = (threadId: string) => {
   });
 };
 
+/**
+ * Search messages stored on the device. Runs offline and keeps the previous results on
+ * screen while the next query runs.
+ */
+export const useMessageSearch = (query: string, filters: MessageSearchFilters = {}) => {
+  const trimmed = query.trim();
+
+  return useQuery({
+    queryKey: queryKeys.chat.search(trimmed, filters),
+    queryFn: () => databaseService.searchMessages(trimmed, filters),
+    enabled: trimmed.length > 0,
+    networkMode: 'always',
+    staleTime: 0,
+    placeholderData: keepPreviousData,
+  });
+};
+
+/**
+ * Tag queued messages with their delivery state and append any the server hasn't seen yet
+ */
+const withOutboxStatus = (
+  messages: DeliverableChatMessage[],
+  outboxEntries: OutboxEntry[]
+): DeliverableChatMessage[] => {
+  if (outboxEntries.length === 0) return messages;
+
+  const entriesByLocalId = new Map(outboxEntries.map((entry) => [entry.localId, entry]));
+  const annotated = messages.map((msg) => {
+    const entry = msg.localId ? entriesByLocalId.get(msg.localId) : undefined;
+    if (!entry) return msg;
+
+    entriesByLocalId.delete(entry.localId);
+    return { ...msg, deliveryStatus: entry.status };
+  });
+
+  const unsent = Array.from(entriesByLocalId.values()).map(
+    (entry): DeliverableChatMessage => ({
+      id: entry.localId,
+      localId: entry.localId,
+      chatId: entry.chatId,
+      role: 'user',
+      content: entry.content,
+      timestamp: entry.createdAt,
+      deliveryStatus: entry.status,
+      parentId: entry.parentId,
+    })
+  );
+
+  return [...annotated, ...unsent];
+};
+
 export const useCreateThread = () => {
   const queryClient = useQueryClient();
 
@@ -133,96 +199,294 @@ export const useDeleteThread = () => {
   });
 };
 
+/**
+ * Rename, pin, archive or file a thread. The thread list updates immediately and rolls
+ * back if the server rejects the change.
+ */
+export const useUpdateThread = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ threadId, updates }: { threadId: string; updates: ThreadUpdate }) => {
+      await chatApi.updateThread(threadId, updates);
+      await databaseService.updateThread(threadId, updates);
+    },
+    onMutate: async ({ threadId, updates }) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: queryKeys.chat.threads() }),
+        queryClient.cancelQueries({ queryKey: queryKeys.chat.thread(threadId) }),
+      ]);
+      const previousThreads = queryClient.getQueryData<OrganizedChatThread[]>(
+        queryKeys.chat.threads()
+      );
+      const previousThread = queryClient.getQueryData<OrganizedChatThread>(
+        queryKeys.chat.thread(threadId)
+      );
+
+      setThreadFields(queryClient, threadId, updates);
+
+      return { previousThreads, previousThread };
+    },
+    onSuccess: (_, { threadId, updates }) => {
+      logger.info('Chat thread updated', { threadId, fields: Object.keys(updates) });
+    },
+    onError: (error, { threadId }, context) => {
+      queryClient.setQueryData(queryKeys.chat.threads(), context?.previousThreads);
+      queryClient.setQueryData(queryKeys.chat.thread(threadId), context?.previousThread);
+      logger.error('Failed to update chat thread', { error, threadId });
+    },
+    onSettled: (_, __, { threadId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.threads() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.thread(threadId) });
+    },
+  });
+};
+
+/**
+ * Name a new thread after its first exchange. The server summarises the conversation
+ * when it can; otherwise the title is derived from the user's first message.
+ */
+export const useGenerateThreadTitle = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ threadId, firstMessage }: { threadId: string; firstMessage: string }) => {
+      try {
+        const { title } = await chatApi.generateThreadTitle(threadId);
+        if (title) {
+          await databaseService.updateThread(threadId, { title });
+          return title;
+        }
+      } catch (error) {
+        logger.warn('Failed to generate thread title, deriving one locally', { error, threadId });
+      }
+
+      const title = deriveThreadTitle(firstMessage);
+      await databaseService.updateThread(threadId, { title });
+      try {
+        await chatApi.updateThread(threadId, { title });
+      } catch (error) {
+        logger.error('Failed to sync derived thread title', { error, threadId });
+      }
+      return title;
+    },
+    onSuccess: (title, { threadId }) => {
+      setThreadFields(queryClient, threadId, { title });
+      logger.info('Chat thread titled', { threadId });
+    },
+  });
+};
+
+/**
+ * Apply changed fields to a thread in both the list and the single-thread caches
+ */
+const setThreadFields = (
+  queryClient: QueryClient,
+  threadId: string,
+  updates: ThreadUpdate
+): void => {
+  queryClient.setQueryData<OrganizedChatThread[]>(queryKeys.chat.threads(), (old) =>
+    old?.map((thread) => (thread.id === threadId ? { ...thread, ...updates } : thread))
+  );
+  queryClient.setQueryData<OrganizedChatThread>(
+    queryKeys.chat.thread(threadId),
+    (old?: OrganizedChatThread) => (old ? { ...old, ...updates } : old)
+  );
+};
+
+export const useChatFolders = (userId: string) => {
+  return useQuery({
+    queryKey: queryKeys.chat.folders(),
+    queryFn: async (): Promise<ChatFolder[]> => {
+      try {
+        const folders = await chatApi.getFolders();
+        await databaseService.replaceFolders(userId, folders);
+      } catch (error) {
+        logger.error('Failed to fetch folders from API, using local cache', error);
+      }
+      return databaseService.getFolders(userId);
+    },
+    enabled: !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+};
+
+export const useCreateFolder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (name: string) => {
+      const folder = await chatApi.createFolder(name);
+      await databaseService.saveFolder(folder);
+      return folder;
+    },
+    onSuccess: (folder) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.folders() });
+      logger.info('Chat folder created', { folderId: folder.id });
+    },
+    onError: (error) => {
+      logger.error('Failed to create chat folder', error);
+    },
+  });
+};
+
+/**
+ * Delete a folder. Its threads stay in the list, outside any folder.
+ */
+export const useDeleteFolder = () => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (folderId: string) => {
+      await chatApi.deleteFolder(folderId);
+      await databaseService.deleteFolder(folderId);
+    },
+    onMutate: async (folderId) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: queryKeys.chat.folders() }),
+        queryClient.cancelQueries({ queryKey: queryKeys.chat.threads() }),
+      ]);
+      const previousFolders = queryClient.getQueryData<ChatFolder[]>(queryKeys.chat.folders());
+      const previousThreads = queryClient.getQueryData<OrganizedChatThread[]>(
+        queryKeys.chat.threads()
+      );
+
+      queryClient.setQueryData<ChatFolder[]>(queryKeys.chat.folders(), (old) =>
+        old?.filter((folder) => folder.id !== folderId)
+      );
+      queryClient.setQueryData<OrganizedChatThread[]>(queryKeys.chat.threads(), (old) =>
+        old?.map((thread) =>
+          thread.folderId === folderId ? { ...thread, folderId: null } : thread
+        )
+      );
+
+      return { previousFolders, previousThreads };
+    },
+    onSuccess: (_, folderId) => {
+      logger.info('Chat folder deleted', { folderId });
+    },
+    onError: (error, folderId, context) => {
+      queryClient.setQueryData(queryKeys.chat.folders(), context?.previousFolders);
+      queryClient.setQueryData(queryKeys.chat.threads(), context?.previousThreads);
+      logger.error('Failed to delete chat folder', { error, folderId });
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.folders() });
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.threads() });
+    },
+  });
+};
+
 export const useSendMessage = (threadId: string) => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (content: string) => {
-      const localId = uuidv4();
-      const timestamp = new Date().toISOString();
-
-      // Optimistic update: Save to local database immediately
-      const optimisticMessage: LocalChatMessage = {
-        id: localId,
-        localId,
-        chatId: threadId,
-        role: 'user',
-        content,
-        timestamp,
-        synced: false,
-        optimistic: true,
-      };
+    // Pass `parentId` to continue from an earlier version of the conversation
+    mutationFn: async (params: string | { content: string; parentId?: string | null }) => {
+      const { content, parentId = null } =
+        typeof params === 'string' ? { content: params } : params;
 
-      await databaseService.saveMessage(optimisticMessage);
+      // Persist to the outbox first so the message survives a failed send or app restart
+      const queuedMessage = await outboxService.enqueue(threadId, content, parentId);
 
       // Update UI optimistically
-      queryClient.setQueryData<ChatMessage[]>(
+      queryClient.setQueryData<DeliverableChatMessage[]>(
         queryKeys.chat.messages(threadId),
-        (old) => [...(old || []), optimisticMessage]
+        (old) => [...(old || []), { ...queuedMessage, deliveryStatus: 'pending' }]
       );
 
-      // Send to API
-      const apiMessage = await chatApi.sendMessage(threadId, content);
+      const { delivered } = await outboxService.drain();
+      const apiMessage = delivered.get(queuedMessage.localId);
 
-      // Mark as synced
-      await databaseService.markMessageAsSynced(localId, apiMessage.id);
+      if (!apiMessage) {
+        const entry = await databaseService.getOutboxEntry(queuedMessage.localId);
+        throw new Error(entry?.lastError || 'Message queued for delivery');
+      }
 
       // Track analytics
       analyticsService.trackChatMessageSent(threadId, content.length);
 
-      return apiMessage;
+      const sentMessage: DeliverableChatMessage = { parentId, ...apiMessage };
+      return { localId: queuedMessage.localId, apiMessage: sentMessage };
     },
-    onSuccess: (apiMessage) => {
+    onSuccess: ({ localId, apiMessage }) => {
       // Replace optimistic message with real one
-      queryClient.setQueryData<ChatMessage[]>(
+      queryClient.setQueryData<DeliverableChatMessage[]>(
         queryKeys.chat.messages(threadId),
-        (old) =>
-          (old || []).map((msg) => (msg.id === apiMessage.id ? apiMessage : msg))
+        (old) => (old || []).map((msg) => (msg.localId === localId ? apiMessage : msg))
       );
 
       logger.info('Message sent successfully', { messageId: apiMessage.id });
     },
-    onError: (error, variables) => {
-      // Revert optimistic update on error
+    onError: (error) => {
+      // The message stays in the outbox; refresh so it shows as pending or failed
       queryClient.invalidateQueries({ queryKey: queryKeys.chat.messages(threadId) });
-      logger.error('Failed to send message', { error, content: variables });
+      logger.error('Failed to send message', { error, threadId });
     },
   });
 };
 
-export const useSyncMessages = () => {
+/**
+ * Resend a user message with new content. The server keeps it as a new version of the
+ * original, branching the conversation, and streams the reply over the thread's SSE
+ * connection, so call `startStreaming` first.
+ */
+export const useEditMessage = (threadId: string) => {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async () => {
-      const unsyncedMessages = await databaseService.getUnsyncedMessages();
-
-      const results = await Promise.allSettled(
-        unsyncedMessages.map(async (msg) => {
-          try {
-            const apiMessage = await chatApi.sendMessage(msg.chatId, msg.content);
-            await databaseService.markMessageAsSynced(msg.localId, apiMessage.id);
-            return { success: true, localId: msg.localId, apiMessage };
-          } catch (error) {
-            logger.error('Failed to sync message', { localId: msg.localId, error });
-            return { success: false, localId: msg.localId, error };
-          }
-        })
+    mutationFn: async ({ messageId, content }: { messageId: string; content: string }) => {
+      const apiMessage = await chatApi.editMessage(threadId, messageId, content);
+      const message: DeliverableChatMessage = {
+        ...apiMessage,
+        versionOf: apiMessage.versionOf ?? messageId,
+      };
+
+      await databaseService.saveMessage({ ...message, localId: message.id, synced: true });
+      return message;
+    },
+    onSuccess: (message) => {
+      queryClient.setQueryData<DeliverableChatMessage[]>(
+        queryKeys.chat.messages(threadId),
+        (old) => [...(old || []), message]
       );
+      analyticsService.trackChatMessageSent(threadId, message.content.length);
+      logger.info('Message edited', { messageId: message.id, versionOf: message.versionOf });
+    },
+    onError: (error, { messageId }) => {
+      logger.error('Failed to edit message', { error, threadId, messageId });
+    },
+  });
+};
 
-      return results;
+/**
+ * Ask for another answer to the user message an assistant reply responded to. The new
+ * reply streams over the thread's SSE connection, so call `startStreaming` first.
+ */
+export const useRegenerateResponse = (threadId: string) => {
+  return useMutation({
+    mutationFn: (messageId: string) => chatApi.regenerateResponse(threadId, messageId),
+    onSuccess: (_, messageId) => {
+      logger.info('Response regeneration requested', { threadId, messageId });
     },
-    onSuccess: (results) => {
-      const syncedCount = results.filter(
-        (r) => r.status === 'fulfilled' && r.value.success
-      ).length;
-      logger.info('Message sync completed', { syncedCount, total: results.length });
+    onError: (error, messageId) => {
+      logger.error('Failed to regenerate response', { error, threadId, messageId });
+    },
+  });
+};
 
-      // Invalidate all message queries to refresh UI
-      queryClient.invalidateQueries({ queryKey: queryKeys.chat.all });
+export const useRetryMessage = (threadId: string) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (localId: string) => {
+      await outboxService.retry(localId);
     },
-    onError: (error) => {
-      logger.error('Message sync failed', error);
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.chat.messages(threadId) });
+    },
+    onError: (error, localId) => {
+      logger.error('Failed to retry message', { error, localId });
     },
   });
 };
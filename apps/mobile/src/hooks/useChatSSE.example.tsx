@@ -15,11 +15,8 @@ import { useAuthStore } from '@/stores/auth.store';
  * Simple implementation with minimal configuration
  */
 export function BasicChatExample() {
-  const { accessToken } = useAuthStore();
-  
   const { status, messages, currentStreamingMessage } = useChatSSE({
     conversationId: 'conversation-123',
-    accessToken: accessToken || '',
   });
 
   return (
@@ -42,8 +39,6 @@ export function BasicChatExample() {
  * Connect/disconnect manually instead of auto-connect
  */
 export function ManualControlExample() {
-  const { accessToken } = useAuthStore();
-  
   const { 
     status, 
     messages, 
@@ -52,7 +47,6 @@ export function ManualControlExample() {
     clearMessages 
   } = useChatSSE({
     conversationId: 'conversation-456',
-    accessToken: accessToken || '',
     enabled: false,  // Don't auto-connect
   });
 
@@ -72,7 +66,6 @@ export function ManualControlExample() {
  * Use callbacks to react to events
  */
 export function CallbackExample() {
-  const { accessToken } = useAuthStore();
   const [eventLog, setEventLog] = React.useState<string[]>([]);
 
   const logEvent = (message: string) => {
@@ -81,7 +74,6 @@ export function CallbackExample() {
 
   const { status, error } = useChatSSE({
     conversationId: 'conversation-789',
-    accessToken: accessToken || '',
     
     onConnect: () => {
       logEvent('Connected to chat stream');
@@ -117,11 +109,8 @@ export function CallbackExample() {
  * Configure reconnection behavior
  */
 export function CustomReconnectionExample() {
-  const { accessToken } = useAuthStore();
-  
   const { status, error } = useChatSSE({
     conversationId: 'conversation-abc',
-    accessToken: accessToken || '',
     maxReconnectAttempts: 10,  // Try reconnecting 10 times
     reconnectDelay: 1000,       // Start with 1s delay (exponential backoff)
   });
@@ -142,11 +131,8 @@ export function CustomReconnectionExample() {
  * Filter and display different message types separately
  */
 export function MessageTypeFilteringExample() {
-  const { accessToken } = useAuthStore();
-  
   const { messages, currentStreamingMessage } = useChatSSE({
     conversationId: 'conversation-def',
-    accessToken: accessToken || '',
   });
 
   const assistantMessages = messages.filter(m => m.type === 'assistant');
@@ -188,12 +174,10 @@ export function MessageTypeFilteringExample() {
  * Perform side effects based on hook state
  */
 export function SideEffectsExample() {
-  const { accessToken } = useAuthStore();
   const [notificationCount, setNotificationCount] = React.useState(0);
   
   const { messages, status } = useChatSSE({
     conversationId: 'conversation-ghi',
-    accessToken: accessToken || '',
   });
 
   // Show notification when new message arrives
@@ -226,7 +210,6 @@ export function SideEffectsExample() {
  * Comprehensive error handling with user feedback
  */
 export function ErrorHandlingExample() {
-  const { accessToken } = useAuthStore();
   const [lastError, setLastError] = React.useState<string | null>(null);
   
   const { 
@@ -236,7 +219,6 @@ export function ErrorHandlingExample() {
     clearMessages 
   } = useChatSSE({
     conversationId: 'conversation-jkl',
-    accessToken: accessToken || '',
     
     onError: (errorMsg) => {
       setLastError(errorMsg);
@@ -294,7 +276,6 @@ export function CompleteIntegrationExample() {
     connect,
   } = useChatSSE({
     conversationId: 'conversation-mno',
-    accessToken: accessToken || '',
     
     onConnect: () => console.log('Chat connected'),
     onMessage: (msg) => console.log('New message:', msg.id),
@@ -1,9 +1,12 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { config } from '@/config';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { chatApi } from '@/api/endpoints';
+import { sseService, type SSEConnectionState, type SSEStreamChunk } from '@/services/sse.service';
+import { errorTrackingService } from '@/services/error-tracking.service';
 import { logger } from '@/utils/logger';
-import type { ChatSSEEvent, LLMChunkEvent, LLMCompleteEvent, SystemEvent } from '@betthink/shared';
+import { createChunkCoalescer } from '@/utils/chunkCoalescer';
+import { useCacheBetRecommendations } from '@/hooks/useBetting';
 
-export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+export type ConnectionStatus = SSEConnectionState;
 
 export interface ChatSSEMessage {
   id: string;
@@ -16,10 +19,12 @@ export interface ChatSSEMessage {
 
 export interface UseChatSSEOptions {
   conversationId: string;
-  accessToken: string;
+  /** Requests authenticate through the shared SSE client; disable while signed out */
   enabled?: boolean;
   maxReconnectAttempts?: number;
   reconnectDelay?: number;
+  /** How long the server may stay silent before the connection is treated as stale */
+  heartbeatTimeout?: number;
   onConnect?: () => void;
   onDisconnect?: () => void;
   onMessage?: (message: ChatSSEMessage) => void;
@@ -37,17 +42,19 @@ export interface UseChatSSEReturn {
 }
 
 /**
- * Custom React hook for managing Server-Sent Events (SSE) connection for real-time chat
- * 
+ * Custom React hook for managing Server-Sent Events (SSE) connection for real-time chat.
+ * Connection, reconnection and auth are handled by `sseService`; this hook turns the
+ * stream into chat messages.
+ *
  * @param options - Configuration options for the SSE connection
  * @returns Object containing connection status, messages, and control functions
  */
 export const useChatSSE = ({
   conversationId,
-  accessToken,
   enabled = true,
   maxReconnectAttempts = 5,
   reconnectDelay = 2000,
+  heartbeatTimeout,
   onConnect,
   onDisconnect,
   onMessage,
@@ -56,20 +63,21 @@ export const useChatSSE = ({
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const [error, setError] = useState<string | null>(null);
   const [messages, setMessages] = useState<ChatSSEMessage[]>([]);
-  const [currentStreamingMessage, setCurrentStreamingMessage] = useState<ChatSSEMessage | null>(null);
+  const [currentStreamingMessage, setCurrentStreamingMessage] = useState<ChatSSEMessage | null>(
+    null
+  );
 
-  // Use refs to avoid stale closures
-  const abortControllerRef = useRef<AbortController | null>(null);
-  const reconnectAttemptsRef = useRef(0);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const connectionId = `chat-${conversationId}`;
   const currentStreamBufferRef = useRef<string>('');
-  const isManualDisconnectRef = useRef(false);
-  
+  const streamingMessageIdRef = useRef<string | null>(null);
+  const lastChunkTimestampRef = useRef('');
+
   // Refs for callbacks to get latest values in event handlers
   const onConnectRef = useRef(onConnect);
   const onDisconnectRef = useRef(onDisconnect);
   const onMessageRef = useRef(onMessage);
   const onErrorRef = useRef(onError);
+  const cacheBetRecommendations = useCacheBetRecommendations();
 
   // Update refs when callbacks change
   useEffect(() => {
@@ -80,336 +88,185 @@ export const useChatSSE = ({
   }, [onConnect, onDisconnect, onMessage, onError]);
 
   /**
-   * Handles incoming SSE events
+   * Publishes the streaming message at most once per frame, however fast chunks arrive.
+   * The message keeps one id for the whole reply so its row isn't remounted per update.
    */
-  const handleSSEEvent = useCallback((event: ChatSSEEvent) => {
-    logger.debug('Received SSE event', { type: event.type, timestamp: event.timestamp });
-
-    switch (event.type) {
-      case 'connected':
-        setStatus('connected');
-        setError(null);
-        reconnectAttemptsRef.current = 0;
-        onConnectRef.current?.();
-        logger.info('SSE connection established', { conversationId });
-        break;
-
-      case 'heartbeat':
-        // Keep connection alive, no action needed
-        logger.debug('Heartbeat received');
-        break;
-
-      case 'llm_chunk': {
-        const chunkEvent = event as LLMChunkEvent;
-        currentStreamBufferRef.current += chunkEvent.content;
-        
-        const streamingMsg: ChatSSEMessage = {
-          id: `streaming-${conversationId}-${Date.now()}`,
+  const chunkCoalescer = useMemo(
+    () =>
+      createChunkCoalescer(() => {
+        if (!streamingMessageIdRef.current) {
+          streamingMessageIdRef.current = `streaming-${conversationId}-${Date.now()}`;
+        }
+        setCurrentStreamingMessage({
+          id: streamingMessageIdRef.current,
           content: currentStreamBufferRef.current,
-          timestamp: chunkEvent.timestamp,
+          timestamp: lastChunkTimestampRef.current,
           type: 'assistant',
           isStreaming: true,
-        };
-        
-        setCurrentStreamingMessage(streamingMsg);
-        break;
-      }
-
-      case 'llm_complete': {
-        const completeEvent = event as LLMCompleteEvent;
-        const finalMessage: ChatSSEMessage = {
-          id: `msg-${conversationId}-${Date.now()}`,
-          content: completeEvent.content,
-          timestamp: completeEvent.timestamp,
-          type: 'assistant',
-          isStreaming: false,
-        };
-
-        // Move streaming message to message history
-        setMessages(prev => [...prev, finalMessage]);
-        setCurrentStreamingMessage(null);
-        currentStreamBufferRef.current = '';
-        
-        onMessageRef.current?.(finalMessage);
-        logger.info('LLM response completed', { conversationId, contentLength: completeEvent.content.length });
-        break;
-      }
-
-      case 'system': {
-        const systemEvent = event as SystemEvent;
-        const systemMessage: ChatSSEMessage = {
-          id: `system-${conversationId}-${Date.now()}`,
-          content: systemEvent.message,
-          timestamp: systemEvent.timestamp,
-          type: 'system',
-          metadata: systemEvent.metadata,
-        };
-
-        setMessages(prev => [...prev, systemMessage]);
-        onMessageRef.current?.(systemMessage);
-        logger.info('System message received', { conversationId, message: systemEvent.message });
-        break;
-      }
+        });
+      }),
+    [conversationId]
+  );
 
-      case 'error': {
-        const errorMsg = event.message || 'An error occurred during streaming';
-        setError(errorMsg);
-        onErrorRef.current?.(errorMsg);
-        logger.error('SSE error event received', { conversationId, error: errorMsg });
-        break;
-      }
+  useEffect(() => () => chunkCoalescer.cancel(), [chunkCoalescer]);
 
-      default:
-        logger.warn('Unknown SSE event type', { type: (event as any).type });
-    }
-  }, [conversationId]);
+  const resetStream = useCallback(() => {
+    chunkCoalescer.cancel();
+    setCurrentStreamingMessage(null);
+    currentStreamBufferRef.current = '';
+    streamingMessageIdRef.current = null;
+  }, [chunkCoalescer]);
 
   /**
-   * Parses SSE event text and extracts JSON data
+   * Turns stream chunks into chat messages
    */
-  const parseSSEEvent = useCallback((eventText: string): ChatSSEEvent | null => {
-    try {
-      // SSE format: "data: {...}\n\n"
-      const lines = eventText.trim().split('\n');
-      let dataLine = '';
-
-      for (const line of lines) {
-        if (line.startsWith('data:')) {
-          dataLine += line.slice(5).trim();
+  const handleChunk = useCallback(
+    (chunk: SSEStreamChunk) => {
+      const timestamp = chunk.timestamp ?? new Date().toISOString();
+
+      switch (chunk.type) {
+        case 'content': {
+          currentStreamBufferRef.current += chunk.content ?? '';
+          lastChunkTimestampRef.current = timestamp;
+          chunkCoalescer.push(chunk.content ?? '');
+          break;
         }
-      }
-
-      if (!dataLine) {
-        return null;
-      }
-
-      const eventData = JSON.parse(dataLine) as ChatSSEEvent;
-      
-      // Validate event structure
-      if (!eventData.type || !eventData.timestamp) {
-        logger.warn('Invalid SSE event structure', { eventData });
-        return null;
-      }
 
-      return eventData;
-    } catch (err) {
-      logger.error('Failed to parse SSE event', { eventText, error: err });
-      return null;
-    }
-  }, []);
-
-  /**
-   * Process the readable stream from the fetch response
-   */
-  const processStream = useCallback(async (response: Response) => {
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Response body is null');
-    }
-
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-
-        if (done) {
-          logger.info('SSE stream ended');
+        case 'done': {
+          const recommendations = chunk.recommendations ?? [];
+          cacheBetRecommendations(recommendations);
+
+          const finalMessage: ChatSSEMessage = {
+            id: `msg-${conversationId}-${Date.now()}`,
+            content: chunk.content ?? currentStreamBufferRef.current,
+            timestamp,
+            type: 'assistant',
+            isStreaming: false,
+            ...(recommendations.length > 0 && {
+              metadata: { betRecommendations: recommendations },
+            }),
+          };
+
+          // Move streaming message to message history
+          resetStream();
+          setMessages((prev) => [...prev, finalMessage]);
+
+          onMessageRef.current?.(finalMessage);
+          logger.info('LLM response completed', {
+            conversationId,
+            contentLength: finalMessage.content.length,
+            recommendationCount: recommendations.length,
+          });
           break;
         }
 
-        buffer += decoder.decode(value, { stream: true });
-        
-        // SSE events are separated by double newlines
-        const events = buffer.split('\n\n');
-        buffer = events.pop() || ''; // Keep incomplete event in buffer
-
-        for (const eventText of events) {
-          if (eventText.trim()) {
-            const event = parseSSEEvent(eventText);
-            if (event) {
-              handleSSEEvent(event);
-            }
-          }
+        case 'system': {
+          const systemMessage: ChatSSEMessage = {
+            id: `system-${conversationId}-${Date.now()}`,
+            content: chunk.content ?? '',
+            timestamp,
+            type: 'system',
+            metadata: chunk.metadata,
+          };
+
+          setMessages((prev) => [...prev, systemMessage]);
+          onMessageRef.current?.(systemMessage);
+          logger.info('System message received', { conversationId, message: chunk.content });
+          break;
         }
-      }
-    } catch (err: any) {
-      if (err.name !== 'AbortError') {
-        throw err;
-      }
-    } finally {
-      reader.releaseLock();
-    }
-  }, [parseSSEEvent, handleSSEEvent]);
-
-  /**
-   * Establishes the SSE connection
-   */
-  const establishConnection = useCallback(async () => {
-    if (abortControllerRef.current) {
-      logger.warn('Connection already exists');
-      return;
-    }
 
-    isManualDisconnectRef.current = false;
-    abortControllerRef.current = new AbortController();
-    
-    setStatus(reconnectAttemptsRef.current > 0 ? 'reconnecting' : 'connecting');
-    setError(null);
+        case 'error': {
+          const errorMsg = chunk.error || 'An error occurred during streaming';
+          setError(errorMsg);
+          onErrorRef.current?.(errorMsg);
+          logger.error('SSE error event received', { conversationId, error: errorMsg });
+          break;
+        }
 
-    try {
-      // Construct the SSE URL with the access token
-      // Using query parameter approach since native EventSource doesn't support headers
-      const baseUrl = config.apiUrl;
-      const streamUrl = `${baseUrl}/api/v1/chat/conversations/${conversationId}/stream?access_token=${encodeURIComponent(accessToken)}`;
-
-      logger.info('Establishing SSE connection', { 
-        conversationId, 
-        url: streamUrl.replace(accessToken, '[REDACTED]') 
-      });
-
-      const response = await fetch(streamUrl, {
-        method: 'GET',
-        headers: {
-          'Accept': 'text/event-stream',
-          'Cache-Control': 'no-cache',
-        },
-        signal: abortControllerRef.current.signal,
-      });
-
-      if (!response.ok) {
-        throw new Error(`SSE connection failed: ${response.status} ${response.statusText}`);
-      }
+        case 'heartbeat':
+          // Keep connection alive, no action needed
+          break;
 
-      if (!response.body) {
-        throw new Error('Response body is null');
+        default:
+          logger.warn('Unknown SSE event type', { type: chunk.type });
       }
+    },
+    [conversationId, chunkCoalescer, resetStream, cacheBetRecommendations]
+  );
 
-      await processStream(response);
+  const handleStateChange = useCallback(
+    (state: SSEConnectionState) => {
+      setStatus(state);
 
-      // Stream ended naturally (server closed connection)
-      // This should NOT happen in normal operation - SSE should stay open
-      if (!isManualDisconnectRef.current) {
-        logger.warn('SSE stream ended unexpectedly, attempting reconnect', { conversationId });
-        handleConnectionError(new Error('Stream ended unexpectedly'));
-      }
-    } catch (err: any) {
-      if (err.name === 'AbortError') {
-        logger.debug('SSE connection aborted');
-        return;
+      if (state === 'connected') {
+        setError(null);
+        onConnectRef.current?.();
+        logger.info('SSE connection established', { conversationId });
       }
-
-      logger.error('SSE connection error', { conversationId, error: err });
-      handleConnectionError(err);
-    }
-  }, [conversationId, accessToken, processStream]);
+    },
+    [conversationId]
+  );
 
   /**
-   * Handles errors during connection
+   * Disconnects from the SSE stream
    */
-  const handleConnectionError = useCallback((err: Error) => {
-    const errorMessage = err.message || 'Connection failed';
-    setError(errorMessage);
+  const disconnect = useCallback(() => {
+    sseService.closeConnection(connectionId);
     setStatus('disconnected');
-    onErrorRef.current?.(errorMessage);
-
-    if (!isManualDisconnectRef.current && reconnectAttemptsRef.current < maxReconnectAttempts) {
-      scheduleReconnect();
-    } else if (reconnectAttemptsRef.current >= maxReconnectAttempts) {
-      logger.error('Max reconnection attempts reached', { conversationId });
-      setError('Connection lost. Maximum reconnection attempts reached.');
-    }
-  }, [conversationId, maxReconnectAttempts]);
-
-  /**
-   * Note: The SSE connection should remain open even after llm_complete events.
-   * The backend keeps the connection alive for multiple message exchanges.
-   * If the stream ends naturally (server closes), we should attempt to reconnect.
-   */
-
-  /**
-   * Schedules a reconnection attempt with exponential backoff
-   */
-  const scheduleReconnect = useCallback(() => {
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-    }
-
-    const delay = reconnectDelay * Math.pow(2, reconnectAttemptsRef.current);
-    reconnectAttemptsRef.current++;
-
-    logger.info(`Scheduling reconnection attempt ${reconnectAttemptsRef.current}/${maxReconnectAttempts}`, {
-      conversationId,
-      delay,
-    });
+    resetStream();
+    onDisconnectRef.current?.();
 
-    reconnectTimeoutRef.current = setTimeout(() => {
-      abortControllerRef.current = null;
-      establishConnection();
-    }, delay);
-  }, [conversationId, reconnectDelay, maxReconnectAttempts, establishConnection]);
+    logger.info('SSE connection closed', { conversationId });
+  }, [connectionId, conversationId, resetStream]);
 
   /**
-   * Connects to the SSE stream
+   * Connects to the SSE stream, replacing any existing connection
    */
   const connect = useCallback(() => {
-    if (!accessToken) {
-      setError('Access token is required');
-      logger.error('Cannot connect: No access token provided');
-      return;
-    }
-
-    disconnect(); // Disconnect any existing connection
-    reconnectAttemptsRef.current = 0;
-    establishConnection();
-  }, [accessToken, establishConnection]);
-
-  /**
-   * Disconnects from the SSE stream
-   */
-  const disconnect = useCallback(() => {
-    isManualDisconnectRef.current = true;
-
-    if (reconnectTimeoutRef.current) {
-      clearTimeout(reconnectTimeoutRef.current);
-      reconnectTimeoutRef.current = null;
-    }
-
-    if (abortControllerRef.current) {
-      abortControllerRef.current.abort();
-      abortControllerRef.current = null;
-    }
+    setError(null);
+    const connection = sseService.createConnection(connectionId, {
+      url: chatApi.getStreamUrl(conversationId),
+      onMessage: handleChunk,
+      onError: (err) => {
+        const errorMessage = err.message || 'Connection failed';
+        setError(errorMessage);
+        onErrorRef.current?.(errorMessage);
+      },
+      onStale: (err) => errorTrackingService.captureSSEError(conversationId, err),
+      onStateChange: handleStateChange,
+      maxRetries: maxReconnectAttempts,
+      retryDelay: reconnectDelay,
+      heartbeatTimeout,
+    });
 
-    setStatus('disconnected');
-    setCurrentStreamingMessage(null);
-    currentStreamBufferRef.current = '';
-    onDisconnectRef.current?.();
-    
-    logger.info('SSE connection closed', { conversationId });
-  }, [conversationId]);
+    connection.connect();
+  }, [
+    connectionId,
+    conversationId,
+    handleChunk,
+    handleStateChange,
+    maxReconnectAttempts,
+    reconnectDelay,
+    heartbeatTimeout,
+  ]);
 
   /**
    * Clears all messages
    */
   const clearMessages = useCallback(() => {
     setMessages([]);
-    setCurrentStreamingMessage(null);
-    currentStreamBufferRef.current = '';
+    resetStream();
     logger.debug('Messages cleared', { conversationId });
-  }, [conversationId]);
+  }, [conversationId, resetStream]);
 
   // Auto-connect when enabled
   useEffect(() => {
-    if (enabled && accessToken) {
+    if (enabled) {
       connect();
     }
 
-    return () => {
-      disconnect();
-    };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [enabled, conversationId, accessToken]);
+    return disconnect;
+  }, [enabled, connect, disconnect]);
 
   return {
     status,
@@ -421,4 +278,3 @@ export const useChatSSE = ({
     clearMessages,
   };
 };
-
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { bettingApi } from '@/api/endpoints';
+import { sseService } from '@/services/sse.service';
+import { logger } from '@/utils/logger';
+import type { OddsUpdate } from '@/types/bet';
+
+/**
+ * Streams price changes for a recommendation while it is on screen.
+ * Returns the latest price per sportsbook id; empty until the first update arrives.
+ */
+export const useLiveOdds = (recommendationId: string | null | undefined) => {
+  const [prices, setPrices] = useState<Record<string, OddsUpdate>>({});
+  const [isConnected, setIsConnected] = useState(false);
+
+  useEffect(() => {
+    if (!recommendationId) return;
+
+    const connectionId = `odds-${recommendationId}`;
+    const connection = sseService.createConnection(connectionId, {
+      url: bettingApi.getOddsStreamUrl([recommendationId]),
+      onMessage: (chunk) => {
+        if (chunk.type !== 'odds_update') return;
+        const { oddsUpdate } = chunk;
+        if (!oddsUpdate || oddsUpdate.recommendationId !== recommendationId) return;
+
+        setPrices((current) => {
+          const previous = current[oddsUpdate.sportsbookId];
+          // Replays after a reconnect can arrive out of order
+          if (previous && previous.updatedAt > oddsUpdate.updatedAt) return current;
+          return { ...current, [oddsUpdate.sportsbookId]: oddsUpdate };
+        });
+      },
+      onError: (error) => {
+        logger.warn('Live odds stream error', { recommendationId, error: error.message });
+      },
+      onConnectionChange: setIsConnected,
+      maxRetries: 5,
+      retryDelay: 1000,
+    });
+
+    connection.connect();
+
+    return () => {
+      sseService.closeConnection(connectionId);
+      setPrices({});
+      setIsConnected(false);
+    };
+  }, [recommendationId]);
+
+  return { prices, isConnected };
+};
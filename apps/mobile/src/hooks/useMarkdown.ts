@@ -0,0 +1,16 @@
+import { useMemo, useRef } from 'react';
+import { parseMarkdown, type MarkdownBlock, type ParsedMarkdown } from '@/utils/markdown';
+
+/**
+ * Markdown blocks for `source`. While the source only grows, as a streaming reply does,
+ * each update parses just the unsettled tail and settled blocks keep their identity, so
+ * memoised block views don't re-render.
+ */
+export const useMarkdown = (source: string): MarkdownBlock[] => {
+  const parsed = useRef<ParsedMarkdown | null>(null);
+
+  return useMemo(() => {
+    parsed.current = parseMarkdown(source, parsed.current);
+    return parsed.current.blocks;
+  }, [source]);
+};
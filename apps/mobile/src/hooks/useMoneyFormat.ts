@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { userApi } from '@/api/endpoints';
+import { useAuthStore } from '@/stores/auth.store';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import { authService } from '@/services/auth.service';
+import { logger } from '@/utils/logger';
+import { getDeviceLocale } from '@/i18n';
+import { DEFAULT_CURRENCY, formatMoney, getCurrencySymbol } from '@/utils/money';
+import type { CurrencyCode } from '@/types/bet';
+
+/**
+ * The user's currency and locale: this device's override, then the profile, then defaults
+ */
+export const useMoneyPreferences = () => {
+  const user = useAuthStore((state) => state.user);
+  const currencyOverride = usePreferencesStore((state) => state.currency);
+  const localeOverride = usePreferencesStore((state) => state.locale);
+
+  return {
+    currency: currencyOverride ?? user?.currency ?? DEFAULT_CURRENCY,
+    locale: localeOverride ?? user?.locale ?? getDeviceLocale(),
+  };
+};
+
+/**
+ * Formats amounts in the user's locale. Amounts default to the user's currency;
+ * pass the amount's own currency for anything tagged with one, like a recommendation's stake.
+ */
+export const useMoneyFormat = () => {
+  const { currency, locale } = useMoneyPreferences();
+
+  const format = useCallback(
+    (amount: number, amountCurrency: CurrencyCode = currency) =>
+      formatMoney(amount, { currency: amountCurrency, locale }),
+    [currency, locale]
+  );
+
+  const formatSigned = useCallback(
+    (amount: number, amountCurrency: CurrencyCode = currency) =>
+      formatMoney(amount, { currency: amountCurrency, locale, signed: true }),
+    [currency, locale]
+  );
+
+  const currencySymbol = useCallback(
+    (amountCurrency: CurrencyCode = currency) => getCurrencySymbol(amountCurrency, locale),
+    [currency, locale]
+  );
+
+  return {
+    currency,
+    locale,
+    formatMoney: format,
+    formatProfit: formatSigned,
+    getCurrencySymbol: currencySymbol,
+  };
+};
+
+/**
+ * Saves the currency and locale on this device straight away and to the profile
+ * so they follow the user to other devices
+ */
+export const useUpdateMoneyPreferences = () => {
+  const { setCurrency, setLocale } = usePreferencesStore();
+
+  return useMutation({
+    /** A null locale clears the override so formatting follows the device */
+    mutationFn: async (preferences: { currency?: CurrencyCode; locale?: string | null }) => {
+      if (preferences.currency !== undefined) setCurrency(preferences.currency);
+      if (preferences.locale !== undefined) setLocale(preferences.locale);
+
+      return userApi.updateProfile(preferences);
+    },
+    onSuccess: async (profile) => {
+      const { user, setUser } = useAuthStore.getState();
+      if (!user) return;
+
+      const updatedUser = { ...user, ...profile };
+      setUser(updatedUser);
+      await authService.updateStoredUser(updatedUser);
+    },
+    onError: (error) => {
+      // The device override still applies; the profile catches up on the next change
+      logger.warn('Failed to save money preferences to profile', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    },
+  });
+};
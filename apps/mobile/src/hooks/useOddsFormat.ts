@@ -0,0 +1,27 @@
+import { useCallback } from 'react';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import {
+  formatImpliedProbability,
+  formatOdds,
+  getPriceImpliedProbability,
+} from '@/utils/oddsFormat';
+import type { SportsbookOdds } from '@/types/bet';
+
+type Price = Pick<SportsbookOdds, 'odds' | 'oddsFormat'>;
+
+/**
+ * Formats prices in the user's preferred odds format. Every odds display should go through this
+ * (or `OddsText`) so changing the preference updates the whole app.
+ */
+export const useOddsFormat = () => {
+  const oddsFormat = usePreferencesStore((state) => state.oddsFormat);
+
+  const format = useCallback((price: Price) => formatOdds(price, oddsFormat), [oddsFormat]);
+
+  const formatProbability = useCallback(
+    (price: Price) => formatImpliedProbability(getPriceImpliedProbability(price)),
+    []
+  );
+
+  return { oddsFormat, formatOdds: format, formatImpliedProbability: formatProbability };
+};
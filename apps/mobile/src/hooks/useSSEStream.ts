@@ -1,15 +1,17 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { chatApi } from '@/api/endpoints';
-import { sseService } from '@/services/sse.service';
+import { sseService, type SSEStreamChunk } from '@/services/sse.service';
 import { useChatStore } from '@/stores/chat.store';
 import { analyticsService } from '@/services/analytics.service';
 import { errorTrackingService } from '@/services/error-tracking.service';
+import { useCacheBetRecommendations } from '@/hooks/useBetting';
 import { logger } from '@/utils/logger';
-import type { StreamChunk } from '@betthink/shared';
+import { createChunkCoalescer } from '@/utils/chunkCoalescer';
+import type { BetRecommendation } from '@/types/bet';
 
 interface UseSSEStreamOptions {
   threadId: string;
-  onComplete?: (fullMessage: string) => void;
+  onComplete?: (fullMessage: string, recommendations: BetRecommendation[]) => void;
   onError?: (error: string) => void;
   enabled?: boolean;
 }
@@ -28,18 +30,39 @@ export const useSSEStream = ({
   const [isConnected, setIsConnected] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const { startStream, appendStreamChunk, endStream, setStreamError } = useChatStore();
+  // Select actions only, so stream updates in the store don't re-render the host screen
+  const startStream = useChatStore((state) => state.startStream);
+  const appendStreamChunk = useChatStore((state) => state.appendStreamChunk);
+  const endStream = useChatStore((state) => state.endStream);
+  const setStreamError = useChatStore((state) => state.setStreamError);
+  const cacheBetRecommendations = useCacheBetRecommendations();
   // Use threadId directly instead of ref since it can change
   const connectionId = `stream-${threadId}`;
   const startTimeRef = useRef<number>(0);
   const streamingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Everything received for the current reply, including chunks not yet flushed to state
+  const streamedContentRef = useRef('');
+
+  // Tokens can arrive far faster than the screen redraws, so chunks reach state at most
+  // once per frame
+  const chunkCoalescer = useMemo(
+    () =>
+      createChunkCoalescer((text) => {
+        setStreamedContent((prev) => prev + text);
+        appendStreamChunk(threadId, { type: 'content', content: text });
+      }),
+    [threadId, appendStreamChunk]
+  );
+
+  useEffect(() => () => chunkCoalescer.cancel(), [chunkCoalescer]);
 
   const handleMessage = useCallback(
-    (chunk: StreamChunk) => {
+    (chunk: SSEStreamChunk) => {
       if (chunk.type === 'content' && chunk.content) {
-        setStreamedContent((prev) => prev + chunk.content);
-        appendStreamChunk(threadId, chunk);
+        streamedContentRef.current += chunk.content;
+        chunkCoalescer.push(chunk.content);
       } else if (chunk.type === 'error') {
+        chunkCoalescer.flush();
         const errorMsg = chunk.error || 'An error occurred during streaming';
         setError(errorMsg);
         setIsStreaming(false);
@@ -56,17 +79,22 @@ export const useSSEStream = ({
         logger.error('SSE stream error', { threadId, error: errorMsg });
         
         // Close connection on error
-        sseService.closeConnection(connectionIdRef.current);
+        sseService.closeConnection(connectionId);
       } else if (chunk.type === 'done') {
         const responseTime = Date.now() - startTimeRef.current;
         analyticsService.trackChatMessageReceived(threadId, responseTime);
         
         // Get the full content (either from chunk or accumulated buffer)
-        const fullContent = chunk.content || streamedContent;
+        chunkCoalescer.flush();
+        const fullContent = chunk.content || streamedContentRef.current;
+        const recommendations = chunk.recommendations ?? [];
+
+        // Prime the query cache so the cards open without refetching
+        cacheBetRecommendations(recommendations);
         
         setIsStreaming(false);
         endStream(threadId);
-        onComplete?.(fullContent);
+        onComplete?.(fullContent, recommendations);
         
         // Clear timeout on successful completion
         if (streamingTimeoutRef.current) {
@@ -78,13 +106,22 @@ export const useSSEStream = ({
         
         // NOTE: Connection remains open for next message
         // Do NOT close the connection here
-      } else if ((chunk as any).type === 'heartbeat') {
+      } else if (chunk.type === 'heartbeat') {
         // Heartbeat events are handled by the service layer for connection keep-alive
         // No action needed here
         logger.debug('SSE heartbeat received', { threadId });
       }
     },
-    [threadId, streamedContent, appendStreamChunk, endStream, setStreamError, onComplete, onError]
+    [
+      threadId,
+      connectionId,
+      chunkCoalescer,
+      endStream,
+      setStreamError,
+      cacheBetRecommendations,
+      onComplete,
+      onError,
+    ]
   );
 
   const handleError = useCallback(
@@ -102,6 +139,15 @@ export const useSSEStream = ({
     [threadId, setStreamError, onError]
   );
 
+  const handleStale = useCallback(
+    (err: Error) => {
+      // The service reconnects on its own; the episode is only reported
+      errorTrackingService.captureSSEError(threadId, err);
+      logger.warn('SSE connection went stale', { threadId });
+    },
+    [threadId]
+  );
+
   const handleConnectionChange = useCallback(
     (connected: boolean) => {
       setIsConnected(connected);
@@ -148,10 +194,11 @@ export const useSSEStream = ({
       const connection = sseService.createConnection(currentConnectionId, {
         url: streamUrl,
         onMessage: (chunk) => {
-          logger.debug('SSE message received in useSSEStream', { type: chunk.type, hasContent: !!chunk.content });
+          logger.debug('SSE message received in useSSEStream', { type: chunk.type, hasContent: 'content' in chunk && !!chunk.content });
           handleMessage(chunk);
         },
         onError: handleError,
+        onStale: handleStale,
         onConnectionChange: handleConnectionChange,
         maxRetries: 5, // Allow retries for reconnection
         retryDelay: 1000,
@@ -159,12 +206,8 @@ export const useSSEStream = ({
 
       await connection.connect();
       
+      // The connection reports when it is open through onConnectionChange
       logger.info('SSE connection initiated', { threadId, connectionId: currentConnectionId });
-      
-      // Small delay to ensure connection is established
-      await new Promise(resolve => setTimeout(resolve, 500));
-      
-      logger.info('SSE connection setup complete', { threadId });
     } else {
       logger.debug('SSE connection already exists', { threadId, connectionId: currentConnectionId, isConnected: existingConnection.isConnected() });
     }
@@ -173,6 +216,7 @@ export const useSSEStream = ({
     threadId,
     handleMessage,
     handleError,
+    handleStale,
     handleConnectionChange,
   ]);
 
@@ -183,6 +227,8 @@ export const useSSEStream = ({
     }
 
     // Reset streaming state for new message
+    chunkCoalescer.cancel();
+    streamedContentRef.current = '';
     setIsStreaming(true);
     setStreamedContent('');
     setError(null);
@@ -199,15 +245,16 @@ export const useSSEStream = ({
     }, 30000);
 
     logger.info('SSE streaming started', { threadId });
-  }, [threadId, startStream, endStream, onError]);
+  }, [threadId, chunkCoalescer, startStream, endStream, onError]);
 
   const stopStreaming = useCallback(() => {
     const currentConnectionId = `stream-${threadId}`;
     sseService.closeConnection(currentConnectionId);
+    chunkCoalescer.cancel();
     setIsStreaming(false);
     endStream(threadId);
     logger.info('SSE streaming stopped', { threadId, connectionId: currentConnectionId });
-  }, [threadId, endStream]);
+  }, [threadId, chunkCoalescer, endStream]);
 
   useEffect(() => {
     return () => {
@@ -0,0 +1,46 @@
+import { useEffect, useMemo } from 'react';
+import { useAuthStore } from '@/stores/auth.store';
+import { locationService } from '@/services/location.service';
+import { getSportsbookAvailability, type SportsbookAvailability } from '@/utils/jurisdiction';
+import { logger } from '@/utils/logger';
+import type { Sportsbook } from '@betthink/shared';
+
+let locationRequest: Promise<void> | null = null;
+
+/**
+ * Fill in the user's location once per session when permission was already granted,
+ * e.g. after a restart. Shared across every mounted card.
+ */
+const ensureUserLocation = (): Promise<void> => {
+  locationRequest =
+    locationRequest ??
+    (async () => {
+      const permission = await locationService.checkPermission();
+      if (!permission.granted) return;
+
+      const location = await locationService.getCurrentLocation();
+      useAuthStore.getState().setLocation(location);
+    })().catch((error) => {
+      logger.warn('Could not determine location for sportsbook availability', error);
+    });
+
+  return locationRequest;
+};
+
+/**
+ * Whether `sportsbook` is licensed in the user's state
+ */
+export const useSportsbookAvailability = (
+  sportsbook: Sportsbook | null | undefined
+): SportsbookAvailability => {
+  const location = useAuthStore((state) => state.location);
+
+  useEffect(() => {
+    if (!location) ensureUserLocation();
+  }, [location]);
+
+  return useMemo(
+    () => (sportsbook ? getSportsbookAvailability(sportsbook, location) : { status: 'unknown' }),
+    [sportsbook, location]
+  );
+};
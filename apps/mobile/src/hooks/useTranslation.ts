@@ -0,0 +1,34 @@
+import { useCallback } from 'react';
+import { usePreferencesStore } from '@/stores/preferences.store';
+import {
+  getDeviceLocale,
+  resolveLanguage,
+  translate,
+  type Language,
+  type TranslationKey,
+  type TranslationParams,
+} from '@/i18n';
+
+export const getDeviceLanguage = (): Language => resolveLanguage(getDeviceLocale());
+
+/**
+ * The UI language: the override from settings, else the device language when we ship it
+ */
+export const useLanguage = (): Language => {
+  const override = usePreferencesStore((state) => state.language);
+  return override ?? getDeviceLanguage();
+};
+
+/**
+ * `t` for the current language. Screens re-render with the new language when it changes.
+ */
+export const useTranslation = () => {
+  const language = useLanguage();
+
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+    [language]
+  );
+
+  return { t, language };
+};
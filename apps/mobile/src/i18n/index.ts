@@ -0,0 +1,121 @@
+import { logger } from '@/utils/logger';
+import { en } from './locales/en';
+import { es } from './locales/es';
+
+export type Language = 'en' | 'es';
+
+/** A message with one variant per CLDR plural category; `other` is the fallback */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+type Messages<T> = {
+  [K in keyof T]: T[K] extends string
+    ? string
+    : T[K] extends { other: string }
+      ? PluralMessage
+      : Messages<T[K]>;
+};
+
+/** Shape every catalog must match, taken from the English source catalog */
+export type Catalog = Messages<typeof en>;
+
+type KeyPaths<T, Prefix extends string = ''> = {
+  [K in keyof T & string]: T[K] extends string | { other: string }
+    ? `${Prefix}${K}`
+    : KeyPaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+export type TranslationKey = KeyPaths<Catalog>;
+
+export type TranslationParams = Record<string, string | number> & { count?: number };
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export const CATALOGS: Record<Language, Catalog> = { en, es };
+
+/** Each language's name in that language, for the language picker */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: 'English',
+  es: 'Español',
+};
+
+export const getDeviceLocale = (): string => {
+  try {
+    return Intl.NumberFormat().resolvedOptions().locale;
+  } catch {
+    return 'en-US';
+  }
+};
+
+const isLanguage = (value: string): value is Language => value in CATALOGS;
+
+/**
+ * Best supported language for a BCP 47 locale, e.g. "es-MX" -> "es"
+ */
+export const resolveLanguage = (locale: string): Language => {
+  const language = locale.split(/[-_]/)[0].toLowerCase();
+  return isLanguage(language) ? language : DEFAULT_LANGUAGE;
+};
+
+const pluralRules = new Map<Language, Intl.PluralRules>();
+
+const getPluralCategory = (language: Language, count: number): Intl.LDMLPluralRule => {
+  try {
+    let rules = pluralRules.get(language);
+    if (!rules) {
+      rules = new Intl.PluralRules(language);
+      pluralRules.set(language, rules);
+    }
+    return rules.select(count);
+  } catch {
+    // Intl.PluralRules is missing on some older Android engines
+    return count === 1 ? 'one' : 'other';
+  }
+};
+
+const lookup = (catalog: Catalog, key: string): string | PluralMessage | undefined => {
+  let node: unknown = catalog;
+  for (const part of key.split('.')) {
+    if (node === null || typeof node !== 'object') return undefined;
+    node = (node as Record<string, unknown>)[part];
+  }
+  if (typeof node === 'string') return node;
+  if (node !== null && typeof node === 'object' && 'other' in node) return node as PluralMessage;
+  return undefined;
+};
+
+const interpolate = (message: string, params: TranslationParams | undefined): string =>
+  params
+    ? message.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+        params[name] === undefined ? match : String(params[name])
+      )
+    : message;
+
+/**
+ * Looks a message up in the language's catalog, falling back to English and then to the key.
+ * Plural messages pick their variant from `params.count`; `{{name}}` placeholders are filled
+ * from `params`.
+ */
+export const translate = (
+  language: Language,
+  key: TranslationKey,
+  params?: TranslationParams
+): string => {
+  const message = lookup(CATALOGS[language], key) ?? lookup(CATALOGS[DEFAULT_LANGUAGE], key);
+
+  if (message === undefined) {
+    logger.warn('Missing translation', { language, key });
+    return key;
+  }
+
+  if (typeof message === 'string') return interpolate(message, params);
+
+  const count = params?.count ?? 0;
+  const variant = message[getPluralCategory(language, count)] ?? message.other;
+  return interpolate(variant, params);
+};
+
+/**
+ * A date and time the way `language` writes them, e.g. "Mar 15, 2025, 2:30 PM"
+ */
+export const formatDateTime = (value: string, language: Language): string =>
+  new Date(value).toLocaleString(language, { dateStyle: 'medium', timeStyle: 'short' });
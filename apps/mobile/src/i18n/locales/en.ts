@@ -0,0 +1,541 @@
+/**
+ * English source catalog. Every other catalog must have the same keys.
+ * `<tag>…</tag>` marks text rendered by a component passed to `Trans`.
+ */
+export const en = {
+  common: {
+    appName: 'BetThink.io',
+    appShortName: 'BetThink',
+    cancel: 'Cancel',
+    ok: 'OK',
+    back: 'Back',
+    continue: 'Continue',
+    or: 'OR',
+    logIn: 'Log In',
+    signUp: 'Sign Up',
+    email: 'Email',
+    password: 'Password',
+    emailPlaceholder: 'Enter your email',
+    continueWithGoogle: 'Continue with Google',
+    continueWithApple: 'Continue with Apple',
+    termsOfService: 'Terms of Service',
+    privacyPolicy: 'Privacy Policy',
+    settings: 'Settings',
+    skipForNow: 'Skip for Now',
+    showPassword: 'Show password',
+    hidePassword: 'Hide password',
+    errors: {
+      enterValidEmail: 'Please enter a valid email address',
+      fillAllFields: 'Please fill in all fields',
+    },
+  },
+  landing: {
+    features: {
+      chatTitle: 'AI Chat Assistant',
+      chatDescription: 'Chat with our AI for personalized betting insights',
+      analysisTitle: 'Real-time Analysis',
+      analysisDescription: 'Get live odds and game predictions',
+      responsibleTitle: 'Responsible Betting',
+      responsibleDescription: 'Tools to help you bet responsibly',
+    },
+    disclaimer:
+      'I am 21+ and acknowledge that gambling involves risk. I agree to the <terms>Terms of Service</terms> and <privacy>Privacy Policy</privacy>.',
+    disclaimerCheckbox: 'Accept age and risk disclaimer',
+    footer: "New to sports betting? We'll guide you through the basics.",
+    signupSuccessTitle: 'Account Created! 📧',
+    signupSuccessMessage:
+      "We've sent a verification email to {{email}}. Please verify your email and then log in.",
+    notice: {
+      title: 'Important Notice',
+      intro: 'Before continuing, please read and accept our terms:',
+      ageTitle: 'Age Requirement',
+      ageText: 'You must be 21 years or older to use this application.',
+      gamblingTitle: 'Gambling Awareness',
+      gamblingText:
+        'Gambling involves financial risk. Only bet what you can afford to lose. If you or someone you know has a gambling problem, call the National Problem Gambling Helpline at 1-800-522-4700.',
+      termsTitle: 'Terms & Privacy',
+      termsText:
+        'By proceeding, you agree to our <terms>Terms of Service</terms> and <privacy>Privacy Policy</privacy>. We collect and process data as described in our policies.',
+      accept: 'I Accept',
+    },
+  },
+  login: {
+    welcomeTitle: 'Welcome Back',
+    welcomeSubtitle: 'Sign in to continue to {{appName}}',
+    passwordPlaceholder: 'Enter your password',
+    forgotPassword: 'Forgot Password?',
+    noAccount: "Don't have an account? ",
+    errors: {
+      missingCredentials: 'Please enter both email and password',
+      loginFailed: 'Login failed',
+      socialLoginFailed: 'Social login failed',
+    },
+  },
+  signup: {
+    step: 'Step {{step}} of {{total}}: {{title}}',
+    step1Title: 'Create Account',
+    step1Subtitle: 'Set up your credentials',
+    step2Title: 'Almost There!',
+    step2Subtitle: 'Tell us about yourself',
+    passwordPlaceholder: 'Create a password',
+    passwordHint: 'At least 8 characters with uppercase, lowercase, and a number',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Confirm your password',
+    ageNotice: 'You must be 21 years or older to use {{appName}}',
+    firstName: 'First Name',
+    firstNamePlaceholder: 'Enter your first name',
+    lastName: 'Last Name',
+    lastNamePlaceholder: 'Enter your last name',
+    dateOfBirth: 'Date of Birth',
+    dateOfBirthPlaceholder: 'MM/DD/YYYY',
+    dateOfBirthHint: 'Must be 21 years or older',
+    createAccount: 'Create Account',
+    haveAccount: 'Already have an account? ',
+    errors: {
+      weakPassword:
+        'Password must be at least 8 characters with uppercase, lowercase, and a number',
+      passwordMismatch: 'Passwords do not match',
+      firstNameTooShort: 'First name must be at least 2 characters',
+      lastNameTooShort: 'Last name must be at least 2 characters',
+      underage:
+        'You must be 21 years or older to use this app. Please enter a valid date (MM/DD/YYYY)',
+      signupFailed: 'Signup failed',
+      socialSignupFailed: 'Social signup failed',
+    },
+  },
+  locationPermission: {
+    requiredTitle: 'Location Access Required',
+    enableTitle: 'Enable Location Services',
+    requiredDescription:
+      'To show you sportsbooks available in your state, we need location access. Please enable it in your device settings.',
+    enableDescription:
+      'We use your location to show you sportsbooks that are legally available in your state. This helps ensure you have access to the best betting options in your area.',
+    stateOnly: 'Only used to determine your state',
+    notShared: 'Not shared with third parties',
+    notTracked: 'Not continuously tracked',
+    openSettings: 'Open Settings',
+    enable: 'Enable Location',
+    footer: 'You can change this permission anytime in Settings',
+  },
+  settings: {
+    title: 'Settings',
+    close: 'Close settings',
+    account: 'Account',
+    loggedInAs: 'Logged in as {{name}}',
+    appearance: 'Appearance',
+    lightTheme: 'Light Theme',
+    darkTheme: 'Dark Theme',
+    systemTheme: 'System Default',
+    useLightTheme: 'Use light theme',
+    useDarkTheme: 'Use dark theme',
+    useSystemTheme: 'Use system theme',
+    language: {
+      title: 'Language',
+      deviceDefault: 'Device',
+      description: 'Device follows your phone language, {{language}}.',
+    },
+    bankroll: {
+      title: 'Bankroll',
+      bankroll: 'Bankroll',
+      strategies: {
+        fixedUnit: 'Fixed unit',
+        percentage: 'Percentage',
+        kelly: 'Kelly',
+      },
+      descriptions: {
+        fixedUnit: 'Stake the same amount on every bet.',
+        percentage: 'Stake a fixed share of your current bankroll.',
+        kelly: 'Scale the stake to the edge implied by the confidence and odds.',
+      },
+      unitSize: 'Unit size',
+      stakePerBet: 'Stake per bet',
+      kellyFraction: 'Kelly fraction',
+      empty: 'Set a bankroll to get stake suggestions when confirming bets.',
+    },
+    currency: {
+      title: 'Currency',
+      deviceDefault: 'Device default',
+      numberFormat: 'Number format',
+      numberFormatLabel: 'Number format, {{locale}}',
+      sample: 'Amounts look like {{amount}}. Bets placed in another currency keep their own.',
+      saveFailed: 'Saved on this device only. We could not update your profile.',
+    },
+    odds: {
+      title: 'Odds',
+      format: 'Display odds as',
+      formats: {
+        american: 'American',
+        decimal: 'Decimal',
+        fractional: 'Fractional',
+      },
+      formatDescription: 'Used for recommendations, parlays and bet history.',
+      tolerance: 'Re-confirm when odds move by',
+      anyMove: 'Any move',
+      points: {
+        one: '{{count}} pt',
+        other: '{{count}} pts',
+      },
+      toleranceDescription:
+        'Measured in implied probability. Smaller moves are accepted automatically while you confirm a bet.',
+    },
+    responsibleGambling: {
+      title: 'Responsible Gambling',
+      limits: {
+        daily: 'Daily stake limit',
+        weekly: 'Weekly stake limit',
+        monthly: 'Monthly stake limit',
+      },
+      noLimit: 'No limit',
+      pendingRemoval: 'Limit removal takes effect {{date}}',
+      pendingIncrease: 'Increase to {{amount}} takes effect {{date}}',
+      limitsHint: 'Lower limits apply immediately. Raising or removing a limit takes 24 hours.',
+      durations: {
+        hours: {
+          one: '{{count}} hour',
+          other: '{{count}} hours',
+        },
+        days: {
+          one: '{{count}} day',
+          other: '{{count}} days',
+        },
+        months: {
+          one: '{{count}} month',
+          other: '{{count}} months',
+        },
+        years: {
+          one: '{{count}} year',
+          other: '{{count}} years',
+        },
+      },
+      coolOff: {
+        title: 'Take a break',
+        description: 'Pause betting for a short period',
+        activeUntil: 'On a break until {{date}}',
+        optionLabel: 'Take a break for {{length}}',
+        confirmTitle: 'Take a Break',
+        confirmMessage: "You won't be able to confirm bets for {{length}}. This can't be undone.",
+        confirm: 'Start Break',
+      },
+      selfExclusion: {
+        title: 'Self-exclusion',
+        description: 'Block betting for an extended period',
+        activeUntil: 'Self-excluded until {{date}}',
+        optionLabel: 'Self-exclude for {{length}}',
+        confirmTitle: 'Self-Exclusion',
+        confirmMessage:
+          "Betting will be blocked for {{length}}. This can't be undone or shortened.",
+        confirm: 'Self-Exclude',
+      },
+    },
+    locationPrivacy: 'Location Privacy',
+    location: 'Location',
+    locationAllowed: 'Allowed',
+    locationDenied: 'Denied',
+    locationNotDetermined: 'Not determined',
+    locationStatus: '{{permission}} · Services {{services}}',
+    servicesOn: 'On',
+    servicesOff: 'Off',
+    granted: 'Granted',
+    requestAccess: 'Request Access',
+    openSystemSettings: 'Open System Settings',
+    dataAndStorage: 'Data & Storage',
+    clearData: 'Clear Local Data',
+    clearDataDescription: 'Remove all locally stored messages',
+    clearDataHint: 'Double tap to clear all local messages',
+    clearDataConfirm: 'This will delete all locally stored messages. This action cannot be undone.',
+    clear: 'Clear',
+    clearDataDone: 'Local data cleared',
+    success: 'Success',
+    about: 'About',
+    version: 'Version',
+    pushToken: 'Push Token',
+    notAvailable: 'N/A',
+    logout: 'Logout',
+    logoutConfirm: 'Are you sure you want to logout?',
+    logoutButton: 'Logout button',
+  },
+  chat: {
+    empty: 'Start a conversation about sports betting!',
+    messages: {
+      one: '{{count}} chat message',
+      other: '{{count}} chat messages',
+    },
+    inputPlaceholder: 'Ask about sports betting...',
+    inputLabel: 'Message input',
+    inputHint: 'Type your message here',
+    send: 'Send message',
+    userMessageLabel: 'You said: {{content}}',
+    assistantMessageLabel: 'Assistant said: {{content}}',
+    resendHint: 'Double tap to resend this message',
+  },
+  search: {
+    title: 'Search',
+    close: 'Close search',
+    placeholder: 'Search your chats',
+    hint: 'Find any message you have sent or received on this device.',
+    noResults: 'No messages match "{{query}}"',
+    untitledThread: 'Untitled chat',
+    you: 'You',
+    resultMeta: '{{author}} · {{date}}',
+    resultLabel: '{{title}}, {{author}}, {{date}}. Double tap to open',
+    filters: {
+      all: 'All',
+      mine: 'Mine',
+      assistant: 'Replies',
+    },
+  },
+  threads: {
+    title: 'Chats',
+    close: 'Close chats',
+    untitled: 'Untitled chat',
+    messageCount: {
+      one: '{{count}} message',
+      other: '{{count}} messages',
+    },
+    pinnedLabel: '{{title}}, pinned',
+    moreActions: 'More actions for {{title}}',
+    filters: {
+      all: 'All',
+      pinned: 'Pinned',
+      archived: 'Archived',
+      newFolder: 'New Folder',
+      deleteFolder: 'Delete folder {{name}}',
+    },
+    empty: {
+      all: 'No chats yet. Start a conversation from the home screen.',
+      pinned: 'Pin a chat to keep it at the top of your list.',
+      archived: 'Archived chats will appear here.',
+      folder: 'Move chats here from their actions menu.',
+    },
+    actions: {
+      rename: 'Rename',
+      pin: 'Pin',
+      unpin: 'Unpin',
+      archive: 'Archive',
+      unarchive: 'Unarchive',
+      move: 'Move to Folder',
+    },
+    rename: {
+      title: 'Rename Chat',
+      label: 'Title',
+      save: 'Save',
+    },
+    move: {
+      title: 'Move to Folder',
+      none: 'No folder',
+    },
+    newFolder: {
+      title: 'New Folder',
+      label: 'Folder name',
+      create: 'Create',
+    },
+    deleteFolder: {
+      title: 'Delete Folder',
+      message: '"{{name}}" will be deleted. Its chats stay in your list.',
+      confirm: 'Delete',
+    },
+    errors: {
+      updateFailed: 'Could not update the chat. Please try again.',
+      folderFailed: 'Could not save the folder. Please try again.',
+    },
+  },
+  home: {
+    signIn: 'Sign in',
+    defaultUserName: 'User',
+    newThreadTitle: 'Betting Chat',
+    editingMessage: 'Editing message',
+    messageActions: {
+      edit: 'Edit and resend',
+      regenerate: 'Regenerate response',
+      previousVersion: 'Previous version',
+      nextVersion: 'Next version',
+      version: '{{index}} / {{count}}',
+      versionLabel: 'Version {{index}} of {{count}}',
+    },
+    threadTitle: {
+      inputLabel: 'Chat title',
+      editHint: 'Double tap to rename this chat',
+    },
+    menu: {
+      chats: 'Chats',
+      search: 'Search Chats',
+      history: 'Bet History',
+      terms: 'Terms of Use',
+      signOut: 'Sign Out',
+    },
+    examplePrompts: {
+      nbaTitle: "Analyze tonight's NBA games",
+      nbaSubtitle: 'Show me the best betting opportunities',
+      premierLeagueTitle: "What's the value in Premier League?",
+      premierLeagueSubtitle: 'Find undervalued bets this weekend',
+      spreadTitle: 'Explain point spread betting',
+      spreadSubtitle: 'Help me understand the basics',
+      nflTitle: 'Compare NFL teams',
+      nflSubtitle: 'Chiefs vs Bills head-to-head stats',
+    },
+    sending: 'Sending…',
+    notDelivered: 'Not delivered. Tap to retry',
+    notDeliveredLabel: 'Message not delivered. Tap to retry',
+    inputPlaceholder: 'Ask anything about betting...',
+  },
+  betRecommendation: {
+    title: '🎯 Bet Recommendation',
+    label: 'Bet recommendation: {{selection}} at {{odds}} on {{event}}',
+    hint: 'Double tap to review and confirm this bet',
+    stake: 'Stake',
+    potentialPayout: 'Potential Payout',
+  },
+  odds: {
+    impliedLabel: '{{odds}}, {{probability}} implied',
+  },
+  betConfirmation: {
+    title: 'Confirm Bet',
+    betType: 'Bet Type',
+    selection: 'Selection',
+    odds: 'Odds',
+    compareOdds: 'Compare odds',
+    compareOddsLabel: 'Compare odds across sportsbooks',
+    stake: 'Stake',
+    suggestedStake: 'Suggested {{amount}} · {{strategy}}',
+    strategies: {
+      fixedUnit: 'fixed unit',
+      percentage: '{{percent}}% of bankroll',
+      kelly: '{{fraction}}× Kelly',
+    },
+    potentialPayout: 'Potential Payout',
+    reasoning: 'Why this bet?',
+    sportsbook: 'Sportsbook',
+    redirectNote: "You'll be redirected to the {{sportsbook}} app in guide mode",
+    useAlternative: 'Use {{sportsbook}} instead',
+    alternativeOddsNote: 'Odds at {{sportsbook}} may differ from the line above',
+    locationUnknown: 'Allow location access to check this sportsbook is available in your state',
+    oddsMoved: 'Odds moved from {{from}} to {{to}}. Review the new price before confirming.',
+    acceptOdds: 'Accept new odds',
+    cancelLabel: 'Cancel bet',
+    confirm: 'Confirm & Open',
+    confirmLabel: 'Confirm bet and open sportsbook',
+    addToParlay: 'Add to Parlay',
+    addToParlayLabel: 'Add bet to parlay slip',
+    inParlay: 'In Parlay Slip',
+    inParlayLabel: 'Already in parlay slip',
+    sportsbookNotOpened:
+      "Your bet was recorded, but the sportsbook couldn't be opened. Install its app or visit its website to place it.",
+  },
+  lineShopping: {
+    title: 'Compare Odds',
+    loadFailed: 'Could not load odds from other sportsbooks.',
+    retry: 'Retry',
+    edgeFootnote: 'Edge is the implied probability you save against the recommended price.',
+    close: 'Close',
+    rowLabel: '{{sportsbook}} at {{odds}}',
+    implied: '{{probability}} implied',
+    unavailable: 'Not available in your state',
+    bestPrice: 'Best price',
+    recommended: 'Recommended',
+  },
+  parlaySlip: {
+    title: 'Parlay Slip',
+    button: 'Parlay Slip ({{count}})',
+    openLabel: {
+      one: 'Open parlay slip with {{count}} leg',
+      other: 'Open parlay slip with {{count}} legs',
+    },
+    empty: 'Add recommendations from the chat to build a parlay.',
+    correlatedWarning:
+      'Some legs are from the same event. Sportsbooks may reject or reprice correlated parlays.',
+    mixedSportsbooks: 'All legs must come from the same sportsbook to be placed as one parlay.',
+    stake: 'Stake',
+    stakeLabel: 'Parlay stake',
+    legs: 'Legs',
+    combinedOdds: 'Combined Odds',
+    potentialPayout: 'Potential Payout',
+    removeLeg: 'Remove {{selection}} from parlay',
+    clear: 'Clear',
+    clearLabel: 'Clear parlay slip',
+    confirm: 'Confirm & Open',
+    confirmLabel: 'Confirm parlay and open sportsbook',
+  },
+  performance: {
+    profit: 'Profit',
+    roi: 'ROI',
+    units: 'Units',
+    winRate: 'Win rate',
+    record: {
+      one: '{{won}}-{{lost}}-{{pushed}} over {{count}} settled bet',
+      other: '{{won}}-{{lost}}-{{pushed}} over {{count}} settled bets',
+    },
+    otherCurrencies: {
+      one: '{{count}} in another currency not included',
+      other: '{{count}} in other currencies not included',
+    },
+    dimensions: {
+      sport: 'Sport',
+      league: 'League',
+      betType: 'Type',
+      sportsbook: 'Book',
+    },
+    groupRecord: '{{won}}-{{lost}}-{{pushed}} • {{winRate}} wins',
+    groupRoi: 'ROI {{roi}}',
+    chartLabel: 'Running profit chart, currently {{profit}}',
+  },
+  history: {
+    title: 'Bet History',
+    close: 'Close bet history',
+    empty: 'No bet history yet. Start chatting to get recommendations!',
+    listLabel: 'Bet history list',
+    untitledBet: 'Bet #{{id}}',
+    stakeToPay: '{{stake}} to pay {{payout}}',
+    betLabel: '{{title}}, {{status}}, confirmed {{date}}',
+    status: {
+      pending: 'Pending',
+      won: 'Won',
+      lost: 'Lost',
+      push: 'Push',
+      void: 'Void',
+    },
+  },
+  forgotPassword: {
+    header: 'Reset Password',
+    title: 'Forgot Your Password?',
+    subtitle:
+      "No worries! Enter your email address and we'll send you instructions to reset your password.",
+    submit: 'Send Reset Link',
+    rememberPassword: 'Remember your password? ',
+    backToLogin: 'Back to Login',
+    successHeader: 'Password Reset',
+    successTitle: 'Check Your Email',
+    successMessage: "We've sent password reset instructions to",
+    notReceived: "Didn't receive the email? Check your spam folder or try again in a few minutes.",
+    tryDifferentEmail: 'Try Different Email',
+    errors: {
+      missingEmail: 'Please enter your email address',
+      resetFailed: 'Failed to send reset email',
+    },
+  },
+  jurisdiction: {
+    prohibited: "Online sports betting isn't legal in {{state}}.",
+    unavailable: 'Not available in {{state}}.',
+    unavailableWithAlternative: 'Not available in {{state}}. {{sportsbook}} is.',
+  },
+  betBlocked: {
+    selfExclusion: 'You are self-excluded from betting until {{date}}.',
+    coolOff: 'You are on a cool-off break until {{date}}.',
+    stakeLimit: {
+      daily:
+        'This bet would exceed your daily limit of {{limit}}. You can stake up to {{remaining}} more.',
+      weekly:
+        'This bet would exceed your weekly limit of {{limit}}. You can stake up to {{remaining}} more.',
+      monthly:
+        'This bet would exceed your monthly limit of {{limit}}. You can stake up to {{remaining}} more.',
+    },
+    currencyMismatch:
+      "Your stake limits are in {{currency}}, so bets in other currencies can't be checked against them.",
+    parlayTooShort: 'A parlay needs at least two legs.',
+    generic: 'Something went wrong. Please try again.',
+  },
+  errorBoundary: {
+    title: 'Oops! Something went wrong',
+    message: "We're sorry for the inconvenience. The error has been reported to our team.",
+    retry: 'Try Again',
+  },
+};
@@ -0,0 +1,546 @@
+import type { Catalog } from '../index';
+
+export const es: Catalog = {
+  common: {
+    appName: 'BetThink.io',
+    appShortName: 'BetThink',
+    cancel: 'Cancelar',
+    ok: 'Aceptar',
+    back: 'Atrás',
+    continue: 'Continuar',
+    or: 'O',
+    logIn: 'Iniciar sesión',
+    signUp: 'Registrarse',
+    email: 'Correo electrónico',
+    password: 'Contraseña',
+    emailPlaceholder: 'Introduce tu correo electrónico',
+    continueWithGoogle: 'Continuar con Google',
+    continueWithApple: 'Continuar con Apple',
+    termsOfService: 'Términos del servicio',
+    privacyPolicy: 'Política de privacidad',
+    settings: 'Ajustes',
+    skipForNow: 'Omitir por ahora',
+    showPassword: 'Mostrar contraseña',
+    hidePassword: 'Ocultar contraseña',
+    errors: {
+      enterValidEmail: 'Introduce una dirección de correo electrónico válida',
+      fillAllFields: 'Completa todos los campos',
+    },
+  },
+  landing: {
+    features: {
+      chatTitle: 'Asistente de chat con IA',
+      chatDescription: 'Chatea con nuestra IA para obtener análisis de apuestas personalizados',
+      analysisTitle: 'Análisis en tiempo real',
+      analysisDescription: 'Consulta cuotas en vivo y pronósticos de partidos',
+      responsibleTitle: 'Apuestas responsables',
+      responsibleDescription: 'Herramientas para ayudarte a apostar de forma responsable',
+    },
+    disclaimer:
+      'Tengo 21 años o más y reconozco que el juego implica riesgos. Acepto los <terms>Términos del servicio</terms> y la <privacy>Política de privacidad</privacy>.',
+    disclaimerCheckbox: 'Aceptar el aviso de edad y riesgo',
+    footer: '¿Nuevo en las apuestas deportivas? Te guiaremos por lo básico.',
+    signupSuccessTitle: '¡Cuenta creada! 📧',
+    signupSuccessMessage:
+      'Hemos enviado un correo de verificación a {{email}}. Verifica tu correo y luego inicia sesión.',
+    notice: {
+      title: 'Aviso importante',
+      intro: 'Antes de continuar, lee y acepta nuestros términos:',
+      ageTitle: 'Requisito de edad',
+      ageText: 'Debes tener 21 años o más para usar esta aplicación.',
+      gamblingTitle: 'Conciencia sobre el juego',
+      gamblingText:
+        'El juego implica riesgo financiero. Apuesta solo lo que puedas permitirte perder. Si tú o alguien que conoces tiene un problema con el juego, llama a la Línea Nacional de Ayuda para el Juego Problemático al 1-800-522-4700.',
+      termsTitle: 'Términos y privacidad',
+      termsText:
+        'Al continuar, aceptas nuestros <terms>Términos del servicio</terms> y nuestra <privacy>Política de privacidad</privacy>. Recopilamos y tratamos los datos según se describe en nuestras políticas.',
+      accept: 'Acepto',
+    },
+  },
+  login: {
+    welcomeTitle: 'Bienvenido de nuevo',
+    welcomeSubtitle: 'Inicia sesión para continuar en {{appName}}',
+    passwordPlaceholder: 'Introduce tu contraseña',
+    forgotPassword: '¿Olvidaste tu contraseña?',
+    noAccount: '¿No tienes una cuenta? ',
+    errors: {
+      missingCredentials: 'Introduce tu correo electrónico y tu contraseña',
+      loginFailed: 'No se pudo iniciar sesión',
+      socialLoginFailed: 'No se pudo iniciar sesión con la red social',
+    },
+  },
+  signup: {
+    step: 'Paso {{step}} de {{total}}: {{title}}',
+    step1Title: 'Crear cuenta',
+    step1Subtitle: 'Configura tus credenciales',
+    step2Title: '¡Ya casi está!',
+    step2Subtitle: 'Cuéntanos sobre ti',
+    passwordPlaceholder: 'Crea una contraseña',
+    passwordHint: 'Al menos 8 caracteres con mayúsculas, minúsculas y un número',
+    confirmPassword: 'Confirmar contraseña',
+    confirmPasswordPlaceholder: 'Confirma tu contraseña',
+    ageNotice: 'Debes tener 21 años o más para usar {{appName}}',
+    firstName: 'Nombre',
+    firstNamePlaceholder: 'Introduce tu nombre',
+    lastName: 'Apellido',
+    lastNamePlaceholder: 'Introduce tu apellido',
+    dateOfBirth: 'Fecha de nacimiento',
+    dateOfBirthPlaceholder: 'MM/DD/AAAA',
+    dateOfBirthHint: 'Debes tener 21 años o más',
+    createAccount: 'Crear cuenta',
+    haveAccount: '¿Ya tienes una cuenta? ',
+    errors: {
+      weakPassword:
+        'La contraseña debe tener al menos 8 caracteres con mayúsculas, minúsculas y un número',
+      passwordMismatch: 'Las contraseñas no coinciden',
+      firstNameTooShort: 'El nombre debe tener al menos 2 caracteres',
+      lastNameTooShort: 'El apellido debe tener al menos 2 caracteres',
+      underage:
+        'Debes tener 21 años o más para usar esta aplicación. Introduce una fecha válida (MM/DD/AAAA)',
+      signupFailed: 'No se pudo completar el registro',
+      socialSignupFailed: 'No se pudo completar el registro con la red social',
+    },
+  },
+  locationPermission: {
+    requiredTitle: 'Se necesita acceso a la ubicación',
+    enableTitle: 'Activar servicios de ubicación',
+    requiredDescription:
+      'Para mostrarte las casas de apuestas disponibles en tu estado necesitamos acceso a tu ubicación. Actívalo en los ajustes del dispositivo.',
+    enableDescription:
+      'Usamos tu ubicación para mostrarte las casas de apuestas legales en tu estado. Así te aseguras de tener las mejores opciones de apuesta de tu zona.',
+    stateOnly: 'Solo se usa para saber en qué estado estás',
+    notShared: 'No se comparte con terceros',
+    notTracked: 'No se rastrea de forma continua',
+    openSettings: 'Abrir ajustes',
+    enable: 'Activar ubicación',
+    footer: 'Puedes cambiar este permiso en cualquier momento en Ajustes',
+  },
+  settings: {
+    title: 'Ajustes',
+    close: 'Cerrar ajustes',
+    account: 'Cuenta',
+    loggedInAs: 'Sesión iniciada como {{name}}',
+    appearance: 'Apariencia',
+    lightTheme: 'Tema claro',
+    darkTheme: 'Tema oscuro',
+    systemTheme: 'Predeterminado del sistema',
+    useLightTheme: 'Usar tema claro',
+    useDarkTheme: 'Usar tema oscuro',
+    useSystemTheme: 'Usar el tema del sistema',
+    language: {
+      title: 'Idioma',
+      deviceDefault: 'Dispositivo',
+      description: 'Dispositivo sigue el idioma de tu teléfono, {{language}}.',
+    },
+    bankroll: {
+      title: 'Bankroll',
+      bankroll: 'Bankroll',
+      strategies: {
+        fixedUnit: 'Unidad fija',
+        percentage: 'Porcentaje',
+        kelly: 'Kelly',
+      },
+      descriptions: {
+        fixedUnit: 'Apuesta la misma cantidad en cada apuesta.',
+        percentage: 'Apuesta una parte fija de tu bankroll actual.',
+        kelly: 'Ajusta la apuesta a la ventaja que implican la confianza y las cuotas.',
+      },
+      unitSize: 'Tamaño de la unidad',
+      stakePerBet: 'Importe por apuesta',
+      kellyFraction: 'Fracción de Kelly',
+      empty: 'Define un bankroll para recibir sugerencias de importe al confirmar apuestas.',
+    },
+    currency: {
+      title: 'Moneda',
+      deviceDefault: 'Predeterminado del dispositivo',
+      numberFormat: 'Formato de números',
+      numberFormatLabel: 'Formato de números, {{locale}}',
+      sample:
+        'Los importes se ven así: {{amount}}. Las apuestas hechas en otra moneda conservan la suya.',
+      saveFailed: 'Guardado solo en este dispositivo. No pudimos actualizar tu perfil.',
+    },
+    odds: {
+      title: 'Cuotas',
+      format: 'Mostrar cuotas como',
+      formats: {
+        american: 'Americanas',
+        decimal: 'Decimales',
+        fractional: 'Fraccionarias',
+      },
+      formatDescription: 'Se usa en recomendaciones, parlays e historial de apuestas.',
+      tolerance: 'Volver a confirmar si las cuotas cambian',
+      anyMove: 'Cualquier cambio',
+      points: {
+        one: '{{count}} pto',
+        other: '{{count}} ptos',
+      },
+      toleranceDescription:
+        'Medido en probabilidad implícita. Los cambios menores se aceptan automáticamente mientras confirmas una apuesta.',
+    },
+    responsibleGambling: {
+      title: 'Juego responsable',
+      limits: {
+        daily: 'Límite de apuestas diario',
+        weekly: 'Límite de apuestas semanal',
+        monthly: 'Límite de apuestas mensual',
+      },
+      noLimit: 'Sin límite',
+      pendingRemoval: 'La eliminación del límite se aplica el {{date}}',
+      pendingIncrease: 'El aumento a {{amount}} se aplica el {{date}}',
+      limitsHint:
+        'Los límites más bajos se aplican de inmediato. Subir o quitar un límite tarda 24 horas.',
+      durations: {
+        hours: {
+          one: '{{count}} hora',
+          other: '{{count}} horas',
+        },
+        days: {
+          one: '{{count}} día',
+          other: '{{count}} días',
+        },
+        months: {
+          one: '{{count}} mes',
+          other: '{{count}} meses',
+        },
+        years: {
+          one: '{{count}} año',
+          other: '{{count}} años',
+        },
+      },
+      coolOff: {
+        title: 'Tomar un descanso',
+        description: 'Pausa las apuestas durante un periodo corto',
+        activeUntil: 'En descanso hasta el {{date}}',
+        optionLabel: 'Tomar un descanso de {{length}}',
+        confirmTitle: 'Tomar un descanso',
+        confirmMessage: 'No podrás confirmar apuestas durante {{length}}. No se puede deshacer.',
+        confirm: 'Empezar descanso',
+      },
+      selfExclusion: {
+        title: 'Autoexclusión',
+        description: 'Bloquea las apuestas durante un periodo prolongado',
+        activeUntil: 'Autoexcluido hasta el {{date}}',
+        optionLabel: 'Autoexcluirse durante {{length}}',
+        confirmTitle: 'Autoexclusión',
+        confirmMessage:
+          'Las apuestas quedarán bloqueadas durante {{length}}. No se puede deshacer ni acortar.',
+        confirm: 'Autoexcluirme',
+      },
+    },
+    locationPrivacy: 'Privacidad de la ubicación',
+    location: 'Ubicación',
+    locationAllowed: 'Permitida',
+    locationDenied: 'Denegada',
+    locationNotDetermined: 'Sin decidir',
+    locationStatus: '{{permission}} · Servicios {{services}}',
+    servicesOn: 'activados',
+    servicesOff: 'desactivados',
+    granted: 'Concedido',
+    requestAccess: 'Solicitar acceso',
+    openSystemSettings: 'Abrir ajustes del sistema',
+    dataAndStorage: 'Datos y almacenamiento',
+    clearData: 'Borrar datos locales',
+    clearDataDescription: 'Elimina todos los mensajes guardados en el dispositivo',
+    clearDataHint: 'Toca dos veces para borrar todos los mensajes locales',
+    clearDataConfirm:
+      'Se eliminarán todos los mensajes guardados en el dispositivo. Esta acción no se puede deshacer.',
+    clear: 'Borrar',
+    clearDataDone: 'Datos locales borrados',
+    success: 'Listo',
+    about: 'Acerca de',
+    version: 'Versión',
+    pushToken: 'Token de notificaciones',
+    notAvailable: 'N/D',
+    logout: 'Cerrar sesión',
+    logoutConfirm: '¿Seguro que quieres cerrar sesión?',
+    logoutButton: 'Botón de cerrar sesión',
+  },
+  chat: {
+    empty: '¡Empieza una conversación sobre apuestas deportivas!',
+    messages: {
+      one: '{{count}} mensaje del chat',
+      other: '{{count}} mensajes del chat',
+    },
+    inputPlaceholder: 'Pregunta sobre apuestas deportivas...',
+    inputLabel: 'Campo de mensaje',
+    inputHint: 'Escribe tu mensaje aquí',
+    send: 'Enviar mensaje',
+    userMessageLabel: 'Dijiste: {{content}}',
+    assistantMessageLabel: 'El asistente dijo: {{content}}',
+    resendHint: 'Toca dos veces para reenviar este mensaje',
+  },
+  search: {
+    title: 'Buscar',
+    close: 'Cerrar búsqueda',
+    placeholder: 'Busca en tus chats',
+    hint: 'Encuentra cualquier mensaje que hayas enviado o recibido en este dispositivo.',
+    noResults: 'Ningún mensaje coincide con "{{query}}"',
+    untitledThread: 'Chat sin título',
+    you: 'Tú',
+    resultMeta: '{{author}} · {{date}}',
+    resultLabel: '{{title}}, {{author}}, {{date}}. Toca dos veces para abrir',
+    filters: {
+      all: 'Todos',
+      mine: 'Míos',
+      assistant: 'Respuestas',
+    },
+  },
+  threads: {
+    title: 'Chats',
+    close: 'Cerrar chats',
+    untitled: 'Chat sin título',
+    messageCount: {
+      one: '{{count}} mensaje',
+      other: '{{count}} mensajes',
+    },
+    pinnedLabel: '{{title}}, fijado',
+    moreActions: 'Más acciones para {{title}}',
+    filters: {
+      all: 'Todos',
+      pinned: 'Fijados',
+      archived: 'Archivados',
+      newFolder: 'Nueva carpeta',
+      deleteFolder: 'Eliminar la carpeta {{name}}',
+    },
+    empty: {
+      all: 'Aún no tienes chats. Inicia una conversación desde la pantalla de inicio.',
+      pinned: 'Fija un chat para mantenerlo al principio de tu lista.',
+      archived: 'Los chats archivados aparecerán aquí.',
+      folder: 'Mueve chats aquí desde su menú de acciones.',
+    },
+    actions: {
+      rename: 'Renombrar',
+      pin: 'Fijar',
+      unpin: 'Dejar de fijar',
+      archive: 'Archivar',
+      unarchive: 'Desarchivar',
+      move: 'Mover a carpeta',
+    },
+    rename: {
+      title: 'Renombrar chat',
+      label: 'Título',
+      save: 'Guardar',
+    },
+    move: {
+      title: 'Mover a carpeta',
+      none: 'Sin carpeta',
+    },
+    newFolder: {
+      title: 'Nueva carpeta',
+      label: 'Nombre de la carpeta',
+      create: 'Crear',
+    },
+    deleteFolder: {
+      title: 'Eliminar carpeta',
+      message: '"{{name}}" se eliminará. Sus chats seguirán en tu lista.',
+      confirm: 'Eliminar',
+    },
+    errors: {
+      updateFailed: 'No se pudo actualizar el chat. Inténtalo de nuevo.',
+      folderFailed: 'No se pudo guardar la carpeta. Inténtalo de nuevo.',
+    },
+  },
+  home: {
+    signIn: 'Iniciar sesión',
+    defaultUserName: 'Usuario',
+    newThreadTitle: 'Chat de apuestas',
+    editingMessage: 'Editando mensaje',
+    messageActions: {
+      edit: 'Editar y reenviar',
+      regenerate: 'Regenerar respuesta',
+      previousVersion: 'Versión anterior',
+      nextVersion: 'Versión siguiente',
+      version: '{{index}} / {{count}}',
+      versionLabel: 'Versión {{index}} de {{count}}',
+    },
+    threadTitle: {
+      inputLabel: 'Título del chat',
+      editHint: 'Toca dos veces para renombrar este chat',
+    },
+    menu: {
+      chats: 'Chats',
+      search: 'Buscar chats',
+      history: 'Historial de apuestas',
+      terms: 'Términos de uso',
+      signOut: 'Cerrar sesión',
+    },
+    examplePrompts: {
+      nbaTitle: 'Analiza los partidos de la NBA de esta noche',
+      nbaSubtitle: 'Muéstrame las mejores oportunidades de apuesta',
+      premierLeagueTitle: '¿Dónde está el valor en la Premier League?',
+      premierLeagueSubtitle: 'Encuentra apuestas infravaloradas este fin de semana',
+      spreadTitle: 'Explica las apuestas con hándicap',
+      spreadSubtitle: 'Ayúdame a entender lo básico',
+      nflTitle: 'Compara equipos de la NFL',
+      nflSubtitle: 'Estadísticas cara a cara de Chiefs contra Bills',
+    },
+    sending: 'Enviando…',
+    notDelivered: 'No entregado. Toca para reintentar',
+    notDeliveredLabel: 'Mensaje no entregado. Toca para reintentar',
+    inputPlaceholder: 'Pregunta lo que quieras sobre apuestas...',
+  },
+  betRecommendation: {
+    title: '🎯 Apuesta recomendada',
+    label: 'Apuesta recomendada: {{selection}} a {{odds}} en {{event}}',
+    hint: 'Toca dos veces para revisar y confirmar esta apuesta',
+    stake: 'Importe',
+    potentialPayout: 'Ganancia potencial',
+  },
+  odds: {
+    impliedLabel: '{{odds}}, {{probability}} implícita',
+  },
+  betConfirmation: {
+    title: 'Confirmar apuesta',
+    betType: 'Tipo de apuesta',
+    selection: 'Selección',
+    odds: 'Cuota',
+    compareOdds: 'Comparar cuotas',
+    compareOddsLabel: 'Comparar cuotas entre casas de apuestas',
+    stake: 'Importe',
+    suggestedStake: 'Sugerido {{amount}} · {{strategy}}',
+    strategies: {
+      fixedUnit: 'unidad fija',
+      percentage: '{{percent}}% del bankroll',
+      kelly: '{{fraction}}× Kelly',
+    },
+    potentialPayout: 'Ganancia potencial',
+    reasoning: '¿Por qué esta apuesta?',
+    sportsbook: 'Casa de apuestas',
+    redirectNote: 'Te llevaremos a la app de {{sportsbook}} en modo guiado',
+    useAlternative: 'Usar {{sportsbook}} en su lugar',
+    alternativeOddsNote: 'Las cuotas en {{sportsbook}} pueden diferir de la línea anterior',
+    locationUnknown:
+      'Permite el acceso a la ubicación para comprobar que esta casa de apuestas está disponible en tu estado',
+    oddsMoved: 'La cuota cambió de {{from}} a {{to}}. Revisa el nuevo precio antes de confirmar.',
+    acceptOdds: 'Aceptar nueva cuota',
+    cancelLabel: 'Cancelar apuesta',
+    confirm: 'Confirmar y abrir',
+    confirmLabel: 'Confirmar la apuesta y abrir la casa de apuestas',
+    addToParlay: 'Añadir al parlay',
+    addToParlayLabel: 'Añadir la apuesta al boleto de parlay',
+    inParlay: 'En el boleto de parlay',
+    inParlayLabel: 'Ya está en el boleto de parlay',
+    sportsbookNotOpened:
+      'Tu apuesta quedó registrada, pero no se pudo abrir la casa de apuestas. Instala su app o visita su sitio web para colocarla.',
+  },
+  lineShopping: {
+    title: 'Comparar cuotas',
+    loadFailed: 'No se pudieron cargar las cuotas de otras casas de apuestas.',
+    retry: 'Reintentar',
+    edgeFootnote:
+      'La ventaja es la probabilidad implícita que ahorras frente al precio recomendado.',
+    close: 'Cerrar',
+    rowLabel: '{{sportsbook}} a {{odds}}',
+    implied: '{{probability}} implícita',
+    unavailable: 'No disponible en tu estado',
+    bestPrice: 'Mejor precio',
+    recommended: 'Recomendada',
+  },
+  parlaySlip: {
+    title: 'Boleto de parlay',
+    button: 'Boleto de parlay ({{count}})',
+    openLabel: {
+      one: 'Abrir el boleto de parlay con {{count}} selección',
+      other: 'Abrir el boleto de parlay con {{count}} selecciones',
+    },
+    empty: 'Añade recomendaciones del chat para armar un parlay.',
+    correlatedWarning:
+      'Algunas selecciones son del mismo evento. Las casas de apuestas pueden rechazar o recalcular los parlays correlacionados.',
+    mixedSportsbooks:
+      'Todas las selecciones deben ser de la misma casa de apuestas para hacer un solo parlay.',
+    stake: 'Importe',
+    stakeLabel: 'Importe del parlay',
+    legs: 'Selecciones',
+    combinedOdds: 'Cuota combinada',
+    potentialPayout: 'Ganancia potencial',
+    removeLeg: 'Quitar {{selection}} del parlay',
+    clear: 'Vaciar',
+    clearLabel: 'Vaciar el boleto de parlay',
+    confirm: 'Confirmar y abrir',
+    confirmLabel: 'Confirmar el parlay y abrir la casa de apuestas',
+  },
+  performance: {
+    profit: 'Ganancia',
+    roi: 'ROI',
+    units: 'Unidades',
+    winRate: 'Tasa de acierto',
+    record: {
+      one: '{{won}}-{{lost}}-{{pushed}} en {{count}} apuesta liquidada',
+      other: '{{won}}-{{lost}}-{{pushed}} en {{count}} apuestas liquidadas',
+    },
+    otherCurrencies: {
+      one: '{{count}} en otra moneda sin incluir',
+      other: '{{count}} en otras monedas sin incluir',
+    },
+    dimensions: {
+      sport: 'Deporte',
+      league: 'Liga',
+      betType: 'Tipo',
+      sportsbook: 'Casa',
+    },
+    groupRecord: '{{won}}-{{lost}}-{{pushed}} • {{winRate}} aciertos',
+    groupRoi: 'ROI {{roi}}',
+    chartLabel: 'Gráfico de ganancia acumulada, actualmente {{profit}}',
+  },
+  history: {
+    title: 'Historial de apuestas',
+    close: 'Cerrar historial de apuestas',
+    empty: 'Aún no tienes apuestas. ¡Empieza a chatear para recibir recomendaciones!',
+    listLabel: 'Lista del historial de apuestas',
+    untitledBet: 'Apuesta #{{id}}',
+    stakeToPay: '{{stake}} para cobrar {{payout}}',
+    betLabel: '{{title}}, {{status}}, confirmada el {{date}}',
+    status: {
+      pending: 'Pendiente',
+      won: 'Ganada',
+      lost: 'Perdida',
+      push: 'Empate',
+      void: 'Anulada',
+    },
+  },
+  forgotPassword: {
+    header: 'Restablecer contraseña',
+    title: '¿Olvidaste tu contraseña?',
+    subtitle:
+      '¡No te preocupes! Escribe tu correo y te enviaremos instrucciones para restablecer tu contraseña.',
+    submit: 'Enviar enlace',
+    rememberPassword: '¿Recuerdas tu contraseña? ',
+    backToLogin: 'Volver a iniciar sesión',
+    successHeader: 'Contraseña restablecida',
+    successTitle: 'Revisa tu correo',
+    successMessage: 'Enviamos instrucciones para restablecer tu contraseña a',
+    notReceived:
+      '¿No recibiste el correo? Revisa tu carpeta de spam o inténtalo de nuevo en unos minutos.',
+    tryDifferentEmail: 'Probar con otro correo',
+    errors: {
+      missingEmail: 'Escribe tu correo electrónico',
+      resetFailed: 'No se pudo enviar el correo de restablecimiento',
+    },
+  },
+  jurisdiction: {
+    prohibited: 'Las apuestas deportivas en línea no son legales en {{state}}.',
+    unavailable: 'No disponible en {{state}}.',
+    unavailableWithAlternative: 'No disponible en {{state}}. {{sportsbook}} sí lo está.',
+  },
+  betBlocked: {
+    selfExclusion: 'Estás autoexcluido de las apuestas hasta el {{date}}.',
+    coolOff: 'Estás en una pausa hasta el {{date}}.',
+    stakeLimit: {
+      daily:
+        'Esta apuesta superaría tu límite diario de {{limit}}. Puedes apostar hasta {{remaining}} más.',
+      weekly:
+        'Esta apuesta superaría tu límite semanal de {{limit}}. Puedes apostar hasta {{remaining}} más.',
+      monthly:
+        'Esta apuesta superaría tu límite mensual de {{limit}}. Puedes apostar hasta {{remaining}} más.',
+    },
+    currencyMismatch:
+      'Tus límites de apuesta están en {{currency}}, así que no podemos comprobar apuestas en otras monedas.',
+    parlayTooShort: 'Un parlay necesita al menos dos selecciones.',
+    generic: 'Algo salió mal. Inténtalo de nuevo.',
+  },
+  errorBoundary: {
+    title: '¡Ups! Algo salió mal',
+    message: 'Sentimos las molestias. El error se ha notificado a nuestro equipo.',
+    retry: 'Reintentar',
+  },
+};
@@ -10,9 +10,11 @@ import {
 import { TextInput, IconButton, ActivityIndicator, Text, useTheme } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { ChatMessage } from '@/components/ChatMessage';
-import { useChatMessages, useSendMessage } from '@/hooks/useChat';
+import { ParlaySlipButton } from '@/components/ParlaySlipButton';
+import { useChatMessages, useSendMessage, useRetryMessage } from '@/hooks/useChat';
 import { useSSEStream } from '@/hooks/useSSEStream';
-import { useUIStore } from '@/stores/ui.store';
+import { useOpenBetRecommendation } from '@/hooks/useBetting';
+import { useTranslation } from '@/hooks/useTranslation';
 import { useChatStore } from '@/stores/chat.store';
 import { databaseService } from '@/services/database.service';
 import { logger } from '@/utils/logger';
@@ -25,13 +27,14 @@ interface ChatScreenProps {
 
 export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
   const theme = useTheme();
+  const { t } = useTranslation();
   const [inputText, setInputText] = useState('');
   const flatListRef = useRef<FlatList>(null);
   const inputRef = useRef<RNTextInput>(null);
 
   const { data: messages, isLoading, refetch } = useChatMessages(threadId);
   const sendMessage = useSendMessage(threadId);
-  const { openBottomSheet } = useUIStore();
+  const retryMessage = useRetryMessage(threadId);
   const { activeStream, streamBuffer } = useChatStore();
 
   const {
@@ -42,7 +45,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
     startStreaming,
   } = useSSEStream({
     threadId,
-    onComplete: (fullMessage) => {
+    onComplete: (fullMessage, recommendations) => {
       // Save completed assistant message to database
       const assistantMessage: ChatMessageType = {
         id: `${threadId}-${Date.now()}`,
@@ -50,6 +53,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
         role: 'assistant',
         content: fullMessage,
         timestamp: new Date().toISOString(),
+        ...(recommendations.length > 0 && { metadata: { betRecommendations: recommendations } }),
       };
 
       databaseService.saveMessage({
@@ -109,10 +113,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
     }
   };
 
-  const handleShowBetRecommendation = (recommendationId: string) => {
-    // Fetch recommendation and open bottom sheet
-    openBottomSheet('bet-confirmation', { recommendationId });
-  };
+  const handleShowBetRecommendation = useOpenBetRecommendation();
 
   const combinedMessages = React.useMemo(() => {
     const allMessages = [...(messages || [])];
@@ -154,19 +155,23 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
           data={combinedMessages}
           keyExtractor={(item) => item.id}
           renderItem={({ item }) => (
-            <ChatMessage message={item} showBetRecommendation={handleShowBetRecommendation} />
+            <ChatMessage
+              message={item}
+              showBetRecommendation={handleShowBetRecommendation}
+              onRetry={retryMessage.mutate}
+            />
           )}
           inverted
           contentContainerStyle={styles.messageList}
           ListEmptyComponent={
             <View style={styles.emptyContainer}>
               <Text variant="bodyLarge" style={styles.emptyText}>
-                Start a conversation about sports betting!
+                {t('chat.empty')}
               </Text>
             </View>
           }
           accessible
-          accessibilityLabel="Chat messages"
+          accessibilityLabel={t('chat.messages', { count: combinedMessages.length })}
         />
 
         {streamError && (
@@ -175,13 +180,15 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
           </View>
         )}
 
+        <ParlaySlipButton />
+
         <View style={[styles.inputContainer, { backgroundColor: theme.colors.surface }]}>
           <TextInput
             ref={inputRef}
             style={styles.input}
             value={inputText}
             onChangeText={setInputText}
-            placeholder="Ask about sports betting..."
+            placeholder={t('chat.inputPlaceholder')}
             mode="outlined"
             multiline
             maxLength={500}
@@ -189,8 +196,8 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
             onSubmitEditing={handleSend}
             returnKeyType="send"
             accessible
-            accessibilityLabel="Message input"
-            accessibilityHint="Type your message here"
+            accessibilityLabel={t('chat.inputLabel')}
+            accessibilityHint={t('chat.inputHint')}
           />
           <IconButton
             icon="send"
@@ -199,7 +206,7 @@ export const ChatScreen: React.FC<ChatScreenProps> = ({ threadId }) => {
             onPress={handleSend}
             loading={sendMessage.isPending}
             accessible
-            accessibilityLabel="Send message"
+            accessibilityLabel={t('chat.send')}
             accessibilityRole="button"
           />
         </View>
@@ -14,6 +14,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuthStore } from '@/stores/auth.store';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface ForgotPasswordScreenProps {
   onBack: () => void;
@@ -24,6 +25,7 @@ export default function ForgotPasswordScreen({
   onBack,
   onSuccess,
 }: ForgotPasswordScreenProps) {
+  const { t } = useTranslation();
   const [email, setEmail] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -41,12 +43,12 @@ export default function ForgotPasswordScreen({
 
     // Validation
     if (!email) {
-      setError('Please enter your email address');
+      setError(t('forgotPassword.errors.missingEmail'));
       return;
     }
 
     if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+      setError(t('common.errors.enterValidEmail'));
       return;
     }
 
@@ -55,7 +57,7 @@ export default function ForgotPasswordScreen({
       await requestPasswordReset(email.trim().toLowerCase());
       setSuccess(true);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Failed to send reset email';
+      const errorMessage = err instanceof Error ? err.message : t('forgotPassword.errors.resetFailed');
       setError(errorMessage);
     } finally {
       setIsLoading(false);
@@ -69,7 +71,7 @@ export default function ForgotPasswordScreen({
           {/* Header */}
           <View style={styles.header}>
             <View style={styles.backButton} />
-            <Text style={styles.headerTitle}>Password Reset</Text>
+            <Text style={styles.headerTitle}>{t('forgotPassword.successHeader')}</Text>
             <View style={styles.backButton} />
           </View>
 
@@ -86,16 +88,17 @@ export default function ForgotPasswordScreen({
               </LinearGradient>
             </View>
 
-            <Text style={styles.successTitle}>Check Your Email</Text>
+            <Text style={styles.successTitle}>{t('forgotPassword.successTitle')}</Text>
             <Text style={styles.successMessage}>
-              We've sent password reset instructions to{'\n'}
+              {t('forgotPassword.successMessage')}
+              {'\n'}
               <Text style={styles.emailText}>{email}</Text>
             </Text>
 
             <View style={styles.infoBox}>
               <Ionicons name="information-circle" size={20} color="#8B5CF6" />
               <Text style={styles.infoText}>
-                Didn't receive the email? Check your spam folder or try again in a few minutes.
+                {t('forgotPassword.notReceived')}
               </Text>
             </View>
 
@@ -112,7 +115,7 @@ export default function ForgotPasswordScreen({
                   end={{ x: 1, y: 0 }}
                   style={styles.buttonGradient}
                 >
-                  <Text style={styles.primaryButtonText}>Back to Login</Text>
+                  <Text style={styles.primaryButtonText}>{t('forgotPassword.backToLogin')}</Text>
                 </LinearGradient>
               </TouchableOpacity>
 
@@ -124,7 +127,9 @@ export default function ForgotPasswordScreen({
                 }}
                 activeOpacity={0.7}
               >
-                <Text style={styles.secondaryButtonText}>Try Different Email</Text>
+                <Text style={styles.secondaryButtonText}>
+                  {t('forgotPassword.tryDifferentEmail')}
+                </Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -154,7 +159,7 @@ export default function ForgotPasswordScreen({
             >
               <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Reset Password</Text>
+            <Text style={styles.headerTitle}>{t('forgotPassword.header')}</Text>
             <View style={styles.backButton} />
           </View>
 
@@ -167,10 +172,8 @@ export default function ForgotPasswordScreen({
 
           {/* Content */}
           <View style={styles.contentSection}>
-            <Text style={styles.title}>Forgot Your Password?</Text>
-            <Text style={styles.subtitle}>
-              No worries! Enter your email address and we'll send you instructions to reset your password.
-            </Text>
+            <Text style={styles.title}>{t('forgotPassword.title')}</Text>
+            <Text style={styles.subtitle}>{t('forgotPassword.subtitle')}</Text>
           </View>
 
           {/* Error Message */}
@@ -184,7 +187,7 @@ export default function ForgotPasswordScreen({
           {/* Form */}
           <View style={styles.formSection}>
             <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>Email</Text>
+              <Text style={styles.inputLabel}>{t('common.email')}</Text>
               <View style={styles.inputWrapper}>
                 <Ionicons
                   name="mail-outline"
@@ -194,7 +197,7 @@ export default function ForgotPasswordScreen({
                 />
                 <TextInput
                   style={styles.input}
-                  placeholder="Enter your email"
+                  placeholder={t('common.emailPlaceholder')}
                   placeholderTextColor="#525252"
                   value={email}
                   onChangeText={setEmail}
@@ -223,7 +226,7 @@ export default function ForgotPasswordScreen({
                   end={{ x: 1, y: 0 }}
                   style={styles.buttonGradient}
                 >
-                  <Text style={styles.submitButtonText}>Send Reset Link</Text>
+                  <Text style={styles.submitButtonText}>{t('forgotPassword.submit')}</Text>
                 </LinearGradient>
               )}
             </TouchableOpacity>
@@ -233,9 +236,9 @@ export default function ForgotPasswordScreen({
           <View style={styles.helpSection}>
             <Ionicons name="help-circle-outline" size={20} color="#737373" />
             <Text style={styles.helpText}>
-              Remember your password?{' '}
+              {t('forgotPassword.rememberPassword')}
               <Text style={styles.helpLink} onPress={onBack}>
-                Back to Login
+                {t('forgotPassword.backToLogin')}
               </Text>
             </Text>
           </View>
@@ -1,34 +1,140 @@
-import React from 'react';
+import React, { useCallback, useEffect } from 'react';
 import { View, StyleSheet, FlatList } from 'react-native';
 import { List, Text, ActivityIndicator, useTheme, Chip } from 'react-native-paper';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { useBetHistory } from '@/hooks/useBetting';
-import { formatRelativeTime, type BetConfirmation } from '@betthink/shared';
+import { useBetHistory, useSyncBetHistory } from '@/hooks/useBetting';
+import { useAuthStore } from '@/stores/auth.store';
+import { useOddsFormat } from '@/hooks/useOddsFormat';
+import { useMoneyFormat } from '@/hooks/useMoneyFormat';
+import { useTranslation } from '@/hooks/useTranslation';
+import { formatDateTime, type TranslationKey, type TranslationParams } from '@/i18n';
+import { PerformanceDashboard } from '@/components/PerformanceDashboard';
+import { getBetProfit } from '@/utils/settlement';
+import { calculatePayout } from '@/utils/staking';
+import { getAmountCurrency } from '@/utils/money';
+import type {
+  BetLedgerEntry,
+  BetSettlementStatus,
+  CurrencyCode,
+  SportsbookOdds,
+} from '@/types/bet';
 import { spacing } from '@/theme';
 
+const STATUS_LABEL_KEYS: Record<BetSettlementStatus | 'pending', TranslationKey> = {
+  pending: 'history.status.pending',
+  won: 'history.status.won',
+  lost: 'history.status.lost',
+  push: 'history.status.push',
+  void: 'history.status.void',
+};
+
+type Translate = (key: TranslationKey, params?: TranslationParams) => string;
+
+const getBetTitle = (item: BetLedgerEntry, t: Translate): string =>
+  item.recommendation
+    ? `${item.recommendation.selection} • ${item.recommendation.betType}`
+    : t('history.untitledBet', { id: item.betRecommendationId.slice(0, 8) });
+
+type PriceFormatter = (price: Pick<SportsbookOdds, 'odds' | 'oddsFormat'>) => string;
+type AmountFormatter = (amount: number, currency: CurrencyCode) => string;
+
+interface BetFormatters {
+  t: Translate;
+  formatDate: (value: string) => string;
+  formatOdds: PriceFormatter;
+  formatImpliedProbability: PriceFormatter;
+  formatMoney: AmountFormatter;
+  formatProfit: AmountFormatter;
+}
+
+const getBetDescription = (item: BetLedgerEntry, formatters: BetFormatters): string => {
+  const confirmed = formatters.formatDate(item.confirmedAt);
+  if (!item.recommendation) return confirmed;
+
+  const { event, sportsbook, stake, odds, oddsFormat } = item.recommendation;
+  // Each bet keeps the currency it was placed in, whatever the user's current preference
+  const currency = getAmountCurrency(item.recommendation);
+  const price = `${formatters.formatOdds({ odds, oddsFormat })} (${formatters.formatImpliedProbability({ odds, oddsFormat })})`;
+  const amounts = formatters.t('history.stakeToPay', {
+    stake: formatters.formatMoney(stake, currency),
+    payout: formatters.formatMoney(calculatePayout(stake, odds, oddsFormat), currency),
+  });
+  const profit = getBetProfit(item);
+  const result = profit === null ? '' : ` • ${formatters.formatProfit(profit, currency)}`;
+  return `${event}\n${price} • ${amounts}\n${sportsbook.name}${result} • ${confirmed}`;
+};
+
 export const HistoryScreen: React.FC = () => {
   const theme = useTheme();
-  const { data: bets, isLoading } = useBetHistory();
-
-  const renderBet = ({ item }: { item: BetConfirmation }) => (
-    <List.Item
-      title={`Bet #${item.betRecommendationId.slice(0, 8)}`}
-      description={formatRelativeTime(item.confirmedAt)}
-      left={(props) => <List.Icon {...props} icon="cash" />}
-      right={() => (
-        <Chip
-          mode="outlined"
-          style={[styles.chip, { borderColor: theme.colors.primary }]}
-          textStyle={{ color: theme.colors.primary }}
-        >
-          Confirmed
-        </Chip>
-      )}
-      style={[styles.listItem, { backgroundColor: theme.colors.surface }]}
-      accessible
-      accessibilityLabel={`Bet confirmed ${formatRelativeTime(item.confirmedAt)}`}
-    />
-  );
+  const { t, language } = useTranslation();
+  const userId = useAuthStore((state) => state.user?.id) || '';
+  const { data: bets, isLoading } = useBetHistory(userId);
+  const { mutate: syncHistory, isPending: isSyncing } = useSyncBetHistory();
+  const { formatOdds, formatImpliedProbability } = useOddsFormat();
+  const { formatMoney, formatProfit } = useMoneyFormat();
+  const formatDate = (value: string) => formatDateTime(value, language);
+  const formatters = {
+    t,
+    formatDate,
+    formatOdds,
+    formatImpliedProbability,
+    formatMoney,
+    formatProfit,
+  };
+
+  const handleRefresh = useCallback(() => {
+    if (userId) syncHistory(userId);
+  }, [userId, syncHistory]);
+
+  // Show the local ledger immediately and pull anything new in the background
+  useEffect(() => {
+    handleRefresh();
+  }, [handleRefresh]);
+
+  const getStatusColor = (status: BetSettlementStatus | 'pending'): string => {
+    switch (status) {
+      case 'won':
+        return theme.colors.secondary;
+      case 'lost':
+        return theme.colors.error;
+      case 'pending':
+        return theme.colors.primary;
+      default:
+        return theme.colors.onSurfaceVariant;
+    }
+  };
+
+  const renderBet = ({ item }: { item: BetLedgerEntry }) => {
+    const status = item.settlement?.status ?? 'pending';
+    const statusColor = getStatusColor(status);
+    const statusLabel = t(STATUS_LABEL_KEYS[status]);
+    const title = getBetTitle(item, t);
+
+    return (
+      <List.Item
+        title={title}
+        description={getBetDescription(item, formatters)}
+        descriptionNumberOfLines={3}
+        left={(props) => <List.Icon {...props} icon="cash" />}
+        right={() => (
+          <Chip
+            mode="outlined"
+            style={[styles.chip, { borderColor: statusColor }]}
+            textStyle={{ color: statusColor }}
+          >
+            {statusLabel}
+          </Chip>
+        )}
+        style={[styles.listItem, { backgroundColor: theme.colors.surface }]}
+        accessible
+        accessibilityLabel={t('history.betLabel', {
+          title,
+          status: statusLabel,
+          date: formatDate(item.confirmedAt),
+        })}
+      />
+    );
+  };
 
   if (isLoading) {
     return (
@@ -48,16 +154,19 @@ export const HistoryScreen: React.FC = () => {
         keyExtractor={(item) => item.betRecommendationId}
         renderItem={renderBet}
         contentContainerStyle={styles.listContent}
+        refreshing={isSyncing}
+        onRefresh={handleRefresh}
+        ListHeaderComponent={<PerformanceDashboard userId={userId} />}
         ItemSeparatorComponent={() => <View style={styles.separator} />}
         ListEmptyComponent={
           <View style={styles.emptyContainer}>
             <Text variant="bodyLarge" style={styles.emptyText}>
-              No bet history yet. Start chatting to get recommendations!
+              {t('history.empty')}
             </Text>
           </View>
         }
         accessible
-        accessibilityLabel="Bet history list"
+        accessibilityLabel={t('history.listLabel')}
       />
     </SafeAreaView>
   );
@@ -14,6 +14,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuthStore } from '@/stores/auth.store';
 import { useLocation } from '../hooks/useLocation';
+import { useTranslation } from '@/hooks/useTranslation';
+import { Trans } from '@/components/Trans';
 import TermsOfServiceScreen from './TermsOfServiceScreen';
 import PrivacyPolicyScreen from './PrivacyPolicyScreen';
 import LocationPermissionModal from '../components/LocationPermissionModal';
@@ -24,6 +26,7 @@ import ForgotPasswordScreen from './ForgotPasswordScreen';
 type AuthView = 'landing' | 'login' | 'signup' | 'forgotPassword';
 
 export default function LandingScreen({ onAuthenticated }: { onAuthenticated: () => void }) {
+  const { t } = useTranslation();
   const [currentView, setCurrentView] = useState<AuthView>('landing');
   const [disclaimerAccepted, setDisclaimerAccepted] = useState(false);
   const [showDisclaimerModal, setShowDisclaimerModal] = useState(false);
@@ -76,16 +79,12 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
 
   const handleSignupSuccess = (email: string) => {
     // Show success message and navigate to login
-    Alert.alert(
-      'Account Created! 📧',
-      `We've sent a verification email to ${email}. Please verify your email and then log in.`,
-      [
-        {
-          text: 'OK',
-          onPress: () => setCurrentView('login'),
-        },
-      ]
-    );
+    Alert.alert(t('landing.signupSuccessTitle'), t('landing.signupSuccessMessage', { email }), [
+      {
+        text: t('common.ok'),
+        onPress: () => setCurrentView('login'),
+      },
+    ]);
   };
 
   const handleLocationPermission = async () => {
@@ -181,25 +180,25 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
                 <Ionicons name="analytics-outline" size={48} color="#FFFFFF" />
               </LinearGradient>
             </View>
-            <Text style={styles.appName}>BetThink.io</Text>
+            <Text style={styles.appName}>{t('common.appName')}</Text>
           </View>
 
           {/* Features */}
           <View style={styles.featuresSection}>
             <FeatureItem
               icon="chatbubble-ellipses-outline"
-              title="AI Chat Assistant"
-              description="Chat with our AI for personalized betting insights"
+              title={t('landing.features.chatTitle')}
+              description={t('landing.features.chatDescription')}
             />
             <FeatureItem
               icon="stats-chart-outline"
-              title="Real-time Analysis"
-              description="Get live odds and game predictions"
+              title={t('landing.features.analysisTitle')}
+              description={t('landing.features.analysisDescription')}
             />
             <FeatureItem
               icon="shield-checkmark-outline"
-              title="Responsible Betting"
-              description="Tools to help you bet responsibly"
+              title={t('landing.features.responsibleTitle')}
+              description={t('landing.features.responsibleDescription')}
             />
           </View>
 
@@ -209,6 +208,9 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
               <TouchableOpacity
                 onPress={() => setDisclaimerAccepted(!disclaimerAccepted)}
                 activeOpacity={0.7}
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: disclaimerAccepted }}
+                accessibilityLabel={t('landing.disclaimerCheckbox')}
               >
                 <View style={[styles.checkbox, disclaimerAccepted && styles.checkboxChecked]}>
                   {disclaimerAccepted && (
@@ -217,14 +219,17 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
                 </View>
               </TouchableOpacity>
               <Text style={styles.disclaimerText}>
-                I am 21+ and acknowledge that gambling involves risk. I agree to the{' '}
-                <Text style={styles.disclaimerLink} onPress={() => setShowTerms(true)}>
-                  Terms of Service
-                </Text>{' '}
-                and{' '}
-                <Text style={styles.disclaimerLink} onPress={() => setShowPrivacy(true)}>
-                  Privacy Policy
-                </Text>.
+                <Trans
+                  i18nKey="landing.disclaimer"
+                  components={{
+                    terms: (
+                      <Text style={styles.disclaimerLink} onPress={() => setShowTerms(true)} />
+                    ),
+                    privacy: (
+                      <Text style={styles.disclaimerLink} onPress={() => setShowPrivacy(true)} />
+                    ),
+                  }}
+                />
               </Text>
             </View>
           </View>
@@ -243,7 +248,7 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
                 end={{ x: 1, y: 0 }}
                 style={styles.buttonGradient}
               >
-                <Text style={styles.primaryButtonText}>Log In</Text>
+                <Text style={styles.primaryButtonText}>{t('common.logIn')}</Text>
               </LinearGradient>
             </TouchableOpacity>
 
@@ -253,12 +258,10 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
               disabled={isLoading}
               activeOpacity={0.8}
             >
-              <Text style={styles.secondaryButtonText}>Sign Up</Text>
+              <Text style={styles.secondaryButtonText}>{t('common.signUp')}</Text>
             </TouchableOpacity>
 
-            <Text style={styles.footerText}>
-              New to sports betting? We'll guide you through the basics.
-            </Text>
+            <Text style={styles.footerText}>{t('landing.footer')}</Text>
           </View>
         </View>
 
@@ -289,54 +292,48 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
             <View style={styles.modalContent}>
               <View style={styles.modalHeader}>
                 <Ionicons name="warning-outline" size={48} color="#F59E0B" />
-                <Text style={styles.modalTitle}>Important Notice</Text>
+                <Text style={styles.modalTitle}>{t('landing.notice.title')}</Text>
               </View>
 
               <ScrollView style={styles.modalBody} showsVerticalScrollIndicator={false}>
-                <Text style={styles.modalText}>
-                  Before continuing, please read and accept our terms:
-                </Text>
+                <Text style={styles.modalText}>{t('landing.notice.intro')}</Text>
 
                 <View style={styles.modalSection}>
-                  <Text style={styles.modalSectionTitle}>Age Requirement</Text>
-                  <Text style={styles.modalSectionText}>
-                    You must be 21 years or older to use this application.
-                  </Text>
+                  <Text style={styles.modalSectionTitle}>{t('landing.notice.ageTitle')}</Text>
+                  <Text style={styles.modalSectionText}>{t('landing.notice.ageText')}</Text>
                 </View>
 
                 <View style={styles.modalSection}>
-                  <Text style={styles.modalSectionTitle}>Gambling Awareness</Text>
-                  <Text style={styles.modalSectionText}>
-                    Gambling involves financial risk. Only bet what you can afford to lose.
-                    If you or someone you know has a gambling problem, call the National
-                    Problem Gambling Helpline at 1-800-522-4700.
-                  </Text>
+                  <Text style={styles.modalSectionTitle}>{t('landing.notice.gamblingTitle')}</Text>
+                  <Text style={styles.modalSectionText}>{t('landing.notice.gamblingText')}</Text>
                 </View>
 
                 <View style={styles.modalSection}>
-                  <Text style={styles.modalSectionTitle}>Terms & Privacy</Text>
+                  <Text style={styles.modalSectionTitle}>{t('landing.notice.termsTitle')}</Text>
                   <Text style={styles.modalSectionText}>
-                    By proceeding, you agree to our{' '}
-                    <Text
-                      style={styles.modalLink}
-                      onPress={() => {
-                        setShowDisclaimerModal(false);
-                        setTimeout(() => setShowTerms(true), 300);
-                      }}
-                    >
-                      Terms of Service
-                    </Text>{' '}
-                    and{' '}
-                    <Text
-                      style={styles.modalLink}
-                      onPress={() => {
-                        setShowDisclaimerModal(false);
-                        setTimeout(() => setShowPrivacy(true), 300);
+                    <Trans
+                      i18nKey="landing.notice.termsText"
+                      components={{
+                        terms: (
+                          <Text
+                            style={styles.modalLink}
+                            onPress={() => {
+                              setShowDisclaimerModal(false);
+                              setTimeout(() => setShowTerms(true), 300);
+                            }}
+                          />
+                        ),
+                        privacy: (
+                          <Text
+                            style={styles.modalLink}
+                            onPress={() => {
+                              setShowDisclaimerModal(false);
+                              setTimeout(() => setShowPrivacy(true), 300);
+                            }}
+                          />
+                        ),
                       }}
-                    >
-                      Privacy Policy
-                    </Text>
-                    . We collect and process data as described in our policies.
+                    />
                   </Text>
                 </View>
               </ScrollView>
@@ -347,7 +344,7 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
                   onPress={() => setShowDisclaimerModal(false)}
                   activeOpacity={0.7}
                 >
-                  <Text style={styles.modalSecondaryButtonText}>Cancel</Text>
+                  <Text style={styles.modalSecondaryButtonText}>{t('common.cancel')}</Text>
                 </TouchableOpacity>
 
                 <TouchableOpacity
@@ -361,7 +358,7 @@ export default function LandingScreen({ onAuthenticated }: { onAuthenticated: ()
                     end={{ x: 1, y: 0 }}
                     style={styles.buttonGradient}
                   >
-                    <Text style={styles.modalPrimaryButtonText}>I Accept</Text>
+                    <Text style={styles.modalPrimaryButtonText}>{t('landing.notice.accept')}</Text>
                   </LinearGradient>
                 </TouchableOpacity>
               </View>
@@ -15,6 +15,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuthStore } from '@/stores/auth.store';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface LoginScreenProps {
   onBack: () => void;
@@ -29,6 +30,7 @@ export default function LoginScreen({
   onNavigateToForgotPassword,
   onSuccess,
 }: LoginScreenProps) {
+  const { t } = useTranslation();
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [showPassword, setShowPassword] = useState(false);
@@ -47,12 +49,12 @@ export default function LoginScreen({
 
     // Validation
     if (!email || !password) {
-      setError('Please enter both email and password');
+      setError(t('login.errors.missingCredentials'));
       return;
     }
 
     if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+      setError(t('common.errors.enterValidEmail'));
       return;
     }
 
@@ -61,7 +63,7 @@ export default function LoginScreen({
       await loginWithPassword({ email: email.trim().toLowerCase(), password });
       onSuccess();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Login failed';
+      const errorMessage = err instanceof Error ? err.message : t('login.errors.loginFailed');
       setError(errorMessage);
     } finally {
       setIsLoading(false);
@@ -75,7 +77,7 @@ export default function LoginScreen({
       await login(); // This opens Auth0 Universal Login for social
       onSuccess();
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Social login failed';
+      const errorMessage = err instanceof Error ? err.message : t('login.errors.socialLoginFailed');
       setError(errorMessage);
     } finally {
       setIsLoading(false);
@@ -99,18 +101,19 @@ export default function LoginScreen({
               onPress={onBack}
               style={styles.backButton}
               activeOpacity={0.7}
+              accessibilityLabel={t('common.back')}
             >
               <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Log In</Text>
+            <Text style={styles.headerTitle}>{t('common.logIn')}</Text>
             <View style={styles.backButton} />
           </View>
 
           {/* Welcome Message */}
           <View style={styles.welcomeSection}>
-            <Text style={styles.welcomeTitle}>Welcome Back</Text>
+            <Text style={styles.welcomeTitle}>{t('login.welcomeTitle')}</Text>
             <Text style={styles.welcomeSubtitle}>
-              Sign in to continue to BetThink.io
+              {t('login.welcomeSubtitle', { appName: t('common.appName') })}
             </Text>
           </View>
 
@@ -126,7 +129,7 @@ export default function LoginScreen({
           <View style={styles.formSection}>
             {/* Email Input */}
             <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>Email</Text>
+              <Text style={styles.inputLabel}>{t('common.email')}</Text>
               <View style={styles.inputWrapper}>
                 <Ionicons
                   name="mail-outline"
@@ -136,7 +139,7 @@ export default function LoginScreen({
                 />
                 <TextInput
                   style={styles.input}
-                  placeholder="Enter your email"
+                  placeholder={t('common.emailPlaceholder')}
                   placeholderTextColor="#525252"
                   value={email}
                   onChangeText={setEmail}
@@ -150,7 +153,7 @@ export default function LoginScreen({
 
             {/* Password Input */}
             <View style={styles.inputContainer}>
-              <Text style={styles.inputLabel}>Password</Text>
+              <Text style={styles.inputLabel}>{t('common.password')}</Text>
               <View style={styles.inputWrapper}>
                 <Ionicons
                   name="lock-closed-outline"
@@ -160,7 +163,7 @@ export default function LoginScreen({
                 />
                 <TextInput
                   style={styles.input}
-                  placeholder="Enter your password"
+                  placeholder={t('login.passwordPlaceholder')}
                   placeholderTextColor="#525252"
                   value={password}
                   onChangeText={setPassword}
@@ -173,6 +176,9 @@ export default function LoginScreen({
                   onPress={() => setShowPassword(!showPassword)}
                   style={styles.eyeIcon}
                   activeOpacity={0.7}
+                  accessibilityLabel={
+                    showPassword ? t('common.hidePassword') : t('common.showPassword')
+                  }
                 >
                   <Ionicons
                     name={showPassword ? 'eye-off-outline' : 'eye-outline'}
@@ -189,7 +195,7 @@ export default function LoginScreen({
               disabled={isLoading}
               activeOpacity={0.7}
             >
-              <Text style={styles.forgotPasswordText}>Forgot Password?</Text>
+              <Text style={styles.forgotPasswordText}>{t('login.forgotPassword')}</Text>
             </TouchableOpacity>
 
             {/* Login Button */}
@@ -208,7 +214,7 @@ export default function LoginScreen({
                   end={{ x: 1, y: 0 }}
                   style={styles.buttonGradient}
                 >
-                  <Text style={styles.loginButtonText}>Log In</Text>
+                  <Text style={styles.loginButtonText}>{t('common.logIn')}</Text>
                 </LinearGradient>
               )}
             </TouchableOpacity>
@@ -217,7 +223,7 @@ export default function LoginScreen({
           {/* Divider */}
           <View style={styles.divider}>
             <View style={styles.dividerLine} />
-            <Text style={styles.dividerText}>OR</Text>
+            <Text style={styles.dividerText}>{t('common.or')}</Text>
             <View style={styles.dividerLine} />
           </View>
 
@@ -230,7 +236,7 @@ export default function LoginScreen({
               activeOpacity={0.7}
             >
               <Ionicons name="logo-google" size={20} color="#FFFFFF" />
-              <Text style={styles.socialButtonText}>Continue with Google</Text>
+              <Text style={styles.socialButtonText}>{t('common.continueWithGoogle')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity
@@ -240,19 +246,19 @@ export default function LoginScreen({
               activeOpacity={0.7}
             >
               <Ionicons name="logo-apple" size={20} color="#FFFFFF" />
-              <Text style={styles.socialButtonText}>Continue with Apple</Text>
+              <Text style={styles.socialButtonText}>{t('common.continueWithApple')}</Text>
             </TouchableOpacity>
           </View>
 
           {/* Sign Up Link */}
           <View style={styles.signupSection}>
-            <Text style={styles.signupText}>Don't have an account? </Text>
+            <Text style={styles.signupText}>{t('login.noAccount')}</Text>
             <TouchableOpacity
               onPress={onNavigateToSignup}
               disabled={isLoading}
               activeOpacity={0.7}
             >
-              <Text style={styles.signupLink}>Sign Up</Text>
+              <Text style={styles.signupLink}>{t('common.signUp')}</Text>
             </TouchableOpacity>
           </View>
         </ScrollView>
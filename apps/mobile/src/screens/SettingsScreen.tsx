@@ -6,11 +6,18 @@ import { useAuthStore } from '@/stores/auth.store';
 import { useUIStore } from '@/stores/ui.store';
 import { databaseService } from '@/services/database.service';
 import { notificationService } from '@/services/notification.service';
+import { BankrollSettings } from '@/components/BankrollSettings';
+import { OddsSettings } from '@/components/OddsSettings';
+import { CurrencySettings } from '@/components/CurrencySettings';
+import { LanguageSettings } from '@/components/LanguageSettings';
+import { ResponsibleGamblingSettings } from '@/components/ResponsibleGamblingSettings';
+import { useTranslation } from '@/hooks/useTranslation';
 import { spacing } from '@/theme';
 import Constants from 'expo-constants';
 
 export const SettingsScreen: React.FC = () => {
   const theme = useTheme();
+  const { t } = useTranslation();
   const { user, logout } = useAuthStore();
   const { theme: themeMode, setTheme, effectiveTheme } = useUIStore();
 
@@ -19,10 +26,10 @@ export const SettingsScreen: React.FC = () => {
   };
 
   const handleLogout = () => {
-    Alert.alert('Logout', 'Are you sure you want to logout?', [
-      { text: 'Cancel', style: 'cancel' },
+    Alert.alert(t('settings.logout'), t('settings.logoutConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
       {
-        text: 'Logout',
+        text: t('settings.logout'),
         style: 'destructive',
         onPress: async () => {
           await logout();
@@ -32,21 +39,17 @@ export const SettingsScreen: React.FC = () => {
   };
 
   const handleClearData = () => {
-    Alert.alert(
-      'Clear Local Data',
-      'This will delete all locally stored messages. This action cannot be undone.',
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Clear',
-          style: 'destructive',
-          onPress: async () => {
-            await databaseService.clearAllData();
-            Alert.alert('Success', 'Local data cleared');
-          },
+    Alert.alert(t('settings.clearData'), t('settings.clearDataConfirm'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('settings.clear'),
+        style: 'destructive',
+        onPress: async () => {
+          await databaseService.clearAllData();
+          Alert.alert(t('settings.success'), t('settings.clearDataDone'));
         },
-      ]
-    );
+      },
+    ]);
   };
 
   return (
@@ -56,22 +59,22 @@ export const SettingsScreen: React.FC = () => {
     >
       <ScrollView contentContainerStyle={styles.content}>
         <List.Section>
-          <List.Subheader>Account</List.Subheader>
+          <List.Subheader>{t('settings.account')}</List.Subheader>
           <List.Item
             title={user?.name || user?.email}
             description={user?.email}
             left={(props) => <List.Icon {...props} icon="account" />}
             accessible
-            accessibilityLabel={`Logged in as ${user?.name || user?.email}`}
+            accessibilityLabel={t('settings.loggedInAs', { name: user?.name || user?.email || '' })}
           />
         </List.Section>
 
         <Divider />
 
         <List.Section>
-          <List.Subheader>Appearance</List.Subheader>
+          <List.Subheader>{t('settings.appearance')}</List.Subheader>
           <List.Item
-            title="Light Theme"
+            title={t('settings.lightTheme')}
             right={() => (
               <Switch
                 value={themeMode === 'light'}
@@ -80,11 +83,11 @@ export const SettingsScreen: React.FC = () => {
             )}
             onPress={() => handleThemeChange('light')}
             accessible
-            accessibilityLabel="Use light theme"
+            accessibilityLabel={t('settings.useLightTheme')}
             accessibilityRole="switch"
           />
           <List.Item
-            title="Dark Theme"
+            title={t('settings.darkTheme')}
             right={() => (
               <Switch
                 value={themeMode === 'dark'}
@@ -93,11 +96,11 @@ export const SettingsScreen: React.FC = () => {
             )}
             onPress={() => handleThemeChange('dark')}
             accessible
-            accessibilityLabel="Use dark theme"
+            accessibilityLabel={t('settings.useDarkTheme')}
             accessibilityRole="switch"
           />
           <List.Item
-            title="System Default"
+            title={t('settings.systemTheme')}
             right={() => (
               <Switch
                 value={themeMode === 'system'}
@@ -106,40 +109,63 @@ export const SettingsScreen: React.FC = () => {
             )}
             onPress={() => handleThemeChange('system')}
             accessible
-            accessibilityLabel="Use system theme"
+            accessibilityLabel={t('settings.useSystemTheme')}
             accessibilityRole="switch"
           />
         </List.Section>
 
         <Divider />
 
+        <LanguageSettings />
+
+        <Divider />
+
+        <CurrencySettings />
+
+        <Divider />
+
+        <BankrollSettings />
+
+        <Divider />
+
+        <OddsSettings />
+
+        <Divider />
+
+        <ResponsibleGamblingSettings />
+
+        <Divider />
+
         <List.Section>
-          <List.Subheader>Data & Storage</List.Subheader>
+          <List.Subheader>{t('settings.dataAndStorage')}</List.Subheader>
           <List.Item
-            title="Clear Local Data"
-            description="Remove all locally stored messages"
+            title={t('settings.clearData')}
+            description={t('settings.clearDataDescription')}
             left={(props) => <List.Icon {...props} icon="delete" />}
             onPress={handleClearData}
             accessible
-            accessibilityLabel="Clear local data"
-            accessibilityHint="Double tap to clear all local messages"
+            accessibilityLabel={t('settings.clearData')}
+            accessibilityHint={t('settings.clearDataHint')}
           />
         </List.Section>
 
         <Divider />
 
         <List.Section>
-          <List.Subheader>About</List.Subheader>
+          <List.Subheader>{t('settings.about')}</List.Subheader>
           <List.Item
-            title="Version"
+            title={t('settings.version')}
             description={`${Constants.expoConfig?.version || '1.0.0'} (${
               Constants.expoConfig?.extra?.appEnv || 'development'
             })`}
             left={(props) => <List.Icon {...props} icon="information" />}
           />
           <List.Item
-            title="Push Token"
-            description={notificationService.getExpoPushToken()?.slice(0, 20) + '...' || 'N/A'}
+            title={t('settings.pushToken')}
+            description={
+              notificationService.getExpoPushToken()?.slice(0, 20) + '...' ||
+              t('settings.notAvailable')
+            }
             left={(props) => <List.Icon {...props} icon="bell" />}
           />
         </List.Section>
@@ -151,10 +177,10 @@ export const SettingsScreen: React.FC = () => {
             style={styles.logoutButton}
             buttonColor={theme.colors.error}
             accessible
-            accessibilityLabel="Logout button"
+            accessibilityLabel={t('settings.logoutButton')}
             accessibilityRole="button"
           >
-            Logout
+            {t('settings.logout')}
           </Button>
         </View>
       </ScrollView>
@@ -14,6 +14,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuthStore } from '@/stores/auth.store';
+import { useTranslation } from '@/hooks/useTranslation';
 
 interface SignupScreenProps {
   onBack: () => void;
@@ -28,6 +29,7 @@ export default function SignupScreen({
   onNavigateToLogin,
   onSuccess,
 }: SignupScreenProps) {
+  const { t } = useTranslation();
   const [step, setStep] = useState<SignupStep>(1);
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
@@ -93,22 +95,22 @@ export default function SignupScreen({
 
     // Validation for step 1
     if (!email || !password || !confirmPassword) {
-      setError('Please fill in all fields');
+      setError(t('common.errors.fillAllFields'));
       return;
     }
 
     if (!validateEmail(email)) {
-      setError('Please enter a valid email address');
+      setError(t('common.errors.enterValidEmail'));
       return;
     }
 
     if (!validatePassword(password)) {
-      setError('Password must be at least 8 characters with uppercase, lowercase, and a number');
+      setError(t('signup.errors.weakPassword'));
       return;
     }
 
     if (password !== confirmPassword) {
-      setError('Passwords do not match');
+      setError(t('signup.errors.passwordMismatch'));
       return;
     }
 
@@ -120,22 +122,22 @@ export default function SignupScreen({
 
     // Validation for step 2
     if (!firstName || !lastName || !dateOfBirth) {
-      setError('Please fill in all fields');
+      setError(t('common.errors.fillAllFields'));
       return;
     }
 
     if (firstName.trim().length < 2) {
-      setError('First name must be at least 2 characters');
+      setError(t('signup.errors.firstNameTooShort'));
       return;
     }
 
     if (lastName.trim().length < 2) {
-      setError('Last name must be at least 2 characters');
+      setError(t('signup.errors.lastNameTooShort'));
       return;
     }
 
     if (!validateDateOfBirth(dateOfBirth)) {
-      setError('You must be 21 years or older to use this app. Please enter a valid date (MM/DD/YYYY)');
+      setError(t('signup.errors.underage'));
       return;
     }
 
@@ -152,7 +154,7 @@ export default function SignupScreen({
       // Show success and navigate
       onSuccess(email);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Signup failed';
+      const errorMessage = err instanceof Error ? err.message : t('signup.errors.signupFailed');
       setError(errorMessage);
     } finally {
       setIsLoading(false);
@@ -166,7 +168,7 @@ export default function SignupScreen({
       await login(); // This opens Auth0 Universal Login for social
       onSuccess('');
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'Social signup failed';
+      const errorMessage = err instanceof Error ? err.message : t('signup.errors.socialSignupFailed');
       setError(errorMessage);
     } finally {
       setIsLoading(false);
@@ -177,9 +179,9 @@ export default function SignupScreen({
     <>
       {/* Welcome Message */}
       <View style={styles.welcomeSection}>
-        <Text style={styles.welcomeTitle}>Create Account</Text>
+        <Text style={styles.welcomeTitle}>{t('signup.step1Title')}</Text>
         <Text style={styles.welcomeSubtitle}>
-          Step 1 of 2: Set up your credentials
+          {t('signup.step', { step: 1, total: 2, title: t('signup.step1Subtitle') })}
         </Text>
       </View>
 
@@ -195,7 +197,7 @@ export default function SignupScreen({
       <View style={styles.formSection}>
         {/* Email Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>Email</Text>
+          <Text style={styles.inputLabel}>{t('common.email')}</Text>
           <View style={styles.inputWrapper}>
             <Ionicons
               name="mail-outline"
@@ -205,7 +207,7 @@ export default function SignupScreen({
             />
             <TextInput
               style={styles.input}
-              placeholder="Enter your email"
+              placeholder={t('common.emailPlaceholder')}
               placeholderTextColor="#525252"
               value={email}
               onChangeText={setEmail}
@@ -219,7 +221,7 @@ export default function SignupScreen({
 
         {/* Password Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>Password</Text>
+          <Text style={styles.inputLabel}>{t('common.password')}</Text>
           <View style={styles.inputWrapper}>
             <Ionicons
               name="lock-closed-outline"
@@ -229,7 +231,7 @@ export default function SignupScreen({
             />
             <TextInput
               style={styles.input}
-              placeholder="Create a password"
+              placeholder={t('signup.passwordPlaceholder')}
               placeholderTextColor="#525252"
               value={password}
               onChangeText={setPassword}
@@ -242,6 +244,7 @@ export default function SignupScreen({
               onPress={() => setShowPassword(!showPassword)}
               style={styles.eyeIcon}
               activeOpacity={0.7}
+              accessibilityLabel={showPassword ? t('common.hidePassword') : t('common.showPassword')}
             >
               <Ionicons
                 name={showPassword ? 'eye-off-outline' : 'eye-outline'}
@@ -250,14 +253,12 @@ export default function SignupScreen({
               />
             </TouchableOpacity>
           </View>
-          <Text style={styles.helperText}>
-            At least 8 characters with uppercase, lowercase, and a number
-          </Text>
+          <Text style={styles.helperText}>{t('signup.passwordHint')}</Text>
         </View>
 
         {/* Confirm Password Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>Confirm Password</Text>
+          <Text style={styles.inputLabel}>{t('signup.confirmPassword')}</Text>
           <View style={styles.inputWrapper}>
             <Ionicons
               name="lock-closed-outline"
@@ -267,7 +268,7 @@ export default function SignupScreen({
             />
             <TextInput
               style={styles.input}
-              placeholder="Confirm your password"
+              placeholder={t('signup.confirmPasswordPlaceholder')}
               placeholderTextColor="#525252"
               value={confirmPassword}
               onChangeText={setConfirmPassword}
@@ -280,6 +281,7 @@ export default function SignupScreen({
               onPress={() => setShowConfirmPassword(!showConfirmPassword)}
               style={styles.eyeIcon}
               activeOpacity={0.7}
+              accessibilityLabel={showConfirmPassword ? t('common.hidePassword') : t('common.showPassword')}
             >
               <Ionicons
                 name={showConfirmPassword ? 'eye-off-outline' : 'eye-outline'}
@@ -303,7 +305,7 @@ export default function SignupScreen({
             end={{ x: 1, y: 0 }}
             style={styles.buttonGradient}
           >
-            <Text style={styles.continueButtonText}>Continue</Text>
+            <Text style={styles.continueButtonText}>{t('common.continue')}</Text>
             <Ionicons name="arrow-forward" size={20} color="#FFFFFF" />
           </LinearGradient>
         </TouchableOpacity>
@@ -312,7 +314,7 @@ export default function SignupScreen({
       {/* Divider */}
       <View style={styles.divider}>
         <View style={styles.dividerLine} />
-        <Text style={styles.dividerText}>OR</Text>
+        <Text style={styles.dividerText}>{t('common.or')}</Text>
         <View style={styles.dividerLine} />
       </View>
 
@@ -325,7 +327,7 @@ export default function SignupScreen({
           activeOpacity={0.7}
         >
           <Ionicons name="logo-google" size={20} color="#FFFFFF" />
-          <Text style={styles.socialButtonText}>Continue with Google</Text>
+          <Text style={styles.socialButtonText}>{t('common.continueWithGoogle')}</Text>
         </TouchableOpacity>
 
         <TouchableOpacity
@@ -335,7 +337,7 @@ export default function SignupScreen({
           activeOpacity={0.7}
         >
           <Ionicons name="logo-apple" size={20} color="#FFFFFF" />
-          <Text style={styles.socialButtonText}>Continue with Apple</Text>
+          <Text style={styles.socialButtonText}>{t('common.continueWithApple')}</Text>
         </TouchableOpacity>
       </View>
     </>
@@ -345,9 +347,9 @@ export default function SignupScreen({
     <>
       {/* Welcome Message */}
       <View style={styles.welcomeSection}>
-        <Text style={styles.welcomeTitle}>Almost There!</Text>
+        <Text style={styles.welcomeTitle}>{t('signup.step2Title')}</Text>
         <Text style={styles.welcomeSubtitle}>
-          Step 2 of 2: Tell us about yourself
+          {t('signup.step', { step: 2, total: 2, title: t('signup.step2Subtitle') })}
         </Text>
       </View>
 
@@ -363,7 +365,7 @@ export default function SignupScreen({
       <View style={styles.infoBox}>
         <Ionicons name="information-circle" size={24} color="#8B5CF6" />
         <Text style={styles.infoText}>
-          You must be 21 years or older to use BetThink.io
+          {t('signup.ageNotice', { appName: t('common.appName') })}
         </Text>
       </View>
 
@@ -371,7 +373,7 @@ export default function SignupScreen({
       <View style={styles.formSection}>
         {/* First Name Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>First Name</Text>
+          <Text style={styles.inputLabel}>{t('signup.firstName')}</Text>
           <View style={styles.inputWrapper}>
             <Ionicons
               name="person-outline"
@@ -381,7 +383,7 @@ export default function SignupScreen({
             />
             <TextInput
               style={styles.input}
-              placeholder="Enter your first name"
+              placeholder={t('signup.firstNamePlaceholder')}
               placeholderTextColor="#525252"
               value={firstName}
               onChangeText={setFirstName}
@@ -394,7 +396,7 @@ export default function SignupScreen({
 
         {/* Last Name Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>Last Name</Text>
+          <Text style={styles.inputLabel}>{t('signup.lastName')}</Text>
           <View style={styles.inputWrapper}>
             <Ionicons
               name="person-outline"
@@ -404,7 +406,7 @@ export default function SignupScreen({
             />
             <TextInput
               style={styles.input}
-              placeholder="Enter your last name"
+              placeholder={t('signup.lastNamePlaceholder')}
               placeholderTextColor="#525252"
               value={lastName}
               onChangeText={setLastName}
@@ -417,7 +419,7 @@ export default function SignupScreen({
 
         {/* Date of Birth Input */}
         <View style={styles.inputContainer}>
-          <Text style={styles.inputLabel}>Date of Birth</Text>
+          <Text style={styles.inputLabel}>{t('signup.dateOfBirth')}</Text>
           <View style={styles.inputWrapper}>
             <Ionicons
               name="calendar-outline"
@@ -427,7 +429,7 @@ export default function SignupScreen({
             />
             <TextInput
               style={styles.input}
-              placeholder="MM/DD/YYYY"
+              placeholder={t('signup.dateOfBirthPlaceholder')}
               placeholderTextColor="#525252"
               value={dateOfBirth}
               onChangeText={(text) => setDateOfBirth(formatDateOfBirth(text))}
@@ -436,9 +438,7 @@ export default function SignupScreen({
               editable={!isLoading}
             />
           </View>
-          <Text style={styles.helperText}>
-            Must be 21 years or older
-          </Text>
+          <Text style={styles.helperText}>{t('signup.dateOfBirthHint')}</Text>
         </View>
 
         {/* Action Buttons */}
@@ -453,7 +453,7 @@ export default function SignupScreen({
             activeOpacity={0.7}
           >
             <Ionicons name="arrow-back" size={20} color="#FFFFFF" />
-            <Text style={styles.backButtonText}>Back</Text>
+            <Text style={styles.backButtonText}>{t('common.back')}</Text>
           </TouchableOpacity>
 
           <TouchableOpacity
@@ -471,7 +471,7 @@ export default function SignupScreen({
                 end={{ x: 1, y: 0 }}
                 style={styles.buttonGradient}
               >
-                <Text style={styles.signupButtonText}>Create Account</Text>
+                <Text style={styles.signupButtonText}>{t('signup.createAccount')}</Text>
               </LinearGradient>
             )}
           </TouchableOpacity>
@@ -498,10 +498,11 @@ export default function SignupScreen({
               style={styles.headerBackButton}
               activeOpacity={0.7}
               disabled={isLoading}
+              accessibilityLabel={t('common.back')}
             >
               <Ionicons name="arrow-back" size={24} color="#FFFFFF" />
             </TouchableOpacity>
-            <Text style={styles.headerTitle}>Sign Up</Text>
+            <Text style={styles.headerTitle}>{t('common.signUp')}</Text>
             <View style={styles.headerBackButton} />
           </View>
 
@@ -517,13 +518,13 @@ export default function SignupScreen({
 
           {/* Login Link */}
           <View style={styles.loginSection}>
-            <Text style={styles.loginText}>Already have an account? </Text>
+            <Text style={styles.loginText}>{t('signup.haveAccount')}</Text>
             <TouchableOpacity
               onPress={onNavigateToLogin}
               disabled={isLoading}
               activeOpacity={0.7}
             >
-              <Text style={styles.loginLink}>Log In</Text>
+              <Text style={styles.loginLink}>{t('common.logIn')}</Text>
             </TouchableOpacity>
           </View>
         </ScrollView>
@@ -160,6 +160,37 @@ class AnalyticsService {
     });
   }
 
+  trackBetBlocked(reason: string, stake: number): void {
+    this.track('bet_blocked' as EventName, {
+      reason,
+      stake,
+      timestamp: Date.now(),
+    });
+  }
+
+  trackStakeLimitChanged(period: string, amount: number | null, pending: boolean): void {
+    this.track('stake_limit_changed' as EventName, {
+      period,
+      amount,
+      pending,
+      timestamp: Date.now(),
+    });
+  }
+
+  trackCoolOffStarted(durationHours: number): void {
+    this.track('cool_off_started' as EventName, {
+      durationHours,
+      timestamp: Date.now(),
+    });
+  }
+
+  trackSelfExclusionStarted(months: number): void {
+    this.track('self_exclusion_started' as EventName, {
+      months,
+      timestamp: Date.now(),
+    });
+  }
+
   trackSportsbookRedirect(sportsbook: string, betType: string): void {
     this.track('sportsbook_redirect', {
       sportsbook,
@@ -31,6 +31,10 @@ export interface User {
   dateOfBirth?: string;
   firstName?: string;
   lastName?: string;
+  /** ISO 4217 code amounts are shown in */
+  currency?: string;
+  /** BCP 47 tag used to format numbers and dates */
+  locale?: string;
 }
 
 interface Auth0Credentials {
@@ -513,6 +517,13 @@ class AuthService {
     ]);
   }
 
+  /**
+   * Persists profile changes made after login, e.g. currency preferences
+   */
+  async updateStoredUser(user: User): Promise<void> {
+    await this.storeUser(user);
+  }
+
   /**
    * Stores user data securely
    */
@@ -1,17 +1,119 @@
 import * as SQLite from 'expo-sqlite';
 import { logger } from '@/utils/logger';
-import type { LocalChatMessage, Conversation as ChatThread } from '@betthink/shared';
+import type { LocalChatMessage } from '@betthink/shared';
+import { runMigrations } from '@/services/migrations';
+import type {
+  ChatFolder,
+  MessageBranchFields,
+  MessageSearchFilters,
+  MessageSearchResult,
+  OrganizedChatThread,
+  OutboxEntry,
+  OutboxStatus,
+  ThreadUpdate,
+} from '@/types/chat';
+import type {
+  BetLedgerEntry,
+  BetRecommendation,
+  BetSettlement,
+  BetSettlementStatus,
+  CurrencyCode,
+  ParlayConfirmation,
+} from '@/types/bet';
+import {
+  HIGHLIGHT_END,
+  HIGHLIGHT_START,
+  SNIPPET_ELLIPSIS,
+  buildSnippet,
+  getSearchTerms,
+  toFtsQuery,
+  toLikePattern,
+} from '@/utils/messageSearch';
+import { getAmountCurrency } from '@/utils/money';
+import type { StakeRecord } from '@/utils/responsibleGambling';
 
 const DB_NAME = 'betthink.db';
-const DB_VERSION = 1;
+
+const DEFAULT_SEARCH_LIMIT = 50;
+
+/**
+ * Full-text index over message content, kept in sync by triggers so every write path
+ * (saveMessage, deleteMessage, clearAllData) updates it. It isn't a numbered migration
+ * because FTS5 is compiled into the native expo-sqlite builds but missing from some
+ * engines, such as sql.js in tests, where search falls back to LIKE.
+ * The index is keyed on chat_messages' implicit rowid, which VACUUM may renumber, so
+ * rebuild it after any VACUUM.
+ */
+const SEARCH_INDEX_SCHEMA = `
+  CREATE VIRTUAL TABLE chat_messages_fts USING fts5(
+    content,
+    content = 'chat_messages',
+    content_rowid = 'rowid',
+    tokenize = 'unicode61 remove_diacritics 2'
+  );
+
+  CREATE TRIGGER chat_messages_fts_insert AFTER INSERT ON chat_messages BEGIN
+    INSERT INTO chat_messages_fts (rowid, content) VALUES (new.rowid, new.content);
+  END;
+
+  CREATE TRIGGER chat_messages_fts_delete AFTER DELETE ON chat_messages BEGIN
+    INSERT INTO chat_messages_fts (chat_messages_fts, rowid, content)
+    VALUES ('delete', old.rowid, old.content);
+  END;
+
+  CREATE TRIGGER chat_messages_fts_update AFTER UPDATE OF content ON chat_messages BEGIN
+    INSERT INTO chat_messages_fts (chat_messages_fts, rowid, content)
+    VALUES ('delete', old.rowid, old.content);
+    INSERT INTO chat_messages_fts (rowid, content) VALUES (new.rowid, new.content);
+  END;
+
+  INSERT INTO chat_messages_fts (chat_messages_fts) VALUES ('rebuild');
+`;
+
+interface ThreadRow extends Omit<OrganizedChatThread, 'pinned' | 'archived'> {
+  pinned: number | null;
+  archived: number | null;
+}
+
+const THREAD_COLUMNS = `id, userId, title, createdAt, updatedAt, lastMessageAt, messageCount,
+  pinned, archived, folderId`;
+
+const MESSAGE_COLUMNS = `id, localId, chatId, role, content, timestamp, metadata, synced, optimistic,
+  parentId, versionOf`;
+
+const OUTBOX_COLUMNS =
+  'localId, chatId, content, createdAt, attempts, lastError, nextAttemptAt, status, parentId';
+
+interface MessageSearchRow extends Omit<MessageSearchResult, 'snippet'> {
+  snippet?: string;
+  content?: string;
+}
+
+interface BetConfirmationRow {
+  betRecommendationId: string;
+  userId: string;
+  chatId: string | null;
+  messageId: string | null;
+  confirmedAt: string;
+  redirectedToSportsbook: number;
+  recommendation: string | null;
+  settlementStatus: BetSettlementStatus | null;
+  payout: number | null;
+  settledAt: string | null;
+}
+
+const BET_LEDGER_COLUMNS = `c.betRecommendationId, c.userId, c.chatId, c.messageId, c.confirmedAt,
+  c.redirectedToSportsbook, c.recommendation, s.status AS settlementStatus, s.payout, s.settledAt`;
 
 class DatabaseService {
   private db: SQLite.SQLiteDatabase | null = null;
+  private hasFullTextSearch = false;
 
   async initialize(): Promise<void> {
     try {
       this.db = await SQLite.openDatabaseAsync(DB_NAME);
-      await this.createTables();
+      await this.migrate();
+      await this.ensureSearchIndex();
       logger.info('Database initialized successfully');
     } catch (error) {
       logger.error('Failed to initialize database', error);
@@ -19,51 +121,70 @@ class DatabaseService {
     }
   }
 
-  private async createTables(): Promise<void> {
+  private async migrate(): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
-    await this.db.execAsync(`
-      PRAGMA journal_mode = WAL;
-      
-      CREATE TABLE IF NOT EXISTS chat_threads (
-        id TEXT PRIMARY KEY,
-        userId TEXT NOT NULL,
-        title TEXT NOT NULL,
-        createdAt TEXT NOT NULL,
-        updatedAt TEXT NOT NULL,
-        lastMessageAt TEXT,
-        messageCount INTEGER DEFAULT 0,
-        synced INTEGER DEFAULT 1
-      );
+    // journal_mode can't change inside a transaction, so set it before migrating
+    await this.db.execAsync('PRAGMA journal_mode = WAL;');
+    // saveMessage's INSERT OR REPLACE only fires delete triggers for the replaced row
+    // when recursive triggers are on; the search index relies on them
+    await this.db.execAsync('PRAGMA recursive_triggers = ON;');
 
-      CREATE TABLE IF NOT EXISTS chat_messages (
-        id TEXT PRIMARY KEY,
-        localId TEXT UNIQUE NOT NULL,
-        chatId TEXT NOT NULL,
-        role TEXT NOT NULL,
-        content TEXT NOT NULL,
-        timestamp TEXT NOT NULL,
-        metadata TEXT,
-        synced INTEGER DEFAULT 0,
-        optimistic INTEGER DEFAULT 0,
-        FOREIGN KEY (chatId) REFERENCES chat_threads(id) ON DELETE CASCADE
-      );
+    const { from, to } = await runMigrations(this.db);
+    if (from !== to) {
+      logger.info('Database schema upgraded', { from, to });
+    }
+  }
 
-      CREATE INDEX IF NOT EXISTS idx_messages_chatId ON chat_messages(chatId);
-      CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON chat_messages(timestamp);
-      CREATE INDEX IF NOT EXISTS idx_messages_synced ON chat_messages(synced);
-      CREATE INDEX IF NOT EXISTS idx_threads_updatedAt ON chat_threads(updatedAt);
-    `);
+  private async ensureSearchIndex(): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    const existing = await db.getFirstAsync<{ name: string }>(
+      `SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'chat_messages_fts'`
+    );
+
+    if (existing) {
+      this.hasFullTextSearch = true;
+      return;
+    }
+
+    try {
+      await db.withTransactionAsync(async () => {
+        await db.execAsync(SEARCH_INDEX_SCHEMA);
+      });
+      this.hasFullTextSearch = true;
+      logger.info('Created message search index');
+    } catch (error) {
+      this.hasFullTextSearch = false;
+      logger.warn('FTS5 unavailable, message search will use LIKE', { error });
+    }
   }
 
   // Thread operations
-  async saveThread(thread: ChatThread): Promise<void> {
+  /**
+   * Insert or update a thread. Organization fields the thread doesn't carry, as when it
+   * comes from a server that predates them, keep their stored values.
+   */
+  async saveThread(thread: OrganizedChatThread): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     await this.db.runAsync(
-      `INSERT OR REPLACE INTO chat_threads 
-       (id, userId, title, createdAt, updatedAt, lastMessageAt, messageCount, synced)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO chat_threads 
+       (id, userId, title, createdAt, updatedAt, lastMessageAt, messageCount, synced,
+        pinned, archived, folderId)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         userId = excluded.userId,
+         title = excluded.title,
+         createdAt = excluded.createdAt,
+         updatedAt = excluded.updatedAt,
+         lastMessageAt = excluded.lastMessageAt,
+         messageCount = excluded.messageCount,
+         synced = excluded.synced,
+         pinned = COALESCE(excluded.pinned, chat_threads.pinned),
+         archived = COALESCE(excluded.archived, chat_threads.archived),
+         folderId = CASE WHEN ? THEN excluded.folderId ELSE chat_threads.folderId END`,
       [
         thread.id,
         thread.userId,
@@ -73,15 +194,19 @@ class DatabaseService {
         thread.lastMessageAt || null,
         thread.messageCount,
         1, // synced
+        thread.pinned === undefined ? null : Number(thread.pinned),
+        thread.archived === undefined ? null : Number(thread.archived),
+        thread.folderId ?? null,
+        thread.folderId === undefined ? 0 : 1,
       ]
     );
   }
 
-  async getThreads(userId: string, limit = 50): Promise<ChatThread[]> {
+  async getThreads(userId: string, limit = 50): Promise<OrganizedChatThread[]> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const rows = await this.db.getAllAsync<ChatThread>(
-      `SELECT id, userId, title, createdAt, updatedAt, lastMessageAt, messageCount
+    const rows = await this.db.getAllAsync<ThreadRow>(
+      `SELECT ${THREAD_COLUMNS}
        FROM chat_threads 
        WHERE userId = ?
        ORDER BY updatedAt DESC
@@ -89,36 +214,139 @@ class DatabaseService {
       [userId, limit]
     );
 
-    return rows;
+    return rows.map((row) => this.toChatThread(row));
   }
 
-  async getThread(threadId: string): Promise<ChatThread | null> {
+  async getThread(threadId: string): Promise<OrganizedChatThread | null> {
     if (!this.db) throw new Error('Database not initialized');
 
-    const row = await this.db.getFirstAsync<ChatThread>(
-      `SELECT id, userId, title, createdAt, updatedAt, lastMessageAt, messageCount
+    const row = await this.db.getFirstAsync<ThreadRow>(
+      `SELECT ${THREAD_COLUMNS}
        FROM chat_threads 
        WHERE id = ?`,
       [threadId]
     );
 
-    return row || null;
+    return row ? this.toChatThread(row) : null;
+  }
+
+  async updateThread(threadId: string, updates: ThreadUpdate): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const assignments: string[] = [];
+    const params: (string | number | null)[] = [];
+
+    if (updates.title !== undefined) {
+      assignments.push('title = ?');
+      params.push(updates.title);
+    }
+    if (updates.pinned !== undefined) {
+      assignments.push('pinned = ?');
+      params.push(Number(updates.pinned));
+    }
+    if (updates.archived !== undefined) {
+      assignments.push('archived = ?');
+      params.push(Number(updates.archived));
+    }
+    if (updates.folderId !== undefined) {
+      assignments.push('folderId = ?');
+      params.push(updates.folderId);
+    }
+    if (assignments.length === 0) return;
+
+    await this.db.runAsync(`UPDATE chat_threads SET ${assignments.join(', ')} WHERE id = ?`, [
+      ...params,
+      threadId,
+    ]);
+  }
+
+  private toChatThread(row: ThreadRow): OrganizedChatThread {
+    return {
+      ...row,
+      pinned: row.pinned === 1,
+      archived: row.archived === 1,
+      folderId: row.folderId ?? null,
+    };
   }
 
   async deleteThread(threadId: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     await this.db.runAsync('DELETE FROM chat_threads WHERE id = ?', [threadId]);
+    await this.db.runAsync('DELETE FROM chat_outbox WHERE chatId = ?', [threadId]);
+  }
+
+  // Folder operations
+  async saveFolder(folder: ChatFolder): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO chat_folders (id, userId, name, createdAt) VALUES (?, ?, ?, ?)`,
+      [folder.id, folder.userId, folder.name, folder.createdAt]
+    );
+  }
+
+  /**
+   * Replace the user's folders with the server's list, dropping any deleted elsewhere
+   */
+  async replaceFolders(userId: string, folders: ChatFolder[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM chat_folders WHERE userId = ?', [userId]);
+      for (const folder of folders) {
+        await this.saveFolder(folder);
+      }
+      await db.runAsync(
+        `UPDATE chat_threads SET folderId = NULL
+         WHERE userId = ? AND folderId IS NOT NULL
+           AND folderId NOT IN (SELECT id FROM chat_folders)`,
+        [userId]
+      );
+    });
+  }
+
+  async getFolders(userId: string): Promise<ChatFolder[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    return this.db.getAllAsync<ChatFolder>(
+      `SELECT id, userId, name, createdAt
+       FROM chat_folders
+       WHERE userId = ?
+       ORDER BY name COLLATE NOCASE`,
+      [userId]
+    );
+  }
+
+  /**
+   * Delete a folder; its threads stay and move out of it
+   */
+  async deleteFolder(folderId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    const db = this.db;
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('UPDATE chat_threads SET folderId = NULL WHERE folderId = ?', [folderId]);
+      await db.runAsync('DELETE FROM chat_folders WHERE id = ?', [folderId]);
+    });
   }
 
   // Message operations
-  async saveMessage(message: LocalChatMessage): Promise<void> {
+  /**
+   * Insert or replace a message. Branch fields the message doesn't carry, as when it comes
+   * from a server that predates them, keep their stored values.
+   */
+  async saveMessage(message: LocalChatMessage & MessageBranchFields): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
     await this.db.runAsync(
       `INSERT OR REPLACE INTO chat_messages 
-       (id, localId, chatId, role, content, timestamp, metadata, synced, optimistic)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+       (id, localId, chatId, role, content, timestamp, metadata, synced, optimistic,
+        parentId, versionOf)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?,
+        COALESCE(?, (SELECT parentId FROM chat_messages WHERE id = ?)),
+        COALESCE(?, (SELECT versionOf FROM chat_messages WHERE id = ?)))`,
       [
         message.id,
         message.localId,
@@ -129,15 +357,22 @@ class DatabaseService {
         message.metadata ? JSON.stringify(message.metadata) : null,
         message.synced ? 1 : 0,
         message.optimistic ? 1 : 0,
+        message.parentId ?? null,
+        message.id,
+        message.versionOf ?? null,
+        message.id,
       ]
     );
   }
 
-  async getMessages(chatId: string, limit = 100): Promise<LocalChatMessage[]> {
+  async getMessages(
+    chatId: string,
+    limit = 100
+  ): Promise<(LocalChatMessage & MessageBranchFields)[]> {
     if (!this.db) throw new Error('Database not initialized');
 
     const rows = await this.db.getAllAsync<any>(
-      `SELECT id, localId, chatId, role, content, timestamp, metadata, synced, optimistic
+      `SELECT ${MESSAGE_COLUMNS}
        FROM chat_messages 
        WHERE chatId = ?
        ORDER BY timestamp DESC
@@ -153,11 +388,11 @@ class DatabaseService {
     }));
   }
 
-  async getMessage(messageId: string): Promise<LocalChatMessage | null> {
+  async getMessage(messageId: string): Promise<(LocalChatMessage & MessageBranchFields) | null> {
     if (!this.db) throw new Error('Database not initialized');
 
     const row = await this.db.getFirstAsync<any>(
-      `SELECT id, localId, chatId, role, content, timestamp, metadata, synced, optimistic
+      `SELECT ${MESSAGE_COLUMNS}
        FROM chat_messages 
        WHERE id = ? OR localId = ?`,
       [messageId, messageId]
@@ -173,24 +408,6 @@ class DatabaseService {
     };
   }
 
-  async getUnsyncedMessages(): Promise<LocalChatMessage[]> {
-    if (!this.db) throw new Error('Database not initialized');
-
-    const rows = await this.db.getAllAsync<any>(
-      `SELECT id, localId, chatId, role, content, timestamp, metadata, synced, optimistic
-       FROM chat_messages 
-       WHERE synced = 0
-       ORDER BY timestamp ASC`
-    );
-
-    return rows.map((row) => ({
-      ...row,
-      metadata: row.metadata ? JSON.parse(row.metadata) : undefined,
-      synced: false,
-      optimistic: row.optimistic === 1,
-    }));
-  }
-
   async markMessageAsSynced(localId: string, serverId: string): Promise<void> {
     if (!this.db) throw new Error('Database not initialized');
 
@@ -211,6 +428,463 @@ class DatabaseService {
     );
   }
 
+  /**
+   * Messages containing every word of `query`, best match first, with a highlighted
+   * snippet around the match. Without FTS5 it matches substrings, newest first.
+   */
+  async searchMessages(
+    query: string,
+    filters: MessageSearchFilters = {}
+  ): Promise<MessageSearchResult[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const terms = getSearchTerms(query);
+    if (terms.length === 0) return [];
+
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (filters.chatId) {
+      conditions.push('m.chatId = ?');
+      params.push(filters.chatId);
+    }
+    if (filters.role) {
+      conditions.push('m.role = ?');
+      params.push(filters.role);
+    }
+    if (filters.from) {
+      conditions.push('m.timestamp >= ?');
+      params.push(filters.from);
+    }
+    if (filters.to) {
+      conditions.push('m.timestamp <= ?');
+      params.push(filters.to);
+    }
+
+    const limit = filters.limit ?? DEFAULT_SEARCH_LIMIT;
+    const columns = `m.id AS messageId, m.localId, m.chatId, m.role, m.timestamp,
+      t.title AS threadTitle`;
+
+    if (this.hasFullTextSearch) {
+      const rows = await this.db.getAllAsync<MessageSearchRow>(
+        `SELECT ${columns},
+           snippet(chat_messages_fts, 0, ?, ?, ?, 16) AS snippet
+         FROM chat_messages_fts
+         JOIN chat_messages AS m ON m.rowid = chat_messages_fts.rowid
+         LEFT JOIN chat_threads AS t ON t.id = m.chatId
+         WHERE chat_messages_fts MATCH ?
+           ${conditions.map((condition) => `AND ${condition}`).join(' ')}
+         ORDER BY rank
+         LIMIT ?`,
+        [HIGHLIGHT_START, HIGHLIGHT_END, SNIPPET_ELLIPSIS, toFtsQuery(query), ...params, limit]
+      );
+
+      return rows.map((row) => this.toMessageSearchResult(row, row.snippet ?? ''));
+    }
+
+    const rows = await this.db.getAllAsync<MessageSearchRow>(
+      `SELECT ${columns}, m.content
+       FROM chat_messages AS m
+       LEFT JOIN chat_threads AS t ON t.id = m.chatId
+       WHERE ${[...terms.map(() => `m.content LIKE ? ESCAPE '\\'`), ...conditions].join(' AND ')}
+       ORDER BY m.timestamp DESC
+       LIMIT ?`,
+      [...terms.map(toLikePattern), ...params, limit]
+    );
+
+    return rows.map((row) =>
+      this.toMessageSearchResult(row, buildSnippet(row.content ?? '', terms))
+    );
+  }
+
+  private toMessageSearchResult(row: MessageSearchRow, snippet: string): MessageSearchResult {
+    return {
+      messageId: row.messageId,
+      localId: row.localId,
+      chatId: row.chatId,
+      threadTitle: row.threadTitle ?? null,
+      role: row.role,
+      timestamp: row.timestamp,
+      snippet,
+    };
+  }
+
+  // Outbox operations
+  async enqueueOutboxMessage(
+    message: LocalChatMessage & MessageBranchFields
+  ): Promise<OutboxEntry> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+    const entry: OutboxEntry = {
+      localId: message.localId,
+      chatId: message.chatId,
+      content: message.content,
+      createdAt: message.timestamp,
+      attempts: 0,
+      lastError: null,
+      nextAttemptAt: 0,
+      status: 'pending',
+      parentId: message.parentId ?? null,
+    };
+
+    await db.withTransactionAsync(async () => {
+      await this.saveMessage(message);
+      await db.runAsync(
+        `INSERT INTO chat_outbox
+         (localId, chatId, content, createdAt, seq, attempts, lastError, nextAttemptAt, status,
+          parentId)
+         VALUES (?, ?, ?, ?, (SELECT COALESCE(MAX(seq), 0) + 1 FROM chat_outbox), ?, ?, ?, ?, ?)`,
+        [
+          entry.localId,
+          entry.chatId,
+          entry.content,
+          entry.createdAt,
+          entry.attempts,
+          entry.lastError,
+          entry.nextAttemptAt,
+          entry.status,
+          entry.parentId,
+        ]
+      );
+    });
+
+    return entry;
+  }
+
+  async getOutboxEntries(chatId?: string): Promise<OutboxEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = chatId
+      ? await this.db.getAllAsync<OutboxEntry>(
+          `SELECT ${OUTBOX_COLUMNS}
+           FROM chat_outbox
+           WHERE chatId = ?
+           ORDER BY seq ASC`,
+          [chatId]
+        )
+      : await this.db.getAllAsync<OutboxEntry>(
+          `SELECT ${OUTBOX_COLUMNS}
+           FROM chat_outbox
+           ORDER BY seq ASC`
+        );
+
+    return rows;
+  }
+
+  async getOutboxEntry(localId: string): Promise<OutboxEntry | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.getFirstAsync<OutboxEntry>(
+      `SELECT ${OUTBOX_COLUMNS}
+       FROM chat_outbox
+       WHERE localId = ?`,
+      [localId]
+    );
+
+    return row || null;
+  }
+
+  /**
+   * Returns the oldest entry of each thread, if it is pending and due.
+   * Later entries in a thread wait behind it so messages are delivered in order,
+   * including behind a dead-lettered entry until it is retried.
+   */
+  async getDueOutboxEntries(now: number): Promise<OutboxEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.getAllAsync<OutboxEntry>(
+      `SELECT ${OUTBOX_COLUMNS}
+       FROM chat_outbox AS o
+       WHERE status = 'pending'
+         AND seq = (SELECT MIN(seq) FROM chat_outbox WHERE chatId = o.chatId)
+         AND nextAttemptAt <= ?
+       ORDER BY seq ASC`,
+      [now]
+    );
+
+    return rows;
+  }
+
+  async getNextOutboxAttemptAt(): Promise<number | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync<{ nextAttemptAt: number | null }>(
+      `SELECT MIN(nextAttemptAt) as nextAttemptAt
+       FROM chat_outbox AS o
+       WHERE status = 'pending'
+         AND seq = (SELECT MIN(seq) FROM chat_outbox WHERE chatId = o.chatId)`
+    );
+
+    return result?.nextAttemptAt ?? null;
+  }
+
+  async recordOutboxFailure(
+    localId: string,
+    error: string,
+    nextAttemptAt: number,
+    status: OutboxStatus
+  ): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      `UPDATE chat_outbox
+       SET attempts = attempts + 1, lastError = ?, nextAttemptAt = ?, status = ?
+       WHERE localId = ?`,
+      [error, nextAttemptAt, status, localId]
+    );
+  }
+
+  async resetOutboxEntry(localId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      `UPDATE chat_outbox
+       SET attempts = 0, lastError = NULL, nextAttemptAt = 0, status = 'pending'
+       WHERE localId = ?`,
+      [localId]
+    );
+  }
+
+  async completeOutboxEntry(localId: string, serverId: string): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const db = this.db;
+
+    await db.withTransactionAsync(async () => {
+      await db.runAsync('DELETE FROM chat_outbox WHERE localId = ?', [localId]);
+      await this.markMessageAsSynced(localId, serverId);
+    });
+  }
+
+  // Bet ledger operations
+  async saveBetConfirmations(entries: Omit<BetLedgerEntry, 'settlement'>[]): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (entries.length === 0) return;
+
+    const db = this.db;
+    const syncedAt = new Date().toISOString();
+
+    await db.withTransactionAsync(async () => {
+      for (const entry of entries) {
+        // Keep an existing snapshot when the incoming row doesn't carry one
+        await db.runAsync(
+          `INSERT INTO bet_confirmations
+           (betRecommendationId, userId, chatId, messageId, confirmedAt, redirectedToSportsbook, recommendation, syncedAt)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(betRecommendationId) DO UPDATE SET
+             userId = excluded.userId,
+             chatId = excluded.chatId,
+             messageId = excluded.messageId,
+             confirmedAt = excluded.confirmedAt,
+             redirectedToSportsbook = excluded.redirectedToSportsbook,
+             recommendation = COALESCE(excluded.recommendation, bet_confirmations.recommendation),
+             syncedAt = excluded.syncedAt`,
+          [
+            entry.betRecommendationId,
+            entry.userId,
+            entry.chatId || null,
+            entry.messageId || null,
+            entry.confirmedAt,
+            entry.redirectedToSportsbook ? 1 : 0,
+            entry.recommendation ? JSON.stringify(entry.recommendation) : null,
+            syncedAt,
+          ]
+        );
+      }
+    });
+  }
+
+  async getBetLedger(userId: string, limit = 500): Promise<BetLedgerEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.getAllAsync<BetConfirmationRow>(
+      `SELECT ${BET_LEDGER_COLUMNS}
+       FROM bet_confirmations AS c
+       LEFT JOIN bet_settlements AS s ON s.betRecommendationId = c.betRecommendationId
+       WHERE c.userId = ?
+       ORDER BY c.confirmedAt DESC
+       LIMIT ?`,
+      [userId, limit]
+    );
+
+    return rows.map((row) => this.toBetLedgerEntry(row));
+  }
+
+  /**
+   * Every graded bet for the user, oldest settlement first
+   */
+  async getSettledBetLedger(userId: string): Promise<BetLedgerEntry[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const rows = await this.db.getAllAsync<BetConfirmationRow>(
+      `SELECT ${BET_LEDGER_COLUMNS}
+       FROM bet_confirmations AS c
+       JOIN bet_settlements AS s ON s.betRecommendationId = c.betRecommendationId
+       WHERE c.userId = ?
+       ORDER BY s.settledAt ASC`,
+      [userId]
+    );
+
+    return rows.map((row) => this.toBetLedgerEntry(row));
+  }
+
+  async getBetLedgerEntry(betRecommendationId: string): Promise<BetLedgerEntry | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const row = await this.db.getFirstAsync<BetConfirmationRow>(
+      `SELECT ${BET_LEDGER_COLUMNS}
+       FROM bet_confirmations AS c
+       LEFT JOIN bet_settlements AS s ON s.betRecommendationId = c.betRecommendationId
+       WHERE c.betRecommendationId = ?`,
+      [betRecommendationId]
+    );
+
+    return row ? this.toBetLedgerEntry(row) : null;
+  }
+
+  async getLatestBetConfirmedAt(userId: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync<{ confirmedAt: string | null }>(
+      'SELECT MAX(confirmedAt) as confirmedAt FROM bet_confirmations WHERE userId = ?',
+      [userId]
+    );
+
+    return result?.confirmedAt ?? null;
+  }
+
+  /**
+   * Record a confirmed parlay and its stake, so it counts toward stake limits
+   */
+  async saveParlayConfirmation(
+    confirmation: ParlayConfirmation,
+    currency: CurrencyCode
+  ): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    await this.db.runAsync(
+      `INSERT OR REPLACE INTO parlay_confirmations
+       (id, userId, chatId, legRecommendationIds, sportsbookId, stake, currency, confirmedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        confirmation.id,
+        confirmation.userId,
+        confirmation.chatId || null,
+        JSON.stringify(confirmation.legRecommendationIds),
+        confirmation.sportsbookId,
+        confirmation.stake,
+        currency,
+        confirmation.confirmedAt,
+      ]
+    );
+  }
+
+  /**
+   * Stakes of the user's bets and parlays confirmed at or after `since`, for enforcing
+   * stake limits. Bets without a recommendation snapshot have no known stake and are skipped.
+   */
+  async getBetStakesSince(
+    userId: string,
+    since: string
+  ): Promise<StakeRecord[]> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const bets = await this.db.getAllAsync<{ confirmedAt: string; recommendation: string }>(
+      `SELECT confirmedAt, recommendation
+       FROM bet_confirmations
+       WHERE userId = ? AND confirmedAt >= ? AND recommendation IS NOT NULL`,
+      [userId, since]
+    );
+    const parlays = await this.db.getAllAsync<StakeRecord>(
+      `SELECT confirmedAt, stake, currency
+       FROM parlay_confirmations
+       WHERE userId = ? AND confirmedAt >= ?`,
+      [userId, since]
+    );
+
+    return [
+      ...bets.map((row) => {
+        const recommendation = JSON.parse(row.recommendation) as BetRecommendation;
+        return {
+          confirmedAt: row.confirmedAt,
+          stake: recommendation.stake,
+          currency: getAmountCurrency(recommendation),
+        };
+      }),
+      ...parlays,
+    ];
+  }
+
+  /**
+   * Record graded results. Settlements may arrive by push before the confirmation is
+   * synced, so they are stored independently and joined onto the ledger when read.
+   * Only settlements pulled from the API (`source: 'sync'`) advance the sync cursor.
+   */
+  async saveBetSettlements(settlements: BetSettlement[], source: 'sync' | 'push'): Promise<void> {
+    if (!this.db) throw new Error('Database not initialized');
+    if (settlements.length === 0) return;
+
+    const db = this.db;
+    const syncedAt = source === 'sync' ? new Date().toISOString() : null;
+
+    await db.withTransactionAsync(async () => {
+      for (const settlement of settlements) {
+        await db.runAsync(
+          `INSERT INTO bet_settlements (betRecommendationId, status, payout, settledAt, syncedAt)
+           VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(betRecommendationId) DO UPDATE SET
+             status = excluded.status,
+             payout = excluded.payout,
+             settledAt = excluded.settledAt,
+             syncedAt = COALESCE(excluded.syncedAt, bet_settlements.syncedAt)`,
+          [
+            settlement.betRecommendationId,
+            settlement.status,
+            settlement.payout,
+            settlement.settledAt,
+            syncedAt,
+          ]
+        );
+      }
+    });
+  }
+
+  async getLatestBetSettledAt(userId: string): Promise<string | null> {
+    if (!this.db) throw new Error('Database not initialized');
+
+    const result = await this.db.getFirstAsync<{ settledAt: string | null }>(
+      `SELECT MAX(s.settledAt) as settledAt
+       FROM bet_settlements AS s
+       JOIN bet_confirmations AS c ON c.betRecommendationId = s.betRecommendationId
+       WHERE c.userId = ? AND s.syncedAt IS NOT NULL`,
+      [userId]
+    );
+
+    return result?.settledAt ?? null;
+  }
+
+  private toBetLedgerEntry(row: BetConfirmationRow): BetLedgerEntry {
+    return {
+      betRecommendationId: row.betRecommendationId,
+      userId: row.userId,
+      chatId: row.chatId ?? '',
+      messageId: row.messageId ?? '',
+      confirmedAt: row.confirmedAt,
+      redirectedToSportsbook: row.redirectedToSportsbook === 1,
+      recommendation: row.recommendation ? JSON.parse(row.recommendation) : null,
+      settlement:
+        row.settlementStatus && row.settledAt
+          ? {
+              betRecommendationId: row.betRecommendationId,
+              status: row.settlementStatus,
+              payout: row.payout ?? 0,
+              settledAt: row.settledAt,
+            }
+          : null,
+    };
+  }
+
   // Sync operations
   async getUnsyncedCount(): Promise<number> {
     if (!this.db) throw new Error('Database not initialized');
@@ -226,8 +900,13 @@ class DatabaseService {
     if (!this.db) throw new Error('Database not initialized');
 
     await this.db.execAsync(`
+      DELETE FROM bet_settlements;
+      DELETE FROM bet_confirmations;
+      DELETE FROM parlay_confirmations;
+      DELETE FROM chat_outbox;
       DELETE FROM chat_messages;
       DELETE FROM chat_threads;
+      DELETE FROM chat_folders;
     `);
 
     logger.info('All local data cleared');
@@ -0,0 +1,220 @@
+import { logger } from '@/utils/logger';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+}
+
+/**
+ * Subset of the expo-sqlite database API the migration runner needs
+ */
+export interface MigrationDatabase {
+  execAsync(source: string): Promise<void>;
+  getFirstAsync<T>(source: string): Promise<T | null>;
+}
+
+/**
+ * Ordered schema migrations. Never edit a migration that has shipped; add a new one.
+ * Version 1 uses IF NOT EXISTS because installs from before versioning already have
+ * those tables with user_version 0.
+ */
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'create_chat_tables',
+    up: `
+      CREATE TABLE IF NOT EXISTS chat_threads (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        title TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        updatedAt TEXT NOT NULL,
+        lastMessageAt TEXT,
+        messageCount INTEGER DEFAULT 0,
+        synced INTEGER DEFAULT 1
+      );
+
+      CREATE TABLE IF NOT EXISTS chat_messages (
+        id TEXT PRIMARY KEY,
+        localId TEXT UNIQUE NOT NULL,
+        chatId TEXT NOT NULL,
+        role TEXT NOT NULL,
+        content TEXT NOT NULL,
+        timestamp TEXT NOT NULL,
+        metadata TEXT,
+        synced INTEGER DEFAULT 0,
+        optimistic INTEGER DEFAULT 0,
+        FOREIGN KEY (chatId) REFERENCES chat_threads(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_messages_chatId ON chat_messages(chatId);
+      CREATE INDEX IF NOT EXISTS idx_messages_timestamp ON chat_messages(timestamp);
+      CREATE INDEX IF NOT EXISTS idx_messages_synced ON chat_messages(synced);
+      CREATE INDEX IF NOT EXISTS idx_threads_updatedAt ON chat_threads(updatedAt);
+    `,
+  },
+  {
+    version: 2,
+    name: 'create_chat_outbox',
+    up: `
+      CREATE TABLE IF NOT EXISTS chat_outbox (
+        localId TEXT PRIMARY KEY,
+        chatId TEXT NOT NULL,
+        content TEXT NOT NULL,
+        createdAt TEXT NOT NULL,
+        seq INTEGER NOT NULL,
+        attempts INTEGER DEFAULT 0,
+        lastError TEXT,
+        nextAttemptAt INTEGER DEFAULT 0,
+        status TEXT NOT NULL DEFAULT 'pending'
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_outbox_chatId_seq ON chat_outbox(chatId, seq);
+    `,
+  },
+  {
+    version: 3,
+    name: 'create_bet_confirmations',
+    up: `
+      CREATE TABLE bet_confirmations (
+        betRecommendationId TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        chatId TEXT,
+        messageId TEXT,
+        confirmedAt TEXT NOT NULL,
+        redirectedToSportsbook INTEGER DEFAULT 0,
+        recommendation TEXT,
+        syncedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_bet_confirmations_user_confirmedAt
+        ON bet_confirmations(userId, confirmedAt);
+    `,
+  },
+  {
+    version: 4,
+    name: 'create_bet_settlements',
+    up: `
+      CREATE TABLE bet_settlements (
+        betRecommendationId TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        payout REAL NOT NULL,
+        settledAt TEXT NOT NULL,
+        syncedAt TEXT
+      );
+
+      CREATE INDEX idx_bet_settlements_settledAt ON bet_settlements(settledAt);
+    `,
+  },
+  {
+    version: 5,
+    name: 'add_thread_organization',
+    up: `
+      ALTER TABLE chat_threads ADD COLUMN pinned INTEGER DEFAULT 0;
+      ALTER TABLE chat_threads ADD COLUMN archived INTEGER DEFAULT 0;
+      ALTER TABLE chat_threads ADD COLUMN folderId TEXT;
+
+      CREATE TABLE chat_folders (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        name TEXT NOT NULL,
+        createdAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_threads_folderId ON chat_threads(folderId);
+      CREATE INDEX idx_folders_userId ON chat_folders(userId);
+    `,
+  },
+  {
+    version: 6,
+    name: 'add_message_versions',
+    up: `
+      ALTER TABLE chat_messages ADD COLUMN parentId TEXT;
+      ALTER TABLE chat_messages ADD COLUMN versionOf TEXT;
+      ALTER TABLE chat_outbox ADD COLUMN parentId TEXT;
+
+      CREATE INDEX idx_messages_versionOf ON chat_messages(versionOf);
+    `,
+  },
+  {
+    version: 7,
+    name: 'create_parlay_confirmations',
+    up: `
+      CREATE TABLE parlay_confirmations (
+        id TEXT PRIMARY KEY,
+        userId TEXT NOT NULL,
+        chatId TEXT,
+        legRecommendationIds TEXT NOT NULL,
+        sportsbookId TEXT NOT NULL,
+        stake REAL NOT NULL,
+        currency TEXT NOT NULL,
+        confirmedAt TEXT NOT NULL
+      );
+
+      CREATE INDEX idx_parlay_confirmations_user_confirmedAt
+        ON parlay_confirmations(userId, confirmedAt);
+    `,
+  },
+];
+
+export const getSchemaVersion = async (db: MigrationDatabase): Promise<number> => {
+  const row = await db.getFirstAsync<{ user_version: number }>('PRAGMA user_version');
+  return row?.user_version ?? 0;
+};
+
+const validateMigrations = (migrationList: Migration[]): void => {
+  migrationList.forEach((migration, index) => {
+    if (migration.version !== index + 1) {
+      throw new Error(
+        `Migrations must be numbered consecutively from 1; found version ${migration.version} at position ${index + 1}`
+      );
+    }
+  });
+};
+
+/**
+ * Bring the database up to the latest schema version.
+ * Each migration runs in its own transaction together with its user_version bump,
+ * so a failure rolls back to the last fully applied version.
+ */
+export const runMigrations = async (
+  db: MigrationDatabase,
+  migrationList: Migration[] = migrations
+): Promise<{ from: number; to: number }> => {
+  validateMigrations(migrationList);
+
+  const from = await getSchemaVersion(db);
+  const latest = migrationList.length;
+
+  if (from > latest) {
+    throw new Error(`Database schema version ${from} is newer than supported version ${latest}`);
+  }
+
+  for (const migration of migrationList.slice(from)) {
+    try {
+      await db.execAsync('BEGIN IMMEDIATE;');
+      await db.execAsync(migration.up);
+      await db.execAsync(`PRAGMA user_version = ${migration.version};`);
+      await db.execAsync('COMMIT;');
+      logger.info('Applied database migration', {
+        version: migration.version,
+        name: migration.name,
+      });
+    } catch (error) {
+      try {
+        await db.execAsync('ROLLBACK;');
+      } catch {
+        // SQLite may already have rolled back the transaction
+      }
+      logger.error('Database migration failed', {
+        version: migration.version,
+        name: migration.name,
+        error,
+      });
+      throw error;
+    }
+  }
+
+  return { from, to: Math.max(from, latest) };
+};
@@ -4,7 +4,12 @@ import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import { logger } from '@/utils/logger';
 import { notificationApi } from '@/api/endpoints';
+import { databaseService } from '@/services/database.service';
+import { parseBetResultNotification } from '@/utils/settlement';
 import type { DeviceToken } from '@betthink/shared';
+import type { BetSettlement } from '@/types/bet';
+
+type BetResultListener = (settlement: BetSettlement) => void;
 
 // Configure notification behavior
 Notifications.setNotificationHandler({
@@ -19,6 +24,7 @@ class NotificationService {
   private expoPushToken: string | null = null;
   private notificationListener: Notifications.Subscription | null = null;
   private responseListener: Notifications.Subscription | null = null;
+  private betResultListeners = new Set<BetResultListener>();
 
   async initialize(): Promise<void> {
     try {
@@ -150,6 +156,10 @@ class NotificationService {
     const { data } = notification.request.content;
     logger.debug('Foreground notification data', data);
 
+    if (data?.type === 'bet_result') {
+      this.recordBetResult(data, new Date(notification.date));
+    }
+
     // You can customize behavior based on notification type
     // For example, show an in-app toast or update UI
   }
@@ -161,10 +171,38 @@ class NotificationService {
     if (data?.type === 'chat_message' && data?.chatId) {
       this.navigateToChat(data.chatId as string);
     } else if (data?.type === 'bet_result' && data?.betId) {
+      this.recordBetResult(data, new Date(response.notification.date));
       this.navigateToBet(data.betId as string);
     }
   }
 
+  /**
+   * Subscribe to settlements delivered by `bet_result` notifications once they are saved
+   */
+  onBetResult(listener: BetResultListener): () => void {
+    this.betResultListeners.add(listener);
+    return () => {
+      this.betResultListeners.delete(listener);
+    };
+  }
+
+  private async recordBetResult(data: Record<string, unknown>, receivedAt: Date): Promise<void> {
+    const settlement = parseBetResultNotification(data, receivedAt);
+    if (!settlement) return;
+
+    try {
+      await databaseService.saveBetSettlements([settlement], 'push');
+      logger.info('Bet result recorded from notification', {
+        betId: settlement.betRecommendationId,
+        status: settlement.status,
+      });
+
+      this.betResultListeners.forEach((listener) => listener(settlement));
+    } catch (error) {
+      logger.error('Failed to record bet result', error);
+    }
+  }
+
   private navigateToChat(chatId: string): void {
     // This will be handled by the navigation service
     logger.info('Navigate to chat', { chatId });
@@ -0,0 +1,224 @@
+import NetInfo from '@react-native-community/netinfo';
+import { v4 as uuidv4 } from 'uuid';
+import { chatApi } from '@/api/endpoints';
+import { databaseService } from '@/services/database.service';
+import { logger } from '@/utils/logger';
+import type { ChatMessage, LocalChatMessage } from '@betthink/shared';
+import type { MessageBranchFields, OutboxEntry } from '@/types/chat';
+
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+export interface OutboxDrainResult {
+  delivered: Map<string, ChatMessage>;
+  failed: string[];
+}
+
+type OutboxListener = (entry: OutboxEntry, message?: ChatMessage) => void;
+
+/**
+ * Persistent queue for outgoing chat messages.
+ * Entries are delivered oldest-first per thread with exponential backoff, and are
+ * dead-lettered as `failed` after MAX_ATTEMPTS or a non-retryable API error. A
+ * dead-lettered entry holds back the rest of its thread until it is retried.
+ */
+class OutboxService {
+  private drainPromise: Promise<OutboxDrainResult> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<OutboxListener>();
+
+  /**
+   * Save a user message locally and queue it for delivery
+   */
+  async enqueue(
+    chatId: string,
+    content: string,
+    parentId: string | null = null
+  ): Promise<LocalChatMessage & MessageBranchFields> {
+    const localId = uuidv4();
+    const message: LocalChatMessage & MessageBranchFields = {
+      id: localId,
+      localId,
+      chatId,
+      role: 'user',
+      content,
+      timestamp: new Date().toISOString(),
+      synced: false,
+      optimistic: true,
+      parentId,
+    };
+
+    await databaseService.enqueueOutboxMessage(message);
+    logger.info('Message queued in outbox', { localId, chatId });
+
+    return message;
+  }
+
+  /**
+   * Send every due entry. Drains never overlap; a caller arriving mid-drain gets
+   * another pass afterwards so entries it just queued are not missed.
+   */
+  drain(): Promise<OutboxDrainResult> {
+    if (this.drainPromise) {
+      return this.drainPromise.then(async (previous) => {
+        const next = await this.drain();
+        return {
+          delivered: new Map([...previous.delivered, ...next.delivered]),
+          failed: [...previous.failed, ...next.failed],
+        };
+      });
+    }
+
+    this.drainPromise = this.runDrain().finally(() => {
+      this.drainPromise = null;
+    });
+
+    return this.drainPromise;
+  }
+
+  /**
+   * Move a dead-lettered entry back to pending and resend it
+   */
+  async retry(localId: string): Promise<OutboxDrainResult> {
+    await databaseService.resetOutboxEntry(localId);
+    logger.info('Retrying outbox message', { localId });
+    return this.drain();
+  }
+
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async runDrain(): Promise<OutboxDrainResult> {
+    const result: OutboxDrainResult = { delivered: new Map(), failed: [] };
+
+    this.clearRetryTimer();
+
+    const netState = await NetInfo.fetch();
+    if (netState.isConnected === false) {
+      logger.info('Offline, outbox drain deferred');
+      return result;
+    }
+
+    let dueEntries = await databaseService.getDueOutboxEntries(Date.now());
+
+    while (dueEntries.length > 0) {
+      // Heads of different threads are independent, so send them side by side. Outcomes
+      // are recorded one by one as transactions can't interleave on the one connection.
+      const sends = await Promise.allSettled(
+        dueEntries.map((entry) => chatApi.sendMessage(entry.chatId, entry.content, entry.parentId))
+      );
+      for (let i = 0; i < dueEntries.length; i++) {
+        await this.recordDelivery(dueEntries[i], sends[i], result);
+      }
+      dueEntries = await databaseService.getDueOutboxEntries(Date.now());
+    }
+
+    if (result.delivered.size > 0 || result.failed.length > 0) {
+      logger.info('Outbox drain completed', {
+        delivered: result.delivered.size,
+        failed: result.failed.length,
+      });
+    }
+
+    await this.scheduleNextDrain();
+    return result;
+  }
+
+  private async recordDelivery(
+    entry: OutboxEntry,
+    send: PromiseSettledResult<ChatMessage>,
+    result: OutboxDrainResult
+  ): Promise<void> {
+    try {
+      if (send.status === 'rejected') throw send.reason;
+      const apiMessage = send.value;
+      await databaseService.completeOutboxEntry(entry.localId, apiMessage.id);
+
+      result.delivered.set(entry.localId, apiMessage);
+      this.notify(entry, apiMessage);
+    } catch (error) {
+      const { message = 'Failed to send message', statusCode } = (error ?? {}) as {
+        message?: string;
+        statusCode?: number;
+      };
+      const attempts = entry.attempts + 1;
+      const deadLetter = attempts >= MAX_ATTEMPTS || !this.isRetryable(statusCode);
+      const nextAttemptAt = deadLetter ? 0 : Date.now() + this.getRetryDelay(attempts);
+
+      await databaseService.recordOutboxFailure(
+        entry.localId,
+        message,
+        nextAttemptAt,
+        deadLetter ? 'failed' : 'pending'
+      );
+
+      if (deadLetter) {
+        result.failed.push(entry.localId);
+        logger.error('Outbox message dead-lettered', { localId: entry.localId, attempts, error });
+      } else {
+        logger.warn('Outbox delivery failed, will retry', {
+          localId: entry.localId,
+          attempts,
+          nextAttemptAt,
+        });
+      }
+
+      this.notify({
+        ...entry,
+        attempts,
+        lastError: message,
+        nextAttemptAt,
+        status: deadLetter ? 'failed' : 'pending',
+      });
+    }
+  }
+
+  /**
+   * Client errors won't succeed on resend, except timeouts and rate limits
+   */
+  private isRetryable(statusCode?: number): boolean {
+    if (typeof statusCode !== 'number' || statusCode < 400 || statusCode >= 500) return true;
+    return statusCode === 408 || statusCode === 429;
+  }
+
+  private getRetryDelay(attempts: number): number {
+    const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, attempts - 1), MAX_RETRY_DELAY);
+    // Add jitter so queued devices don't retry in lockstep
+    return Math.round(delay * (0.5 + Math.random() * 0.5));
+  }
+
+  private async scheduleNextDrain(): Promise<void> {
+    const nextAttemptAt = await databaseService.getNextOutboxAttemptAt();
+    if (nextAttemptAt === null) return;
+
+    const delay = Math.max(nextAttemptAt - Date.now(), 0);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.drain().catch((error) => logger.error('Scheduled outbox drain failed', error));
+    }, delay);
+  }
+
+  private clearRetryTimer(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private notify(entry: OutboxEntry, message?: ChatMessage): void {
+    this.listeners.forEach((listener) => {
+      try {
+        listener(entry, message);
+      } catch (error) {
+        logger.error('Outbox listener failed', error);
+      }
+    });
+  }
+}
+
+export const outboxService = new OutboxService();
@@ -1,171 +1,222 @@
 import { logger } from '@/utils/logger';
 import { authService } from './auth.service';
-import type { StreamChunk, SSEEvent } from '@betthink/shared';
+import { xhrTransport, type SSETransport } from './sse.transport';
+import { createSSEParser, type SSEMessage } from '@/utils/sseParser';
+import { parseBetRecommendations } from '@/utils/recommendations';
+import { parseOddsUpdate } from '@/utils/oddsMovement';
+import type { StreamChunk } from '@betthink/shared';
+import type { BetRecommendation, OddsUpdate } from '@/types/bet';
+
+interface SSEChunkBase {
+  /** When the server produced the event, for events that carry one */
+  timestamp?: string;
+}
+
+// `done` chunks may carry structured recommendations extracted from `llm_complete`
+type ChatStreamChunk = StreamChunk &
+  SSEChunkBase & {
+    recommendations?: BetRecommendation[];
+  };
+
+// Sent on the live odds channel; `oddsUpdate` is missing when the payload failed validation
+interface OddsUpdateChunk extends SSEChunkBase {
+  type: 'odds_update';
+  oddsUpdate?: OddsUpdate;
+}
+
+// A notice from the backend, shown in the conversation
+interface SystemChunk extends SSEChunkBase {
+  type: 'system';
+  content?: string;
+  metadata?: Record<string, unknown>;
+}
+
+// Keep-alives and the `connected` greeting; they only prove the connection is alive
+interface HeartbeatChunk extends SSEChunkBase {
+  type: 'heartbeat';
+}
+
+export type SSEStreamChunk = ChatStreamChunk | OddsUpdateChunk | SystemChunk | HeartbeatChunk;
+
+// `stale` means the server went quiet for longer than the heartbeat timeout; the
+// connection is dropped and reopened straight after
+export type SSEConnectionState =
+  | 'disconnected'
+  | 'connecting'
+  | 'connected'
+  | 'reconnecting'
+  | 'stale';
 
 export interface SSEOptions {
   url: string;
-  onMessage: (chunk: StreamChunk) => void;
+  onMessage: (chunk: SSEStreamChunk) => void;
   onError?: (error: Error) => void;
   onConnectionChange?: (connected: boolean) => void;
+  onStateChange?: (state: SSEConnectionState) => void;
   maxRetries?: number;
   retryDelay?: number;
+  lastEventId?: string; // Resume a previous stream from this event id
+  transport?: SSETransport; // Defaults to XMLHttpRequest
+  heartbeatTimeout?: number; // Silence after which the connection is stale; 0 disables the watchdog
+  onStale?: (error: Error) => void; // Called once per stale episode, before reconnecting
 }
 
+// How many delivered event ids to remember for de-duplicating replays
+const MAX_TRACKED_EVENT_IDS = 500;
+
+// The backend sends a heartbeat every 30 seconds; allow for one to arrive late
+const DEFAULT_HEARTBEAT_TIMEOUT = 45000;
+
 class SSEConnection {
-  private abortController: AbortController | null = null;
+  private abortRequest: (() => void) | null = null;
+  private opening = false;
+  // Bumped whenever the current request is replaced, so late callbacks from it are ignored
+  private generation = 0;
   private reconnectAttempts = 0;
   private readonly maxRetries: number;
   private readonly retryDelay: number;
+  private readonly transport: SSETransport;
   private isManualClose = false;
   private reconnectTimeout?: NodeJS.Timeout;
-  private connected = false; // Track actual connection state
+  private state: SSEConnectionState = 'disconnected';
+  private lastEventId: string | null = null;
+  private serverRetryDelay: number | null = null; // From the server's `retry:` field
+  private deliveredEventIds: Set<string> = new Set();
+  private hasRefreshedToken = false; // Only refresh once per rejected connection
+  private readonly heartbeatTimeout: number;
+  private watchdogTimeout?: NodeJS.Timeout;
+  private lastReceivedAt = 0; // When the server last sent anything, including keep-alives
 
   constructor(private options: SSEOptions) {
     this.maxRetries = options.maxRetries ?? 5;
     this.retryDelay = options.retryDelay ?? 1000;
+    this.transport = options.transport ?? xhrTransport;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? DEFAULT_HEARTBEAT_TIMEOUT;
+    this.lastEventId = options.lastEventId || null;
   }
 
   async connect(): Promise<void> {
-    if (this.abortController) {
+    if (this.abortRequest || this.opening) {
       logger.warn('SSE connection already exists');
       return;
     }
 
     this.isManualClose = false;
-    this.abortController = new AbortController();
+    this.opening = true;
+    const generation = ++this.generation;
+    this.setState(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
 
     try {
-      await this.establishConnection();
+      const accessToken = await authService.getValidAccessToken();
+      if (generation !== this.generation) return;
+      this.establishConnection(accessToken, generation);
     } catch (error) {
+      if (generation !== this.generation) return;
       logger.error('Failed to establish SSE connection', error);
       this.handleConnectionError(error as Error);
+    } finally {
+      if (generation === this.generation) {
+        this.opening = false;
+      }
     }
   }
 
-  private async establishConnection(): Promise<void> {
-    if (!this.abortController) return;
+  private establishConnection(accessToken: string, generation: number): void {
+    const headers: Record<string, string> = {
+      Authorization: `Bearer ${accessToken}`,
+      Accept: 'text/event-stream',
+      'Cache-Control': 'no-cache',
+    };
+
+    // Ask the server to replay everything we missed while disconnected
+    if (this.lastEventId) {
+      headers['Last-Event-ID'] = this.lastEventId;
+      logger.info('Resuming SSE stream', { lastEventId: this.lastEventId });
+    }
 
-    const accessToken = await authService.getValidAccessToken();
+    logger.info('Establishing SSE connection', { url: this.options.url });
 
-    logger.info('Establishing SSE connection with XMLHttpRequest', { url: this.options.url });
+    const isCurrent = () => generation === this.generation;
+    // A handler may close the connection part way through a batch of events
+    const parser = createSSEParser((message) => {
+      if (isCurrent()) this.handleMessage(message);
+    });
 
-    try {
-      const xhr = new XMLHttpRequest();
-      let buffer = '';
-
-      xhr.open('GET', this.options.url);
-      xhr.setRequestHeader('Authorization', `Bearer ${accessToken}`);
-      xhr.setRequestHeader('Accept', 'text/event-stream');
-      xhr.setRequestHeader('Cache-Control', 'no-cache');
-
-      // Track XHR instance
-      (this as any).xhr = xhr;
-
-      xhr.onreadystatechange = () => {
-        logger.debug('XHR state change', { 
-          readyState: xhr.readyState, 
-          status: xhr.status,
-          responseLength: xhr.responseText?.length || 0
-        });
-
-        if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
-          logger.info('✅ SSE headers received', { status: xhr.status });
-          
-          if (xhr.status === 200) {
-            this.connected = true;
-            this.options.onConnectionChange?.(true);
-            this.reconnectAttempts = 0;
+    // A request can also hang before the server answers, so watch it from the start
+    this.markAlive();
+    this.abortRequest = this.transport.open(
+      { url: this.options.url, headers },
+      {
+        onOpen: () => {
+          if (!isCurrent()) return;
+          logger.info('✅ SSE connection open');
+          this.hasRefreshedToken = false;
+          this.markAlive();
+          this.setState('connected');
+        },
+        onData: (text) => {
+          if (!isCurrent()) return;
+          // Only data proves the connection works; a server that answers and then says
+          // nothing must still run out of retries
+          this.reconnectAttempts = 0;
+          this.markAlive();
+          parser.push(text);
+        },
+        onClose: (reason) => {
+          if (!isCurrent()) return;
+          parser.end();
+          this.abortRequest = null;
+          this.stopWatchdog();
+          if (reason === 'recycled') {
+            logger.debug('Reopening SSE stream to release its response buffer');
+            this.connect();
           } else {
-            logger.error('SSE bad status', { status: xhr.status });
-            this.handleConnectionError(new Error(`HTTP ${xhr.status}`));
-          }
-        }
-
-        if (xhr.readyState === XMLHttpRequest.LOADING || xhr.readyState === XMLHttpRequest.DONE) {
-          // Get new data since last check
-          const newData = xhr.responseText.substring(buffer.length);
-          
-          if (newData) {
-            logger.debug('📦 Received data', { size: newData.length });
-            buffer = xhr.responseText;
-
-            // Process complete SSE events (separated by \n\n)
-            const events = buffer.split('\n\n');
-            
-            // Keep last incomplete event in buffer
-            if (xhr.readyState !== XMLHttpRequest.DONE) {
-              buffer = events.pop() || '';
-            }
-
-            for (const eventText of events) {
-              if (eventText.trim()) {
-                this.parseAndHandleEvent(eventText.trim());
-              }
-            }
-          }
-        }
-
-        if (xhr.readyState === XMLHttpRequest.DONE) {
-          logger.info('SSE connection closed by server');
-          this.connected = false;
-          this.options.onConnectionChange?.(false);
-          
-          if (!this.isManualClose && xhr.status === 200) {
-            // Unexpected close, try to reconnect
             this.handleStreamEnd();
-          } else if (xhr.status !== 200) {
-            this.handleConnectionError(new Error(`Connection failed: ${xhr.status}`));
           }
-        }
-      };
-
-      xhr.onerror = (error) => {
-        logger.error('XHR error', { error });
-        this.handleConnectionError(new Error('XHR error'));
-      };
-
-      xhr.ontimeout = () => {
-        logger.error('XHR timeout');
-        this.handleConnectionError(new Error('Connection timeout'));
-      };
-
-      // Listen for abort signal
-      this.abortController.signal.addEventListener('abort', () => {
-        logger.debug('Aborting XHR');
-        xhr.abort();
-      });
-
-      xhr.send();
-      logger.debug('XHR request sent');
+        },
+        onError: (error, status) => {
+          if (!isCurrent()) return;
+          this.abortRequest = null;
+          this.stopWatchdog();
+          if (status === 401) {
+            this.refreshTokenAndReconnect(error);
+          } else {
+            this.handleConnectionError(error);
+          }
+        },
+      }
+    );
+  }
 
-    } catch (error: any) {
-      logger.error('Failed to establish SSE connection', {
-        error: error.message
-      });
-      this.handleConnectionError(error);
+  private handleMessage(message: SSEMessage): void {
+    if (message.retry !== undefined) {
+      this.serverRetryDelay = message.retry;
+      logger.debug('SSE retry delay set by server', { retry: this.serverRetryDelay });
     }
-  }
 
-  private parseAndHandleEvent(eventText: string): void {
-    try {
-      // Extract data from SSE format
-      const lines = eventText.split('\n');
-      let dataLine = '';
-      
-      for (const line of lines) {
-        if (line.startsWith('data:')) {
-          dataLine += line.slice(5).trim();
-        }
+    if (message.id !== undefined) {
+      // Replayed events we already delivered must not reach the chat store twice
+      if (message.id && this.deliveredEventIds.has(message.id)) {
+        logger.debug('Skipping replayed SSE event', { eventId: message.id });
+        return;
       }
 
-      if (!dataLine) {
-        logger.debug('No data in SSE event', { eventText: eventText.substring(0, 100) });
-        return;
+      // An empty id resets the last event id
+      this.lastEventId = message.id || null;
+      if (message.id) {
+        this.trackDeliveredEventId(message.id);
       }
+    }
 
-      logger.debug('📨 SSE event data', { data: dataLine.substring(0, 150) });
+    if (!message.data) {
+      logger.debug('No data in SSE event', { eventId: message.id });
+      return;
+    }
 
-      let parsedEvent = JSON.parse(dataLine);
+    logger.debug('📨 SSE event data', { data: message.data.substring(0, 150) });
+
+    try {
+      let parsedEvent = JSON.parse(message.data);
 
       // Backend wraps in {data: {...}} - unwrap
       if (parsedEvent.data && typeof parsedEvent.data === 'object' && !parsedEvent.type) {
@@ -173,10 +224,12 @@ class SSEConnection {
         parsedEvent = parsedEvent.data;
       }
 
-      logger.debug('Event after unwrap', { type: parsedEvent.type });
+      // Events may name their type with the `event:` field instead of in the payload
+      if (!parsedEvent.type && message.event) {
+        parsedEvent = { ...parsedEvent, type: message.event };
+      }
 
       const normalizedChunk = this.normalizeEventFormat(parsedEvent);
-      
       logger.debug('Normalized event', { type: normalizedChunk.type });
 
       this.options.onMessage(normalizedChunk);
@@ -185,75 +238,205 @@ class SSEConnection {
         logger.info('✅ LLM response complete');
       }
     } catch (error) {
-      logger.error('Failed to parse SSE event', { 
+      logger.error('Failed to parse SSE event', {
         error: (error as Error).message,
-        eventText: eventText.substring(0, 200)
+        data: message.data.substring(0, 200),
       });
     }
   }
 
-  // processStream and parseAndHandleEvent are no longer needed with EventSource
-  // EventSource handles parsing automatically
-  
-  private normalizeEventFormat(event: any): StreamChunk {
+  private trackDeliveredEventId(eventId: string): void {
+    this.deliveredEventIds.add(eventId);
+
+    // Sets iterate in insertion order, so the first entry is the oldest
+    if (this.deliveredEventIds.size > MAX_TRACKED_EVENT_IDS) {
+      const oldest = this.deliveredEventIds.values().next().value;
+      if (oldest !== undefined) {
+        this.deliveredEventIds.delete(oldest);
+      }
+    }
+  }
+
+  private normalizeEventFormat(event: any): SSEStreamChunk {
+    const timestamp: string | undefined = event.timestamp;
+
     // If backend sends 'llm_chunk' format, convert to 'content' format
     if (event.type === 'llm_chunk' && event.content) {
       logger.debug('Converting llm_chunk to content', { contentLength: event.content.length });
-      return { type: 'content', content: event.content };
+      return { type: 'content', content: event.content, timestamp };
     }
-    
+
     // If backend sends 'llm_complete', convert to 'done' format
     // NOTE: Connection should remain open after this event
     if (event.type === 'llm_complete') {
-      logger.debug('Converting llm_complete to done', { contentLength: event.content?.length });
-      return { type: 'done', content: event.content };
+      const recommendations = parseBetRecommendations(
+        event.recommendations ?? event.betRecommendations
+      );
+      logger.debug('Converting llm_complete to done', {
+        contentLength: event.content?.length,
+        recommendationCount: recommendations.length,
+      });
+      return {
+        type: 'done',
+        content: event.content,
+        timestamp,
+        ...(recommendations.length > 0 && { recommendations }),
+      };
+    }
+
+    // Live odds channel: validate the price change before it reaches the UI
+    if (event.type === 'odds_update') {
+      const oddsUpdate = parseOddsUpdate(event);
+      logger.debug('SSE odds update received', { recommendationId: oddsUpdate?.recommendationId });
+      return { type: 'odds_update', ...(oddsUpdate && { oddsUpdate }) };
     }
-    
+
+    // Backend notices shown in the conversation
+    if (event.type === 'system') {
+      return { type: 'system', content: event.message, metadata: event.metadata, timestamp };
+    }
+
     // If backend sends 'connected' or 'heartbeat', pass through as heartbeat
     if (event.type === 'connected' || event.type === 'heartbeat') {
       logger.debug(`SSE ${event.type} event received`);
-      return { type: 'heartbeat' } as any; // Return a no-op event
+      return { type: 'heartbeat' };
     }
-    
+
     // If backend sends 'error', pass through
     if (event.type === 'error') {
       logger.error('SSE error event', { message: event.message });
       return { type: 'error', error: event.message || 'An error occurred' };
     }
-    
+
     // Pass through other events (done, content) as-is
     return event as StreamChunk;
   }
 
-  // parseSSEEvent no longer needed - EventSource handles this
+  /**
+   * A 401 usually means the access token expired mid-session. Refresh it once and
+   * reconnect straight away; a second rejection is treated like any other failure.
+   */
+  private async refreshTokenAndReconnect(error: Error): Promise<void> {
+    if (this.hasRefreshedToken) {
+      this.handleConnectionError(error);
+      return;
+    }
+
+    this.hasRefreshedToken = true;
+    const generation = this.generation;
+    logger.info('SSE request unauthorized, refreshing access token');
+
+    try {
+      await authService.refreshToken();
+    } catch (refreshError) {
+      if (generation !== this.generation) return;
+      logger.error('SSE token refresh failed', refreshError);
+      this.handleConnectionError(refreshError as Error, false);
+      return;
+    }
+
+    if (generation === this.generation && !this.isManualClose) {
+      this.connect();
+    }
+  }
 
-  private handleConnectionError(error: Error): void {
-    this.connected = false; // Mark as disconnected
-    this.options.onConnectionChange?.(false);
+  private handleConnectionError(error: Error, retryable = true): void {
+    this.setState('disconnected');
     this.options.onError?.(error);
 
-    if (this.reconnectAttempts < this.maxRetries && !this.isManualClose) {
+    if (retryable && this.reconnectAttempts < this.maxRetries && !this.isManualClose) {
       this.scheduleReconnect();
-    } else if (this.reconnectAttempts >= this.maxRetries) {
-      logger.error('Max SSE reconnection attempts reached');
-      this.options.onMessage({
-        type: 'error',
-        error: 'Connection lost. Please try again.',
-      });
+    } else if (!this.isManualClose) {
+      this.reportConnectionLost(
+        retryable ? 'Max SSE reconnection attempts reached' : 'SSE connection cannot recover'
+      );
+    }
+  }
+
+  private reportConnectionLost(reason: string): void {
+    logger.error(reason);
+    this.options.onMessage({
+      type: 'error',
+      error: 'Connection lost. Please try again.',
+    });
+  }
+
+  /**
+   * Records that the server is still there and keeps the watchdog running. The watchdog
+   * timer isn't reset on every chunk; when it fires it checks how long the server has
+   * actually been quiet and waits out the remainder.
+   */
+  private markAlive(): void {
+    this.lastReceivedAt = Date.now();
+    if (!this.watchdogTimeout) {
+      this.startWatchdog(this.heartbeatTimeout);
+    }
+  }
+
+  private startWatchdog(delay: number): void {
+    if (this.heartbeatTimeout <= 0) return;
+
+    this.watchdogTimeout = setTimeout(() => {
+      this.watchdogTimeout = undefined;
+      const silence = Date.now() - this.lastReceivedAt;
+
+      if (silence >= this.heartbeatTimeout) {
+        this.handleStale(silence);
+      } else {
+        this.startWatchdog(this.heartbeatTimeout - silence);
+      }
+    }, delay);
+  }
+
+  private stopWatchdog(): void {
+    if (this.watchdogTimeout) {
+      clearTimeout(this.watchdogTimeout);
+      this.watchdogTimeout = undefined;
+    }
+  }
+
+  /**
+   * On mobile networks a connection can go half-open: it still looks connected but
+   * nothing arrives. Once the server has been silent past the heartbeat timeout, drop
+   * the request and, after the usual backoff, open a new one that resumes from the last
+   * event id.
+   */
+  private handleStale(silence: number): void {
+    const error = new Error(`SSE connection stale: nothing received for ${silence}ms`);
+    logger.warn('SSE connection stale, reconnecting', {
+      url: this.options.url,
+      silence,
+      lastEventId: this.lastEventId,
+    });
+
+    this.generation++;
+    this.opening = false;
+    this.abortRequest?.();
+    this.abortRequest = null;
+
+    this.setState('stale');
+    this.options.onStale?.(error);
+    if (this.isManualClose) return;
+
+    if (this.reconnectAttempts >= this.maxRetries) {
+      this.setState('disconnected');
+      this.reportConnectionLost('Max SSE reconnection attempts reached');
+      return;
     }
+
+    this.scheduleReconnect();
   }
 
   private handleStreamEnd(): void {
     // Stream ended naturally (server closed connection unexpectedly)
     // In normal operation, SSE should stay open even after llm_complete events
-    this.connected = false; // Mark as disconnected
-    this.options.onConnectionChange?.(false);
-    
     logger.warn('SSE stream ended unexpectedly, will attempt to reconnect');
-    
+
     // Attempt to reconnect since this shouldn't happen in normal operation
     if (!this.isManualClose && this.reconnectAttempts < this.maxRetries) {
       this.scheduleReconnect();
+    } else {
+      this.setState('disconnected');
     }
   }
 
@@ -262,47 +445,73 @@ class SSEConnection {
       clearTimeout(this.reconnectTimeout);
     }
 
-    const delay = this.retryDelay * Math.pow(2, this.reconnectAttempts);
+    // A `retry:` field sets the reconnection time outright; only our own default backs off
+    const delay = this.serverRetryDelay ?? this.retryDelay * Math.pow(2, this.reconnectAttempts);
     this.reconnectAttempts++;
+    this.setState('reconnecting');
 
-    logger.info(`Scheduling SSE reconnection attempt ${this.reconnectAttempts}/${this.maxRetries}`, {
-      delay,
-    });
+    logger.info(
+      `Scheduling SSE reconnection attempt ${this.reconnectAttempts}/${this.maxRetries}`,
+      {
+        delay,
+        lastEventId: this.lastEventId,
+      }
+    );
 
     this.reconnectTimeout = setTimeout(() => {
-      this.abortController = null;
+      this.reconnectTimeout = undefined;
       this.connect();
     }, delay);
   }
 
+  private setState(state: SSEConnectionState): void {
+    if (state === this.state) return;
+
+    const wasConnected = this.state === 'connected';
+    this.state = state;
+    this.options.onStateChange?.(state);
+
+    if (wasConnected !== (state === 'connected')) {
+      this.options.onConnectionChange?.(state === 'connected');
+    }
+  }
+
   close(): void {
     this.isManualClose = true;
-    this.connected = false;
+    this.generation++;
+    this.opening = false;
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
       this.reconnectTimeout = undefined;
     }
+    this.stopWatchdog();
 
-    // Abort XHR if exists
-    const xhr = (this as any).xhr;
-    if (xhr) {
-      xhr.abort();
-      (this as any).xhr = null;
-      logger.debug('XHR aborted');
-    }
-
-    if (this.abortController) {
-      this.abortController.abort();
-      this.abortController = null;
+    if (this.abortRequest) {
+      this.abortRequest();
+      this.abortRequest = null;
+      logger.debug('SSE request aborted');
     }
 
-    this.options.onConnectionChange?.(false);
+    this.setState('disconnected');
     logger.info('SSE connection closed');
   }
 
   isConnected(): boolean {
-    return this.connected && this.abortController !== null && !this.isManualClose;
+    return this.state === 'connected';
+  }
+
+  getState(): SSEConnectionState {
+    return this.state;
+  }
+
+  getLastEventId(): string | null {
+    return this.lastEventId;
+  }
+
+  /** When the server last sent anything, in epoch milliseconds; 0 before the first request */
+  getLastReceivedAt(): number {
+    return this.lastReceivedAt;
   }
 }
 
@@ -310,10 +519,14 @@ class SSEService {
   private connections: Map<string, SSEConnection> = new Map();
 
   createConnection(id: string, options: SSEOptions): SSEConnection {
+    // Carry the last event id over so a replacement connection resumes where the old one stopped
+    const lastEventId =
+      options.lastEventId ?? this.connections.get(id)?.getLastEventId() ?? undefined;
+
     // Close existing connection with same ID
     this.closeConnection(id);
 
-    const connection = new SSEConnection(options);
+    const connection = new SSEConnection({ ...options, lastEventId });
     this.connections.set(id, connection);
 
     logger.debug(`Created SSE connection: ${id}`);
@@ -0,0 +1,189 @@
+import { logger } from '@/utils/logger';
+
+export interface SSERequest {
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * What a transport reports about one request. After the request is aborted, or once
+ * `onClose` or `onError` has fired, no handler fires again.
+ */
+export interface SSETransportHandlers {
+  /** A successful response arrived and its body is about to stream */
+  onOpen: () => void;
+  /**
+   * The response body, in order, split wherever the network split it. Transports that
+   * read raw bytes pass them on undecoded; the SSE parser decodes them.
+   */
+  onData: (chunk: string | Uint8Array) => void;
+  /**
+   * The response ended. `recycled` means the transport ended a healthy response itself to
+   * bound memory, and the stream should be reopened straight away.
+   */
+  onClose: (reason: SSECloseReason) => void;
+  /** The request failed; `status` is set when the server answered with an error status */
+  onError: (error: Error, status?: number) => void;
+}
+
+export type SSECloseReason = 'ended' | 'recycled';
+
+/**
+ * Opens a streaming GET request. Returns a function that aborts it.
+ */
+export interface SSETransport {
+  open: (request: SSERequest, handlers: SSETransportHandlers) => () => void;
+}
+
+const isSuccessStatus = (status: number) => status >= 200 && status < 300;
+
+// XMLHttpRequest keeps the whole response in `responseText` for as long as the request
+// lives, so a long-lived stream is reopened once it has delivered this many characters
+const MAX_XHR_RESPONSE_LENGTH = 1_000_000;
+
+// Two line endings in a row: the text ends between events, where reopening loses nothing
+const ENDS_WITH_BLANK_LINE = /(\n\n|\r\r|\n\r|\n\r\n|\r\r\n)$/;
+
+/**
+ * Streams with XMLHttpRequest, which React Native supports without a polyfill. Only the
+ * text added since the last update is handed on.
+ */
+export const xhrTransport: SSETransport = {
+  open: (request, handlers) => {
+    const xhr = new XMLHttpRequest();
+    let finished = false;
+    let received = 0;
+
+    const finish = () => {
+      const wasFinished = finished;
+      finished = true;
+      return !wasFinished;
+    };
+
+    xhr.open('GET', request.url);
+    Object.entries(request.headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.onreadystatechange = () => {
+      if (finished) return;
+
+      if (xhr.readyState === XMLHttpRequest.HEADERS_RECEIVED) {
+        if (isSuccessStatus(xhr.status)) {
+          handlers.onOpen();
+        } else {
+          // Aborting resets the status, so read it first
+          const status = xhr.status;
+          logger.error('SSE bad status', { status });
+          finish();
+          xhr.abort();
+          handlers.onError(new Error(`HTTP ${status}`), status);
+          return;
+        }
+      }
+
+      if (xhr.readyState === XMLHttpRequest.LOADING || xhr.readyState === XMLHttpRequest.DONE) {
+        const text = xhr.responseText ?? '';
+        if (text.length > received) {
+          const chunk = text.slice(received);
+          received = text.length;
+          handlers.onData(chunk);
+        }
+
+        const canRecycle =
+          received >= MAX_XHR_RESPONSE_LENGTH &&
+          xhr.readyState === XMLHttpRequest.LOADING &&
+          ENDS_WITH_BLANK_LINE.test(text.slice(-3));
+        if (canRecycle && finish()) {
+          xhr.abort();
+          handlers.onClose('recycled');
+          return;
+        }
+      }
+
+      if (xhr.readyState === XMLHttpRequest.DONE && finish()) {
+        if (isSuccessStatus(xhr.status)) {
+          handlers.onClose('ended');
+        } else {
+          handlers.onError(new Error(`Connection failed: ${xhr.status}`), xhr.status || undefined);
+        }
+      }
+    };
+
+    xhr.onerror = () => {
+      if (finish()) handlers.onError(new Error('XHR error'));
+    };
+
+    xhr.ontimeout = () => {
+      if (finish()) handlers.onError(new Error('Connection timeout'));
+    };
+
+    xhr.send();
+
+    return () => {
+      finished = true;
+      xhr.abort();
+    };
+  },
+};
+
+/**
+ * Streams with fetch and a readable response body, where the runtime provides one.
+ * Body bytes are passed on as they are read, so nothing accumulates.
+ */
+export const fetchTransport: SSETransport = {
+  open: (request, handlers) => {
+    const controller = new AbortController();
+    let finished = false;
+
+    const fail = (error: Error, status?: number) => {
+      if (finished) return;
+      finished = true;
+      handlers.onError(error, status);
+    };
+
+    const stream = async () => {
+      const response = await fetch(request.url, {
+        method: 'GET',
+        headers: request.headers,
+        signal: controller.signal,
+      });
+
+      if (!isSuccessStatus(response.status)) {
+        fail(new Error(`HTTP ${response.status}`), response.status);
+        return;
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        fail(new Error('Response body is null'));
+        return;
+      }
+
+      if (finished) return;
+      handlers.onOpen();
+
+      try {
+        while (!finished) {
+          const { done, value } = await reader.read();
+          if (finished) return;
+          if (done) break;
+
+          if (value?.length) handlers.onData(value);
+        }
+      } finally {
+        reader.releaseLock();
+      }
+
+      if (!finished) {
+        finished = true;
+        handlers.onClose('ended');
+      }
+    };
+
+    stream().catch((error: Error) => fail(error));
+
+    return () => {
+      finished = true;
+      controller.abort();
+    };
+  },
+};
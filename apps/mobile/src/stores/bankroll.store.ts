@@ -0,0 +1,84 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { preferencesStorage } from '@/utils/storage';
+import type { BankrollSettings, StakingStrategy } from '@/utils/staking';
+
+const DEFAULT_SETTINGS: BankrollSettings = {
+  bankroll: 0,
+  strategy: 'fixed-unit',
+  unitSize: 10,
+  percentage: 0.02,
+  kellyFraction: 0.25,
+};
+
+const clampFraction = (value: number): number => Math.min(Math.max(value, 0), 1);
+
+interface BankrollState extends BankrollSettings {
+  // Actions
+  setBankroll: (bankroll: number) => void;
+  setStrategy: (strategy: StakingStrategy) => void;
+  setUnitSize: (unitSize: number) => void;
+  setPercentage: (percentage: number) => void;
+  setKellyFraction: (kellyFraction: number) => void;
+  resetBankroll: () => void;
+}
+
+export const useBankrollStore = create<BankrollState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_SETTINGS,
+
+      setBankroll: (bankroll) => {
+        if (Number.isFinite(bankroll) && bankroll >= 0) set({ bankroll });
+      },
+
+      setStrategy: (strategy) => {
+        set({ strategy });
+      },
+
+      setUnitSize: (unitSize) => {
+        if (Number.isFinite(unitSize) && unitSize >= 0) set({ unitSize });
+      },
+
+      setPercentage: (percentage) => {
+        if (Number.isFinite(percentage)) set({ percentage: clampFraction(percentage) });
+      },
+
+      setKellyFraction: (kellyFraction) => {
+        if (Number.isFinite(kellyFraction)) set({ kellyFraction: clampFraction(kellyFraction) });
+      },
+
+      resetBankroll: () => {
+        set(DEFAULT_SETTINGS);
+      },
+    }),
+    {
+      name: 'bankroll',
+      storage: createJSONStorage(() => preferencesStorage),
+      partialize: ({ bankroll, strategy, unitSize, percentage, kellyFraction }) => ({
+        bankroll,
+        strategy,
+        unitSize,
+        percentage,
+        kellyFraction,
+      }),
+    }
+  )
+);
+
+/**
+ * Current settings as a plain object for the staking helpers
+ */
+export const selectBankrollSettings = ({
+  bankroll,
+  strategy,
+  unitSize,
+  percentage,
+  kellyFraction,
+}: BankrollState): BankrollSettings => ({
+  bankroll,
+  strategy,
+  unitSize,
+  percentage,
+  kellyFraction,
+});
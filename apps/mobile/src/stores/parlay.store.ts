@@ -0,0 +1,64 @@
+import { create } from 'zustand';
+import { logger } from '@/utils/logger';
+import type { BetRecommendation } from '@/types/bet';
+
+const MAX_PARLAY_LEGS = 12;
+const DEFAULT_PARLAY_STAKE = 10;
+
+interface ParlayState {
+  legs: BetRecommendation[];
+  stake: number;
+  chatId: string | null;
+
+  // Actions
+  addLeg: (recommendation: BetRecommendation, chatId?: string) => boolean;
+  removeLeg: (recommendationId: string) => void;
+  hasLeg: (recommendationId: string) => boolean;
+  setStake: (stake: number) => void;
+  clearSlip: () => void;
+}
+
+export const useParlayStore = create<ParlayState>((set, get) => ({
+  legs: [],
+  stake: DEFAULT_PARLAY_STAKE,
+  chatId: null,
+
+  addLeg: (recommendation, chatId) => {
+    const { legs } = get();
+
+    if (legs.some((leg) => leg.id === recommendation.id)) {
+      return false;
+    }
+
+    if (legs.length >= MAX_PARLAY_LEGS) {
+      logger.warn('Parlay slip is full', { maxLegs: MAX_PARLAY_LEGS });
+      return false;
+    }
+
+    set({
+      legs: [...legs, recommendation],
+      chatId: get().chatId ?? chatId ?? null,
+    });
+    logger.info('Added parlay leg', {
+      recommendationId: recommendation.id,
+      legCount: legs.length + 1,
+    });
+    return true;
+  },
+
+  removeLeg: (recommendationId) => {
+    set({ legs: get().legs.filter((leg) => leg.id !== recommendationId) });
+  },
+
+  hasLeg: (recommendationId) => {
+    return get().legs.some((leg) => leg.id === recommendationId);
+  },
+
+  setStake: (stake) => {
+    set({ stake: Number.isFinite(stake) && stake > 0 ? stake : 0 });
+  },
+
+  clearSlip: () => {
+    set({ legs: [], stake: DEFAULT_PARLAY_STAKE, chatId: null });
+  },
+}));
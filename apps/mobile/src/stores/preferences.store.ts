@@ -0,0 +1,59 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { preferencesStorage } from '@/utils/storage';
+import type { Language } from '@/i18n';
+import type { CurrencyCode, OddsFormat } from '@/types/bet';
+
+interface PreferencesState {
+  /** Format every price is displayed in, whatever format the API quoted it in */
+  oddsFormat: OddsFormat;
+  /** Implied-probability move the user accepts without re-confirming, e.g. 0.01 for 1 pt */
+  oddsMovementTolerance: number;
+  /** Overrides the profile's currency on this device; null follows the profile */
+  currency: CurrencyCode | null;
+  /** BCP 47 locale override for number formatting; null follows the profile, then the device */
+  locale: string | null;
+  /** UI language override; null follows the device language */
+  language: Language | null;
+
+  // Actions
+  setOddsFormat: (format: OddsFormat) => void;
+  setCurrency: (currency: CurrencyCode | null) => void;
+  setLocale: (locale: string | null) => void;
+  setLanguage: (language: Language | null) => void;
+  setOddsMovementTolerance: (tolerance: number) => void;
+}
+
+export const usePreferencesStore = create<PreferencesState>()(
+  persist(
+    (set) => ({
+      oddsFormat: 'american',
+      oddsMovementTolerance: 0.01,
+      currency: null,
+      locale: null,
+      language: null,
+
+      setOddsFormat: (oddsFormat) => set({ oddsFormat }),
+      setCurrency: (currency) => set({ currency }),
+      setLocale: (locale) => set({ locale }),
+      setLanguage: (language) => set({ language }),
+
+      setOddsMovementTolerance: (tolerance) => {
+        if (Number.isFinite(tolerance) && tolerance >= 0) {
+          set({ oddsMovementTolerance: tolerance });
+        }
+      },
+    }),
+    {
+      name: 'preferences',
+      storage: createJSONStorage(() => preferencesStorage),
+      partialize: ({ oddsFormat, oddsMovementTolerance, currency, locale, language }) => ({
+        oddsFormat,
+        oddsMovementTolerance,
+        currency,
+        locale,
+        language,
+      }),
+    }
+  )
+);
@@ -0,0 +1,127 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { addMilliseconds, addMonths } from 'date-fns';
+import { analyticsService } from '@/services/analytics.service';
+import { secureStorage } from '@/utils/storage';
+import { DEFAULT_CURRENCY } from '@/utils/money';
+import type { CurrencyCode } from '@/types/bet';
+import {
+  LIMIT_INCREASE_DELAY,
+  getEffectiveStakeLimits,
+  getLimitCurrency,
+  isLimitIncrease,
+  type LimitPeriod,
+  type ResponsibleGamblingSettings,
+} from '@/utils/responsibleGambling';
+
+const DEFAULT_SETTINGS: ResponsibleGamblingSettings = {
+  stakeLimits: { daily: null, weekly: null, monthly: null },
+  // Limits saved before they were tagged were entered in dollars
+  limitCurrency: DEFAULT_CURRENCY,
+  pendingLimitChanges: {},
+  coolOffUntil: null,
+  selfExcludedUntil: null,
+};
+
+/**
+ * Later of an existing end time and a new one, so breaks can be extended but never shortened
+ */
+const extendUntil = (current: string | null, next: Date): string =>
+  current && new Date(current) > next ? current : next.toISOString();
+
+interface ResponsibleGamblingState extends ResponsibleGamblingSettings {
+  // Actions
+  /** `currency` is the user's, taken on when no other limit is set */
+  setStakeLimit: (period: LimitPeriod, amount: number | null, currency: CurrencyCode) => void;
+  startCoolOff: (duration: number) => void;
+  selfExclude: (months: number) => void;
+}
+
+/**
+ * Deliberately has no reset action and is not cleared on logout: cool-off and
+ * self-exclusion must hold until they expire.
+ */
+export const useResponsibleGamblingStore = create<ResponsibleGamblingState>()(
+  persist(
+    (set, get) => ({
+      ...DEFAULT_SETTINGS,
+
+      setStakeLimit: (period, amount, currency) => {
+        if (amount !== null && (!Number.isFinite(amount) || amount < 0)) return;
+
+        const now = new Date();
+        const limitCurrency = getLimitCurrency(get(), currency);
+        const current = getEffectiveStakeLimits(get(), now)[period];
+        const pendingLimitChanges = { ...get().pendingLimitChanges };
+        delete pendingLimitChanges[period];
+
+        if (isLimitIncrease(current, amount)) {
+          analyticsService.trackStakeLimitChanged(period, amount, true);
+          set({
+            stakeLimits: { ...get().stakeLimits, [period]: current },
+            limitCurrency,
+            pendingLimitChanges: {
+              ...pendingLimitChanges,
+              [period]: {
+                amount,
+                effectiveAt: addMilliseconds(now, LIMIT_INCREASE_DELAY).toISOString(),
+              },
+            },
+          });
+        } else {
+          analyticsService.trackStakeLimitChanged(period, amount, false);
+          set({
+            stakeLimits: { ...get().stakeLimits, [period]: amount },
+            limitCurrency,
+            pendingLimitChanges,
+          });
+        }
+      },
+
+      startCoolOff: (duration) => {
+        analyticsService.trackCoolOffStarted(Math.round(duration / (60 * 60 * 1000)));
+        set({
+          coolOffUntil: extendUntil(get().coolOffUntil, addMilliseconds(new Date(), duration)),
+        });
+      },
+
+      selfExclude: (months) => {
+        analyticsService.trackSelfExclusionStarted(months);
+        set({
+          selfExcludedUntil: extendUntil(get().selfExcludedUntil, addMonths(new Date(), months)),
+        });
+      },
+    }),
+    {
+      name: 'responsible-gambling',
+      storage: createJSONStorage(() => secureStorage),
+      partialize: ({
+        stakeLimits,
+        limitCurrency,
+        pendingLimitChanges,
+        coolOffUntil,
+        selfExcludedUntil,
+      }) => ({
+        stakeLimits,
+        limitCurrency,
+        pendingLimitChanges,
+        coolOffUntil,
+        selfExcludedUntil,
+      }),
+    }
+  )
+);
+
+/**
+ * Current settings, waiting for secure storage to load on cold start so limits
+ * are never checked against defaults
+ */
+export const loadResponsibleGamblingSettings = async (): Promise<ResponsibleGamblingSettings> => {
+  if (!useResponsibleGamblingStore.persist.hasHydrated()) {
+    await useResponsibleGamblingStore.persist.rehydrate();
+  }
+
+  const { stakeLimits, limitCurrency, pendingLimitChanges, coolOffUntil, selfExcludedUntil } =
+    useResponsibleGamblingStore.getState();
+  return { stakeLimits, limitCurrency, pendingLimitChanges, coolOffUntil, selfExcludedUntil };
+};
@@ -1,17 +1,19 @@
 import { create } from 'zustand';
 import { Appearance, ColorSchemeName } from 'react-native';
 
+type BottomSheetContent = 'bet-confirmation' | 'parlay-slip' | 'settings';
+
 interface UIState {
   theme: 'light' | 'dark' | 'system';
   effectiveTheme: 'light' | 'dark';
   isBottomSheetOpen: boolean;
-  bottomSheetContent: 'bet-confirmation' | 'settings' | null;
+  bottomSheetContent: BottomSheetContent | null;
   bottomSheetData: any;
 
   // Actions
   setTheme: (theme: 'light' | 'dark' | 'system') => void;
   updateEffectiveTheme: (systemTheme: ColorSchemeName) => void;
-  openBottomSheet: (content: 'bet-confirmation' | 'settings', data?: any) => void;
+  openBottomSheet: (content: BottomSheetContent, data?: any) => void;
   closeBottomSheet: () => void;
   setBottomSheetData: (data: any) => void;
 }
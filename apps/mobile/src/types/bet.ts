@@ -3,7 +3,14 @@
  * These supplement the types from @betthink/shared
  */
 
-import type { Sportsbook } from '@betthink/shared';
+import type { BetConfirmation, Sportsbook } from '@betthink/shared';
+
+export type OddsFormat = 'decimal' | 'american' | 'fractional';
+
+/**
+ * ISO 4217 currency code, e.g. "USD"
+ */
+export type CurrencyCode = string;
 
 /**
  * Bet recommendation from the AI assistant
@@ -18,11 +25,105 @@ export interface BetRecommendation {
   betType: string;
   selection: string;
   odds: number;
-  oddsFormat: 'decimal' | 'american' | 'fractional';
+  oddsFormat: OddsFormat;
   stake: number;
   potentialPayout: number;
+  /** Currency of `stake` and `potentialPayout`; missing on recommendations saved before it was sent */
+  currency?: CurrencyCode;
   sportsbook: Sportsbook;
   reasoning: string;
   confidence: number;
 }
 
+/**
+ * Price for the same market as a recommendation at one sportsbook
+ */
+export interface SportsbookOdds {
+  sportsbook: Sportsbook;
+  odds: number;
+  oddsFormat: BetRecommendation['oddsFormat'];
+  updatedAt: string;
+}
+
+/**
+ * Live price change for a recommendation at one sportsbook, streamed over SSE
+ */
+export interface OddsUpdate {
+  recommendationId: string;
+  sportsbookId: string;
+  odds: number;
+  oddsFormat: BetRecommendation['oddsFormat'];
+  updatedAt: string;
+}
+
+/**
+ * The stake, sportsbook and price a bet was placed at. These differ from the
+ * recommendation's when the user sized the stake, switched sportsbook or accepted a
+ * moved price.
+ */
+export interface PlacedBetTerms {
+  stake: number;
+  sportsbook: Sportsbook;
+  odds: number;
+  oddsFormat: OddsFormat;
+  potentialPayout: number;
+}
+
+/**
+ * Bet confirmation as sent to the API, with the terms the user placed
+ */
+export type BetConfirmationRequest = Omit<BetConfirmation, 'confirmedAt'> & PlacedBetTerms;
+
+/**
+ * Bet confirmation from the API
+ * Terms are missing on bets confirmed before they were sent
+ */
+export type PlacedBetConfirmation = BetConfirmation & Partial<PlacedBetTerms>;
+
+/**
+ * A confirmed multi-leg parlay
+ * Odds are stored in decimal format
+ */
+export interface ParlayConfirmation {
+  id: string;
+  userId: string;
+  chatId?: string;
+  legRecommendationIds: string[];
+  sportsbookId: string;
+  stake: number;
+  combinedOdds: number;
+  potentialPayout: number;
+  redirectedToSportsbook: boolean;
+  confirmedAt: string;
+}
+
+/**
+ * Parlay confirmation as sent to the API, with each leg's price as placed, in the order
+ * of `legRecommendationIds`
+ */
+export type ParlayConfirmationRequest = Omit<ParlayConfirmation, 'id' | 'confirmedAt'> & {
+  legPrices: Pick<SportsbookOdds, 'odds' | 'oddsFormat'>[];
+};
+
+export type BetSettlementStatus = 'won' | 'lost' | 'push' | 'void';
+
+/**
+ * Graded result of a confirmed bet
+ * `payout` is the total amount returned, including the stake (0 for a loss)
+ */
+export interface BetSettlement {
+  betRecommendationId: string;
+  status: BetSettlementStatus;
+  payout: number;
+  settledAt: string;
+}
+
+/**
+ * Locally stored bet confirmation with the recommendation as it was when confirmed
+ * Snapshot is null when the recommendation could not be fetched during sync
+ * Settlement is null until the bet has been graded
+ */
+export interface BetLedgerEntry extends BetConfirmation {
+  recommendation: BetRecommendation | null;
+  settlement: BetSettlement | null;
+}
@@ -0,0 +1,117 @@
+/**
+ * Local type definitions for chat features
+ * These supplement the types from @betthink/shared
+ */
+
+import type { ChatMessage, Conversation } from '@betthink/shared';
+
+/**
+ * Delivery state of an outgoing message in the offline outbox.
+ * `failed` entries are dead-lettered and only resent when the user taps retry.
+ */
+export type OutboxStatus = 'pending' | 'failed';
+
+/**
+ * Where a message sits in a branching conversation. `parentId` is the message it follows
+ * (null for the first) and `versionOf` the message it is an alternate of, set on edited
+ * user messages and regenerated replies. Messages without either read as linear history.
+ */
+export interface MessageBranchFields {
+  parentId?: string | null;
+  versionOf?: string | null;
+}
+
+/**
+ * Outgoing user message persisted until the API accepts it
+ */
+export interface OutboxEntry {
+  localId: string;
+  chatId: string;
+  content: string;
+  createdAt: string;
+  attempts: number;
+  lastError: string | null;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  parentId: string | null;
+}
+
+/**
+ * Narrows a local message search; timestamps are ISO strings and bounds are inclusive
+ */
+export interface MessageSearchFilters {
+  chatId?: string;
+  role?: ChatMessage['role'];
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+/**
+ * A message matching a search, with a snippet of its content around the match.
+ * Matched terms in `snippet` are wrapped in HIGHLIGHT_START / HIGHLIGHT_END.
+ */
+export interface MessageSearchResult {
+  messageId: string;
+  localId: string;
+  chatId: string;
+  threadTitle: string | null;
+  role: ChatMessage['role'];
+  timestamp: string;
+  snippet: string;
+}
+
+/**
+ * A user-defined folder for grouping chat threads
+ */
+export interface ChatFolder {
+  id: string;
+  userId: string;
+  name: string;
+  createdAt: string;
+}
+
+/**
+ * Chat thread with how the user has organised it. Servers that predate these fields omit
+ * them, so they are optional.
+ */
+export type OrganizedChatThread = Conversation & {
+  pinned?: boolean;
+  archived?: boolean;
+  folderId?: string | null;
+};
+
+/**
+ * Thread fields the user can change; `folderId: null` takes the thread out of its folder
+ */
+export type ThreadUpdate = Partial<
+  Pick<OrganizedChatThread, 'title' | 'pinned' | 'archived' | 'folderId'>
+>;
+
+/**
+ * Which threads the chat list shows. Every view except `archived` hides archived threads.
+ */
+export type ThreadListFilter =
+  | { kind: 'all' }
+  | { kind: 'pinned' }
+  | { kind: 'archived' }
+  | { kind: 'folder'; folderId: string };
+
+/**
+ * Chat message annotated with its outbox delivery state, if it has not been sent yet
+ */
+export type DeliverableChatMessage = ChatMessage &
+  MessageBranchFields & {
+    localId?: string;
+    deliveryStatus?: OutboxStatus;
+  };
+
+/**
+ * A message on the conversation path being shown, with the versions it can be swapped for
+ */
+export interface ConversationStep<T extends DeliverableChatMessage = DeliverableChatMessage> {
+  message: T;
+  groupId: string;
+  versionIds: string[];
+  versionIndex: number;
+}
@@ -0,0 +1,63 @@
+export interface FrameScheduler {
+  request: (callback: () => void) => number;
+  cancel: (handle: number) => void;
+}
+
+export interface ChunkCoalescer {
+  /** Queue a chunk; the first chunk of a frame schedules the flush */
+  push: (chunk: string) => void;
+  /** Deliver queued chunks now, e.g. before handling the end of a stream */
+  flush: () => void;
+  /** Drop queued chunks, e.g. when the stream is replaced or torn down */
+  cancel: () => void;
+}
+
+export const animationFrameScheduler: FrameScheduler = {
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (handle) => cancelAnimationFrame(handle),
+};
+
+/**
+ * Batches streamed text so it reaches state at most once per frame. Chunks are joined in
+ * order and handed to `onFlush` as one string; nothing is ever dropped unless cancelled.
+ */
+export const createChunkCoalescer = (
+  onFlush: (text: string) => void,
+  scheduler: FrameScheduler = animationFrameScheduler
+): ChunkCoalescer => {
+  let queued: string[] = [];
+  let frame: number | null = null;
+
+  const flush = () => {
+    if (frame !== null) {
+      scheduler.cancel(frame);
+      frame = null;
+    }
+    if (queued.length === 0) return;
+
+    const text = queued.join('');
+    queued = [];
+    onFlush(text);
+  };
+
+  return {
+    push: (chunk) => {
+      if (!chunk) return;
+      queued.push(chunk);
+      if (frame === null) {
+        frame = scheduler.request(() => {
+          frame = null;
+          flush();
+        });
+      }
+    },
+    flush,
+    cancel: () => {
+      if (frame !== null) {
+        scheduler.cancel(frame);
+        frame = null;
+      }
+      queued = [];
+    },
+  };
+};
@@ -0,0 +1,100 @@
+import { LICENSED_SPORTSBOOKS, US_STATES, type StateCode } from '@/config/jurisdictions';
+import {
+  SPORTSBOOKS,
+  SPORTSBOOK_KEYS,
+  findSportsbookKey,
+  toSportsbook,
+} from '@/config/sportsbooks';
+import type { Sportsbook } from '@betthink/shared';
+import type { TranslationKey, TranslationParams } from '@/i18n';
+import type { UserLocation } from '@/services/location.service';
+
+export type SportsbookAvailability =
+  /** Licensed in the user's state */
+  | { status: 'available'; state: StateCode }
+  /** We can't tell: no location yet, outside the US, or a book we don't know */
+  | { status: 'unknown' }
+  /** Not licensed in the user's state; `alternative` is the closest legal book, if any */
+  | { status: 'unavailable'; state: StateCode; alternative: Sportsbook | null }
+  /** The state has no legal online sports betting */
+  | { status: 'prohibited'; state: StateCode };
+
+const STATE_CODES = Object.keys(US_STATES) as StateCode[];
+
+/**
+ * Reverse geocoding returns a code on iOS ("NJ") and a full name on Android ("New Jersey")
+ */
+export const normalizeStateCode = (region?: string | null): StateCode | null => {
+  if (!region) return null;
+
+  const value = region.trim().toLowerCase();
+  return (
+    STATE_CODES.find(
+      (code) => code.toLowerCase() === value || US_STATES[code].toLowerCase() === value
+    ) ?? null
+  );
+};
+
+export const getStateName = (state: StateCode): string => US_STATES[state];
+
+const isUnitedStates = (country?: string): boolean =>
+  !country ||
+  ['us', 'usa', 'united states', 'united states of america'].includes(country.toLowerCase());
+
+export const getUserStateCode = (location: UserLocation | null): StateCode | null => {
+  if (!location || !isUnitedStates(location.country)) return null;
+  return normalizeStateCode(location.state);
+};
+
+/**
+ * Whether `sportsbook` may be used at `location`, with a legal alternative when it can't
+ */
+export const getSportsbookAvailability = (
+  sportsbook: Sportsbook,
+  location: UserLocation | null
+): SportsbookAvailability => {
+  const state = getUserStateCode(location);
+  if (!state) return { status: 'unknown' };
+
+  const licensed = LICENSED_SPORTSBOOKS[state];
+  if (!licensed) return { status: 'prohibited', state };
+
+  const key = findSportsbookKey(sportsbook);
+  if (!key) return { status: 'unknown' };
+  if (licensed.includes(key)) return { status: 'available', state };
+
+  // Registry order ranks the books we'd most like to send users to
+  const alternativeKey = SPORTSBOOK_KEYS.find((candidate) => licensed.includes(candidate));
+  return {
+    status: 'unavailable',
+    state,
+    alternative: alternativeKey ? toSportsbook(SPORTSBOOKS[alternativeKey]) : null,
+  };
+};
+
+export const isSportsbookBlocked = (availability: SportsbookAvailability): boolean =>
+  availability.status === 'unavailable' || availability.status === 'prohibited';
+
+/**
+ * Catalog key and params saying why the user can't bet with a book; null when they can
+ */
+export const describeAvailability = (
+  availability: SportsbookAvailability
+): [TranslationKey, TranslationParams] | null => {
+  switch (availability.status) {
+    case 'prohibited':
+      return ['jurisdiction.prohibited', { state: getStateName(availability.state) }];
+    case 'unavailable':
+      return availability.alternative
+        ? [
+            'jurisdiction.unavailableWithAlternative',
+            {
+              state: getStateName(availability.state),
+              sportsbook: availability.alternative.name,
+            },
+          ]
+        : ['jurisdiction.unavailable', { state: getStateName(availability.state) }];
+    default:
+      return null;
+  }
+};
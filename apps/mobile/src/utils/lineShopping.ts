@@ -0,0 +1,87 @@
+import { convertOdds, type Sportsbook } from '@betthink/shared';
+import type { BetRecommendation, SportsbookOdds } from '@/types/bet';
+
+export interface OddsComparisonRow {
+  sportsbook: Sportsbook;
+  odds: number;
+  oddsFormat: BetRecommendation['oddsFormat'];
+  /** Null for the recommendation's own price when the API didn't return a fresher one */
+  updatedAt: string | null;
+  decimalOdds: number;
+  americanOdds: number;
+  impliedProbability: number;
+  /** Implied probability saved against the recommended price; positive is a better price */
+  edge: number;
+  isRecommended: boolean;
+  isBest: boolean;
+  /** False for books the user can't bet with, e.g. not licensed in their state */
+  isEligible: boolean;
+}
+
+export const getImpliedProbability = (decimalOdds: number): number =>
+  decimalOdds > 0 ? 1 / decimalOdds : 0;
+
+/**
+ * Percentage points, e.g. "+1.8 pts"
+ */
+export const formatEdge = (edge: number): string =>
+  `${edge > 0 ? '+' : ''}${(edge * 100).toFixed(1)} pts`;
+
+/**
+ * Lines up every book's price for a recommendation's market, best price first.
+ * The best price is only picked from eligible books.
+ */
+export const compareOdds = (
+  recommendation: BetRecommendation,
+  quotes: SportsbookOdds[],
+  isEligible: (sportsbook: Sportsbook) => boolean = () => true
+): OddsComparisonRow[] => {
+  const recommendedId = recommendation.sportsbook.id;
+  const hasRecommendedQuote = quotes.some((quote) => quote.sportsbook.id === recommendedId);
+
+  const allQuotes: (Omit<SportsbookOdds, 'updatedAt'> & { updatedAt: string | null })[] =
+    hasRecommendedQuote
+      ? quotes
+      : [
+          {
+            sportsbook: recommendation.sportsbook,
+            odds: recommendation.odds,
+            oddsFormat: recommendation.oddsFormat,
+            updatedAt: null,
+          },
+          ...quotes,
+        ];
+
+  const recommendedDecimal = convertOdds(recommendation.odds, recommendation.oddsFormat, 'decimal');
+  const recommendedProbability = getImpliedProbability(recommendedDecimal);
+
+  const seen = new Set<string>();
+  const rows = allQuotes
+    .filter((quote) => {
+      if (seen.has(quote.sportsbook.id)) return false;
+      seen.add(quote.sportsbook.id);
+      return true;
+    })
+    .map((quote): OddsComparisonRow => {
+      const decimalOdds = convertOdds(quote.odds, quote.oddsFormat, 'decimal');
+      const impliedProbability = getImpliedProbability(decimalOdds);
+
+      return {
+        ...quote,
+        decimalOdds,
+        americanOdds: convertOdds(decimalOdds, 'decimal', 'american'),
+        impliedProbability,
+        edge: recommendedProbability - impliedProbability,
+        isRecommended: quote.sportsbook.id === recommendedId,
+        isBest: false,
+        isEligible: isEligible(quote.sportsbook),
+      };
+    })
+    // Recommended book first among equal prices
+    .sort(
+      (a, b) => b.decimalOdds - a.decimalOdds || Number(b.isRecommended) - Number(a.isRecommended)
+    );
+
+  const best = rows.find((row) => row.isEligible);
+  return rows.map((row) => (row === best ? { ...row, isBest: true } : row));
+};
@@ -0,0 +1,403 @@
+/**
+ * Markdown parsing for assistant messages. Supports the subset the assistant writes:
+ * paragraphs, headings, bullet and numbered lists, block quotes, rules, fenced code,
+ * pipe tables, and inline bold, italics, code and links. Raw HTML is never interpreted,
+ * and links are only kept for http(s) and mailto URLs.
+ */
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'strong'; children: InlineNode[] }
+  | { type: 'emphasis'; children: InlineNode[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; children: InlineNode[] };
+
+export type TableAlignment = 'left' | 'center' | 'right' | null;
+
+export interface ListItem {
+  text: string;
+  depth: number;
+  marker: string;
+}
+
+export type MarkdownBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'list'; ordered: boolean; items: ListItem[] }
+  | { type: 'quote'; text: string }
+  | { type: 'rule' }
+  | { type: 'code'; language: string | null; text: string; closed: boolean }
+  | { type: 'table'; header: string[]; align: TableAlignment[]; rows: string[][] };
+
+/**
+ * Blocks of a source string with the offset each starts at, so a longer version of the
+ * same string can be parsed from where this one became unsettled
+ */
+export interface ParsedMarkdown {
+  source: string;
+  blocks: MarkdownBlock[];
+  offsets: number[];
+}
+
+interface Line {
+  text: string;
+  start: number;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const SAFE_URL = /^(https?:\/\/|mailto:)/i;
+// Inline patterns are sticky so they match at an index without slicing the text
+const TICKS = /`+/y;
+const LINK = /\[([^\]]+)\]\(\s*<?([^)\s>]+)>?(?:\s+"[^"]*")?\s*\)/y;
+const BARE_URL = /https?:\/\/[^\s<>()]*[^\s<>().,;:!?'"]/iy;
+
+const isBlank = (line: string) => line.trim() === '';
+
+const isOrderedItem = (line: string) => /\d/.test(line.match(LIST_ITEM)![2]);
+
+const isTableStart = (lines: Line[], index: number) =>
+  index + 1 < lines.length &&
+  lines[index].text.includes('|') &&
+  lines[index + 1].text.includes('-') &&
+  TABLE_SEPARATOR.test(lines[index + 1].text);
+
+const startsBlock = (lines: Line[], index: number) => {
+  const { text } = lines[index];
+  return (
+    FENCE.test(text) ||
+    HEADING.test(text) ||
+    RULE.test(text) ||
+    LIST_ITEM.test(text) ||
+    QUOTE.test(text) ||
+    isTableStart(lines, index)
+  );
+};
+
+const splitLines = (source: string, offset: number): Line[] => {
+  const lines: Line[] = [];
+  let start = 0;
+  source.split('\n').forEach((text) => {
+    lines.push({ text, start: offset + start });
+    start += text.length + 1;
+  });
+  return lines;
+};
+
+const splitRow = (line: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  const row = line.trim().replace(/^\|/, '');
+  for (let i = 0; i < row.length; i++) {
+    if (row[i] === '\\' && row[i + 1] === '|') {
+      cell += '|';
+      i++;
+    } else if (row[i] === '|') {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += row[i];
+    }
+  }
+  // A trailing pipe closes the last cell rather than starting an empty one
+  if (cell.trim() || !row.endsWith('|')) cells.push(cell.trim());
+  return cells;
+};
+
+const toAlignment = (cell: string): TableAlignment => {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  if (left && right) return 'center';
+  if (right) return 'right';
+  if (left) return 'left';
+  return null;
+};
+
+/**
+ * Parse complete lines into blocks. Block boundaries only depend on the lines themselves
+ * and the one after, so parsing can restart at any block's first line.
+ */
+const parseBlocks = (source: string, offset: number): Omit<ParsedMarkdown, 'source'> => {
+  const lines = splitLines(source, offset);
+  const blocks: MarkdownBlock[] = [];
+  const offsets: number[] = [];
+  let i = 0;
+
+  const push = (block: MarkdownBlock, start: number) => {
+    blocks.push(block);
+    offsets.push(start);
+  };
+
+  while (i < lines.length) {
+    const { text, start } = lines[i];
+
+    if (isBlank(text)) {
+      i++;
+      continue;
+    }
+
+    const fence = text.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const body: string[] = [];
+      let closed = false;
+      i++;
+      while (i < lines.length) {
+        const line = lines[i].text;
+        i++;
+        if (line.trim().startsWith(marker) && line.trim().replace(/[`~]/g, '') === '') {
+          closed = true;
+          break;
+        }
+        body.push(line);
+      }
+      push({ type: 'code', language: fence[2] || null, text: body.join('\n'), closed }, start);
+      continue;
+    }
+
+    const heading = text.match(HEADING);
+    if (heading) {
+      push({ type: 'heading', level: heading[1].length, text: heading[2] }, start);
+      i++;
+      continue;
+    }
+
+    if (RULE.test(text)) {
+      push({ type: 'rule' }, start);
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(text);
+      const align = splitRow(lines[i + 1].text).map(toAlignment);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i].text) && lines[i].text.includes('|')) {
+        const cells = splitRow(lines[i].text);
+        rows.push(header.map((_, column) => cells[column] ?? ''));
+        i++;
+      }
+      push({ type: 'table', header, align, rows }, start);
+      continue;
+    }
+
+    if (LIST_ITEM.test(text)) {
+      const items: ListItem[] = [];
+      const ordered = isOrderedItem(text);
+      // A top-level item of the other kind starts a new list
+      const continuesList = (line: string) =>
+        LIST_ITEM.test(line) && (/^\s/.test(line) || isOrderedItem(line) === ordered);
+
+      while (i < lines.length) {
+        const line = lines[i].text;
+        const item = continuesList(line) && line.match(LIST_ITEM);
+        if (item) {
+          const [, indent, marker, content] = item;
+          items.push({
+            text: content,
+            depth: Math.floor(indent.replace(/\t/g, '  ').length / 2),
+            marker: /\d/.test(marker) ? `${parseInt(marker, 10)}.` : '•',
+          });
+          i++;
+        } else if (isBlank(line)) {
+          // A blank line only continues the list if another item follows
+          let next = i + 1;
+          while (next < lines.length && isBlank(lines[next].text)) next++;
+          if (next >= lines.length || !continuesList(lines[next].text)) break;
+          i = next;
+        } else if (/^\s+/.test(line) || !startsBlock(lines, i)) {
+          items[items.length - 1].text += `\n${line.trim()}`;
+          i++;
+        } else {
+          break;
+        }
+      }
+      push({ type: 'list', ordered, items }, start);
+      continue;
+    }
+
+    if (QUOTE.test(text)) {
+      const body: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i].text)) {
+        body.push(lines[i].text.match(QUOTE)![1]);
+        i++;
+      }
+      push({ type: 'quote', text: body.join('\n') }, start);
+      continue;
+    }
+
+    const body = [text.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i].text) && !startsBlock(lines, i)) {
+      body.push(lines[i].text.trim());
+      i++;
+    }
+    push({ type: 'paragraph', text: body.join('\n') }, start);
+  }
+
+  return { blocks, offsets };
+};
+
+/**
+ * Parse markdown into blocks. Given the parse of an earlier prefix of `source`, as while a
+ * reply streams in, blocks that appending text can no longer change are reused and only
+ * the tail is parsed again.
+ */
+export const parseMarkdown = (source: string, previous?: ParsedMarkdown | null): ParsedMarkdown => {
+  if (!previous || !source.startsWith(previous.source)) {
+    return { source, ...parseBlocks(source, 0) };
+  }
+
+  // The last line of the prefix may be incomplete and a boundary can depend on the line
+  // after it, so blocks are settled once the next block starts before the last two lines
+  const lastLineStart = previous.source.lastIndexOf('\n');
+  const settledBefore =
+    lastLineStart > 0 ? previous.source.lastIndexOf('\n', lastLineStart - 1) : -1;
+
+  let kept = 0;
+  while (kept + 1 < previous.offsets.length && previous.offsets[kept + 1] <= settledBefore) {
+    kept++;
+  }
+
+  const from = kept > 0 ? previous.offsets[kept] : 0;
+  const tail = parseBlocks(source.slice(from), from);
+
+  return {
+    source,
+    blocks: [...previous.blocks.slice(0, kept), ...tail.blocks],
+    offsets: [...previous.offsets.slice(0, kept), ...tail.offsets],
+  };
+};
+
+const pushText = (nodes: InlineNode[], text: string) => {
+  const last = nodes[nodes.length - 1];
+  if (last?.type === 'text') {
+    last.text += text;
+  } else if (text) {
+    nodes.push({ type: 'text', text });
+  }
+};
+
+const isWordChar = (char: string | undefined) => !!char && /[A-Za-z0-9\u00C0-\u024F]/.test(char);
+
+const matchAt = (pattern: RegExp, text: string, index: number) => {
+  pattern.lastIndex = index;
+  return pattern.exec(text);
+};
+
+/**
+ * Parse inline marks. Unclosed marks, as in a reply that is still streaming, stay text.
+ */
+export const parseInline = (text: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[!-/:-@[-`{-~]/.test(text[i + 1])) {
+      pushText(nodes, text[i + 1]);
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const ticks = matchAt(TICKS, text, i)![0];
+      const end = text.indexOf(ticks, i + ticks.length);
+      if (end > 0) {
+        nodes.push({ type: 'code', text: text.slice(i + ticks.length, end).trim() });
+        i = end + ticks.length;
+        continue;
+      }
+    }
+
+    if (text.startsWith('**', i) || text.startsWith('__', i)) {
+      const marker = text.slice(i, i + 2);
+      let end = text.indexOf(marker, i + 2);
+      // In `***` the strong mark closes last, after any emphasis inside it
+      while (end > 0 && text[end + 2] === marker[0]) end++;
+      if (end > i + 2 && (marker === '**' || !isWordChar(text[end + 2]))) {
+        nodes.push({ type: 'strong', children: parseInline(text.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+
+    if ((char === '*' || char === '_') && !(char === '_' && isWordChar(text[i - 1]))) {
+      const end = text.indexOf(char, i + 1);
+      if (end > i + 1 && text[i + 1] !== ' ' && text[end - 1] !== ' ') {
+        nodes.push({ type: 'emphasis', children: parseInline(text.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '[') {
+      const link = matchAt(LINK, text, i);
+      if (link) {
+        const children = parseInline(link[1]);
+        if (SAFE_URL.test(link[2])) {
+          nodes.push({ type: 'link', href: link[2], children });
+        } else {
+          children.forEach((child) =>
+            child.type === 'text' ? pushText(nodes, child.text) : nodes.push(child)
+          );
+        }
+        i += link[0].length;
+        continue;
+      }
+    }
+
+    if ((char === 'h' || char === 'H') && !isWordChar(text[i - 1])) {
+      const url = matchAt(BARE_URL, text, i);
+      if (url) {
+        nodes.push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    pushText(nodes, char);
+    i++;
+  }
+
+  return nodes;
+};
+
+const inlineToPlainText = (nodes: InlineNode[]): string =>
+  nodes
+    .map((node) =>
+      node.type === 'text' || node.type === 'code' ? node.text : inlineToPlainText(node.children)
+    )
+    .join('');
+
+/**
+ * Markdown without its markup, for screen readers and previews
+ */
+export const markdownToPlainText = (source: string): string =>
+  parseMarkdown(source)
+    .blocks.map((block) => {
+      switch (block.type) {
+        case 'rule':
+          return '';
+        case 'code':
+          return block.text;
+        case 'list':
+          return block.items
+            .map((item) => `${item.marker} ${inlineToPlainText(parseInline(item.text))}`)
+            .join('\n');
+        case 'table':
+          return [block.header, ...block.rows]
+            .map((row) => row.map((cell) => inlineToPlainText(parseInline(cell))).join(', '))
+            .join('\n');
+        default:
+          return inlineToPlainText(parseInline(block.text));
+      }
+    })
+    .filter(Boolean)
+    .join('\n');
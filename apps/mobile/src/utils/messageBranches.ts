@@ -0,0 +1,79 @@
+import type { ConversationStep, DeliverableChatMessage } from '@/types/chat';
+
+const ROOT = '';
+
+/**
+ * The conversation path to show from every stored version of every message.
+ *
+ * Messages form a tree: each follows its `parentId`, and versions of a message (edits and
+ * regenerated replies) share a parent and are grouped by the message they are a version
+ * of. At each fork the path takes the version chosen in `selections`, keyed by group id,
+ * or the newest one. Messages without branch fields, or whose parent isn't loaded, follow
+ * the message before them, so linear histories come back unchanged.
+ */
+export const resolveConversationPath = <T extends DeliverableChatMessage>(
+  messages: T[],
+  selections: Record<string, string> = {}
+): ConversationStep<T>[] => {
+  const ordered = [...messages].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const byId = new Map(ordered.map((message) => [message.id, message]));
+
+  const groupOf = (message: T): string => {
+    let current = message;
+    const seen = new Set<string>();
+    while (current.versionOf && byId.has(current.versionOf) && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.versionOf)!;
+    }
+    return current.versionOf ?? current.id;
+  };
+
+  // Parent of each message, with versions sharing the parent of the message they replace
+  const parents = new Map<string, string>();
+  ordered.forEach((message, index) => {
+    const groupId = groupOf(message);
+    if (message.parentId && byId.has(message.parentId)) {
+      parents.set(message.id, message.parentId);
+    } else if (groupId !== message.id && parents.has(groupId)) {
+      parents.set(message.id, parents.get(groupId)!);
+    } else {
+      parents.set(message.id, index > 0 ? ordered[index - 1].id : ROOT);
+    }
+  });
+
+  // Children of each message as version groups, oldest first
+  const children = new Map<string, Map<string, T[]>>();
+  ordered.forEach((message) => {
+    const parentId = parents.get(message.id)!;
+    const groups = children.get(parentId) ?? new Map<string, T[]>();
+    const groupId = groupOf(message);
+    groups.set(groupId, [...(groups.get(groupId) ?? []), message]);
+    children.set(parentId, groups);
+  });
+
+  const path: ConversationStep<T>[] = [];
+  const visited = new Set<string>();
+  let parentId = ROOT;
+
+  while (!visited.has(parentId)) {
+    visited.add(parentId);
+    const groups = children.get(parentId);
+    if (!groups) break;
+
+    // Several groups share a parent when messages were sent before the reply arrived
+    groups.forEach((versions, groupId) => {
+      const selected = versions.findIndex((version) => version.id === selections[groupId]);
+      const versionIndex = selected >= 0 ? selected : versions.length - 1;
+
+      path.push({
+        message: versions[versionIndex],
+        groupId,
+        versionIds: versions.map((version) => version.id),
+        versionIndex,
+      });
+      parentId = versions[versionIndex].id;
+    });
+  }
+
+  return path;
+};
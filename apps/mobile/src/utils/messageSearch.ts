@@ -0,0 +1,89 @@
+/**
+ * Markers around matched terms in search snippets. Control characters can't appear in
+ * typed messages, so they never collide with message content.
+ */
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_END = '\u0003';
+
+export const SNIPPET_ELLIPSIS = '…';
+
+const SNIPPET_LENGTH = 120;
+const SNIPPET_LEAD = 40;
+
+export interface SnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Words of a search query. Quotes are dropped because they are FTS5 syntax.
+ */
+export const getSearchTerms = (query: string): string[] =>
+  query
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ''))
+    .filter((term) => term.length > 0);
+
+/**
+ * FTS5 MATCH expression that finds messages containing every term, each as a prefix so
+ * results appear while the user is still typing. Terms are quoted so operators like
+ * `OR`, `NEAR` or `-` in the query are searched for rather than interpreted.
+ */
+export const toFtsQuery = (query: string): string =>
+  getSearchTerms(query)
+    .map((term) => `"${term}"*`)
+    .join(' ');
+
+/**
+ * LIKE pattern matching a term anywhere in the text, with wildcards in the term escaped
+ * for `ESCAPE '\'`
+ */
+export const toLikePattern = (term: string): string => `%${term.replace(/[\\%_]/g, '\\$&')}%`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Window of `content` around the first matching term with every term marked, in the same
+ * form FTS5's snippet() produces. Used when full-text search isn't available.
+ */
+export const buildSnippet = (content: string, terms: string[]): string => {
+  const text = content.replace(/\s+/g, ' ').trim();
+  if (terms.length === 0) return text.slice(0, SNIPPET_LENGTH);
+
+  const pattern = new RegExp(terms.map(escapeRegExp).join('|'), 'gi');
+  const firstMatch = text.search(pattern);
+  const start = firstMatch > SNIPPET_LEAD ? firstMatch - SNIPPET_LEAD : 0;
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+
+  const window = text
+    .slice(start, end)
+    .replace(pattern, (match) => `${HIGHLIGHT_START}${match}${HIGHLIGHT_END}`);
+
+  return `${start > 0 ? SNIPPET_ELLIPSIS : ''}${window}${end < text.length ? SNIPPET_ELLIPSIS : ''}`;
+};
+
+/**
+ * Split a marked snippet into plain and highlighted runs for rendering
+ */
+export const splitHighlights = (snippet: string): SnippetSegment[] => {
+  const segments: SnippetSegment[] = [];
+  let highlighted = false;
+  let text = '';
+
+  const flush = () => {
+    if (text) segments.push({ text, highlighted });
+    text = '';
+  };
+
+  for (const char of snippet) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_END) {
+      flush();
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      text += char;
+    }
+  }
+  flush();
+
+  return segments;
+};
@@ -0,0 +1,70 @@
+import { getDeviceLocale } from '@/i18n';
+import type { BetRecommendation, CurrencyCode } from '@/types/bet';
+
+/** Recommendations saved before amounts were tagged were all in dollars */
+export const DEFAULT_CURRENCY: CurrencyCode = 'USD';
+
+export const SUPPORTED_CURRENCIES: { code: CurrencyCode; label: string }[] = [
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'CAD', label: 'Canadian Dollar' },
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'AUD', label: 'Australian Dollar' },
+];
+
+export interface MoneyFormatOptions {
+  currency: CurrencyCode;
+  /** BCP 47 tag; the device locale when omitted */
+  locale?: string;
+  /** Show "+" on gains, for profit and loss figures */
+  signed?: boolean;
+}
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+const getFormatter = ({ currency, locale, signed = false }: MoneyFormatOptions) => {
+  const resolvedLocale = locale ?? getDeviceLocale();
+  const key = `${resolvedLocale}|${currency}|${signed}`;
+  let formatter = formatters.get(key);
+
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat(resolvedLocale, {
+        style: 'currency',
+        currency,
+        signDisplay: signed ? 'always' : 'auto',
+      });
+    } catch {
+      // Unknown locale or currency code from the API; fall back rather than crash the view
+      formatter = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency: DEFAULT_CURRENCY,
+        signDisplay: signed ? 'always' : 'auto',
+      });
+    }
+    formatters.set(key, formatter);
+  }
+
+  return formatter;
+};
+
+/**
+ * e.g. 1234.5 -> "$1,234.50" in en-US or "1.234,50 €" for EUR in de-DE
+ */
+export const formatMoney = (amount: number, options: MoneyFormatOptions): string =>
+  getFormatter(options).format(Number.isFinite(amount) ? amount : 0);
+
+/**
+ * The symbol alone, for input affixes, e.g. "$" or "£"
+ */
+export const getCurrencySymbol = (currency: CurrencyCode, locale?: string): string =>
+  getFormatter({ currency, locale })
+    .formatToParts(0)
+    .find((part) => part.type === 'currency')?.value ?? currency;
+
+/**
+ * Currency a recommendation's stake and payout are in
+ */
+export const getAmountCurrency = (
+  recommendation: Pick<BetRecommendation, 'currency'>
+): CurrencyCode => recommendation.currency ?? DEFAULT_CURRENCY;
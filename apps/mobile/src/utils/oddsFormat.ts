@@ -0,0 +1,64 @@
+import { convertOdds } from '@betthink/shared';
+import { getImpliedProbability } from '@/utils/lineShopping';
+import type { OddsFormat, SportsbookOdds } from '@/types/bet';
+
+type Price = Pick<SportsbookOdds, 'odds' | 'oddsFormat'>;
+
+const MAX_FRACTION_DENOMINATOR = 100;
+
+/**
+ * Closest fraction to the decimal profit multiple, e.g. 2.5 -> "5/2", 0.909 -> "10/11".
+ * Walks the continued fraction expansion until the denominator gets too large to read.
+ */
+const toFraction = (profitMultiple: number): string => {
+  if (Math.abs(profitMultiple - 1) < 1e-6) return 'Evens';
+
+  let [prevNumerator, numerator] = [0, 1];
+  let [prevDenominator, denominator] = [1, 0];
+  let remainder = profitMultiple;
+
+  for (let i = 0; i < 20; i++) {
+    const whole = Math.floor(remainder);
+    const nextNumerator = whole * numerator + prevNumerator;
+    const nextDenominator = whole * denominator + prevDenominator;
+    if (nextDenominator > MAX_FRACTION_DENOMINATOR) break;
+
+    [prevNumerator, numerator] = [numerator, nextNumerator];
+    [prevDenominator, denominator] = [denominator, nextDenominator];
+
+    const fractional = remainder - whole;
+    if (fractional < 1e-6 || Math.abs(numerator / denominator - profitMultiple) < 1e-6) break;
+    remainder = 1 / fractional;
+  }
+
+  return `${numerator}/${denominator}`;
+};
+
+/**
+ * Renders a price in the requested format regardless of the format it was quoted in.
+ * Prices with no payout, like an empty parlay, render as a dash.
+ */
+export const formatOdds = (price: Price, format: OddsFormat): string => {
+  const decimalOdds = convertOdds(price.odds, price.oddsFormat, 'decimal');
+  if (!(decimalOdds > 1)) return '—';
+
+  switch (format) {
+    case 'american': {
+      const americanOdds = Math.round(convertOdds(decimalOdds, 'decimal', 'american'));
+      return `${americanOdds > 0 ? '+' : ''}${americanOdds}`;
+    }
+    case 'decimal':
+      return decimalOdds.toFixed(2);
+    case 'fractional':
+      return toFraction(decimalOdds - 1);
+  }
+};
+
+/**
+ * e.g. "52.4%"
+ */
+export const formatImpliedProbability = (probability: number): string =>
+  `${(probability * 100).toFixed(1)}%`;
+
+export const getPriceImpliedProbability = (price: Price): number =>
+  getImpliedProbability(convertOdds(price.odds, price.oddsFormat, 'decimal'));
@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import { convertOdds } from '@betthink/shared';
+import { logger } from '@/utils/logger';
+import { getImpliedProbability } from '@/utils/lineShopping';
+import type { OddsUpdate, SportsbookOdds } from '@/types/bet';
+
+type Price = Pick<SportsbookOdds, 'odds' | 'oddsFormat'>;
+
+export type OddsMovementDirection = 'up' | 'down' | 'none';
+
+export interface OddsMovement {
+  /** `up` when the price lengthened (pays more), `down` when it shortened */
+  direction: OddsMovementDirection;
+  /** Change in implied probability; positive when the price got worse for the bettor */
+  probabilityChange: number;
+}
+
+const oddsUpdateSchema = z.object({
+  recommendationId: z.string().min(1),
+  sportsbookId: z.string().min(1),
+  odds: z.number().finite(),
+  oddsFormat: z.enum(['decimal', 'american', 'fractional']),
+  updatedAt: z.string().optional(),
+});
+
+/**
+ * Reads an `odds_update` SSE event. Returns null for malformed payloads.
+ */
+export const parseOddsUpdate = (
+  payload: unknown,
+  receivedAt: Date = new Date()
+): OddsUpdate | null => {
+  const result = oddsUpdateSchema.safeParse(payload);
+
+  if (!result.success) {
+    logger.warn('Ignoring malformed odds_update event', {
+      issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+    return null;
+  }
+
+  return { ...result.data, updatedAt: result.data.updatedAt ?? receivedAt.toISOString() };
+};
+
+export const getOddsMovement = (from: Price, to: Price): OddsMovement => {
+  const fromDecimal = convertOdds(from.odds, from.oddsFormat, 'decimal');
+  const toDecimal = convertOdds(to.odds, to.oddsFormat, 'decimal');
+
+  return {
+    direction: toDecimal > fromDecimal ? 'up' : toDecimal < fromDecimal ? 'down' : 'none',
+    probabilityChange: getImpliedProbability(toDecimal) - getImpliedProbability(fromDecimal),
+  };
+};
+
+/**
+ * Whether a move is big enough that the user must accept the new price.
+ * `tolerance` is in implied probability, e.g. 0.01 for one percentage point.
+ */
+export const exceedsTolerance = (movement: OddsMovement, tolerance: number): boolean =>
+  movement.direction !== 'none' && Math.abs(movement.probabilityChange) > tolerance + 1e-9;
@@ -0,0 +1,53 @@
+import { convertOdds } from '@betthink/shared';
+import type { BetRecommendation } from '@/types/bet';
+
+export interface ParlayQuote {
+  decimalOdds: number;
+  americanOdds: number;
+  potentialPayout: number;
+  // Groups of leg ids that come from the same event and are likely correlated
+  correlatedLegGroups: string[][];
+  // True when the legs point at more than one sportsbook
+  hasMixedSportsbooks: boolean;
+}
+
+const roundTo = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+const eventKey = (leg: BetRecommendation): string =>
+  `${leg.event.trim().toLowerCase()}|${leg.eventDate}`;
+
+/**
+ * Finds legs that share an event. Most sportsbooks reject or reprice
+ * same-game parlays, so the slip flags them instead of hiding them.
+ */
+export const findCorrelatedLegs = (legs: BetRecommendation[]): string[][] => {
+  const byEvent = new Map<string, string[]>();
+
+  legs.forEach((leg) => {
+    const key = eventKey(leg);
+    byEvent.set(key, [...(byEvent.get(key) || []), leg.id]);
+  });
+
+  return Array.from(byEvent.values()).filter((ids) => ids.length > 1);
+};
+
+/**
+ * Combines the legs of a parlay into a single price and payout
+ */
+export const quoteParlay = (legs: BetRecommendation[], stake: number): ParlayQuote => {
+  const decimalOdds = legs.reduce(
+    (product, leg) => product * convertOdds(leg.odds, leg.oddsFormat, 'decimal'),
+    1
+  );
+
+  return {
+    decimalOdds: roundTo(decimalOdds, 2),
+    americanOdds: legs.length > 0 ? Math.round(convertOdds(decimalOdds, 'decimal', 'american')) : 0,
+    potentialPayout: roundTo(stake * decimalOdds, 2),
+    correlatedLegGroups: findCorrelatedLegs(legs),
+    hasMixedSportsbooks: new Set(legs.map((leg) => leg.sportsbook.id)).size > 1,
+  };
+};
@@ -0,0 +1,133 @@
+import { getBetProfit } from '@/utils/settlement';
+import { getAmountCurrency } from '@/utils/money';
+import type { BetLedgerEntry, BetRecommendation, BetSettlement, CurrencyCode } from '@/types/bet';
+
+export type PerformanceDimension = 'sport' | 'league' | 'betType' | 'sportsbook';
+
+export interface PerformanceStats {
+  bets: number;
+  won: number;
+  lost: number;
+  pushed: number;
+  /** Total staked on bets that had action; void bets are excluded */
+  staked: number;
+  profit: number;
+  /** Wins over decided bets (won + lost); null before any bet is decided */
+  winRate: number | null;
+  /** Profit over amount staked; null before anything has been staked */
+  roi: number | null;
+}
+
+export interface PerformanceGroup extends PerformanceStats {
+  key: string;
+}
+
+export interface ProfitPoint {
+  settledAt: string;
+  /** Cumulative profit after this bet */
+  profit: number;
+}
+
+export interface PerformanceSummary extends PerformanceStats {
+  unitsWon: number | null;
+  breakdown: Record<PerformanceDimension, PerformanceGroup[]>;
+  profitSeries: ProfitPoint[];
+  /** Settled bets left out because they were placed in another currency */
+  otherCurrencyBets: number;
+}
+
+type SettledEntry = BetLedgerEntry & {
+  recommendation: BetRecommendation;
+  settlement: BetSettlement;
+};
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+const isSettled = (entry: BetLedgerEntry): entry is SettledEntry =>
+  entry.settlement !== null && entry.recommendation !== null;
+
+const getDimensionKey = (
+  recommendation: BetRecommendation,
+  dimension: PerformanceDimension
+): string =>
+  dimension === 'sportsbook' ? recommendation.sportsbook.name : recommendation[dimension];
+
+const summarize = (entries: SettledEntry[]): PerformanceStats => {
+  let won = 0;
+  let lost = 0;
+  let pushed = 0;
+  let staked = 0;
+  let profit = 0;
+
+  for (const entry of entries) {
+    const { status } = entry.settlement;
+    if (status === 'won') won += 1;
+    if (status === 'lost') lost += 1;
+    if (status === 'push') pushed += 1;
+    if (status !== 'void') staked += entry.recommendation.stake;
+    profit += getBetProfit(entry) ?? 0;
+  }
+
+  const decided = won + lost;
+  return {
+    bets: entries.length,
+    won,
+    lost,
+    pushed,
+    staked: roundToCents(staked),
+    profit: roundToCents(profit),
+    winRate: decided > 0 ? won / decided : null,
+    roi: staked > 0 ? profit / staked : null,
+  };
+};
+
+const groupBy = (entries: SettledEntry[], dimension: PerformanceDimension): PerformanceGroup[] => {
+  const groups = new Map<string, SettledEntry[]>();
+
+  for (const entry of entries) {
+    const key = getDimensionKey(entry.recommendation, dimension);
+    groups.set(key, [...(groups.get(key) ?? []), entry]);
+  }
+
+  return Array.from(groups, ([key, group]) => ({ key, ...summarize(group) })).sort(
+    (a, b) => b.profit - a.profit
+  );
+};
+
+/**
+ * P&L over graded bets. Bets without a recommendation snapshot have no known stake
+ * and are left out entirely. `unitSize` converts profit to units; pass 0 to skip.
+ * Amounts in different currencies can't be added up, so with `currency` set only
+ * bets placed in that currency are counted.
+ */
+export const summarizePerformance = (
+  entries: BetLedgerEntry[],
+  unitSize: number,
+  currency?: CurrencyCode
+): PerformanceSummary => {
+  const allSettled = entries.filter(isSettled);
+  const settled = allSettled
+    .filter((entry) => !currency || getAmountCurrency(entry.recommendation) === currency)
+    .sort((a, b) => a.settlement.settledAt.localeCompare(b.settlement.settledAt));
+
+  let runningProfit = 0;
+  const profitSeries = settled.map((entry) => {
+    runningProfit += getBetProfit(entry) ?? 0;
+    return { settledAt: entry.settlement.settledAt, profit: roundToCents(runningProfit) };
+  });
+
+  const stats = summarize(settled);
+
+  return {
+    ...stats,
+    unitsWon: unitSize > 0 ? roundToCents(stats.profit / unitSize) : null,
+    breakdown: {
+      sport: groupBy(settled, 'sport'),
+      league: groupBy(settled, 'league'),
+      betType: groupBy(settled, 'betType'),
+      sportsbook: groupBy(settled, 'sportsbook'),
+    },
+    profitSeries,
+    otherCurrencyBets: allSettled.length - settled.length,
+  };
+};
@@ -0,0 +1,82 @@
+import { z } from 'zod';
+import { logger } from '@/utils/logger';
+import type { BetRecommendation } from '@/types/bet';
+
+const sportsbookSchema = z
+  .object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    deepLinkScheme: z.string().min(1),
+    deepLinkPath: z.string().optional(),
+    appStoreUrl: z.string().optional(),
+    playStoreUrl: z.string().optional(),
+  })
+  .passthrough();
+
+const betRecommendationSchema = z.object({
+  id: z.string().min(1),
+  sport: z.string(),
+  league: z.string(),
+  event: z.string().min(1),
+  eventDate: z.string(),
+  betType: z.string(),
+  selection: z.string().min(1),
+  odds: z.number().finite(),
+  oddsFormat: z.enum(['decimal', 'american', 'fractional']),
+  stake: z.number().nonnegative(),
+  potentialPayout: z.number().nonnegative(),
+  currency: z
+    .string()
+    .regex(/^[A-Z]{3}$/)
+    .default('USD'),
+  sportsbook: sportsbookSchema,
+  reasoning: z.string().default(''),
+  confidence: z.number().default(0),
+});
+
+/**
+ * Validates an inline recommendation payload from an `llm_complete` event.
+ * Accepts a single object or an array; invalid entries are dropped rather than
+ * failing the whole message.
+ */
+export const parseBetRecommendations = (payload: unknown): BetRecommendation[] => {
+  if (payload === undefined || payload === null) return [];
+
+  const items = Array.isArray(payload) ? payload : [payload];
+  const recommendations: BetRecommendation[] = [];
+
+  for (const item of items) {
+    const result = betRecommendationSchema.safeParse(item);
+
+    if (result.success) {
+      recommendations.push(result.data as BetRecommendation);
+    } else {
+      logger.warn('Dropping invalid inline bet recommendation', {
+        issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+      });
+    }
+  }
+
+  return recommendations;
+};
+
+/**
+ * Reads the recommendations attached to a chat message's metadata.
+ * Supports both the inline `betRecommendations` list and the legacy single `betRecommendation`.
+ */
+export const getMessageRecommendations = (metadata?: {
+  betRecommendation?: unknown;
+  betRecommendations?: unknown;
+}): BetRecommendation[] => {
+  if (!metadata) return [];
+
+  if (Array.isArray(metadata.betRecommendations)) {
+    return metadata.betRecommendations as BetRecommendation[];
+  }
+
+  if (metadata.betRecommendation) {
+    return [metadata.betRecommendation as BetRecommendation];
+  }
+
+  return [];
+};
@@ -0,0 +1,161 @@
+import { subDays, subMonths, subWeeks } from 'date-fns';
+import type { CurrencyCode } from '@/types/bet';
+
+export type LimitPeriod = 'daily' | 'weekly' | 'monthly';
+
+export const LIMIT_PERIODS: LimitPeriod[] = ['daily', 'weekly', 'monthly'];
+
+/** Maximum total stake per rolling period; null means no limit */
+export type StakeLimits = Record<LimitPeriod, number | null>;
+
+export interface PendingLimitChange {
+  amount: number | null;
+  effectiveAt: string;
+}
+
+export interface ResponsibleGamblingSettings {
+  stakeLimits: StakeLimits;
+  /** Currency every limit is in; only stakes in it count toward them */
+  limitCurrency: CurrencyCode;
+  /** Loosened limits waiting out the cooling period before they apply */
+  pendingLimitChanges: Partial<Record<LimitPeriod, PendingLimitChange>>;
+  coolOffUntil: string | null;
+  selfExcludedUntil: string | null;
+}
+
+export interface StakeRecord {
+  confirmedAt: string;
+  stake: number;
+  currency: CurrencyCode;
+}
+
+/** Why a bet was refused, with what the user needs to know; screens word it */
+export type BetLimitRefusal =
+  | { reason: 'self-exclusion' | 'cool-off'; until: string }
+  | {
+      reason: 'stake-limit';
+      period: LimitPeriod;
+      limit: number;
+      remaining: number;
+      currency: CurrencyCode;
+    }
+  /** Limits can't be checked against stakes in another currency without a rate to convert at */
+  | { reason: 'currency-mismatch'; currency: CurrencyCode };
+
+export type BetBlockReason = BetLimitRefusal['reason'];
+
+export type BetLimitCheck = { allowed: true } | ({ allowed: false } & BetLimitRefusal);
+
+/** Raising or removing a limit only takes effect after this delay; lowering is immediate */
+export const LIMIT_INCREASE_DELAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Start of the rolling window a limit applies to
+ */
+export const getPeriodStart = (period: LimitPeriod, now: Date): Date => {
+  switch (period) {
+    case 'daily':
+      return subDays(now, 1);
+    case 'weekly':
+      return subWeeks(now, 1);
+    case 'monthly':
+      return subMonths(now, 1);
+  }
+};
+
+/**
+ * Whether moving from `current` to `next` loosens the limit
+ */
+export const isLimitIncrease = (current: number | null, next: number | null): boolean => {
+  if (current === null) return false;
+  return next === null || next > current;
+};
+
+/**
+ * Limits in force at `now`, with pending increases applied once their delay has passed
+ */
+export const getEffectiveStakeLimits = (
+  settings: ResponsibleGamblingSettings,
+  now: Date
+): StakeLimits => {
+  const limits = { ...settings.stakeLimits };
+
+  for (const period of LIMIT_PERIODS) {
+    const pending = settings.pendingLimitChanges[period];
+    if (pending && new Date(pending.effectiveAt) <= now) {
+      limits[period] = pending.amount;
+    }
+  }
+
+  return limits;
+};
+
+const hasStakeLimits = (settings: ResponsibleGamblingSettings): boolean =>
+  LIMIT_PERIODS.some(
+    (period) =>
+      settings.stakeLimits[period] !== null || settings.pendingLimitChanges[period] !== undefined
+  );
+
+/**
+ * Currency new limits are entered in: the existing limits' currency while any is set or
+ * pending, else `fallback`, the user's currency
+ */
+export const getLimitCurrency = (
+  settings: ResponsibleGamblingSettings,
+  fallback: CurrencyCode
+): CurrencyCode => (hasStakeLimits(settings) ? settings.limitCurrency : fallback);
+
+const isActiveUntil = (until: string | null, now: Date): until is string =>
+  until !== null && new Date(until) > now;
+
+/**
+ * Decide whether a new bet of `stake` in `currency` may be placed, given the stakes
+ * already confirmed in the longest limit window
+ */
+export const checkBetAllowed = (
+  stake: number,
+  currency: CurrencyCode,
+  recentStakes: StakeRecord[],
+  settings: ResponsibleGamblingSettings,
+  now: Date = new Date()
+): BetLimitCheck => {
+  if (isActiveUntil(settings.selfExcludedUntil, now)) {
+    return { allowed: false, reason: 'self-exclusion', until: settings.selfExcludedUntil };
+  }
+
+  if (isActiveUntil(settings.coolOffUntil, now)) {
+    return { allowed: false, reason: 'cool-off', until: settings.coolOffUntil };
+  }
+
+  const limits = getEffectiveStakeLimits(settings, now);
+
+  for (const period of LIMIT_PERIODS) {
+    const limit = limits[period];
+    if (limit === null) continue;
+
+    if (currency !== settings.limitCurrency) {
+      return { allowed: false, reason: 'currency-mismatch', currency: settings.limitCurrency };
+    }
+
+    const periodStart = getPeriodStart(period, now);
+    const staked = recentStakes
+      .filter(
+        (record) =>
+          record.currency === settings.limitCurrency && new Date(record.confirmedAt) >= periodStart
+      )
+      .reduce((total, record) => total + record.stake, 0);
+
+    if (staked + stake > limit) {
+      return {
+        allowed: false,
+        reason: 'stake-limit',
+        period,
+        limit,
+        remaining: Math.max(limit - staked, 0),
+        currency,
+      };
+    }
+  }
+
+  return { allowed: true };
+};
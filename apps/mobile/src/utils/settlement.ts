@@ -0,0 +1,48 @@
+import { z } from 'zod';
+import { logger } from '@/utils/logger';
+import type { BetLedgerEntry, BetSettlement } from '@/types/bet';
+
+const betResultNotificationSchema = z.object({
+  betId: z.string().min(1),
+  status: z.enum(['won', 'lost', 'push', 'void']),
+  payout: z.coerce.number().nonnegative(),
+  settledAt: z.string().optional(),
+});
+
+/**
+ * Reads the settlement carried by a `bet_result` push notification.
+ * Returns null when the payload is incomplete, in which case the next sync picks it up.
+ */
+export const parseBetResultNotification = (
+  data: Record<string, unknown> | undefined,
+  receivedAt: Date = new Date()
+): BetSettlement | null => {
+  const result = betResultNotificationSchema.safeParse(data ?? {});
+
+  if (!result.success) {
+    logger.warn('Ignoring incomplete bet_result notification', {
+      issues: result.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`),
+    });
+    return null;
+  }
+
+  const { betId, status, payout, settledAt } = result.data;
+  return {
+    betRecommendationId: betId,
+    status,
+    payout,
+    settledAt: settledAt ?? receivedAt.toISOString(),
+  };
+};
+
+/**
+ * Net profit of a graded bet, or null when it is still pending or its stake is unknown
+ */
+export const getBetProfit = (entry: BetLedgerEntry): number | null => {
+  if (!entry.settlement || !entry.recommendation) return null;
+
+  const { status, payout } = entry.settlement;
+  if (status === 'push' || status === 'void') return 0;
+
+  return Math.round((payout - entry.recommendation.stake) * 100) / 100;
+};
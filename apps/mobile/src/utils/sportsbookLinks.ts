@@ -0,0 +1,164 @@
+import { buildDeepLink } from '@betthink/shared';
+import {
+  DEEP_LINK_PARAMS,
+  SPORTSBOOKS,
+  findSportsbookKey,
+  type DeepLinkParam,
+  type SportsbookConfig,
+} from '@/config/sportsbooks';
+import type { BetRecommendation } from '@/types/bet';
+
+export type StorePlatform = 'ios' | 'android';
+
+/**
+ * Where to send the user for a bet, tried in order: the native app, the web bet
+ * slip, then the app store
+ */
+export interface SportsbookLinks {
+  /** Registry key, or the API's scheme for books we don't know */
+  sportsbook: string;
+  native: string;
+  web: string | null;
+  store: string | null;
+}
+
+const toQueryString = (params: Record<string, string>): string =>
+  Object.entries(params)
+    .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(value)}`)
+    .join('&');
+
+const withQuery = (url: string, params: Record<string, string>): string => {
+  const query = toQueryString(params);
+  return query ? `${url}?${query}` : url;
+};
+
+export const getStoreUrl = (config: SportsbookConfig, platform: StorePlatform): string =>
+  platform === 'ios'
+    ? `https://apps.apple.com/us/app/id${config.iosAppStoreId}`
+    : `https://play.google.com/store/apps/details?id=${config.androidPackage}`;
+
+const getWebBetSlipUrl = (config: SportsbookConfig): string | null =>
+  config.webBetSlipPath ? `${config.webUrl}${config.webBetSlipPath}` : null;
+
+/**
+ * Bet slip params in guide mode - no programmatic placement
+ */
+const getBetSlipParams = (
+  recommendation: BetRecommendation
+): Partial<Record<DeepLinkParam, string>> => ({
+  type: recommendation.betType,
+  selection: recommendation.selection,
+  odds: recommendation.odds.toString(),
+  stake: recommendation.stake.toString(),
+  mode: 'guide',
+  ...(recommendation.event && { event: recommendation.event }),
+});
+
+/**
+ * Keep only the params a book reads, prefixing them for parlay legs
+ */
+const pickParams = (
+  params: Partial<Record<DeepLinkParam, string>>,
+  supported: DeepLinkParam[],
+  prefix = ''
+): Record<string, string> =>
+  Object.fromEntries(
+    supported
+      .filter((param) => params[param] !== undefined)
+      .map((param) => [`${prefix}${param}`, params[param] as string])
+  );
+
+export const buildSportsbookLinks = (
+  recommendation: BetRecommendation,
+  platform: StorePlatform
+): SportsbookLinks => {
+  const { sportsbook } = recommendation;
+  const params = getBetSlipParams(recommendation);
+  const key = findSportsbookKey(sportsbook);
+
+  // Books outside the registry only get the link the API described
+  if (!key) {
+    return {
+      sportsbook: sportsbook.deepLinkScheme,
+      native: buildDeepLink(
+        sportsbook.deepLinkScheme,
+        sportsbook.deepLinkPath || 'bet',
+        pickParams(params, DEEP_LINK_PARAMS)
+      ),
+      web: null,
+      store: null,
+    };
+  }
+
+  const config = SPORTSBOOKS[key];
+  const supportedParams = pickParams(params, config.deepLinkParams);
+  const webBetSlipUrl = getWebBetSlipUrl(config);
+
+  return {
+    sportsbook: key,
+    native: buildDeepLink(config.deepLinkScheme, config.deepLinkPath, supportedParams),
+    web: webBetSlipUrl && withQuery(webBetSlipUrl, supportedParams),
+    store: getStoreUrl(config, platform),
+  };
+};
+
+/**
+ * Legs are numbered so the sportsbook can rebuild the slip in order
+ */
+const getParlayParams = (
+  legs: BetRecommendation[],
+  stake: number,
+  supported: DeepLinkParam[]
+): Record<string, string> => {
+  const legParams = supported.filter((param) => param !== 'stake' && param !== 'mode');
+
+  return legs.reduce<Record<string, string>>(
+    (params, leg, index) => ({
+      ...params,
+      ...pickParams(getBetSlipParams(leg), legParams, `leg${index + 1}_`),
+    }),
+    { type: 'parlay', legs: legs.length.toString(), stake: stake.toString(), mode: 'guide' }
+  );
+};
+
+/**
+ * Books that can't prefill parlays open on their home screen for the user to build the slip
+ */
+export const buildParlayLinks = (
+  legs: BetRecommendation[],
+  stake: number,
+  platform: StorePlatform
+): SportsbookLinks => {
+  const { sportsbook } = legs[0];
+  const key = findSportsbookKey(sportsbook);
+
+  if (!key) {
+    return {
+      sportsbook: sportsbook.deepLinkScheme,
+      native: buildDeepLink(
+        sportsbook.deepLinkScheme,
+        'parlay',
+        getParlayParams(legs, stake, DEEP_LINK_PARAMS)
+      ),
+      web: null,
+      store: null,
+    };
+  }
+
+  const config = SPORTSBOOKS[key];
+  const store = getStoreUrl(config, platform);
+
+  if (!config.supportsParlayDeepLink) {
+    return { sportsbook: key, native: `${config.deepLinkScheme}://`, web: config.webUrl, store };
+  }
+
+  const params = getParlayParams(legs, stake, config.deepLinkParams);
+  const webBetSlipUrl = getWebBetSlipUrl(config);
+
+  return {
+    sportsbook: key,
+    native: buildDeepLink(config.deepLinkScheme, 'parlay', params),
+    web: webBetSlipUrl && withQuery(webBetSlipUrl, params),
+    store,
+  };
+};
@@ -0,0 +1,265 @@
+/**
+ * One event from a `text/event-stream` response
+ */
+export interface SSEMessage {
+  /**
+   * The `data:` lines joined with newlines. Empty for events that only carry an id or
+   * retry delay, so the client still learns about those.
+   */
+  data: string;
+  /** The `event:` field; absent means the default `message` type */
+  event?: string;
+  /** The `id:` field; an empty id resets the last event id */
+  id?: string;
+  /** Reconnection delay from the `retry:` field, in milliseconds */
+  retry?: number;
+}
+
+export interface SSEParser {
+  /**
+   * Feed the response body as it arrives, as text or as raw UTF-8 bytes. Chunks may
+   * split lines, line endings and multi-byte characters anywhere.
+   */
+  push: (chunk: string | Uint8Array) => void;
+  /** The response has ended; an event without its closing blank line is discarded */
+  end: () => void;
+}
+
+const LINE_FEED = 10;
+const CARRIAGE_RETURN = 13;
+const BYTE_ORDER_MARK = '\uFEFF';
+const REPLACEMENT_CHARACTER = 0xfffd;
+
+/**
+ * Incremental UTF-8 decoding following the WHATWG Encoding Standard: a character split
+ * across chunks is held until the rest of it arrives, and malformed bytes become U+FFFD.
+ * Done by hand so it doesn't depend on the runtime providing a streaming `TextDecoder`.
+ */
+const createUtf8Decoder = () => {
+  let codePoint = 0;
+  let bytesNeeded = 0;
+  let bytesSeen = 0;
+  let lowerBoundary = 0x80;
+  let upperBoundary = 0xbf;
+
+  const reset = () => {
+    codePoint = 0;
+    bytesNeeded = 0;
+    bytesSeen = 0;
+    lowerBoundary = 0x80;
+    upperBoundary = 0xbf;
+  };
+
+  const toString = (codeUnits: number[]) => {
+    let text = '';
+    // Spread in slices to stay clear of argument count limits
+    for (let i = 0; i < codeUnits.length; i += 8192) {
+      text += String.fromCharCode(...codeUnits.slice(i, i + 8192));
+    }
+    return text;
+  };
+
+  return {
+    decode: (bytes: Uint8Array): string => {
+      const codeUnits: number[] = [];
+      const emit = (value: number) => {
+        if (value > 0xffff) {
+          const offset = value - 0x10000;
+          codeUnits.push(0xd800 + (offset >> 10), 0xdc00 + (offset & 0x3ff));
+        } else {
+          codeUnits.push(value);
+        }
+      };
+
+      for (let i = 0; i < bytes.length; i++) {
+        const byte = bytes[i];
+
+        if (bytesNeeded === 0) {
+          if (byte <= 0x7f) {
+            codeUnits.push(byte);
+          } else if (byte >= 0xc2 && byte <= 0xdf) {
+            bytesNeeded = 1;
+            codePoint = byte & 0x1f;
+          } else if (byte >= 0xe0 && byte <= 0xef) {
+            if (byte === 0xe0) lowerBoundary = 0xa0;
+            if (byte === 0xed) upperBoundary = 0x9f;
+            bytesNeeded = 2;
+            codePoint = byte & 0x0f;
+          } else if (byte >= 0xf0 && byte <= 0xf4) {
+            if (byte === 0xf0) lowerBoundary = 0x90;
+            if (byte === 0xf4) upperBoundary = 0x8f;
+            bytesNeeded = 3;
+            codePoint = byte & 0x07;
+          } else {
+            codeUnits.push(REPLACEMENT_CHARACTER);
+          }
+          continue;
+        }
+
+        if (byte < lowerBoundary || byte > upperBoundary) {
+          // The sequence is cut short; the byte that broke it starts over on its own
+          reset();
+          codeUnits.push(REPLACEMENT_CHARACTER);
+          i--;
+          continue;
+        }
+
+        lowerBoundary = 0x80;
+        upperBoundary = 0xbf;
+        codePoint = (codePoint << 6) | (byte & 0x3f);
+        bytesSeen++;
+
+        if (bytesSeen === bytesNeeded) {
+          emit(codePoint);
+          reset();
+        }
+      }
+
+      return toString(codeUnits);
+    },
+    reset,
+  };
+};
+
+/**
+ * Incremental parser for the `text/event-stream` format as specified by WHATWG
+ * (https://html.spec.whatwg.org/multipage/server-sent-events.html#parsing-an-event-stream).
+ * Lines may end in CRLF, LF or CR; lines starting with `:` are comments, which servers
+ * use as keep-alives; `data:` lines accumulate until a blank line dispatches the event.
+ *
+ * Each chunk is scanned once and only the unfinished line is kept between chunks, so
+ * work stays proportional to the response length however long the connection lives.
+ */
+export const createSSEParser = (onMessage: (message: SSEMessage) => void): SSEParser => {
+  const decoder = createUtf8Decoder();
+  let atStreamStart = true;
+  // Set when a chunk ended in CR, so a LF opening the next chunk completes the same CRLF
+  let afterCarriageReturn = false;
+  let lineParts: string[] = [];
+
+  let dataLines: string[] = [];
+  let eventType = '';
+  let eventId: string | undefined;
+  let retry: number | undefined;
+  let hasFields = false;
+
+  const resetEvent = () => {
+    dataLines = [];
+    eventType = '';
+    eventId = undefined;
+    retry = undefined;
+    hasFields = false;
+  };
+
+  const dispatch = () => {
+    if (!hasFields) return;
+
+    const message: SSEMessage = { data: dataLines.join('\n') };
+    if (eventType) message.event = eventType;
+    if (eventId !== undefined) message.id = eventId;
+    if (retry !== undefined) message.retry = retry;
+
+    resetEvent();
+    onMessage(message);
+  };
+
+  const processField = (field: string, value: string) => {
+    switch (field) {
+      case 'data':
+        dataLines.push(value);
+        hasFields = true;
+        break;
+      case 'event':
+        eventType = value;
+        hasFields = true;
+        break;
+      case 'id':
+        // Ids containing NULL are ignored
+        if (!value.includes('\0')) {
+          eventId = value;
+          hasFields = true;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          retry = parseInt(value, 10);
+          hasFields = true;
+        }
+        break;
+      // Unknown fields are ignored
+    }
+  };
+
+  const processLine = (line: string) => {
+    if (line === '') {
+      dispatch();
+      return;
+    }
+
+    // Comment
+    if (line.startsWith(':')) return;
+
+    const colon = line.indexOf(':');
+    if (colon === -1) {
+      processField(line, '');
+      return;
+    }
+
+    let value = line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+    processField(line.slice(0, colon), value);
+  };
+
+  const pushText = (text: string) => {
+    if (atStreamStart && text) {
+      atStreamStart = false;
+      if (text.startsWith(BYTE_ORDER_MARK)) text = text.slice(1);
+    }
+
+    let lineStart = 0;
+    for (let i = 0; i < text.length; i++) {
+      const char = text.charCodeAt(i);
+
+      if (char === LINE_FEED && afterCarriageReturn && i === 0) {
+        lineStart = 1;
+        afterCarriageReturn = false;
+        continue;
+      }
+      afterCarriageReturn = false;
+
+      if (char !== LINE_FEED && char !== CARRIAGE_RETURN) continue;
+
+      lineParts.push(text.slice(lineStart, i));
+      const line = lineParts.join('');
+      lineParts = [];
+
+      if (char === CARRIAGE_RETURN) {
+        if (i + 1 === text.length) {
+          afterCarriageReturn = true;
+        } else if (text.charCodeAt(i + 1) === LINE_FEED) {
+          i++;
+        }
+      }
+      lineStart = i + 1;
+
+      processLine(line);
+    }
+
+    if (lineStart < text.length) {
+      lineParts.push(text.slice(lineStart));
+    }
+  };
+
+  return {
+    push: (chunk) => {
+      pushText(typeof chunk === 'string' ? chunk : decoder.decode(chunk));
+    },
+    end: () => {
+      decoder.reset();
+      lineParts = [];
+      afterCarriageReturn = false;
+      atStreamStart = true;
+      resetEvent();
+    },
+  };
+};
@@ -0,0 +1,68 @@
+import { convertOdds } from '@betthink/shared';
+import type { BetRecommendation } from '@/types/bet';
+
+export type StakingStrategy = 'fixed-unit' | 'percentage' | 'kelly';
+
+export interface BankrollSettings {
+  bankroll: number;
+  strategy: StakingStrategy;
+  unitSize: number;
+  /** Share of bankroll per bet for the percentage strategy, e.g. 0.02 for 2% */
+  percentage: number;
+  /** Multiplier applied to the full Kelly stake, e.g. 0.25 for quarter Kelly */
+  kellyFraction: number;
+}
+
+const roundToCents = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Full Kelly fraction of bankroll for a bet with win probability `probability`
+ * at `decimalOdds`. Returns 0 when the bet has no positive edge.
+ */
+export const calculateKellyFraction = (probability: number, decimalOdds: number): number => {
+  const netOdds = decimalOdds - 1;
+  if (netOdds <= 0 || probability <= 0 || probability >= 1) return 0;
+
+  const fraction = (netOdds * probability - (1 - probability)) / netOdds;
+  return Math.max(fraction, 0);
+};
+
+export const calculatePayout = (
+  stake: number,
+  odds: number,
+  oddsFormat: BetRecommendation['oddsFormat']
+): number => {
+  if (!Number.isFinite(stake) || stake <= 0) return 0;
+  return roundToCents(stake * convertOdds(odds, oddsFormat, 'decimal'));
+};
+
+/**
+ * Proposed stake for a recommendation under the user's bankroll settings.
+ * Kelly sizing treats the recommendation's `confidence` as the win probability.
+ * Never exceeds the bankroll.
+ */
+export const proposeStake = (
+  recommendation: Pick<BetRecommendation, 'odds' | 'oddsFormat' | 'confidence'>,
+  settings: BankrollSettings
+): number => {
+  const { bankroll, strategy, unitSize, percentage, kellyFraction } = settings;
+  if (bankroll <= 0) return 0;
+
+  let stake: number;
+  switch (strategy) {
+    case 'fixed-unit':
+      stake = unitSize;
+      break;
+    case 'percentage':
+      stake = bankroll * percentage;
+      break;
+    case 'kelly': {
+      const decimalOdds = convertOdds(recommendation.odds, recommendation.oddsFormat, 'decimal');
+      stake =
+        bankroll * kellyFraction * calculateKellyFraction(recommendation.confidence, decimalOdds);
+      break;
+    }
+  }
+
+  return roundToCents(Math.min(Math.max(stake, 0), bankroll));
+};
@@ -0,0 +1,23 @@
+import { MMKV } from 'react-native-mmkv';
+import * as SecureStore from 'expo-secure-store';
+import type { StateStorage } from 'zustand/middleware';
+
+const preferences = new MMKV({ id: 'betthink-preferences' });
+
+/**
+ * Synchronous MMKV-backed storage for zustand `persist`
+ */
+export const preferencesStorage: StateStorage = {
+  getItem: (name) => preferences.getString(name) ?? null,
+  setItem: (name, value) => preferences.set(name, value),
+  removeItem: (name) => preferences.delete(name),
+};
+
+/**
+ * Keychain/Keystore-backed storage for settings that must not be editable on disk
+ */
+export const secureStorage: StateStorage = {
+  getItem: (name) => SecureStore.getItemAsync(name),
+  setItem: (name, value) => SecureStore.setItemAsync(name, value),
+  removeItem: (name) => SecureStore.deleteItemAsync(name),
+};
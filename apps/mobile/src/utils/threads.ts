@@ -0,0 +1,76 @@
+import type { OrganizedChatThread, ThreadListFilter } from '@/types/chat';
+
+export const ALL_THREADS: ThreadListFilter = { kind: 'all' };
+
+export const THREAD_TITLE_MAX_LENGTH = 48;
+
+/**
+ * Concise title from a message: its first sentence, cut at a word boundary when too long
+ */
+export const deriveThreadTitle = (message: string, maxLength = THREAD_TITLE_MAX_LENGTH): string => {
+  const firstLine = message.trim().split('\n')[0];
+  const sentence = (firstLine.match(/^.*?[.!?](?=\s|$)/)?.[0] ?? firstLine)
+    .replace(/\s+/g, ' ')
+    .replace(/\.+$/, '')
+    .trim();
+  const title = sentence.charAt(0).toUpperCase() + sentence.slice(1);
+  if (title.length <= maxLength) return title;
+
+  const cut = title.slice(0, maxLength - 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 0 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:-]+$/, '')}…`;
+};
+
+const matchesFilter = (thread: OrganizedChatThread, filter: ThreadListFilter): boolean => {
+  if (filter.kind === 'archived') return !!thread.archived;
+  if (thread.archived) return false;
+
+  switch (filter.kind) {
+    case 'pinned':
+      return !!thread.pinned;
+    case 'folder':
+      return thread.folderId === filter.folderId;
+    default:
+      return true;
+  }
+};
+
+const lastActivity = (thread: OrganizedChatThread): string =>
+  thread.lastMessageAt || thread.updatedAt;
+
+/**
+ * Threads shown in a list view, pinned first and then most recently active
+ */
+export const filterThreads = (
+  threads: OrganizedChatThread[],
+  filter: ThreadListFilter
+): OrganizedChatThread[] =>
+  threads
+    .filter((thread) => matchesFilter(thread, filter))
+    .sort(
+      (a, b) =>
+        Number(!!b.pinned) - Number(!!a.pinned) || lastActivity(b).localeCompare(lastActivity(a))
+    );
+
+/**
+ * Fill in organization fields the server didn't send from the local copy of each thread,
+ * so pins and folders survive a sync with a server that doesn't store them
+ */
+export const withLocalOrganization = (
+  threads: OrganizedChatThread[],
+  localThreads: OrganizedChatThread[]
+): OrganizedChatThread[] => {
+  const localById = new Map(localThreads.map((thread) => [thread.id, thread]));
+
+  return threads.map((thread) => {
+    const local = localById.get(thread.id);
+    if (!local) return thread;
+
+    return {
+      ...thread,
+      pinned: thread.pinned ?? local.pinned,
+      archived: thread.archived ?? local.archived,
+      folderId: thread.folderId === undefined ? local.folderId : thread.folderId,
+    };
+  });
+};